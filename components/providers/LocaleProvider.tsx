@@ -0,0 +1,79 @@
+'use client';
+
+import { createContext, useContext, useMemo, type ReactNode } from 'react';
+import type { WeekStart } from '../ui/Calendar/dateUtils';
+import { DEFAULT_LOCALE, getWeekStart } from '../utils/intl';
+
+/**
+ * Locale context value interface
+ */
+export interface LocaleContextValue {
+  /** BCP 47 locale tag, e.g. `'en-GB'` */
+  locale: string;
+  /** IANA time zone dates are picked in, e.g. `'America/Chicago'`. Unset means the host zone. */
+  timeZone?: string;
+  /** First day of the week — the provider's override, else derived from `locale` */
+  weekStartsOn: WeekStart;
+}
+
+const LocaleContext = createContext<LocaleContextValue | undefined>(undefined);
+
+/**
+ * LocaleProvider props
+ */
+export interface LocaleProviderProps {
+  /** Child components */
+  children: ReactNode;
+  /** BCP 47 locale tag. Inherits from an outer provider, else `'en-US'`. */
+  locale?: string;
+  /** IANA time zone. Inherits from an outer provider, else the host zone. */
+  timeZone?: string;
+  /** Override the locale's week start — `0` Sunday … `6` Saturday */
+  weekStartsOn?: WeekStart;
+}
+
+/**
+ * LocaleProvider - Default locale and time zone for BDS date and time components
+ *
+ * Calendar, DatePicker, DateRangePicker and TimePicker read their `locale`
+ * and `timeZone` defaults from the nearest provider; a prop on the component
+ * still wins. Nested providers inherit whatever they don't set, so a section
+ * of a portal can switch zone without restating the locale.
+ *
+ * @example
+ * ```tsx
+ * <LocaleProvider locale="en-GB" timeZone="Europe/London">
+ *   <App />
+ * </LocaleProvider>
+ * ```
+ */
+export function LocaleProvider({ children, locale, timeZone, weekStartsOn }: LocaleProviderProps) {
+  const parent = useContext(LocaleContext);
+  const resolvedLocale = locale ?? parent?.locale ?? DEFAULT_LOCALE;
+  const resolvedTimeZone = timeZone ?? parent?.timeZone;
+  // A parent's week start was derived from *its* locale — re-derive when the
+  // locale changes here, unless this provider pins one explicitly.
+  const resolvedWeekStart =
+    weekStartsOn ?? (locale ? getWeekStart(locale) : parent?.weekStartsOn ?? getWeekStart(resolvedLocale));
+
+  const value = useMemo<LocaleContextValue>(
+    () => ({ locale: resolvedLocale, timeZone: resolvedTimeZone, weekStartsOn: resolvedWeekStart }),
+    [resolvedLocale, resolvedTimeZone, resolvedWeekStart],
+  );
+
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+}
+
+/**
+ * Hook to read the active locale settings.
+ *
+ * Unlike `useTheme`, this works without a provider — date and time
+ * components must render standalone — and falls back to `'en-US'`, the host
+ * time zone and a Sunday week start.
+ */
+export function useLocale(): LocaleContextValue {
+  const context = useContext(LocaleContext);
+  return context ?? { locale: DEFAULT_LOCALE, timeZone: undefined, weekStartsOn: 0 };
+}
+
+export default LocaleProvider;
@@ -0,0 +1,99 @@
+/** ThemeProvider unit tests — client-theme layer merging, scoped CSS, var() resolution and data-mode-* attributes. */
+import { describe, it, expect, vi } from 'vitest';
+import { buildClientThemeLayer, renderClientThemeCss, resolveTokenValues } from './ThemeProvider';
+import { defaultTheme, getModeAttributes } from '../../tokens';
+
+const generated = {
+  client: 'acme',
+  primitives: { '--acme-primary-500': '#2563eb', '--acme-primary-300': '#7aa2f7' },
+  light: { '--background-brand-primary': 'var(--acme-primary-500)', '--text-primary': 'var(--color-grayscale-950)' },
+  dark: { '--background-brand-primary': 'var(--acme-primary-300)' },
+};
+
+describe('buildClientThemeLayer', () => {
+  it('puts primitives and light slots in the base block, dark slots on top', () => {
+    const { light, dark } = buildClientThemeLayer(undefined, generated);
+    expect(light['--acme-primary-500']).toBe('#2563eb');
+    expect(light['--background-brand-primary']).toBe('var(--acme-primary-500)');
+    expect(dark).toEqual({ '--background-brand-primary': 'var(--acme-primary-300)' });
+  });
+
+  it('lets token overrides win in both modes', () => {
+    const { light, dark } = buildClientThemeLayer({ '--background-brand-primary': '#0f766e' }, generated);
+    expect(light['--background-brand-primary']).toBe('#0f766e');
+    expect(dark['--background-brand-primary']).toBe('#0f766e');
+  });
+
+  it('drops entries that are not a single custom-property declaration', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { light } = buildClientThemeLayer({
+      color: 'red',
+      '--page-primary': '#fff; } body { display: none',
+      '--text-primary': '</style>',
+      '--text-muted': '#5c5c5c',
+    });
+    expect(light).toEqual({ '--text-muted': '#5c5c5c' });
+    expect(warn).toHaveBeenCalledTimes(3);
+    warn.mockRestore();
+  });
+});
+
+describe('renderClientThemeCss', () => {
+  const blocks = buildClientThemeLayer({ '--text-muted': '#5c5c5c' }, generated);
+
+  it('scopes both modes to the provider inside the client-theme layer', () => {
+    const css = renderClientThemeCss(blocks, ':r1:');
+    expect(css).toMatch(/^@layer client-theme \{\n {2}\[data-bds-theme-scope=":r1:"\] \{\n {4}--acme-primary-500: #2563eb;/);
+    expect(css).toContain('  :root[data-theme="dark"] [data-bds-theme-scope=":r1:"] {\n');
+    expect(css.endsWith('\n}')).toBe(true);
+  });
+
+  it('emits unlayered CSS for a null layer, and nothing without overrides', () => {
+    expect(renderClientThemeCss(blocks, 's', null)).toMatch(/^\[data-bds-theme-scope="s"\] \{\n {2}--acme/);
+    expect(renderClientThemeCss({ light: {}, dark: {} }, 's')).toBe('');
+  });
+
+  it('rejects a layer name that is not an identifier', () => {
+    expect(() => renderClientThemeCss(blocks, 's', 'client theme')).toThrow('not a valid cascade layer name');
+  });
+});
+
+describe('resolveTokenValues', () => {
+  it('follows var() chains within the map and keeps outside references', () => {
+    const { light } = buildClientThemeLayer(undefined, generated);
+    const resolved = resolveTokenValues(light);
+    expect(resolved['--background-brand-primary']).toBe('#2563eb');
+    expect(resolved['--text-primary']).toBe('var(--color-grayscale-950)');
+  });
+
+  it('falls back to a var() default when the reference is missing', () => {
+    expect(resolveTokenValues({ '--a': 'var(--missing, var(--b))', '--b': '#111111' })['--a']).toBe('#111111');
+  });
+});
+
+describe('getModeAttributes', () => {
+  it('sets no attribute for the default config', () => {
+    expect(Object.values(getModeAttributes(defaultTheme)).every((v) => v === null)).toBe(true);
+  });
+
+  it('maps each config mode to its data-mode attribute', () => {
+    expect(
+      getModeAttributes({ spacing: 'compact', typography: 'expressive', border: 'pill', elevation: 'flat' })
+    ).toEqual({
+      'data-mode-spacing': 'compact',
+      'data-mode-typography': 'expressive',
+      'data-mode-radius': 'pill',
+      'data-mode-elevation': 'flat',
+    });
+  });
+
+  it('treats the legacy `rounded` border as the soft default', () => {
+    expect(getModeAttributes({ border: 'rounded' })['data-mode-radius']).toBeNull();
+  });
+
+  it('treats the legacy typography stacks as the default scale', () => {
+    for (const typography of ['serif', 'modern', 'classic'] as const) {
+      expect(getModeAttributes({ typography })['data-mode-typography']).toBeNull();
+    }
+  });
+});
@@ -4,12 +4,16 @@ import {
   useState,
   useEffect,
   useCallback,
+  useId,
+  useMemo,
+  useRef,
   type ReactNode,
 } from 'react';
 import {
   ThemeNumber,
   BDSThemeConfig,
   defaultTheme,
+  getModeAttributes,
   getThemeClasses,
   themeMetadata,
 } from '../../tokens';
@@ -22,6 +26,8 @@ export interface ThemeContextValue {
   themeNumber: ThemeNumber;
   /** Set theme by number */
   setThemeNumber: (num: ThemeNumber) => void;
+  /** Merge config changes — e.g. `{ spacing: 'compact' }` to switch a mode */
+  updateTheme: (config: Partial<BDSThemeConfig>) => void;
   /** Get current theme classes for applying to elements */
   themeClasses: string;
   /** Full theme config object */
@@ -30,6 +36,28 @@ export interface ThemeContextValue {
   themeName: string;
   themeDescription: string;
   isDark: boolean;
+  /**
+   * Resolved values of this provider's runtime client-theme overrides in the
+   * current mode, keyed by custom property. Empty when it has none.
+   */
+  tokens: Record<string, string>;
+}
+
+/**
+ * Custom property → CSS value, e.g. `{ '--background-brand-primary': '#0f766e' }`
+ */
+export type TokenOverrides = Record<string, string>;
+
+/**
+ * A generated client theme — the `primitives`, `light` and `dark` maps that
+ * `generate-client-theme --dry-run --format json` prints, before any CSS
+ * file exists.
+ */
+export interface GeneratedClientTheme {
+  client?: string;
+  primitives?: TokenOverrides;
+  light?: TokenOverrides;
+  dark?: TokenOverrides;
 }
 
 const ThemeContext = createContext<ThemeContextValue | undefined>(undefined);
@@ -41,6 +69,10 @@ const STORAGE_KEY = 'bds-theme';
 
 /**
  * Load theme from localStorage
+ *
+ * A config saved before the modes were wired has no `elevation`; its
+ * `spacing` / `typography` / `border` are the old unwired defaults
+ * (`comfortable` is a real spacing mode now), so only its theme is kept.
  */
 function loadThemeFromStorage(): Partial<BDSThemeConfig> {
   if (typeof window === 'undefined') return {};
@@ -48,7 +80,11 @@ function loadThemeFromStorage(): Partial<BDSThemeConfig> {
   try {
     const stored = localStorage.getItem(STORAGE_KEY);
     if (stored) {
-      return JSON.parse(stored);
+      const parsed: Partial<BDSThemeConfig> = JSON.parse(stored);
+      if (!('elevation' in parsed)) {
+        return { themeNumber: parsed.themeNumber, colorMode: parsed.colorMode };
+      }
+      return parsed;
     }
   } catch (e) {
     console.warn('Failed to load theme from localStorage:', e);
@@ -69,6 +105,92 @@ function saveThemeToStorage(theme: BDSThemeConfig): void {
   }
 }
 
+// ─── Runtime client-theme layer ─────────────────────────────────────
+
+const TOKEN_NAME_RE = /^--[\w-]+$/;
+const LAYER_NAME_RE = /^[\w-]+(?:\.[\w-]+)*$/;
+const VAR_RE = /^var\(\s*(--[\w-]+)\s*(?:,\s*([\s\S]+))?\)$/;
+
+/**
+ * Drop entries that can't be a single declaration — a name that isn't a
+ * custom property, or a value that could close the rule or the `<style>`.
+ */
+function sanitizeTokens(map: TokenOverrides | undefined): TokenOverrides {
+  const out: TokenOverrides = {};
+  for (const [name, value] of Object.entries(map ?? {})) {
+    const text = String(value).trim();
+    if (!TOKEN_NAME_RE.test(name) || !text || /[;{}<]/.test(text)) {
+      console.warn(`ThemeProvider: ignoring token override ${name}: ${value}`);
+      continue;
+    }
+    out[name] = text;
+  }
+  return out;
+}
+
+/**
+ * Merge a generated client theme and a token map into the two blocks the
+ * layer emits. Mirrors `theme-{client}.css`: primitives and light slots apply
+ * in both modes, dark slots on top in dark mode. Token overrides win in both.
+ */
+export function buildClientThemeLayer(
+  tokens?: TokenOverrides,
+  clientTheme?: GeneratedClientTheme
+): { light: TokenOverrides; dark: TokenOverrides } {
+  const overrides = sanitizeTokens(tokens);
+  return {
+    light: {
+      ...sanitizeTokens(clientTheme?.primitives),
+      ...sanitizeTokens(clientTheme?.light),
+      ...overrides,
+    },
+    dark: { ...sanitizeTokens(clientTheme?.dark), ...overrides },
+  };
+}
+
+/**
+ * Render the layer as a stylesheet scoped to `[data-bds-theme-scope="{scope}"]`.
+ * `layer` names the cascade layer (`null` for unlayered). Empty string when
+ * there is nothing to override.
+ */
+export function renderClientThemeCss(
+  blocks: { light: TokenOverrides; dark: TokenOverrides },
+  scope: string,
+  layer: string | null = 'client-theme'
+): string {
+  if (layer !== null && !LAYER_NAME_RE.test(layer)) {
+    throw new Error(`ThemeProvider: "${layer}" is not a valid cascade layer name`);
+  }
+  const selector = `[data-bds-theme-scope="${scope}"]`;
+  const rule = (sel: string, map: TokenOverrides) => {
+    const decls = Object.entries(map).map(([name, value]) => `  ${name}: ${value};`);
+    return decls.length ? [`${sel} {`, ...decls, '}'] : [];
+  };
+  const rules = [
+    ...rule(selector, blocks.light),
+    ...rule(`:root[data-theme="dark"] ${selector}`, blocks.dark),
+  ];
+  if (rules.length === 0) return '';
+  return layer ? [`@layer ${layer} {`, ...rules.map((line) => `  ${line}`), '}'].join('\n') : rules.join('\n');
+}
+
+/**
+ * Follow `var()` chains inside `map`. References the map doesn't define are
+ * left as written — the provider reads those back from the DOM once mounted.
+ */
+export function resolveTokenValues(map: TokenOverrides): TokenOverrides {
+  const resolve = (value: string, depth: number): string => {
+    const m = depth < 12 ? value.match(VAR_RE) : null;
+    if (!m) return value;
+    const next = map[m[1]];
+    if (next !== undefined) return resolve(next, depth + 1);
+    return m[2] ? resolve(m[2].trim(), depth + 1) : value;
+  };
+  const out: TokenOverrides = {};
+  for (const [name, value] of Object.entries(map)) out[name] = resolve(value, 0);
+  return out;
+}
+
 /**
  * ThemeProvider props
  */
@@ -81,6 +203,12 @@ export interface ThemeProviderProps {
   persist?: boolean;
   /** Whether to apply theme classes to document body */
   applyToBody?: boolean;
+  /** Token overrides injected as a runtime client-theme layer, in both modes */
+  tokens?: TokenOverrides;
+  /** A generated client theme (`generate-client-theme --dry-run --format json`) injected the same way */
+  clientTheme?: GeneratedClientTheme;
+  /** Cascade layer for the injected overrides — `null` when the BDS tokens are unlayered */
+  layer?: string | null;
 }
 
 /**
@@ -91,6 +219,16 @@ export interface ThemeProviderProps {
  * - Each theme bundles color, typography, spacing, and border tokens
  * - localStorage persistence (optional)
  * - Automatic body class application (optional)
+ * - Non-color modes: `spacing`, `typography`, `border` and `elevation` in the
+ *   config are applied as `data-mode-*` attributes on <html>
+ * - Runtime client-theme previews: `tokens` and/or `clientTheme` are injected
+ *   as a `<style>` in the `client-theme` layer, scoped to the body (or to a
+ *   wrapper element when nested or not applying to the body)
+ *
+ * Nested providers share the outer provider's theme and `data-theme` mode —
+ * there is one `<html>` — and ignore `initialTheme`, `persist` and
+ * `applyToBody`. Each wraps its children in a scope element re-applying the
+ * theme classes, so sibling providers preview different clients side by side.
  *
  * Available Themes (class + data-theme attribute):
  * - theme-brand-brik + data-theme="light": Brik Light (default)
@@ -109,14 +247,26 @@ export interface ThemeProviderProps {
  * <ThemeProvider initialTheme={{ themeNumber: '2' }}>
  *   <App />
  * </ThemeProvider>
+ *
+ * <ThemeProvider clientTheme={generated}>
+ *   <ThemeProvider tokens={{ '--background-brand-primary': '#0f766e' }}>…</ThemeProvider>
+ * </ThemeProvider>
  * ```
  */
 export function ThemeProvider({
   children,
   initialTheme = {},
-  persist = true,
-  applyToBody = true,
+  persist: persistProp = true,
+  applyToBody: applyToBodyProp = true,
+  tokens: tokenOverrides,
+  clientTheme,
+  layer = 'client-theme',
 }: ThemeProviderProps) {
+  const parent = useContext(ThemeContext);
+  const nested = parent !== undefined;
+  const persist = persistProp && !nested;
+  const applyToBody = applyToBodyProp && !nested;
+
   // Load initial theme from storage or props
   const [theme, setTheme] = useState<BDSThemeConfig>(() => {
     const stored = persist ? loadThemeFromStorage() : {};
@@ -129,13 +279,23 @@ export function ThemeProvider({
 
   // Update theme when initialTheme prop changes (for Storybook toolbar)
   useEffect(() => {
-    if (initialTheme.themeNumber && initialTheme.themeNumber !== theme.themeNumber) {
+    if (nested) return;
+    const changed = (['themeNumber', 'spacing', 'typography', 'border', 'elevation'] as const).some(
+      (key) => initialTheme[key] !== undefined && initialTheme[key] !== theme[key]
+    );
+    if (changed) {
       setTheme((prev) => ({
         ...prev,
         ...initialTheme,
       }));
     }
-  }, [initialTheme.themeNumber]);
+  }, [
+    initialTheme.themeNumber,
+    initialTheme.spacing,
+    initialTheme.typography,
+    initialTheme.border,
+    initialTheme.elevation,
+  ]);
 
   // Generate theme classes
   const themeClasses = getThemeClasses(theme);
@@ -143,6 +303,22 @@ export function ThemeProvider({
   // Get metadata for current theme
   const metadata = themeMetadata[theme.themeNumber] || themeMetadata['brik'];
 
+  // Runtime client-theme layer. `useId` keeps the scope stable across SSR.
+  const scope = useId();
+  const scopeRef = useRef<HTMLDivElement>(null);
+  const isDark = nested ? parent.isDark : metadata.isDark;
+  const blocks = useMemo(
+    () => buildClientThemeLayer(tokenOverrides, clientTheme),
+    [tokenOverrides, clientTheme]
+  );
+  const css = useMemo(() => renderClientThemeCss(blocks, scope, layer), [blocks, scope, layer]);
+  const wrapped = nested || (!applyToBody && css !== '');
+  const modeTokens = useMemo(
+    () => (isDark ? { ...blocks.light, ...blocks.dark } : blocks.light),
+    [blocks, isDark]
+  );
+  const [computedTokens, setComputedTokens] = useState<Record<string, string> | null>(null);
+
   // Apply theme to body
   useEffect(() => {
     if (!applyToBody || typeof document === 'undefined') return;
@@ -187,6 +363,13 @@ export function ThemeProvider({
       html.removeAttribute('data-theme');
     }
 
+    // Non-color modes ride on <html> like data-theme; a default mode
+    // removes its attribute so the figma-tokens.css base applies.
+    for (const [attr, mode] of Object.entries(getModeAttributes(theme))) {
+      if (mode) html.setAttribute(attr, mode);
+      else html.removeAttribute(attr);
+    }
+
     // Dispatch custom event for other scripts
     document.dispatchEvent(
       new CustomEvent('bds-theme-changed', {
@@ -195,6 +378,34 @@ export function ThemeProvider({
     );
   }, [theme, applyToBody]);
 
+  // Mark the body as the scope the injected layer targets
+  useEffect(() => {
+    if (!applyToBody || css === '' || typeof document === 'undefined') return;
+    document.body.setAttribute('data-bds-theme-scope', scope);
+    return () => document.body.removeAttribute('data-bds-theme-scope');
+  }, [applyToBody, css, scope]);
+
+  // Read the overrides back from the DOM, so references to BDS tokens outside
+  // the map (`var(--color-grayscale-950)`) resolve too. Declared after the
+  // body effects so the attributes are in place; nested scopes re-read when
+  // the outer provider announces a theme change.
+  useEffect(() => {
+    const el = wrapped ? scopeRef.current : applyToBody ? document.body : null;
+    if (!el || css === '') {
+      setComputedTokens(null);
+      return;
+    }
+    const read = () => {
+      const style = getComputedStyle(el);
+      const values: Record<string, string> = {};
+      for (const name of Object.keys(modeTokens)) values[name] = style.getPropertyValue(name).trim();
+      setComputedTokens(values);
+    };
+    read();
+    document.addEventListener('bds-theme-changed', read);
+    return () => document.removeEventListener('bds-theme-changed', read);
+  }, [wrapped, applyToBody, css, modeTokens]);
+
   // Persist theme to storage
   useEffect(() => {
     if (persist) {
@@ -207,18 +418,54 @@ export function ThemeProvider({
     setTheme((prev) => ({ ...prev, themeNumber: num }));
   }, []);
 
-  const value: ThemeContextValue = {
-    themeNumber: theme.themeNumber,
-    setThemeNumber,
-    themeClasses,
-    theme,
-    themeName: metadata.name,
-    themeDescription: metadata.description,
-    isDark: metadata.isDark,
-  };
+  const updateTheme = useCallback((config: Partial<BDSThemeConfig>) => {
+    setTheme((prev) => ({ ...prev, ...config }));
+  }, []);
+
+  const tokens = useMemo(
+    () => computedTokens ?? resolveTokenValues(modeTokens),
+    [computedTokens, modeTokens]
+  );
+
+  const value: ThemeContextValue = nested
+    ? { ...parent, tokens }
+    : {
+        themeNumber: theme.themeNumber,
+        setThemeNumber,
+        updateTheme,
+        themeClasses,
+        theme,
+        themeName: metadata.name,
+        themeDescription: metadata.description,
+        isDark: metadata.isDark,
+        tokens,
+      };
+
+  // Raw HTML because React escapes `<style>` text during SSR; sanitizeTokens
+  // has already rejected anything that could leave the rule or the element.
+  const styleEl = css ? (
+    <style data-bds-client-theme={scope} dangerouslySetInnerHTML={{ __html: css }} />
+  ) : null;
 
   return (
-    <ThemeContext.Provider value={value}>{children}</ThemeContext.Provider>
+    <ThemeContext.Provider value={value}>
+      {wrapped ? (
+        <div
+          ref={scopeRef}
+          data-bds-theme-scope={scope}
+          className={getThemeClasses(nested ? parent.theme : theme).replace(/^body\s*/, '')}
+          style={{ display: 'contents' }}
+        >
+          {styleEl}
+          {children}
+        </div>
+      ) : (
+        <>
+          {styleEl}
+          {children}
+        </>
+      )}
+    </ThemeContext.Provider>
   );
 }
 
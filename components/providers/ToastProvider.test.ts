@@ -0,0 +1,44 @@
+/**
+ * ToastProvider unit tests — the queue update behind dedupe and urgency ordering.
+ */
+import { describe, it, expect } from 'vitest';
+import { upsertToast, type ToastRecord } from './ToastProvider';
+
+const toast = (id: string, urgency: ToastRecord['urgency'] = 'polite'): Omit<ToastRecord, 'version'> => ({
+  id,
+  title: id,
+  tone: 'default',
+  urgency,
+  duration: 5000,
+  dismissible: true,
+});
+const ids = (queue: ToastRecord[]) => queue.map((t) => t.id);
+
+describe('upsertToast', () => {
+  it('appends polite toasts in order', () => {
+    const queue = upsertToast(upsertToast([], toast('a')), toast('b'));
+    expect(ids(queue)).toEqual(['a', 'b']);
+  });
+
+  it('puts assertive toasts after other assertive ones, ahead of polite ones', () => {
+    let queue = upsertToast([], toast('a'));
+    queue = upsertToast(queue, toast('x', 'assertive'));
+    queue = upsertToast(queue, toast('b'));
+    queue = upsertToast(queue, toast('y', 'assertive'));
+    expect(ids(queue)).toEqual(['x', 'y', 'a', 'b']);
+  });
+
+  it('updates a known id in place and bumps its version', () => {
+    let queue = upsertToast([], toast('a'));
+    queue = upsertToast(queue, toast('b'));
+    queue = upsertToast(queue, { ...toast('a'), title: 'Updated' });
+    expect(ids(queue)).toEqual(['a', 'b']);
+    expect(queue[0]).toMatchObject({ title: 'Updated', version: 1 });
+  });
+
+  it('does not mutate the input queue', () => {
+    const queue = upsertToast([], toast('a'));
+    upsertToast(queue, toast('b'));
+    expect(ids(queue)).toEqual(['a']);
+  });
+});
@@ -0,0 +1,342 @@
+'use client';
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type FocusEvent,
+  type PointerEvent,
+  type ReactNode,
+} from 'react';
+import { Toast, type ToastTone, type ToastUrgency } from '../ui/Toast';
+import { bdsClass } from '../utils';
+
+// ─── Types ──────────────────────────────────────────────────────────────────
+
+export interface ToastOptions {
+  /**
+   * Dedupe key. Showing a toast with the id of one already queued updates
+   * that toast in place (and restarts its timer) instead of stacking a copy.
+   */
+  id?: string;
+  /** Bold title text */
+  title: ReactNode;
+  /** Description text below the title */
+  description?: ReactNode;
+  /** Valence — the Badge icon. Default `default`. */
+  tone?: ToastTone;
+  /** Which live region announces it — see `Toast`'s `urgency`. Default `polite`. */
+  urgency?: ToastUrgency;
+  /** Ms before it dismisses itself; `Infinity` keeps it until dismissed. Default the provider's `duration`. */
+  duration?: number;
+  /** Show the close button and allow swipe-to-dismiss. Default `true`. */
+  dismissible?: boolean;
+  /** Called once when the toast leaves — timer, close button, swipe or `dismiss()`. */
+  onDismiss?: () => void;
+}
+
+/** Messages for `toast.promise` — a fixed node, or one built from the result. */
+export interface ToastPromiseMessages<T> {
+  loading: ReactNode;
+  success: ReactNode | ((value: T) => ReactNode);
+  error: ReactNode | ((error: unknown) => ReactNode);
+}
+
+export interface ToastApi {
+  /** Show a toast. Returns its id. */
+  show: (options: ToastOptions) => string;
+  /** Shorthand for a `positive` toast. */
+  success: (title: ReactNode, options?: Omit<ToastOptions, 'title' | 'tone'>) => string;
+  /** Shorthand for a `negative` toast. Stays `polite` unless `urgency` says otherwise. */
+  error: (title: ReactNode, options?: Omit<ToastOptions, 'title' | 'tone'>) => string;
+  /**
+   * One toast that follows a promise — `loading` until it settles, then
+   * `success` or `error` in place. Returns the promise untouched.
+   */
+  promise: <T>(
+    promise: Promise<T>,
+    messages: ToastPromiseMessages<T>,
+    options?: Omit<ToastOptions, 'title' | 'tone' | 'duration'>,
+  ) => Promise<T>;
+  /** Dismiss one toast, or every toast when called without an id. */
+  dismiss: (id?: string) => void;
+}
+
+/** A queued toast — options resolved, plus a version bumped on every in-place update. */
+export interface ToastRecord extends Omit<ToastOptions, 'id' | 'tone' | 'urgency' | 'duration' | 'dismissible'> {
+  id: string;
+  tone: ToastTone;
+  urgency: ToastUrgency;
+  duration: number;
+  dismissible: boolean;
+  version: number;
+}
+
+const ToastContext = createContext<ToastApi | undefined>(undefined);
+
+// ─── Queue ──────────────────────────────────────────────────────────────────
+
+/**
+ * Add or update a toast. A known id is replaced in place, keeping its slot.
+ * A new `assertive` toast goes after the other assertive ones — ahead of
+ * every polite toast, so it is never queued behind routine confirmations.
+ * A new `polite` toast goes last.
+ */
+export function upsertToast(queue: ToastRecord[], record: Omit<ToastRecord, 'version'>): ToastRecord[] {
+  const at = queue.findIndex((t) => t.id === record.id);
+  if (at !== -1) {
+    const next = [...queue];
+    next[at] = { ...record, version: queue[at].version + 1 };
+    return next;
+  }
+  const added = { ...record, version: 0 };
+  if (record.urgency === 'polite') return [...queue, added];
+  const firstPolite = queue.findIndex((t) => t.urgency === 'polite');
+  const index = firstPolite === -1 ? queue.length : firstPolite;
+  return [...queue.slice(0, index), added, ...queue.slice(index)];
+}
+
+// ─── Toast item ─────────────────────────────────────────────────────────────
+
+/** Horizontal travel (px) past which a released swipe dismisses. */
+const SWIPE_DISMISS = 80;
+
+interface ToastItemProps {
+  record: ToastRecord;
+  paused: boolean;
+  onDismiss: (id: string) => void;
+}
+
+function ToastItem({ record, paused, onDismiss }: ToastItemProps) {
+  const { id, version, duration } = record;
+  const [swipe, setSwipe] = useState<number | null>(null);
+  const swipeStart = useRef<{ x: number; pointerId: number } | null>(null);
+
+  // Time left on the clock. Restarts whenever the toast is updated in place.
+  const remaining = useRef(duration);
+  useEffect(() => {
+    remaining.current = duration;
+  }, [duration, version]);
+
+  useEffect(() => {
+    if (paused || !Number.isFinite(duration)) return;
+    const started = Date.now();
+    const timer = setTimeout(() => onDismiss(id), remaining.current);
+    return () => {
+      clearTimeout(timer);
+      remaining.current -= Date.now() - started;
+    };
+  }, [paused, duration, version, id, onDismiss]);
+
+  const handlePointerDown = (e: PointerEvent<HTMLLIElement>) => {
+    if (!record.dismissible || e.button !== 0 || (e.target as HTMLElement).closest('button')) return;
+    swipeStart.current = { x: e.clientX, pointerId: e.pointerId };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLLIElement>) => {
+    if (swipeStart.current?.pointerId !== e.pointerId) return;
+    setSwipe(e.clientX - swipeStart.current.x);
+  };
+
+  const handlePointerUp = (e: PointerEvent<HTMLLIElement>) => {
+    if (swipeStart.current?.pointerId !== e.pointerId) return;
+    swipeStart.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    if (swipe !== null && Math.abs(swipe) > SWIPE_DISMISS) onDismiss(id);
+    else setSwipe(null);
+  };
+
+  return (
+    <li
+      className="bds-toast-viewport__item"
+      data-swiping={swipe !== null ? 'true' : undefined}
+      style={
+        swipe !== null
+          ? { transform: `translateX(${swipe}px)`, opacity: Math.max(0, 1 - Math.abs(swipe) / (SWIPE_DISMISS * 2)) }
+          : undefined
+      }
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+    >
+      {/* The surrounding region is the live region — strip the toast's own
+          role so it isn't announced twice. */}
+      <Toast
+        title={record.title}
+        description={record.description}
+        tone={record.tone}
+        urgency={record.urgency}
+        onDismiss={record.dismissible ? () => onDismiss(id) : undefined}
+        role={undefined}
+        aria-live={undefined}
+      />
+    </li>
+  );
+}
+
+// ─── Provider ───────────────────────────────────────────────────────────────
+
+let toastCounter = 0;
+function nextId(): string {
+  return `toast-${++toastCounter}`;
+}
+
+export interface ToastProviderProps {
+  children: ReactNode;
+  /** Toasts on screen at once; the rest wait their turn. Default `3`. */
+  maxVisible?: number;
+  /** Default ms before a toast dismisses itself. Default `5000`. */
+  duration?: number;
+  /** Accessible name of the toast region. Default `Notifications`. */
+  label?: string;
+}
+
+/**
+ * ToastProvider — queues and renders toasts raised with `useToast()`.
+ *
+ * Wrap your app once. Toasts stack in a fixed viewport at the bottom-end
+ * corner, at most `maxVisible` at a time — the rest queue and step in as
+ * visible ones leave. Timers pause while the pointer or focus is in the
+ * viewport, and a horizontal swipe dismisses.
+ *
+ * Announcements route by `urgency` into two live regions that are always
+ * mounted (a region inserted along with its content is often missed):
+ * `assertive` toasts go to the `role="alert"` region, which also stacks
+ * above the polite one, and everything else to `role="status"`.
+ *
+ * @example
+ * ```tsx
+ * <ToastProvider maxVisible={3}>
+ *   <App />
+ * </ToastProvider>
+ *
+ * const toast = useToast();
+ * toast.promise(save(), { loading: 'Saving…', success: 'Saved', error: 'Could not save' });
+ * ```
+ */
+export function ToastProvider({
+  children,
+  maxVisible = 3,
+  duration = 5000,
+  label = 'Notifications',
+}: ToastProviderProps) {
+  const [queue, setQueue] = useState<ToastRecord[]>([]);
+  const [hovered, setHovered] = useState(false);
+  const [focused, setFocused] = useState(false);
+
+  // The api reads the latest queue (for onDismiss callbacks) and default
+  // duration without changing identity.
+  const queueRef = useRef(queue);
+  queueRef.current = queue;
+  const durationRef = useRef(duration);
+  durationRef.current = duration;
+
+  const dismiss = useCallback((id?: string) => {
+    const leaving = queueRef.current.filter((t) => id === undefined || t.id === id);
+    if (leaving.length === 0) return;
+    const ids = new Set(leaving.map((t) => t.id));
+    queueRef.current = queueRef.current.filter((t) => !ids.has(t.id));
+    setQueue(queueRef.current);
+    leaving.forEach((t) => t.onDismiss?.());
+  }, []);
+
+  const api = useMemo<ToastApi>(() => {
+    const show = ({ id, tone, urgency, duration: ms, dismissible, ...rest }: ToastOptions) => {
+      const resolvedId = id ?? nextId();
+      queueRef.current = upsertToast(queueRef.current, {
+        ...rest,
+        id: resolvedId,
+        tone: tone ?? 'default',
+        urgency: urgency ?? 'polite',
+        duration: ms ?? durationRef.current,
+        dismissible: dismissible ?? true,
+      });
+      setQueue(queueRef.current);
+      return resolvedId;
+    };
+
+    return {
+      show,
+      success: (title, options) => show({ ...options, title, tone: 'positive' }),
+      error: (title, options) => show({ ...options, title, tone: 'negative' }),
+      promise: (promise, messages, options) => {
+        const id = show({ ...options, title: messages.loading, duration: Infinity, dismissible: false });
+        const settle = (tone: ToastTone, message: ReactNode) => {
+          // Dismissed while pending — don't bring it back.
+          if (queueRef.current.some((t) => t.id === id)) show({ ...options, id, title: message, tone });
+        };
+        promise.then(
+          (value) => settle('positive', typeof messages.success === 'function' ? messages.success(value) : messages.success),
+          (error) => settle('negative', typeof messages.error === 'function' ? messages.error(error) : messages.error),
+        );
+        return promise;
+      },
+      dismiss,
+    };
+  }, [dismiss]);
+
+  const visible = queue.slice(0, maxVisible);
+  const assertive = visible.filter((t) => t.urgency === 'assertive');
+  const polite = visible.filter((t) => t.urgency === 'polite');
+  const paused = hovered || focused;
+
+  const handleBlur = (e: FocusEvent<HTMLElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setFocused(false);
+  };
+
+  const renderList = (records: ToastRecord[]) =>
+    records.length > 0 && (
+      <ol className="bds-toast-viewport__list">
+        {records.map((record) => (
+          <ToastItem key={record.id} record={record} paused={paused} onDismiss={dismiss} />
+        ))}
+      </ol>
+    );
+
+  return (
+    <ToastContext.Provider value={api}>
+      {children}
+      <section
+        className={bdsClass('bds-toast-viewport', queue.length === 0 && 'bds-toast-viewport--empty')}
+        aria-label={label}
+        onPointerEnter={() => setHovered(true)}
+        onPointerLeave={() => setHovered(false)}
+        onFocus={() => setFocused(true)}
+        onBlur={handleBlur}
+      >
+        <div role="alert" aria-live="assertive" aria-atomic="false">
+          {renderList(assertive)}
+        </div>
+        <div role="status" aria-live="polite" aria-atomic="false">
+          {renderList(polite)}
+        </div>
+      </section>
+    </ToastContext.Provider>
+  );
+}
+
+/**
+ * Hook to raise toasts from any component under a `ToastProvider`.
+ *
+ * @example
+ * ```tsx
+ * const toast = useToast();
+ * toast.success('Changes saved');
+ * toast.error('Could not save', { description: 'Check your connection.', urgency: 'assertive' });
+ * ```
+ */
+export function useToast(): ToastApi {
+  const context = useContext(ToastContext);
+  if (context === undefined) {
+    throw new Error('useToast must be used within a ToastProvider');
+  }
+  return context;
+}
+
+export default ToastProvider;
@@ -1,8 +1,20 @@
-export { ThemeProvider, useTheme } from './ThemeProvider';
-export type { ThemeProviderProps, ThemeContextValue } from './ThemeProvider';
+export {
+  ThemeProvider,
+  useTheme,
+  buildClientThemeLayer,
+  renderClientThemeCss,
+  resolveTokenValues,
+} from './ThemeProvider';
+export type { ThemeProviderProps, ThemeContextValue, TokenOverrides, GeneratedClientTheme } from './ThemeProvider';
 
 export { SheetStackProvider, useSheetStack, useConfigureSheet, useSheetConfig } from './SheetStackProvider';
 export type { SheetStackProviderProps, SheetStackContextValue, SheetFrame, SheetConfig } from './SheetStackProvider';
 
 export { SheetStackRenderer } from './SheetStackRenderer';
 export type { SheetStackRendererProps, RenderFrameContext } from './SheetStackRenderer';
+
+export { LocaleProvider, useLocale } from './LocaleProvider';
+export type { LocaleProviderProps, LocaleContextValue } from './LocaleProvider';
+
+export { ToastProvider, useToast } from './ToastProvider';
+export type { ToastProviderProps, ToastApi, ToastOptions, ToastPromiseMessages } from './ToastProvider';
@@ -1,10 +1,11 @@
 import { useState } from 'react';
 import type { Meta, StoryObj } from '@storybook/react-vite';
-import { expect } from 'storybook/test';
+import { expect, fn, userEvent, waitFor, within } from 'storybook/test';
 import { Board } from './Board';
 import { BoardColumn } from './BoardColumn';
 import { BoardHeader } from './BoardHeader';
 import { BoardCard } from './BoardCard';
+import { useBoardState, type BoardColumns, type BoardMove } from './useBoardState';
 import { Tag } from '../Tag';
 import { Badge } from '../Badge';
 
@@ -389,3 +390,207 @@ export const WithFullBoard: Story = {
   name: 'Full Board View',
   render: () => <FullBoardViewExample />,
 };
+
+// ─── Drag and drop ───────────────────────────────────────────────────────────
+
+interface DragTask {
+  id: string;
+  title: string;
+  due: string;
+}
+
+const DRAG_COLUMNS = [
+  { id: 'rebecca', name: 'Rebecca', role: 'Maintenance', avatar: AVATARS.rebecca, wipLimit: 4 },
+  { id: 'john', name: 'John', role: 'Maintenance', avatar: AVATARS.john, wipLimit: 3 },
+  { id: 'sarah', name: 'Sarah', role: 'Clinician', avatar: AVATARS.sarah, wipLimit: 4 },
+];
+
+// Module-level so `useBoardState` sees a stable source of truth.
+const DRAG_TASKS: BoardColumns<DragTask> = {
+  rebecca: [
+    { id: 'r1', title: 'Refill hand sanitizer stations', due: 'Due today' },
+    { id: 'r2', title: 'Clean countertops and surfaces', due: 'Due today' },
+  ],
+  john: [
+    { id: 'j1', title: 'Empty trash bins and replace liners', due: 'Due today' },
+    { id: 'j2', title: 'Restock cleaning supplies', due: 'Due tomorrow' },
+    { id: 'j3', title: 'Check autoclave logs', due: 'Due 11:00 AM' },
+  ],
+  sarah: [
+    { id: 's1', title: 'Sterilize instruments', due: 'Due 9:00 AM' },
+    { id: 's2', title: 'Patient room prep', due: 'Due 10:00 AM' },
+  ],
+};
+
+function DragBoardExample({
+  onMove,
+  failCardId,
+  throwOnMove = false,
+}: {
+  onMove?: (move: BoardMove) => void;
+  /** The simulated server rejects moves of this card. */
+  failCardId?: string;
+  /** `onMove` throws synchronously instead of saving. */
+  throwOnMove?: boolean;
+}) {
+  const board = useBoardState({
+    columns: DRAG_TASKS,
+    getCardId: (task) => task.id,
+    onMove: async (move) => {
+      onMove?.(move);
+      await new Promise((resolve) => setTimeout(resolve, 400));
+      if (move.cardId === failCardId) throw new Error('Move rejected');
+    },
+  });
+
+  return (
+    <Board
+      onMove={
+        throwOnMove
+          ? () => {
+              throw new Error('Move rejected');
+            }
+          : board.move
+      }
+      style={{ height: '560px' }}
+    >
+      {DRAG_COLUMNS.map((column) => (
+        <BoardColumn
+          key={column.id}
+          columnId={column.id}
+          wipLimit={column.wipLimit}
+          count={board.columns[column.id].length}
+          aria-label={column.name}
+          style={{ backgroundColor: 'var(--surface-secondary)' }}
+        >
+          <BoardHeader
+            name={column.name}
+            subtitle={column.role}
+            avatarSrc={column.avatar}
+            style={{ backgroundColor: 'transparent' }}
+          />
+          {board.columns[column.id].map((task) => (
+            <BoardCard
+              key={task.id}
+              cardId={task.id}
+              title={task.title}
+              subtitle={task.due}
+              density="compact"
+              accentColor="var(--background-brand-primary)"
+              tags={<Tag size="sm">Daily</Tag>}
+            />
+          ))}
+        </BoardColumn>
+      ))}
+    </Board>
+  );
+}
+
+/**
+ * Cards move between columns and reorder within one — drag with the
+ * pointer, or focus a card and press Space to lift, arrow keys to move,
+ * Space to drop, Escape to cancel. Each step is announced. Columns carry
+ * WIP limits, shown in their `BoardHeader`; John's column is full, so
+ * drops into it are refused. `useBoardState` applies moves optimistically
+ * — the simulated server here rejects any move of "Check autoclave logs",
+ * which snaps back to where it came from.
+ *
+ * @summary Drag-and-drop board — pointer, keyboard, WIP limits, rollback
+ */
+export const DragAndDrop: Story = {
+  render: () => <DragBoardExample failCardId="j3" />,
+};
+
+/**
+ * Space lifts, ArrowDown steps a slot, ArrowLeft crosses to the previous
+ * column, Space drops — `onMove` reports the move and focus stays on the
+ * card in its new column.
+ * @summary Play-function interaction test
+ */
+export const InteractionTestBoardKeyboardMove: Story = {
+  tags: ['!manifest', 'interaction-test'],
+  args: { onMove: fn() },
+  render: (args) => <DragBoardExample onMove={args.onMove} />,
+  play: async ({ canvasElement, args }) => {
+    const canvas = within(canvasElement);
+    const card = canvas.getByRole('group', { name: 'Sterilize instruments' });
+
+    card.focus();
+    await userEvent.keyboard(' ');
+    await expect(canvasElement.querySelector('.bds-board__live')).toHaveTextContent('Picked up Sterilize instruments, position 1 of 2 in Sarah');
+
+    await userEvent.keyboard('{ArrowDown}{ArrowLeft}{ArrowLeft}');
+    await expect(canvasElement.querySelector('.bds-board__live')).toHaveTextContent('position 2 of 3 in Rebecca');
+    await userEvent.keyboard(' ');
+
+    await expect(args.onMove).toHaveBeenCalledWith({ cardId: 's1', fromColumn: 'sarah', toColumn: 'rebecca', index: 1 });
+    const rebecca = canvas.getByRole('group', { name: 'Rebecca' });
+    await waitFor(() => expect(within(rebecca).getByRole('group', { name: 'Sterilize instruments' })).toHaveFocus());
+  },
+};
+
+/**
+ * John's column is at its limit of 3 — the header badge reads 3 / 3, the
+ * move over is announced as refused, and dropping leaves the card put.
+ * @summary Play-function interaction test
+ */
+export const InteractionTestBoardWipLimit: Story = {
+  tags: ['!manifest', 'interaction-test'],
+  args: { onMove: fn() },
+  render: (args) => <DragBoardExample onMove={args.onMove} />,
+  play: async ({ canvasElement, args }) => {
+    const canvas = within(canvasElement);
+    const john = canvas.getByRole('group', { name: 'John' });
+    await expect(within(john).getByText('3 / 3 WIP')).toBeInTheDocument();
+
+    canvas.getByRole('group', { name: 'Refill hand sanitizer stations' }).focus();
+    await userEvent.keyboard(' {ArrowRight}');
+    await expect(canvasElement.querySelector('.bds-board__live')).toHaveTextContent('John is at its limit of 3.');
+    await userEvent.keyboard(' ');
+
+    await expect(args.onMove).not.toHaveBeenCalled();
+    const rebecca = canvas.getByRole('group', { name: 'Rebecca' });
+    await expect(within(rebecca).getByRole('group', { name: 'Refill hand sanitizer stations' })).toBeInTheDocument();
+  },
+};
+
+/**
+ * The move shows immediately; when the server rejects it the card returns
+ * to its original column and position, and the failure is announced.
+ * @summary Play-function interaction test
+ */
+export const InteractionTestBoardRollback: Story = {
+  tags: ['!manifest', 'interaction-test'],
+  render: () => <DragBoardExample failCardId="s2" />,
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    canvas.getByRole('group', { name: 'Patient room prep' }).focus();
+    await userEvent.keyboard(' {ArrowLeft}{ArrowLeft} ');
+
+    const rebecca = canvas.getByRole('group', { name: 'Rebecca' });
+    await expect(within(rebecca).getByRole('group', { name: 'Patient room prep' })).toBeInTheDocument();
+
+    const sarah = canvas.getByRole('group', { name: 'Sarah' });
+    await waitFor(() => expect(within(sarah).getByRole('group', { name: 'Patient room prep' })).toBeInTheDocument(), { timeout: 2000 });
+    await expect(canvasElement.querySelector('.bds-board__live')).toHaveTextContent("Couldn't move Patient room prep. It's back in Sarah.");
+  },
+};
+
+/**
+ * An `onMove` that throws synchronously is announced as a failed move, the
+ * same as a rejected save, and the card stays where it was.
+ * @summary Play-function interaction test
+ */
+export const InteractionTestBoardThrowingMove: Story = {
+  tags: ['!manifest', 'interaction-test'],
+  render: () => <DragBoardExample throwOnMove />,
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    canvas.getByRole('group', { name: 'Patient room prep' }).focus();
+    await userEvent.keyboard(' {ArrowLeft}{ArrowLeft} ');
+
+    await expect(canvasElement.querySelector('.bds-board__live')).toHaveTextContent("Couldn't move Patient room prep. It's back in Sarah.");
+    const sarah = canvas.getByRole('group', { name: 'Sarah' });
+    await expect(within(sarah).getByRole('group', { name: 'Patient room prep' })).toBeInTheDocument();
+  },
+};
@@ -1,13 +1,46 @@
-import { type HTMLAttributes, type ReactNode } from 'react';
+'use client';
+
+import {
+  useEffect,
+  useId,
+  useMemo,
+  useRef,
+  useState,
+  type FocusEvent,
+  type HTMLAttributes,
+  type KeyboardEvent,
+  type PointerEvent,
+  type ReactNode,
+} from 'react';
 import { bdsClass } from '../../utils';
+import {
+  BoardDragContext,
+  getDropIndex,
+  isOverWipLimit,
+  stepDragTarget,
+  type BoardDrag,
+  type BoardLayoutColumn,
+} from './boardDrag';
+import type { BoardMove } from './useBoardState';
 import './Board.css';
 
+/** Pointer travel (px) before a press on a card turns into a drag. */
+const DRAG_THRESHOLD = 4;
+
+/** Presses on these start their own interaction, never a drag. */
+const INTERACTIVE = 'button, a, input, select, textarea, [role="checkbox"], [contenteditable="true"]';
+
 /**
  * Board — Horizontal kanban-style container for columns.
  *
  * Renders a horizontally scrollable flex layout. Each child should
  * be a `BoardColumn`. Columns flex equally but respect min/max widths.
  *
+ * With `onMove`, every `BoardCard` carrying a `cardId` inside a
+ * `BoardColumn` carrying a `columnId` becomes draggable — by pointer, or
+ * by keyboard (Space lifts, arrow keys move, Space drops, Escape
+ * cancels), with each step announced in a live region.
+ *
  * @example
  * ```tsx
  * <Board>
@@ -20,21 +53,347 @@ import './Board.css';
 export interface BoardProps extends HTMLAttributes<HTMLDivElement> {
   /** `BoardColumn` elements. Columns flex equally and respect their min/max widths. */
   children: ReactNode;
+  /**
+   * Called when a card is dropped somewhere new. Setting it makes cards
+   * draggable. Return a promise to have a rejection announced as a
+   * rollback — pair with `useBoardState` for optimistic ordering.
+   */
+  onMove?: (move: BoardMove) => void | Promise<unknown>;
+  /**
+   * Names the board. With an `aria-label` or `aria-labelledby` the board is
+   * a `region` landmark. A draggable board (`onMove`) is always one, labelled
+   * "Board" unless you name it; a static board without a name stays a plain
+   * container.
+   */
+  'aria-label'?: string;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+/** Columns and card order as currently rendered. */
+function readLayout(root: HTMLElement): BoardLayoutColumn[] {
+  return Array.from(root.querySelectorAll<HTMLElement>('[data-column-id]')).map((column) => ({
+    id: column.dataset.columnId!,
+    label: column.getAttribute('aria-label') ?? column.dataset.columnId!,
+    wipLimit: column.dataset.wipLimit ? Number(column.dataset.wipLimit) : undefined,
+    cardIds: Array.from(column.querySelectorAll<HTMLElement>('[data-card-id]')).map((card) => card.dataset.cardId!),
+  }));
+}
+
+function findCard(root: HTMLElement, cardId: string) {
+  return root.querySelector<HTMLElement>(`[data-card-id="${CSS.escape(cardId)}"]`);
+}
+
+function cardLabel(root: HTMLElement, cardId: string) {
+  return findCard(root, cardId)?.getAttribute('aria-label') ?? cardId;
+}
+
+/** "position 2 of 4 in In progress" — `total` counts the dragged card. */
+function positionText(index: number, column: BoardLayoutColumn, cardId: string) {
+  const total = column.cardIds.filter((id) => id !== cardId).length + 1;
+  return `position ${index + 1} of ${total} in ${column.label}`;
 }
 
+// ─── Board Component ────────────────────────────────────────────────
+
 /**
- * @summary Horizontal kanban container of BoardColumns
+ * @summary Horizontal kanban container of BoardColumns — drag-and-drop with onMove
  */
-export function Board({ children, className, style, ...props }: BoardProps) {
+export function Board({
+  children,
+  onMove,
+  className,
+  style,
+  onPointerDown,
+  onPointerMove,
+  onPointerUp,
+  onPointerCancel,
+  onKeyDown,
+  onFocus,
+  onBlur,
+  ...props
+}: BoardProps) {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const instructionsId = useId();
+  const [drag, setDrag] = useState<BoardDrag | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  const enabled = onMove !== undefined;
+  const named = props['aria-label'] !== undefined || props['aria-labelledby'] !== undefined;
+
+  // Handlers read the live drag, not the render it was created in.
+  const dragRef = useRef(drag);
+  dragRef.current = drag;
+  const press = useRef<{ cardId: string; pointerId: number; x: number; y: number } | null>(null);
+  const focusAfterDrop = useRef<string | null>(null);
+
+  const update = (next: BoardDrag | null) => {
+    dragRef.current = next;
+    setDrag(next);
+  };
+
+  // The card the drop marker sits above — whichever card holds the target
+  // index once the dragged card is left out; null at the column's end.
+  const dropBeforeOf = (layout: BoardLayoutColumn[], cardId: string, toColumn: string, toIndex: number) =>
+    layout.find((c) => c.id === toColumn)?.cardIds.filter((id) => id !== cardId)[toIndex] ?? null;
+
+  // A keyboard drop can remount the card in its new column — put focus back on it.
+  useEffect(() => {
+    const id = focusAfterDrop.current;
+    const root = rootRef.current;
+    if (!id || !root) return;
+    const card = findCard(root, id);
+    if (card && document.activeElement !== card) {
+      card.focus();
+      focusAfterDrop.current = null;
+    }
+  });
+
+  const lift = (cardId: string, mode: BoardDrag['mode']): BoardDrag | null => {
+    const layout = readLayout(rootRef.current!);
+    const column = layout.find((c) => c.cardIds.includes(cardId));
+    if (!column) return null;
+    const fromIndex = column.cardIds.indexOf(cardId);
+    const next: BoardDrag = {
+      cardId,
+      fromColumn: column.id,
+      fromIndex,
+      toColumn: column.id,
+      toIndex: fromIndex,
+      mode,
+      offset: { x: 0, y: 0 },
+      blocked: false,
+      dropBeforeId: dropBeforeOf(layout, cardId, column.id, fromIndex),
+    };
+    update(next);
+    const card = cardLabel(rootRef.current!, cardId);
+    setAnnouncement(
+      mode === 'keyboard'
+        ? `Picked up ${card}, ${positionText(fromIndex, column, cardId)}. Use the arrow keys to move, space to drop, escape to cancel.`
+        : `Picked up ${card}.`,
+    );
+    return next;
+  };
+
+  const retarget = (current: BoardDrag, toColumn: string, toIndex: number, offset = current.offset) => {
+    const layout = readLayout(rootRef.current!);
+    const column = layout.find((c) => c.id === toColumn);
+    if (!column) return;
+    const blocked = isOverWipLimit(column, current);
+    const moved = toColumn !== current.toColumn || toIndex !== current.toIndex;
+    update({
+      ...current,
+      toColumn,
+      toIndex,
+      offset,
+      blocked,
+      dropBeforeId: dropBeforeOf(layout, current.cardId, toColumn, toIndex),
+    });
+    if (!moved) return;
+    setAnnouncement(
+      blocked
+        ? `${column.label} is at its limit of ${column.wipLimit}.`
+        : `${cardLabel(rootRef.current!, current.cardId)}, ${positionText(toIndex, column, current.cardId)}.`,
+    );
+  };
+
+  const cancel = () => {
+    const current = dragRef.current;
+    if (!current) return;
+    update(null);
+    const layout = readLayout(rootRef.current!);
+    const from = layout.find((c) => c.id === current.fromColumn);
+    setAnnouncement(
+      `Move cancelled. ${cardLabel(rootRef.current!, current.cardId)} is back at ${from ? positionText(current.fromIndex, from, current.cardId) : 'its starting position'}.`,
+    );
+  };
+
+  const drop = () => {
+    const current = dragRef.current;
+    const root = rootRef.current;
+    if (!current || !root || !onMove) return;
+    const layout = readLayout(root);
+    const card = cardLabel(root, current.cardId);
+    const from = layout.find((c) => c.id === current.fromColumn);
+    const to = layout.find((c) => c.id === current.toColumn);
+
+    if (current.mode === 'keyboard') focusAfterDrop.current = current.cardId;
+
+    if (current.blocked) {
+      update(null);
+      setAnnouncement(`${to?.label ?? current.toColumn} is at its limit of ${to?.wipLimit}. ${card} stays in ${from?.label ?? current.fromColumn}.`);
+      return;
+    }
+    if (current.toColumn === current.fromColumn && current.toIndex === current.fromIndex) {
+      update(null);
+      setAnnouncement(`${card} dropped in its original position.`);
+      return;
+    }
+
+    update(null);
+    setAnnouncement(`Dropped ${card}, ${to ? positionText(current.toIndex, to, current.cardId) : current.toColumn}.`);
+    const failed = () => setAnnouncement(`Couldn't move ${card}. It's back in ${from?.label ?? current.fromColumn}.`);
+    // A synchronous throw is a failed move too — announce it, don't let it
+    // escape the pointer or keyboard handler.
+    try {
+      Promise.resolve(
+        onMove({
+          cardId: current.cardId,
+          fromColumn: current.fromColumn,
+          toColumn: current.toColumn,
+          index: current.toIndex,
+        }),
+      ).catch(failed);
+    } catch {
+      failed();
+    }
+  };
+
+  // ─── Pointer ──────────────────────────────────────────────────────
+
+  const handlePointerDown = (e: PointerEvent<HTMLDivElement>) => {
+    onPointerDown?.(e);
+    focusAfterDrop.current = null;
+    if (!enabled || e.defaultPrevented || e.button !== 0 || dragRef.current) return;
+    const target = e.target as HTMLElement;
+    const card = target.closest<HTMLElement>('[data-card-id]');
+    if (!card || target.closest(INTERACTIVE)) return;
+    press.current = { cardId: card.dataset.cardId!, pointerId: e.pointerId, x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    onPointerMove?.(e);
+    const start = press.current;
+    const root = rootRef.current;
+    if (!start || !root || e.pointerId !== start.pointerId) return;
+
+    let current = dragRef.current;
+    if (!current) {
+      if (Math.hypot(e.clientX - start.x, e.clientY - start.y) < DRAG_THRESHOLD) return;
+      // Capture only once the drag is real, so a plain click still reaches the card.
+      root.setPointerCapture(e.pointerId);
+      current = lift(start.cardId, 'pointer');
+      if (!current) return;
+    }
+
+    // Target the column under the pointer horizontally (nearest when between
+    // columns), then the slot between the cards around it.
+    const columns = Array.from(root.querySelectorAll<HTMLElement>('[data-column-id]'));
+    if (columns.length === 0) return;
+    const distance = (el: HTMLElement) => {
+      const rect = el.getBoundingClientRect();
+      return e.clientX < rect.left ? rect.left - e.clientX : e.clientX > rect.right ? e.clientX - rect.right : 0;
+    };
+    const column = columns.reduce((best, el) => (distance(el) < distance(best) ? el : best));
+    const midpoints = Array.from(column.querySelectorAll<HTMLElement>('[data-card-id]'))
+      .filter((el) => el.dataset.cardId !== start.cardId)
+      .map((el) => {
+        const rect = el.getBoundingClientRect();
+        return rect.top + rect.height / 2;
+      });
+
+    retarget(current, column.dataset.columnId!, getDropIndex(midpoints, e.clientY), {
+      x: e.clientX - start.x,
+      y: e.clientY - start.y,
+    });
+  };
+
+  const endPointer = (e: PointerEvent<HTMLDivElement>, commit: boolean) => {
+    const start = press.current;
+    if (!start || e.pointerId !== start.pointerId) return;
+    press.current = null;
+    if (dragRef.current?.mode !== 'pointer') return;
+    rootRef.current?.releasePointerCapture(e.pointerId);
+    if (commit) drop();
+    else cancel();
+  };
+
+  // ─── Keyboard ─────────────────────────────────────────────────────
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    onKeyDown?.(e);
+    const target = e.target as HTMLElement;
+    // Only the card itself — keys inside it (the completion toggle) are its own.
+    if (!enabled || e.defaultPrevented || !target.dataset.cardId) return;
+    const current = dragRef.current;
+
+    if (!current) {
+      if (e.key === ' ') {
+        e.preventDefault();
+        focusAfterDrop.current = null;
+        lift(target.dataset.cardId, 'keyboard');
+      }
+      return;
+    }
+    if (current.mode !== 'keyboard') return;
+
+    if (e.key === ' ' || e.key === 'Enter') {
+      e.preventDefault();
+      drop();
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      cancel();
+    } else {
+      const next = stepDragTarget(readLayout(rootRef.current!), current, e.key);
+      if (e.key.startsWith('Arrow')) e.preventDefault();
+      if (next) retarget(current, next.toColumn, next.toIndex);
+    }
+  };
+
+  const handleFocus = (e: FocusEvent<HTMLDivElement>) => {
+    onFocus?.(e);
+    if (focusAfterDrop.current && (e.target as HTMLElement).dataset.cardId !== focusAfterDrop.current) {
+      focusAfterDrop.current = null;
+    }
+  };
+
+  const handleBlur = (e: FocusEvent<HTMLDivElement>) => {
+    onBlur?.(e);
+    // Tabbing away mid-drag puts the card back.
+    if (dragRef.current?.mode === 'keyboard' && e.target === findCard(rootRef.current!, dragRef.current.cardId)) {
+      cancel();
+    }
+  };
+
+  const context = useMemo(() => ({ drag, instructionsId }), [drag, instructionsId]);
+
   return (
     <div
+      ref={rootRef}
       className={bdsClass('bds-board', className)}
       style={style}
-      role="region"
-      aria-label="Board"
+      role={enabled || named ? 'region' : undefined}
+      aria-label={enabled && !named ? 'Board' : undefined}
+      data-dragging={drag ? drag.mode : undefined}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={(e) => {
+        onPointerUp?.(e);
+        endPointer(e, true);
+      }}
+      onPointerCancel={(e) => {
+        onPointerCancel?.(e);
+        endPointer(e, false);
+      }}
+      onKeyDown={handleKeyDown}
+      onFocus={handleFocus}
+      onBlur={handleBlur}
       {...props}
     >
-      {children}
+      {enabled ? (
+        <BoardDragContext.Provider value={context}>{children}</BoardDragContext.Provider>
+      ) : (
+        children
+      )}
+      {enabled && (
+        <>
+          <span id={instructionsId} hidden>
+            Press space to pick up. Use the arrow keys to move, space to drop, escape to cancel.
+          </span>
+          <div className="bds-board__live" aria-live="assertive" aria-atomic="true">
+            {announcement}
+          </div>
+        </>
+      )}
     </div>
   );
 }
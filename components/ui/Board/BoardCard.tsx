@@ -1,6 +1,9 @@
-import { type HTMLAttributes, type ReactNode } from 'react';
+'use client';
+
+import { useContext, type HTMLAttributes, type ReactNode } from 'react';
 import { bdsClass } from '../../utils';
 import { CompletionToggle } from '../CompletionToggle';
+import { BoardColumnContext, BoardDragContext } from './boardDrag';
 
 /**
  * BoardCard — A task card within a BoardColumn.
@@ -13,6 +16,9 @@ import { CompletionToggle } from '../CompletionToggle';
  * primitive for circular completion controls. Same visual is reused
  * by `<Checklist>` for row-style completion lists.
  *
+ * With a `cardId`, inside a `BoardColumn` with a `columnId` under a
+ * `Board` with `onMove`, the card is draggable and joins the tab order.
+ *
  * @example
  * ```tsx
  * <BoardCard
@@ -52,6 +58,8 @@ export interface BoardCardProps extends HTMLAttributes<HTMLDivElement> {
    * `<CompletionToggle accent>` — `brand` reads as "interactive". Default `neutral`.
    */
   checkAccent?: 'neutral' | 'brand';
+  /** Identifies the card to `Board`'s `onMove`. Required for the card to be draggable. */
+  cardId?: string;
 }
 
 export function BoardCard({
@@ -64,10 +72,18 @@ export function BoardCard({
   trailingTag,
   density = 'default',
   checkAccent = 'neutral',
+  cardId,
   className,
   style,
   ...props
 }: BoardCardProps) {
+  const board = useContext(BoardDragContext);
+  const column = useContext(BoardColumnContext);
+  const draggable = board !== null && cardId !== undefined && column?.columnId !== undefined;
+  const drag = draggable ? board.drag : null;
+  const dragging = drag !== null && drag.cardId === cardId;
+  const dropBefore = drag !== null && !drag.blocked && !dragging && drag.dropBeforeId === cardId;
+
   return (
     <div
       className={bdsClass(
@@ -79,7 +95,20 @@ export function BoardCard({
       style={{
         ...style,
         ...(accentColor ? { '--bds-board-card-accent': accentColor } as React.CSSProperties : {}),
+        ...(dragging && drag.mode === 'pointer'
+          ? { transform: `translate(${drag.offset.x}px, ${drag.offset.y}px)` }
+          : {}),
       }}
+      {...(draggable && {
+        'data-card-id': cardId,
+        tabIndex: 0,
+        role: 'group',
+        'aria-roledescription': 'draggable card',
+        'aria-label': title,
+        'aria-describedby': board.instructionsId,
+        'data-dragging': dragging ? drag.mode : undefined,
+        'data-drop-before': dropBefore ? 'true' : undefined,
+      })}
       {...props}
     >
       {/* Top row: title + checkbox */}
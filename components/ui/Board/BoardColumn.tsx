@@ -1,5 +1,9 @@
-import { type HTMLAttributes, type ReactNode } from 'react';
+'use client';
+
+import { Children, isValidElement, useContext, useMemo, type HTMLAttributes, type ReactNode } from 'react';
 import { bdsClass } from '../../utils';
+import { BoardCard } from './BoardCard';
+import { BoardColumnContext, BoardDragContext } from './boardDrag';
 
 /**
  * BoardColumn — A single vertical lane within a Board.
@@ -7,6 +11,11 @@ import { bdsClass } from '../../utils';
  * Renders a column header (title + optional count) and a scrollable
  * item list. Children should be `BoardItem` components.
  *
+ * Give it a `columnId` to take part in drag-and-drop under a `Board`
+ * with `onMove`. `wipLimit` caps the cards other columns can move in —
+ * a drop that would exceed it is refused — and is shown by a
+ * `BoardHeader` inside the column.
+ *
  * @example
  * ```tsx
  * <BoardColumn title="In Progress" count={5}>
@@ -21,6 +30,10 @@ export interface BoardColumnProps extends HTMLAttributes<HTMLDivElement> {
   count?: number;
   /** Optional header action slot (e.g. add button, menu) */
   headerAction?: ReactNode;
+  /** Identifies the column to `Board`'s `onMove`. Required for its cards to be draggable. */
+  columnId?: string;
+  /** Work-in-progress limit. Moves into the column are refused once it holds this many cards. */
+  wipLimit?: number;
   children: ReactNode;
 }
 
@@ -28,15 +41,30 @@ export function BoardColumn({
   title,
   count,
   headerAction,
+  columnId,
+  wipLimit,
   children,
   className,
   style,
   ...props
 }: BoardColumnProps) {
+  const board = useContext(BoardDragContext);
+  const drag = board?.drag;
+  const cards = count ?? Children.toArray(children).filter((c) => isValidElement(c) && c.type === BoardCard).length;
+  const isTarget = drag != null && drag.toColumn === columnId;
+
+  const column = useMemo(() => ({ columnId, count: cards, wipLimit }), [columnId, cards, wipLimit]);
+
   return (
     <div
       className={bdsClass('bds-board-column', className)}
       style={style}
+      role={columnId ? 'group' : undefined}
+      aria-label={columnId ? (title ?? columnId) : undefined}
+      data-column-id={columnId}
+      data-wip-limit={wipLimit}
+      data-over-limit={wipLimit !== undefined && cards > wipLimit ? 'true' : undefined}
+      data-drop-target={isTarget ? (drag.blocked ? 'blocked' : 'true') : undefined}
       {...props}
     >
       {(title || headerAction) && (
@@ -50,8 +78,11 @@ export function BoardColumn({
           {headerAction}
         </div>
       )}
-      <div className="bds-board-column__items">
-        {children}
+      <div
+        className="bds-board-column__items"
+        data-drop-end={isTarget && !drag.blocked && drag.dropBeforeId === null ? 'true' : undefined}
+      >
+        <BoardColumnContext.Provider value={column}>{children}</BoardColumnContext.Provider>
       </div>
     </div>
   );
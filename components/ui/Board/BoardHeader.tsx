@@ -1,7 +1,11 @@
-import { type HTMLAttributes, type ReactNode } from 'react';
+'use client';
+
+import { useContext, type HTMLAttributes, type ReactNode } from 'react';
 import { bdsClass } from '../../utils';
 import { Avatar } from '../Avatar';
+import { Badge } from '../Badge';
 import { ProgressBar } from '../ProgressBar';
+import { BoardColumnContext } from './boardDrag';
 
 /**
  * BoardHeader — The header section of a BoardColumn.
@@ -10,6 +14,10 @@ import { ProgressBar } from '../ProgressBar';
  * with optional progress indicator. Sits at the top of a column
  * to identify who or what the column represents.
  *
+ * Inside a `BoardColumn` with a `wipLimit`, it shows the column's card
+ * count against the limit — neutral below it, warning at it, negative
+ * over it.
+ *
  * @example
  * ```tsx
  * <BoardHeader
@@ -31,6 +39,10 @@ export interface BoardHeaderProps extends HTMLAttributes<HTMLDivElement> {
   progress?: number;
   /** Accessible label for the progress bar */
   progressLabel?: string;
+  /** Work-in-progress limit to show. Defaults to the enclosing `BoardColumn`'s `wipLimit`. */
+  wipLimit?: number;
+  /** Cards counted against `wipLimit`. Defaults to the enclosing `BoardColumn`'s card count. */
+  wipCount?: number;
   /** Optional content rendered below the header */
   children?: ReactNode;
 }
@@ -41,11 +53,17 @@ export function BoardHeader({
   avatarSrc,
   progress,
   progressLabel,
+  wipLimit,
+  wipCount,
   children,
   className,
   style,
   ...props
 }: BoardHeaderProps) {
+  const column = useContext(BoardColumnContext);
+  const limit = wipLimit ?? column?.wipLimit;
+  const cards = wipCount ?? column?.count ?? 0;
+
   return (
     <div
       className={bdsClass('bds-board-header', className)}
@@ -62,6 +80,15 @@ export function BoardHeader({
           <p className="bds-board-header__name">{name}</p>
           {subtitle && <p className="bds-board-header__subtitle">{subtitle}</p>}
         </div>
+        {limit !== undefined && (
+          <Badge
+            className="bds-board-header__wip"
+            tone={cards > limit ? 'negative' : cards === limit ? 'warning' : 'neutral'}
+            size="sm"
+          >
+            {`${cards} / ${limit} WIP`}
+          </Badge>
+        )}
       </div>
 
       {progress !== undefined && (
@@ -0,0 +1,50 @@
+/**
+ * Board drag helper unit tests — drop-slot index, WIP limits and keyboard steps.
+ */
+import { describe, it, expect } from 'vitest';
+import { getDropIndex, isOverWipLimit, stepDragTarget, type BoardLayoutColumn } from './boardDrag';
+
+const layout: BoardLayoutColumn[] = [
+  { id: 'todo', label: 'To do', cardIds: ['a', 'b', 'c'] },
+  { id: 'doing', label: 'Doing', wipLimit: 2, cardIds: ['d', 'e'] },
+  { id: 'done', label: 'Done', cardIds: [] },
+];
+
+describe('getDropIndex', () => {
+  it('counts the card midpoints above the pointer', () => {
+    const midpoints = [50, 150, 250];
+    expect(getDropIndex(midpoints, 0)).toBe(0);
+    expect(getDropIndex(midpoints, 100)).toBe(1);
+    expect(getDropIndex(midpoints, 249)).toBe(2);
+    expect(getDropIndex(midpoints, 400)).toBe(3);
+    expect(getDropIndex([], 100)).toBe(0);
+  });
+});
+
+describe('isOverWipLimit', () => {
+  it('refuses a full column but not a reorder inside it', () => {
+    expect(isOverWipLimit(layout[1], { cardId: 'a', fromColumn: 'todo' })).toBe(true);
+    expect(isOverWipLimit(layout[1], { cardId: 'd', fromColumn: 'doing' })).toBe(false);
+    expect(isOverWipLimit(layout[0], { cardId: 'd', fromColumn: 'doing' })).toBe(false);
+  });
+});
+
+describe('stepDragTarget', () => {
+  it('steps within a column, stopping at either end', () => {
+    expect(stepDragTarget(layout, { cardId: 'a', toColumn: 'todo', toIndex: 0 }, 'ArrowDown')).toEqual({ toColumn: 'todo', toIndex: 1 });
+    expect(stepDragTarget(layout, { cardId: 'a', toColumn: 'todo', toIndex: 0 }, 'ArrowUp')).toBeNull();
+    // Three cards, one in hand — two others, so index 2 is the last slot.
+    expect(stepDragTarget(layout, { cardId: 'a', toColumn: 'todo', toIndex: 2 }, 'ArrowDown')).toBeNull();
+  });
+
+  it('crosses columns, clamping the index to the target', () => {
+    expect(stepDragTarget(layout, { cardId: 'c', toColumn: 'todo', toIndex: 2 }, 'ArrowRight')).toEqual({ toColumn: 'doing', toIndex: 2 });
+    expect(stepDragTarget(layout, { cardId: 'c', toColumn: 'doing', toIndex: 2 }, 'ArrowRight')).toEqual({ toColumn: 'done', toIndex: 0 });
+    expect(stepDragTarget(layout, { cardId: 'c', toColumn: 'done', toIndex: 0 }, 'ArrowRight')).toBeNull();
+    expect(stepDragTarget(layout, { cardId: 'c', toColumn: 'todo', toIndex: 0 }, 'ArrowLeft')).toBeNull();
+  });
+
+  it('ignores other keys', () => {
+    expect(stepDragTarget(layout, { cardId: 'a', toColumn: 'todo', toIndex: 0 }, 'Tab')).toBeNull();
+  });
+});
@@ -0,0 +1,94 @@
+import { createContext } from 'react';
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+/** An in-flight drag. Indexes are into the target column with the dragged card left out. */
+export interface BoardDrag {
+  cardId: string;
+  fromColumn: string;
+  fromIndex: number;
+  toColumn: string;
+  toIndex: number;
+  /** `pointer` drags follow the cursor; `keyboard` drags move a drop marker. */
+  mode: 'pointer' | 'keyboard';
+  /** Pointer travel since the drag started, px. Always zero for keyboard drags. */
+  offset: { x: number; y: number };
+  /** The target column is a different column already at its WIP limit — a drop there is refused. */
+  blocked: boolean;
+  /** The card the drop marker sits above, or null when it sits at the end of `toColumn`. */
+  dropBeforeId: string | null;
+}
+
+/** A column as read from the DOM at drag time. */
+export interface BoardLayoutColumn {
+  id: string;
+  label: string;
+  wipLimit?: number;
+  /** Card ids in display order. */
+  cardIds: string[];
+}
+
+export interface BoardDragContextValue {
+  /** The current drag, or null. */
+  drag: BoardDrag | null;
+  /** Id of the hidden keyboard instructions every draggable card is described by. */
+  instructionsId: string;
+}
+
+export interface BoardColumnContextValue {
+  columnId?: string;
+  /** Cards in the column — the `count` prop, else the number of `BoardCard` children. */
+  count: number;
+  wipLimit?: number;
+}
+
+/** Provided by `Board` when it has an `onMove` — cards are draggable only inside it. */
+export const BoardDragContext = createContext<BoardDragContextValue | null>(null);
+
+/** Provided by `BoardColumn` — its id, card count and WIP limit. */
+export const BoardColumnContext = createContext<BoardColumnContextValue | null>(null);
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+/** Drop index for a pointer at `y`: the number of cards whose vertical midpoint is above it. */
+export function getDropIndex(midpoints: number[], y: number): number {
+  let index = 0;
+  while (index < midpoints.length && midpoints[index] < y) index++;
+  return index;
+}
+
+/** Whether dropping into `column` would take a different column past its WIP limit. */
+export function isOverWipLimit(column: BoardLayoutColumn, drag: Pick<BoardDrag, 'cardId' | 'fromColumn'>): boolean {
+  if (column.wipLimit === undefined || column.id === drag.fromColumn) return false;
+  return column.cardIds.filter((id) => id !== drag.cardId).length >= column.wipLimit;
+}
+
+/**
+ * Where an arrow key takes a keyboard drag. Up / Down step the index
+ * within the column; Left / Right cross to the neighbouring column,
+ * keeping the index where it fits. Returns null at the board's edges and
+ * for other keys.
+ */
+export function stepDragTarget(
+  layout: BoardLayoutColumn[],
+  drag: Pick<BoardDrag, 'cardId' | 'toColumn' | 'toIndex'>,
+  key: string,
+): { toColumn: string; toIndex: number } | null {
+  const at = layout.findIndex((column) => column.id === drag.toColumn);
+  if (at === -1) return null;
+  const sizeOf = (column: BoardLayoutColumn) => column.cardIds.filter((id) => id !== drag.cardId).length;
+
+  if (key === 'ArrowUp' || key === 'ArrowDown') {
+    const toIndex = drag.toIndex + (key === 'ArrowUp' ? -1 : 1);
+    if (toIndex < 0 || toIndex > sizeOf(layout[at])) return null;
+    return { toColumn: drag.toColumn, toIndex };
+  }
+
+  if (key === 'ArrowLeft' || key === 'ArrowRight') {
+    const next = layout[at + (key === 'ArrowLeft' ? -1 : 1)];
+    if (!next) return null;
+    return { toColumn: next.id, toIndex: Math.min(drag.toIndex, sizeOf(next)) };
+  }
+
+  return null;
+}
@@ -6,3 +6,11 @@ export { BoardColumn, type BoardColumnProps } from './BoardColumn';
 export { BoardHeader, type BoardHeaderProps } from './BoardHeader';
 
 export { BoardCard, type BoardCardProps } from './BoardCard';
+
+export {
+  useBoardState,
+  type BoardMove,
+  type BoardColumns,
+  type UseBoardStateOptions,
+  type UseBoardStateReturn,
+} from './useBoardState';
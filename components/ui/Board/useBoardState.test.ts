@@ -0,0 +1,51 @@
+/**
+ * useBoardState unit tests — the optimistic card move and its rollback inverse.
+ */
+import { describe, it, expect } from 'vitest';
+import { moveCard, type BoardColumns } from './useBoardState';
+
+type Task = { id: string };
+const idOf = (task: Task) => task.id;
+const ids = (columns: BoardColumns<Task>) =>
+  Object.fromEntries(Object.entries(columns).map(([column, tasks]) => [column, tasks.map(idOf)]));
+
+const columns: BoardColumns<Task> = {
+  todo: [{ id: 'a' }, { id: 'b' }, { id: 'c' }],
+  doing: [{ id: 'd' }],
+  done: [],
+};
+
+describe('moveCard', () => {
+  it('moves a card to another column at the index', () => {
+    const next = moveCard(columns, { cardId: 'b', fromColumn: 'todo', toColumn: 'doing', index: 0 }, idOf);
+    expect(ids(next)).toEqual({ todo: ['a', 'c'], doing: ['b', 'd'], done: [] });
+  });
+
+  it('reorders within a column, index counted after removal', () => {
+    const down = moveCard(columns, { cardId: 'a', fromColumn: 'todo', toColumn: 'todo', index: 2 }, idOf);
+    expect(ids(down).todo).toEqual(['b', 'c', 'a']);
+    const up = moveCard(columns, { cardId: 'c', fromColumn: 'todo', toColumn: 'todo', index: 0 }, idOf);
+    expect(ids(up).todo).toEqual(['c', 'a', 'b']);
+  });
+
+  it('clamps the index and creates a missing target column', () => {
+    const next = moveCard(columns, { cardId: 'd', fromColumn: 'doing', toColumn: 'archive', index: 9 }, idOf);
+    expect(ids(next)).toMatchObject({ doing: [], archive: ['d'] });
+  });
+
+  it('leaves columns untouched when the card is not in fromColumn', () => {
+    const next = moveCard(columns, { cardId: 'd', fromColumn: 'todo', toColumn: 'done', index: 0 }, idOf);
+    expect(next).toBe(columns);
+  });
+
+  it('does not mutate the input', () => {
+    moveCard(columns, { cardId: 'a', fromColumn: 'todo', toColumn: 'done', index: 0 }, idOf);
+    expect(ids(columns)).toEqual({ todo: ['a', 'b', 'c'], doing: ['d'], done: [] });
+  });
+
+  it('inverts with the reverse move — the rollback path', () => {
+    const moved = moveCard(columns, { cardId: 'b', fromColumn: 'todo', toColumn: 'done', index: 0 }, idOf);
+    const back = moveCard(moved, { cardId: 'b', fromColumn: 'done', toColumn: 'todo', index: 1 }, idOf);
+    expect(ids(back)).toEqual(ids(columns));
+  });
+});
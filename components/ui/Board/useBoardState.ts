@@ -0,0 +1,136 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+/** A card move, reported by `Board`'s `onMove`. */
+export interface BoardMove {
+  /** The moved card's `cardId`. */
+  cardId: string;
+  /** `columnId` of the column the card left. */
+  fromColumn: string;
+  /** `columnId` of the column the card landed in — same as `fromColumn` for a reorder. */
+  toColumn: string;
+  /** The card's index in `toColumn` after the move. */
+  index: number;
+}
+
+/** Cards per column, keyed by `columnId`, each list in display order. */
+export type BoardColumns<Card> = Record<string, Card[]>;
+
+export interface UseBoardStateOptions<Card> {
+  /** Source of truth — cards per column as last confirmed by the server / store. */
+  columns: BoardColumns<Card>;
+  /** Stable id for a card — the `cardId` its `BoardCard` carries. */
+  getCardId: (card: Card) => string;
+  /**
+   * Persist a move. Return a promise: a rejection rolls the card back to
+   * where it came from. A sync or resolved result keeps the new position.
+   */
+  onMove?: (move: BoardMove) => void | Promise<unknown>;
+  /** Called with the error when a move is rolled back. */
+  onMoveError?: (error: unknown, move: BoardMove) => void;
+}
+
+export interface UseBoardStateReturn<Card> {
+  /** Cards per column with pending moves applied — render from this. */
+  columns: BoardColumns<Card>;
+  /**
+   * Apply a move immediately and persist it. Pass to `Board`'s `onMove`;
+   * the returned promise rejects after a rollback so the board can
+   * announce it.
+   */
+  move: (move: BoardMove) => Promise<void>;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+/**
+ * Return `columns` with `move` applied. The card is removed from
+ * `fromColumn` and inserted at `index` in `toColumn` (clamped). Returns
+ * the input unchanged when the card isn't in `fromColumn`.
+ */
+export function moveCard<Card>(
+  columns: BoardColumns<Card>,
+  move: BoardMove,
+  getCardId: (card: Card) => string,
+): BoardColumns<Card> {
+  const source = columns[move.fromColumn] ?? [];
+  const at = source.findIndex((card) => getCardId(card) === move.cardId);
+  if (at === -1) return columns;
+
+  const card = source[at];
+  const nextSource = [...source.slice(0, at), ...source.slice(at + 1)];
+  const target = move.fromColumn === move.toColumn ? nextSource : [...(columns[move.toColumn] ?? [])];
+  const index = Math.max(0, Math.min(move.index, target.length));
+  target.splice(index, 0, card);
+
+  return { ...columns, [move.fromColumn]: nextSource, [move.toColumn]: target };
+}
+
+// ─── useBoardState Hook ─────────────────────────────────────────────
+
+/**
+ * Optimistic card order for a `Board`.
+ *
+ * Moves show up the moment the card is dropped; `onMove` persists them in
+ * the background. If it rejects, that card alone goes back to its old
+ * column and index — other moves made in the meantime stay put. A new
+ * `columns` value (fresh server data) replaces local state wholesale.
+ *
+ * @example
+ * ```tsx
+ * const board = useBoardState({
+ *   columns: tasksByStatus,
+ *   getCardId: (task) => task.id,
+ *   onMove: (move) => api.moveTask(move),
+ * });
+ *
+ * <Board onMove={board.move}>
+ *   {statuses.map((status) => (
+ *     <BoardColumn key={status.id} columnId={status.id} title={status.label}>
+ *       {board.columns[status.id].map((task) => (
+ *         <BoardCard key={task.id} cardId={task.id} title={task.title} />
+ *       ))}
+ *     </BoardColumn>
+ *   ))}
+ * </Board>
+ * ```
+ */
+export function useBoardState<Card>({
+  columns,
+  getCardId,
+  onMove,
+  onMoveError,
+}: UseBoardStateOptions<Card>): UseBoardStateReturn<Card> {
+  const [local, setLocal] = useState(columns);
+
+  useEffect(() => {
+    setLocal(columns);
+  }, [columns]);
+
+  // Read the latest callbacks and state from inside the async move.
+  const latest = useRef({ local, getCardId, onMove, onMoveError });
+  latest.current = { local, getCardId, onMove, onMoveError };
+
+  const move = useCallback(async (next: BoardMove) => {
+    const { local: before, getCardId: idOf } = latest.current;
+    const fromIndex = (before[next.fromColumn] ?? []).findIndex((card) => idOf(card) === next.cardId);
+    setLocal((current) => moveCard(current, next, idOf));
+
+    try {
+      await latest.current.onMove?.(next);
+    } catch (error) {
+      setLocal((current) =>
+        moveCard(
+          current,
+          { cardId: next.cardId, fromColumn: next.toColumn, toColumn: next.fromColumn, index: fromIndex },
+          idOf,
+        ),
+      );
+      latest.current.onMoveError?.(error, next);
+      throw error;
+    }
+  }, []);
+
+  return { columns: local, move };
+}
@@ -1,24 +1,246 @@
+import { useState } from 'react';
 import type { Meta, StoryObj } from '@storybook/react-vite';
+import { expect, fn, userEvent, waitFor, within } from 'storybook/test';
+import { Calendar, type CalendarEvent } from './Calendar';
 
-const CalendarPlaceholder = () => (
-  <div style={{
-    padding: 'var(--padding-xl)',
-    fontFamily: 'var(--font-family-body)',
-    color: 'var(--text-secondary)',
-    textAlign: 'center' as const,
-  }}>
-    Calendar component — coming soon.
-  </div>
-);
-
-const meta: Meta<typeof CalendarPlaceholder> = {
+/* ─── Fixtures ────────────────────────────────────────────────── */
+
+// Pinned to a fixed month so the canvas renders identically in Chromatic and
+// the visual gate — a `new Date()` anchor would drift every month.
+const ANCHOR = new Date(2025, 5, 11);
+
+const EVENTS: CalendarEvent[] = [
+  { id: 'e1', title: 'New patient intake', start: new Date(2025, 5, 2, 9, 0), end: new Date(2025, 5, 2, 10, 0) },
+  { id: 'e2', title: 'Quarterly review', start: new Date(2025, 5, 4, 14, 0), tone: 'info' },
+  { id: 'e3', title: 'Hygiene recall', start: new Date(2025, 5, 11, 8, 30), tone: 'positive' },
+  { id: 'e4', title: 'Crown fitting', start: new Date(2025, 5, 11, 10, 0) },
+  { id: 'e5', title: 'Lunch & learn', start: new Date(2025, 5, 11, 12, 0), tone: 'neutral' },
+  { id: 'e6', title: 'Insurance callback', start: new Date(2025, 5, 11, 15, 30), tone: 'warning' },
+  { id: 'e7', title: 'Office closed', start: new Date(2025, 5, 19), allDay: true, tone: 'negative' },
+  {
+    id: 'e8',
+    title: 'Dental conference',
+    start: new Date(2025, 5, 24),
+    end: new Date(2025, 5, 26),
+    allDay: true,
+    tone: 'info',
+  },
+];
+
+/* ─── Meta ────────────────────────────────────────────────────── */
+
+const meta: Meta<typeof Calendar> = {
   title: 'Containers/calendar',
-  component: CalendarPlaceholder,
-  tags: ['wip', 'surface-shared', '!manifest'], // placeholder — hide from MCP discovery until shipped
+  component: Calendar,
+  tags: ['surface-shared'],
+  parameters: { layout: 'padded' },
+  args: {
+    defaultDate: ANCHOR,
+    events: EVENTS,
+  },
+  argTypes: {
+    view: {
+      control: 'select',
+      options: ['month', 'week', 'day'],
+      description: 'Active view (controlled). Leave unset to let the header switcher drive it.',
+    },
+    defaultView: {
+      control: 'select',
+      options: ['month', 'week', 'day'],
+      description: "Initial view when uncontrolled. Default `'month'`.",
+    },
+    views: {
+      control: false,
+      description: 'Views offered in the header switcher. A single entry hides the switcher.',
+    },
+    density: {
+      control: 'select',
+      options: ['comfortable', 'compact'],
+      description:
+        "`'compact'` renders the popover-sized month grid DatePicker uses — no event slots, no view switcher. Default `'comfortable'`.",
+    },
+    weekStartsOn: {
+      control: { type: 'number', min: 0, max: 6 },
+      description: 'First day of the week — `0` Sunday … `6` Saturday. Default: derived from `locale`.',
+    },
+    locale: {
+      control: 'select',
+      options: ['en-US', 'en-GB', 'de-DE', 'fr-FR', 'ja-JP'],
+      description:
+        "BCP 47 locale for month, weekday, date and time formatting. Default: the nearest `LocaleProvider`, else `'en-US'`.",
+    },
+    maxEventsPerDay: {
+      control: { type: 'number', min: 1, max: 6 },
+      description: 'Month-view cap on chips per day before collapsing into "+N more". Default `3`.',
+    },
+    dayStartHour: {
+      control: { type: 'number', min: 0, max: 23 },
+      description: 'First hour slot in day view. Widens automatically to fit earlier events. Default `8`.',
+    },
+    dayEndHour: {
+      control: { type: 'number', min: 1, max: 24 },
+      description: 'Hour the last day-view slot ends at. Widens automatically to fit later events. Default `18`.',
+    },
+    minDate: { control: 'date', description: 'Earliest selectable day (inclusive).' },
+    maxDate: { control: 'date', description: 'Latest selectable day (inclusive).' },
+    events: { control: false, description: 'Events rendered into the active view.' },
+    value: { control: false, description: 'Selected day (controlled).' },
+    date: { control: false, description: 'Anchor date deciding the visible period (controlled).' },
+    defaultDate: { control: false, description: 'Initial anchor date when uncontrolled.' },
+    disabledDates: { control: false, description: 'Individual days that are never selectable.' },
+    isDateDisabled: { control: false, description: 'Predicate for rule-based blocking.' },
+    renderEvent: { control: false, description: 'Custom event chip content.' },
+    onSelect: { action: 'select', description: 'Called when a selectable day is activated.' },
+    onEventClick: { action: 'event-click', description: 'Called when an event chip is activated.' },
+    onViewChange: { action: 'view-change', description: 'Called when the view changes.' },
+    onDateChange: { action: 'date-change', description: 'Called when the anchor date moves.' },
+  },
 };
 
 export default meta;
-type Story = StoryObj<typeof CalendarPlaceholder>;
+type Story = StoryObj<typeof Calendar>;
+
+/* ═══════════════════════════════════════════════════════════════
+   DEFAULT — month view with events. Render wraps Calendar in
+   `useState` so selecting a day is reflected on the canvas (the
+   selected `value` is always controlled).
+   ═══════════════════════════════════════════════════════════════ */
+
+/** @summary Month view with event chips and "+N more" overflow */
+export const Default: Story = {
+  render: (args) => {
+    const [value, setValue] = useState<Date | null>(null);
+    return (
+      <Calendar
+        {...args}
+        minDate={args.minDate ? new Date(args.minDate as unknown as number) : undefined}
+        maxDate={args.maxDate ? new Date(args.maxDate as unknown as number) : undefined}
+        value={value}
+        onSelect={(date) => {
+          setValue(date);
+          args.onSelect?.(date);
+        }}
+      />
+    );
+  },
+};
+
+/* ═══════════════════════════════════════════════════════════════
+   WEEK / DAY — the other two views as starting templates. Both
+   stay uncontrolled so the header switcher still works on canvas.
+   ═══════════════════════════════════════════════════════════════ */
+
+/** @summary Week view — one column per day, events in start-time order */
+export const Week: Story = {
+  args: { defaultView: 'week' },
+};
+
+/** @summary Day view — all-day lane plus hour slots */
+export const Day: Story = {
+  args: { defaultView: 'day' },
+};
+
+/* ═══════════════════════════════════════════════════════════════
+   COMPACT — the popover-sized month grid DatePicker renders. Shown
+   standalone for inline date selection (sidebars, filter panels).
+   ═══════════════════════════════════════════════════════════════ */
 
-/** @summary Placeholder */
-export const Placeholder: Story = {};
+/** @summary Compact month grid — the DatePicker popover shape */
+export const Compact: Story = {
+  args: { density: 'compact', events: [] },
+  render: (args) => {
+    const [value, setValue] = useState<Date | null>(ANCHOR);
+    return (
+      <div style={{ width: 264 }}>
+        <Calendar {...args} value={value} onSelect={setValue} />
+      </div>
+    );
+  },
+};
+
+/* ═══════════════════════════════════════════════════════════════
+   INTERACTION TESTS — play-only, excluded from the MCP manifest +
+   sidebar gallery (ADR-010 rule 5).
+   ═══════════════════════════════════════════════════════════════ */
+
+/**
+ * Arrow keys move the single roving tab stop by day / week; `PageDown`
+ * steps to the next month and carries focus with it.
+ * @summary Play-function interaction test
+ */
+export const InteractionTestKeyboardGridNavigation: Story = {
+  tags: ['!manifest', 'interaction-test'],
+  args: { value: ANCHOR, onSelect: fn() },
+  play: async ({ canvasElement, args }) => {
+    const canvas = within(canvasElement);
+    const start = canvas.getByRole('button', { name: 'Wednesday, June 11, 2025' });
+    await expect(start).toHaveAttribute('tabindex', '0');
+
+    start.focus();
+    await userEvent.keyboard('{ArrowRight}');
+    await waitFor(() =>
+      expect(canvas.getByRole('button', { name: 'Thursday, June 12, 2025' })).toHaveFocus(),
+    );
+
+    await userEvent.keyboard('{ArrowDown}');
+    await waitFor(() =>
+      expect(canvas.getByRole('button', { name: 'Thursday, June 19, 2025' })).toHaveFocus(),
+    );
+
+    await userEvent.keyboard('{PageDown}');
+    await waitFor(() => {
+      expect(canvas.getByRole('grid', { name: 'July 2025' })).toBeInTheDocument();
+      expect(canvas.getByRole('button', { name: 'Saturday, July 19, 2025' })).toHaveFocus();
+    });
+
+    await userEvent.keyboard('{Enter}');
+    await expect(args.onSelect).toHaveBeenCalledWith(new Date(2025, 6, 19));
+  },
+};
+
+/**
+ * `minDate`, `maxDate`, `disabledDates` and `isDateDisabled` all disable
+ * cells; clicking a disabled cell never fires `onSelect`.
+ * @summary Play-function interaction test
+ */
+export const InteractionTestDisabledDateRules: Story = {
+  tags: ['!manifest', 'interaction-test'],
+  args: {
+    density: 'compact',
+    events: [],
+    minDate: new Date(2025, 5, 3),
+    maxDate: new Date(2025, 5, 27),
+    disabledDates: [new Date(2025, 5, 16)],
+    isDateDisabled: (date: Date) => date.getDay() === 0,
+    onSelect: fn(),
+  },
+  play: async ({ canvasElement, args }) => {
+    const canvas = within(canvasElement);
+    await expect(canvas.getByRole('gridcell', { name: /June 2, 2025/ })).toBeDisabled();
+    await expect(canvas.getByRole('gridcell', { name: /June 28, 2025/ })).toBeDisabled();
+    await expect(canvas.getByRole('gridcell', { name: /June 16, 2025/ })).toBeDisabled();
+    await expect(canvas.getByRole('gridcell', { name: /Sunday, June 8, 2025/ })).toBeDisabled();
+
+    const open = canvas.getByRole('gridcell', { name: /June 17, 2025/ });
+    await expect(open).not.toBeDisabled();
+    await userEvent.click(open);
+    await expect(args.onSelect).toHaveBeenCalledWith(new Date(2025, 5, 17));
+  },
+};
+
+/**
+ * A day with more events than `maxEventsPerDay` collapses the rest into
+ * "+N more", which opens that day in the day view.
+ * @summary Play-function interaction test
+ */
+export const InteractionTestOverflowOpensDayView: Story = {
+  tags: ['!manifest', 'interaction-test'],
+  args: { onViewChange: fn() },
+  play: async ({ canvasElement, args }) => {
+    const canvas = within(canvasElement);
+    await userEvent.click(canvas.getByRole('button', { name: '+1 more' }));
+    await expect(args.onViewChange).toHaveBeenCalledWith('day');
+    await expect(canvas.getByText('Wednesday, June 11, 2025')).toBeInTheDocument();
+    await expect(canvas.getByRole('button', { name: /Insurance callback/ })).toBeInTheDocument();
+  },
+};
@@ -0,0 +1,703 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type HTMLAttributes,
+  type KeyboardEvent,
+  type ReactNode,
+} from 'react';
+import { Button } from '../Button';
+import { Icon } from '../Icon';
+import { SegmentedControl } from '../SegmentedControl';
+import { CaretLeft, CaretRight } from '../../icons';
+import { bdsClass } from '../../utils';
+import { formatDateRangeLabel, getWeekStart, getWeekdayNames } from '../../utils/intl';
+import { useLocale } from '../../providers/LocaleProvider';
+import {
+  addDays,
+  addMonths,
+  clampDate,
+  getMonthGrid,
+  getWeekDays,
+  isDateDisabled,
+  isSameDay,
+  isSameMonth,
+  isToday,
+  startOfDay,
+  startOfWeek,
+  isWithinRange,
+  normalizeRange,
+  toDateKey,
+  type DateConstraints,
+  type DateRange,
+  type WeekStart,
+} from './dateUtils';
+import './Calendar.css';
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+export type CalendarView = 'month' | 'week' | 'day';
+export type CalendarDensity = 'comfortable' | 'compact';
+export type CalendarEventTone = 'neutral' | 'positive' | 'warning' | 'negative' | 'info';
+
+/** One scheduled item rendered into the calendar's event slots. */
+export interface CalendarEvent {
+  /** Stable identifier — used as the React key and passed back on click */
+  id: string;
+  /** Visible title */
+  title: string;
+  /** Start instant. For all-day events only the day is read. */
+  start: Date;
+  /** End instant. Omit for a point-in-time event; multi-day events repeat on every day they span. */
+  end?: Date;
+  /** Render in the all-day lane instead of at its start time */
+  allDay?: boolean;
+  /** Valence of the event chip. Omit for the brand-hued default chip. */
+  tone?: CalendarEventTone;
+}
+
+export interface CalendarProps
+  extends Omit<HTMLAttributes<HTMLDivElement>, 'onSelect' | 'onChange' | 'defaultValue'> {
+  /** Active view (controlled). Pair with `onViewChange`. */
+  view?: CalendarView;
+  /** Initial view when uncontrolled (default `'month'`) */
+  defaultView?: CalendarView;
+  /** Called when the view switcher or a "+N more" link changes the view */
+  onViewChange?: (view: CalendarView) => void;
+  /** Views offered in the header switcher (default all three). A single entry hides the switcher. */
+  views?: CalendarView[];
+  /** Anchor date that decides which month / week / day is visible (controlled) */
+  date?: Date;
+  /** Initial anchor date when uncontrolled (default: `value`, else today) */
+  defaultDate?: Date;
+  /** Called when prev / next / Today or keyboard navigation moves the anchor */
+  onDateChange?: (date: Date) => void;
+  /** Selected day */
+  value?: Date | null;
+  /** Called when a selectable day is activated (click, Enter or Space) */
+  onSelect?: (date: Date) => void;
+  /**
+   * Highlighted span. Both ends render selected and the days between carry
+   * `data-in-range` — DateRangePicker passes its hover preview through here.
+   */
+  range?: DateRange;
+  /** Called when a day is hovered or focused, and with `null` when the pointer leaves the grid */
+  onDayHover?: (date: Date | null) => void;
+  /** Events rendered into day cells (month), day columns (week) and hour slots (day) */
+  events?: CalendarEvent[];
+  /** Called when an event chip is activated */
+  onEventClick?: (event: CalendarEvent) => void;
+  /** Custom event chip content. Defaults to the event title (with start time for timed events). */
+  renderEvent?: (event: CalendarEvent) => ReactNode;
+  /** Month-view cap on chips per day before collapsing into "+N more" (default `3`) */
+  maxEventsPerDay?: number;
+  /** Earliest selectable day (inclusive) */
+  minDate?: Date;
+  /** Latest selectable day (inclusive) */
+  maxDate?: Date;
+  /** Individual days that are never selectable */
+  disabledDates?: Date[];
+  /** Predicate for rule-based blocking, e.g. weekends or holidays */
+  isDateDisabled?: (date: Date) => boolean;
+  /** First day of the week — `0` Sunday … `6` Saturday (default: derived from `locale`) */
+  weekStartsOn?: WeekStart;
+  /**
+   * BCP 47 locale for month, weekday, date and time formatting, e.g.
+   * `'en-GB'` (default: the nearest LocaleProvider, else `'en-US'`).
+   */
+  locale?: string;
+  /** First hour slot in day view (default `8`). Widens automatically to fit earlier events. */
+  dayStartHour?: number;
+  /** Hour the last day-view slot ends at (default `18`). Widens automatically to fit later events. */
+  dayEndHour?: number;
+  /**
+   * `'comfortable'` renders the full scheduling surface. `'compact'` renders a
+   * fixed-width month grid with no event slots and no view switcher — the
+   * shape DatePicker's popover uses.
+   */
+  density?: CalendarDensity;
+}
+
+// ─── Constants ──────────────────────────────────────────────────────
+
+const ALL_VIEWS: CalendarView[] = ['month', 'week', 'day'];
+
+const VIEW_LABELS: Record<CalendarView, string> = {
+  month: 'Month',
+  week: 'Week',
+  day: 'Day',
+};
+
+// ─── Formatting ─────────────────────────────────────────────────────
+
+function formatMonthYear(date: Date, locale: string): string {
+  return date.toLocaleDateString(locale, { month: 'long', year: 'numeric' });
+}
+
+function formatFullDate(date: Date, locale: string): string {
+  return date.toLocaleDateString(locale, {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+function formatTime(date: Date, locale: string): string {
+  return date.toLocaleTimeString(locale, { hour: 'numeric', minute: '2-digit' });
+}
+
+function formatHour(hour: number, locale: string): string {
+  return new Date(2023, 0, 1, hour).toLocaleTimeString(locale, { hour: 'numeric' });
+}
+
+function formatHeading(
+  view: CalendarView,
+  anchor: Date,
+  weekStartsOn: WeekStart,
+  locale: string,
+): string {
+  if (view === 'day') return formatFullDate(anchor, locale);
+  if (view === 'week') {
+    const days = getWeekDays(anchor, weekStartsOn);
+    return formatDateRangeLabel(days[0], days[6], locale);
+  }
+  return formatMonthYear(anchor, locale);
+}
+
+// ─── Event helpers ──────────────────────────────────────────────────
+
+function occursOn(event: CalendarEvent, day: Date): boolean {
+  const start = startOfDay(event.start);
+  const end = startOfDay(event.end ?? event.start);
+  return day >= start && day <= end;
+}
+
+// All-day first, then by start time — the order every view lists chips in.
+function eventsForDay(events: CalendarEvent[], day: Date): CalendarEvent[] {
+  return events
+    .filter((event) => occursOn(event, day))
+    .sort((a, b) => {
+      if (a.allDay !== b.allDay) return a.allDay ? -1 : 1;
+      return a.start.getTime() - b.start.getTime();
+    });
+}
+
+function isInView(date: Date, view: CalendarView, anchor: Date, weekStartsOn: WeekStart): boolean {
+  if (view === 'month') return isSameMonth(date, anchor);
+  if (view === 'week') return isSameDay(startOfWeek(date, weekStartsOn), startOfWeek(anchor, weekStartsOn));
+  return isSameDay(date, anchor);
+}
+
+function stepAnchor(view: CalendarView, anchor: Date, direction: 1 | -1): Date {
+  if (view === 'month') return addMonths(anchor, direction);
+  if (view === 'week') return addDays(anchor, 7 * direction);
+  return addDays(anchor, direction);
+}
+
+// ─── Calendar Component ─────────────────────────────────────────────
+
+/**
+ * Calendar — BDS inline calendar with month, week and day views.
+ *
+ * Renders scheduling surfaces from a flat `events` array: chips in month
+ * cells (collapsing past `maxEventsPerDay` into a "+N more" link that opens
+ * the day view), per-day columns in week view, and hour slots in day view.
+ * The grid follows the WAI-ARIA grid pattern — a single roving tab stop,
+ * arrow keys move by day / week, `Home` / `End` jump to the week edges,
+ * `PageUp` / `PageDown` step the visible period (`Shift` for a year in month
+ * view), and `Enter` / `Space` select the focused day.
+ *
+ * `minDate`, `maxDate`, `disabledDates` and `isDateDisabled` share one rule
+ * set with DatePicker — both are built on the same date engine
+ * (`Calendar/dateUtils`). `density="compact"` is the popover-sized month grid
+ * DatePicker renders.
+ *
+ * View and anchor date are each controlled or uncontrolled; the selected
+ * `value` is always controlled.
+ *
+ * @example
+ * ```tsx
+ * <Calendar
+ *   events={appointments}
+ *   value={selected}
+ *   onSelect={setSelected}
+ *   onEventClick={(event) => openAppointment(event.id)}
+ * />
+ * ```
+ *
+ * @summary Inline month / week / day calendar with event slots
+ */
+export function Calendar({
+  view: controlledView,
+  defaultView = 'month',
+  onViewChange,
+  views = ALL_VIEWS,
+  date: controlledDate,
+  defaultDate,
+  onDateChange,
+  value = null,
+  onSelect,
+  range,
+  onDayHover,
+  events = [],
+  onEventClick,
+  renderEvent,
+  maxEventsPerDay = 3,
+  minDate,
+  maxDate,
+  disabledDates,
+  isDateDisabled: disabledPredicate,
+  weekStartsOn: weekStartsOnProp,
+  locale: localeProp,
+  dayStartHour = 8,
+  dayEndHour = 18,
+  density = 'comfortable',
+  className,
+  ...props
+}: CalendarProps) {
+  const compact = density === 'compact';
+  const localeContext = useLocale();
+  const locale = localeProp ?? localeContext.locale;
+  const weekStartsOn =
+    weekStartsOnProp ?? (localeProp ? getWeekStart(localeProp) : localeContext.weekStartsOn);
+
+  const [internalView, setInternalView] = useState<CalendarView>(defaultView);
+  const isViewControlled = controlledView !== undefined;
+  const view: CalendarView = compact ? 'month' : isViewControlled ? controlledView : internalView;
+
+  const [internalDate, setInternalDate] = useState<Date>(
+    () => defaultDate ?? value ?? startOfDay(new Date()),
+  );
+  const isDateControlled = controlledDate !== undefined;
+  const anchor = isDateControlled ? controlledDate : internalDate;
+
+  const [focusedDate, setFocusedDate] = useState<Date>(() => value ?? anchor);
+  // The roving tab stop stays inside the visible period even when the anchor
+  // is moved from outside (controlled `date`, Today, prev / next).
+  const activeDate = isInView(focusedDate, view, anchor, weekStartsOn) ? focusedDate : anchor;
+
+  const gridRef = useRef<HTMLDivElement>(null);
+  const pendingFocus = useRef(false);
+
+  const constraints = useMemo<DateConstraints>(
+    () => ({ minDate, maxDate, disabledDates, isDateDisabled: disabledPredicate }),
+    [minDate, maxDate, disabledDates, disabledPredicate],
+  );
+
+  const setView = useCallback(
+    (next: CalendarView) => {
+      if (!isViewControlled) setInternalView(next);
+      onViewChange?.(next);
+    },
+    [isViewControlled, onViewChange],
+  );
+
+  const setAnchor = useCallback(
+    (next: Date) => {
+      if (!isDateControlled) setInternalDate(next);
+      onDateChange?.(next);
+    },
+    [isDateControlled, onDateChange],
+  );
+
+  const moveFocus = useCallback(
+    (next: Date) => {
+      const target = clampDate(next, constraints);
+      if (!isInView(target, view, anchor, weekStartsOn)) setAnchor(target);
+      setFocusedDate(target);
+      pendingFocus.current = true;
+    },
+    [anchor, constraints, setAnchor, view, weekStartsOn],
+  );
+
+  // Keyboard moves land focus on the new cell once it has rendered.
+  useEffect(() => {
+    if (!pendingFocus.current) return;
+    pendingFocus.current = false;
+    const cell = gridRef.current?.querySelector<HTMLElement>(
+      `[data-date="${toDateKey(activeDate)}"]`,
+    );
+    cell?.focus();
+  }, [activeDate]);
+
+  const selectDay = useCallback(
+    (day: Date) => {
+      if (isDateDisabled(day, constraints)) return;
+      onSelect?.(day);
+    },
+    [constraints, onSelect],
+  );
+
+  const handleGridKeyDown = useCallback(
+    (e: KeyboardEvent<HTMLDivElement>) => {
+      const from = activeDate;
+      let next: Date | null = null;
+      switch (e.key) {
+        case 'ArrowLeft': next = addDays(from, -1); break;
+        case 'ArrowRight': next = addDays(from, 1); break;
+        case 'ArrowUp': next = addDays(from, -7); break;
+        case 'ArrowDown': next = addDays(from, 7); break;
+        case 'Home': next = startOfWeek(from, weekStartsOn); break;
+        case 'End': next = addDays(startOfWeek(from, weekStartsOn), 6); break;
+        case 'PageUp':
+          next = view === 'month' ? addMonths(from, e.shiftKey ? -12 : -1) : addDays(from, -7);
+          break;
+        case 'PageDown':
+          next = view === 'month' ? addMonths(from, e.shiftKey ? 12 : 1) : addDays(from, 7);
+          break;
+        default:
+          return;
+      }
+      e.preventDefault();
+      moveFocus(next);
+    },
+    [activeDate, moveFocus, view, weekStartsOn],
+  );
+
+  const heading = formatHeading(view, anchor, weekStartsOn, locale);
+  // Sunday-first names rotated to the week start; `day` keys the header cell.
+  const weekdays = useMemo(() => {
+    const long = getWeekdayNames(locale, 'long');
+    const short = getWeekdayNames(locale, 'short');
+    return Array.from({ length: 7 }, (_, i) => {
+      const day = (i + weekStartsOn) % 7;
+      return { day, long: long[day], short: short[day] };
+    });
+  }, [locale, weekStartsOn]);
+
+  // ── Cells ──
+
+  const span = range ? normalizeRange(range) : null;
+
+  const dayCellState = (day: Date) => {
+    const rangeStart = !!span?.start && isSameDay(day, span.start);
+    const rangeEnd = !!span?.end && isSameDay(day, span.end);
+    const inRange = !!span && isWithinRange(day, span);
+    const selected = (value ? isSameDay(day, value) : false) || rangeStart || rangeEnd;
+    const disabled = isDateDisabled(day, constraints);
+    const focusable = isSameDay(day, activeDate);
+    return { selected, disabled, focusable, today: isToday(day), inRange, rangeStart, rangeEnd };
+  };
+
+  // Range state rides on data attributes — the same channel `data-outside-month` uses.
+  const rangeAttributes = (state: ReturnType<typeof dayCellState>) => ({
+    'data-in-range': (state.inRange && !state.rangeStart && !state.rangeEnd) || undefined,
+    'data-range-start': state.rangeStart || undefined,
+    'data-range-end': state.rangeEnd || undefined,
+  });
+
+  const hoverHandlers = (day: Date) =>
+    onDayHover
+      ? { onMouseEnter: () => onDayHover(day), onFocus: () => onDayHover(day) }
+      : undefined;
+
+  const renderChip = (event: CalendarEvent) => (
+    <li key={event.id}>
+      <button
+        type="button"
+        className={bdsClass(
+          'bds-calendar__event',
+          event.tone && `bds-calendar__event--tone-${event.tone}`,
+        )}
+        onClick={() => onEventClick?.(event)}
+        aria-label={
+          event.allDay ? `${event.title}, all day` : `${event.title}, ${formatTime(event.start, locale)}`
+        }
+      >
+        {renderEvent ? (
+          renderEvent(event)
+        ) : (
+          <>
+            {!event.allDay && (
+              <span className="bds-calendar__event-time">{formatTime(event.start, locale)}</span>
+            )}
+            <span className="bds-calendar__event-title">{event.title}</span>
+          </>
+        )}
+      </button>
+    </li>
+  );
+
+  const renderMonth = () => {
+    const weeks = getMonthGrid(anchor.getFullYear(), anchor.getMonth(), {
+      weekStartsOn,
+      fillAdjacent: !compact,
+    });
+
+    return (
+      <div
+        ref={gridRef}
+        className="bds-calendar__grid bds-calendar__month-grid"
+        role="grid"
+        aria-label={formatMonthYear(anchor, locale)}
+        onKeyDown={handleGridKeyDown}
+        onMouseLeave={onDayHover ? () => onDayHover(null) : undefined}
+      >
+        <div className="bds-calendar__row bds-calendar__weekdays" role="row">
+          {weekdays.map((d) => (
+            <div
+              key={d.day}
+              className="bds-calendar__weekday"
+              role="columnheader"
+              aria-label={d.long}
+            >
+              {compact ? d.short.slice(0, 2) : d.short}
+            </div>
+          ))}
+        </div>
+
+        {weeks.map((week, wi) => (
+          <div key={wi} className="bds-calendar__row" role="row">
+            {week.map((day, di) => {
+              if (!day) {
+                return <div key={`empty-${wi}-${di}`} className="bds-calendar__blank" role="gridcell" />;
+              }
+              const state = dayCellState(day);
+              const { selected, disabled, focusable, today } = state;
+              const outside = !isSameMonth(day, anchor);
+              const dayButtonProps = {
+                type: 'button' as const,
+                'data-date': toDateKey(day),
+                tabIndex: focusable ? 0 : -1,
+                disabled,
+                onClick: () => {
+                  moveFocus(day);
+                  selectDay(day);
+                },
+                'aria-label': formatFullDate(day, locale),
+                'aria-current': today ? ('date' as const) : undefined,
+                'data-outside-month': outside || undefined,
+                ...rangeAttributes(state),
+                ...hoverHandlers(day),
+                className: bdsClass('bds-calendar__day', selected && 'bds-calendar__day--selected'),
+              };
+
+              // Compact cells ARE the gridcell — there is nothing else in them.
+              if (compact) {
+                return (
+                  <button key={toDateKey(day)} {...dayButtonProps} role="gridcell" aria-selected={selected}>
+                    {day.getDate()}
+                  </button>
+                );
+              }
+
+              const dayEvents = eventsForDay(events, day);
+              const visible = dayEvents.slice(0, maxEventsPerDay);
+              const hidden = dayEvents.length - visible.length;
+
+              return (
+                <div
+                  key={toDateKey(day)}
+                  className="bds-calendar__cell"
+                  data-outside-month={outside || undefined}
+                  role="gridcell"
+                  aria-selected={selected}
+                  aria-disabled={disabled || undefined}
+                >
+                  <button {...dayButtonProps}>{day.getDate()}</button>
+                  {dayEvents.length > 0 && (
+                    <ul className="bds-calendar__events">
+                      {visible.map(renderChip)}
+                      {hidden > 0 && (
+                        <li>
+                          <button
+                            type="button"
+                            className="bds-calendar__more"
+                            onClick={() => {
+                              setAnchor(day);
+                              setFocusedDate(day);
+                              if (views.includes('day')) setView('day');
+                            }}
+                          >
+                            +{hidden} more
+                          </button>
+                        </li>
+                      )}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderWeek = () => {
+    const days = getWeekDays(anchor, weekStartsOn);
+    return (
+      <div
+        ref={gridRef}
+        className="bds-calendar__grid bds-calendar__week-grid"
+        role="grid"
+        aria-label={heading}
+        onKeyDown={handleGridKeyDown}
+        onMouseLeave={onDayHover ? () => onDayHover(null) : undefined}
+      >
+        <div className="bds-calendar__row" role="row">
+          {days.map((day) => {
+            const state = dayCellState(day);
+            const { selected, disabled, focusable, today } = state;
+            const dayEvents = eventsForDay(events, day);
+            return (
+              <div
+                key={toDateKey(day)}
+                className="bds-calendar__column"
+                role="gridcell"
+                aria-selected={selected}
+                aria-disabled={disabled || undefined}
+              >
+                <button
+                  type="button"
+                  data-date={toDateKey(day)}
+                  tabIndex={focusable ? 0 : -1}
+                  disabled={disabled}
+                  onClick={() => {
+                    moveFocus(day);
+                    selectDay(day);
+                  }}
+                  aria-label={formatFullDate(day, locale)}
+                  aria-current={today ? 'date' : undefined}
+                  {...rangeAttributes(state)}
+                  {...hoverHandlers(day)}
+                  className={bdsClass(
+                    'bds-calendar__column-header',
+                    selected && 'bds-calendar__column-header--selected',
+                  )}
+                >
+                  <span className="bds-calendar__column-weekday">
+                    {day.toLocaleDateString(locale, { weekday: 'short' })}
+                  </span>
+                  <span className="bds-calendar__column-date">{day.getDate()}</span>
+                </button>
+                {dayEvents.length > 0 && (
+                  <ul className="bds-calendar__events">{dayEvents.map(renderChip)}</ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
+  const renderDay = () => {
+    const dayEvents = eventsForDay(events, anchor);
+    const allDay = dayEvents.filter((e) => e.allDay);
+    // Timed events that started on an earlier day sit in the first slot.
+    const slotHour = (e: CalendarEvent) => (isSameDay(e.start, anchor) ? e.start.getHours() : 0);
+    const timed = dayEvents.filter((e) => !e.allDay);
+
+    let firstHour = dayStartHour;
+    let lastHour = dayEndHour;
+    for (const e of timed) {
+      firstHour = Math.min(firstHour, slotHour(e));
+      const end = e.end && isSameDay(e.end, anchor) ? e.end : e.start;
+      lastHour = Math.max(lastHour, end.getHours() + (end.getMinutes() > 0 ? 1 : 0), slotHour(e) + 1);
+    }
+    const hours = Array.from({ length: Math.max(lastHour - firstHour, 0) }, (_, i) => firstHour + i);
+
+    return (
+      <div className="bds-calendar__agenda" aria-label={formatFullDate(anchor, locale)} role="group">
+        {allDay.length > 0 && (
+          <div className="bds-calendar__slot bds-calendar__all-day">
+            <span className="bds-calendar__slot-label">All day</span>
+            <ul className="bds-calendar__events">{allDay.map(renderChip)}</ul>
+          </div>
+        )}
+        {hours.map((hour) => {
+          const slotEvents = timed.filter((e) => slotHour(e) === hour);
+          return (
+            <div key={hour} className="bds-calendar__slot">
+              <span className="bds-calendar__slot-label">{formatHour(hour, locale)}</span>
+              {slotEvents.length > 0 && (
+                <ul className="bds-calendar__events">{slotEvents.map(renderChip)}</ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const showSwitcher = !compact && views.length > 1;
+  const prevLabel = `Previous ${view}`;
+  const nextLabel = `Next ${view}`;
+
+  return (
+    <div
+      className={bdsClass(
+        'bds-calendar',
+        compact && 'bds-calendar--density-compact',
+        className,
+      )}
+      {...props}
+    >
+      <div className="bds-calendar__header">
+        {compact ? (
+          <>
+            <button
+              type="button"
+              className="bds-calendar__nav-button"
+              onClick={() => setAnchor(stepAnchor(view, anchor, -1))}
+              aria-label={prevLabel}
+            >
+              ‹
+            </button>
+            <span className="bds-calendar__heading" aria-live="polite">{heading}</span>
+            <button
+              type="button"
+              className="bds-calendar__nav-button"
+              onClick={() => setAnchor(stepAnchor(view, anchor, 1))}
+              aria-label={nextLabel}
+            >
+              ›
+            </button>
+          </>
+        ) : (
+          <>
+            <div className="bds-calendar__nav">
+              <Button variant="secondary" size="sm" onClick={() => setAnchor(startOfDay(new Date()))}>
+                Today
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                icon={<Icon icon={CaretLeft} />}
+                label={prevLabel}
+                onClick={() => setAnchor(stepAnchor(view, anchor, -1))}
+              />
+              <Button
+                variant="ghost"
+                size="sm"
+                icon={<Icon icon={CaretRight} />}
+                label={nextLabel}
+                onClick={() => setAnchor(stepAnchor(view, anchor, 1))}
+              />
+              <span className="bds-calendar__heading" aria-live="polite">{heading}</span>
+            </div>
+            {showSwitcher && (
+              <SegmentedControl
+                size="sm"
+                aria-label="Calendar view"
+                value={view}
+                onChange={(next) => setView(next as CalendarView)}
+                items={views.map((v) => ({ label: VIEW_LABELS[v], value: v }))}
+              />
+            )}
+          </>
+        )}
+      </div>
+
+      {view === 'month' && renderMonth()}
+      {view === 'week' && renderWeek()}
+      {view === 'day' && renderDay()}
+    </div>
+  );
+}
+
+export default Calendar;
@@ -0,0 +1,138 @@
+/**
+ * Date engine unit tests — the day math Calendar and DatePicker share.
+ * Pure functions, so these run in the node `components` project.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  addMonths,
+  clampDate,
+  clampRange,
+  getRangeLength,
+  getMonthGrid,
+  getWeekDays,
+  isDateDisabled,
+  isMonthDisabled,
+  isWithinRange,
+  shiftDateRange,
+  startOfWeek,
+  toDateKey,
+} from './dateUtils';
+
+describe('addMonths', () => {
+  it('clamps the day to the end of a shorter month', () => {
+    expect(addMonths(new Date(2025, 0, 31), 1)).toEqual(new Date(2025, 1, 28));
+  });
+
+  it('crosses year boundaries in both directions', () => {
+    expect(addMonths(new Date(2025, 11, 15), 1)).toEqual(new Date(2026, 0, 15));
+    expect(addMonths(new Date(2025, 0, 15), -12)).toEqual(new Date(2024, 0, 15));
+  });
+});
+
+describe('startOfWeek / getWeekDays', () => {
+  it('honours weekStartsOn', () => {
+    // Wednesday 11 June 2025
+    const wed = new Date(2025, 5, 11);
+    expect(startOfWeek(wed, 0)).toEqual(new Date(2025, 5, 8));
+    expect(startOfWeek(wed, 1)).toEqual(new Date(2025, 5, 9));
+    expect(getWeekDays(wed, 1).map((d) => d.getDate())).toEqual([9, 10, 11, 12, 13, 14, 15]);
+  });
+});
+
+describe('getMonthGrid', () => {
+  it('pads leading and trailing cells with null by default', () => {
+    // June 2025 starts on a Sunday and has 30 days → 5 weeks, 5 trailing blanks
+    const weeks = getMonthGrid(2025, 5);
+    expect(weeks).toHaveLength(5);
+    expect(weeks[0][0]).toEqual(new Date(2025, 5, 1));
+    expect(weeks[4].filter((d) => d === null)).toHaveLength(5);
+  });
+
+  it('rotates the lead with weekStartsOn', () => {
+    const weeks = getMonthGrid(2025, 5, { weekStartsOn: 1 });
+    expect(weeks[0].slice(0, 6)).toEqual([null, null, null, null, null, null]);
+    expect(weeks[0][6]).toEqual(new Date(2025, 5, 1));
+  });
+
+  it('fills adjacent-month days when asked', () => {
+    const weeks = getMonthGrid(2025, 5, { weekStartsOn: 1, fillAdjacent: true });
+    expect(weeks[0][0]).toEqual(new Date(2025, 4, 26));
+    expect(weeks.flat().every((d) => d !== null)).toBe(true);
+  });
+});
+
+describe('isDateDisabled', () => {
+  const minDate = new Date(2025, 5, 3, 18, 30);
+  const maxDate = new Date(2025, 5, 27, 6, 0);
+
+  it('treats min/max as inclusive days regardless of time-of-day', () => {
+    expect(isDateDisabled(new Date(2025, 5, 3), { minDate })).toBe(false);
+    expect(isDateDisabled(new Date(2025, 5, 2, 23, 59), { minDate })).toBe(true);
+    expect(isDateDisabled(new Date(2025, 5, 27, 22, 0), { maxDate })).toBe(false);
+    expect(isDateDisabled(new Date(2025, 5, 28), { maxDate })).toBe(true);
+  });
+
+  it('blocks listed days and predicate matches', () => {
+    const rules = {
+      disabledDates: [new Date(2025, 5, 16)],
+      isDateDisabled: (d: Date) => d.getDay() === 0,
+    };
+    expect(isDateDisabled(new Date(2025, 5, 16, 12), rules)).toBe(true);
+    expect(isDateDisabled(new Date(2025, 5, 8), rules)).toBe(true);
+    expect(isDateDisabled(new Date(2025, 5, 17), rules)).toBe(false);
+  });
+});
+
+describe('isMonthDisabled', () => {
+  it('keeps a month that straddles the boundary selectable', () => {
+    const range = { minDate: new Date(2026, 2, 15), maxDate: new Date(2026, 4, 10) };
+    expect(isMonthDisabled(2026, 1, range)).toBe(true);
+    expect(isMonthDisabled(2026, 2, range)).toBe(false);
+    expect(isMonthDisabled(2026, 4, range)).toBe(false);
+    expect(isMonthDisabled(2026, 5, range)).toBe(true);
+  });
+});
+
+describe('clampDate / toDateKey', () => {
+  it('clamps into the inclusive range', () => {
+    const range = { minDate: new Date(2025, 5, 3), maxDate: new Date(2025, 5, 27) };
+    expect(clampDate(new Date(2025, 5, 1), range)).toEqual(new Date(2025, 5, 3));
+    expect(clampDate(new Date(2025, 6, 1), range)).toEqual(new Date(2025, 5, 27));
+    expect(clampDate(new Date(2025, 5, 10), range)).toEqual(new Date(2025, 5, 10));
+  });
+
+  it('zero-pads month and day', () => {
+    expect(toDateKey(new Date(2025, 0, 5))).toBe('2025-01-05');
+  });
+});
+
+describe('ranges', () => {
+  it('orders reversed ends and counts days inclusively', () => {
+    const range = { start: new Date(2025, 5, 14), end: new Date(2025, 5, 10) };
+    expect(isWithinRange(new Date(2025, 5, 12, 23), range)).toBe(true);
+    expect(isWithinRange(new Date(2025, 5, 15), range)).toBe(false);
+    expect(getRangeLength(range)).toBe(5);
+    expect(getRangeLength({ start: new Date(2025, 5, 14), end: null })).toBe(0);
+  });
+
+  it('clamps into bounds, or returns null when wholly outside', () => {
+    const bounds = { minDate: new Date(2025, 5, 3), maxDate: new Date(2025, 5, 27) };
+    expect(clampRange({ start: new Date(2025, 5, 1), end: new Date(2025, 5, 10) }, bounds)).toEqual({
+      start: new Date(2025, 5, 3),
+      end: new Date(2025, 5, 10),
+    });
+    expect(clampRange({ start: new Date(2025, 6, 1), end: new Date(2025, 6, 31) }, bounds)).toBeNull();
+  });
+
+  it('steps month-aligned ranges by whole months', () => {
+    // Q2 → Q3 and back to Q1, keeping calendar-quarter ends
+    const q2 = { start: new Date(2025, 3, 1), end: new Date(2025, 5, 30) };
+    expect(shiftDateRange(q2, 1)).toEqual({ start: new Date(2025, 6, 1), end: new Date(2025, 8, 30) });
+    expect(shiftDateRange(q2, -1)).toEqual({ start: new Date(2025, 0, 1), end: new Date(2025, 2, 31) });
+  });
+
+  it('steps other ranges by their own length', () => {
+    const week = { start: new Date(2025, 5, 10), end: new Date(2025, 5, 16) };
+    expect(shiftDateRange(week, 1)).toEqual({ start: new Date(2025, 5, 17), end: new Date(2025, 5, 23) });
+  });
+});
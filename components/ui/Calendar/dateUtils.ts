@@ -0,0 +1,228 @@
+/**
+ * BDS date engine — the day math shared by Calendar and DatePicker.
+ *
+ * Every helper works in the host's local time and treats a `Date` as a
+ * calendar day — time-of-day is ignored throughout. Nothing
+ * here touches the DOM or React, so the whole engine is unit-testable in node
+ * and safe to call during SSR.
+ */
+
+/** Day of week a calendar week starts on — `0` Sunday … `6` Saturday. */
+export type WeekStart = 0 | 1 | 2 | 3 | 4 | 5 | 6;
+
+/**
+ * A start/end pair. Either end may be `null` while a range is being picked —
+ * `{ start, end: null }` is the "start chosen, end pending" state.
+ */
+export interface DateRange {
+  start: Date | null;
+  end: Date | null;
+}
+
+/** Min/max/disabled rules a calendar cell is checked against. */
+export interface DateConstraints {
+  /** Earliest selectable day (inclusive; time-of-day ignored) */
+  minDate?: Date;
+  /** Latest selectable day (inclusive; time-of-day ignored) */
+  maxDate?: Date;
+  /** Individual days that are never selectable */
+  disabledDates?: Date[];
+  /** Predicate for rule-based blocking, e.g. weekends or holidays */
+  isDateDisabled?: (date: Date) => boolean;
+}
+
+// ─── Construction ───────────────────────────────────────────────────
+
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+export function addDays(date: Date, amount: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + amount);
+}
+
+/**
+ * Shift by whole months, clamping the day so Jan 31 + 1 month lands on the
+ * last day of February rather than overflowing into March.
+ */
+export function addMonths(date: Date, amount: number): Date {
+  const target = new Date(date.getFullYear(), date.getMonth() + amount, 1);
+  const day = Math.min(date.getDate(), getDaysInMonth(target.getFullYear(), target.getMonth()));
+  return new Date(target.getFullYear(), target.getMonth(), day);
+}
+
+export function startOfMonth(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+}
+
+export function startOfWeek(date: Date, weekStartsOn: WeekStart = 0): Date {
+  const offset = (date.getDay() - weekStartsOn + 7) % 7;
+  return addDays(date, -offset);
+}
+
+export function endOfWeek(date: Date, weekStartsOn: WeekStart = 0): Date {
+  return addDays(startOfWeek(date, weekStartsOn), 6);
+}
+
+// ─── Queries ────────────────────────────────────────────────────────
+
+export function getDaysInMonth(year: number, month: number): number {
+  return new Date(year, month + 1, 0).getDate();
+}
+
+/** Weekday (`0` Sunday … `6` Saturday) the month's first day falls on. */
+export function getFirstDayOfMonth(year: number, month: number): number {
+  return new Date(year, month, 1).getDay();
+}
+
+export function isSameDay(a: Date, b: Date): boolean {
+  return (
+    a.getFullYear() === b.getFullYear() &&
+    a.getMonth() === b.getMonth() &&
+    a.getDate() === b.getDate()
+  );
+}
+
+export function isSameMonth(a: Date, b: Date): boolean {
+  return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth();
+}
+
+export function isToday(date: Date): boolean {
+  return isSameDay(date, new Date());
+}
+
+/** Stable `YYYY-MM-DD` key for a local day — DOM lookups and React keys. */
+export function toDateKey(date: Date): string {
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${m}-${d}`;
+}
+
+/** Seven consecutive days starting at the week containing `date`. */
+export function getWeekDays(date: Date, weekStartsOn: WeekStart = 0): Date[] {
+  const start = startOfWeek(date, weekStartsOn);
+  return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+}
+
+/**
+ * The month as weeks of seven cells. Leading/trailing cells outside the month
+ * are `null` — a picker renders them as blanks — unless `fillAdjacent` is set,
+ * in which case they carry the neighbouring month's days (a scheduling
+ * calendar shows them muted so events that straddle the boundary stay visible).
+ */
+export function getMonthGrid(
+  year: number,
+  month: number,
+  { weekStartsOn = 0, fillAdjacent = false }: { weekStartsOn?: WeekStart; fillAdjacent?: boolean } = {},
+): (Date | null)[][] {
+  const lead = (getFirstDayOfMonth(year, month) - weekStartsOn + 7) % 7;
+  const daysInMonth = getDaysInMonth(year, month);
+  const total = Math.ceil((lead + daysInMonth) / 7) * 7;
+
+  const weeks: (Date | null)[][] = [];
+  for (let i = 0; i < total; i++) {
+    const date = new Date(year, month, i - lead + 1);
+    const inMonth = date.getMonth() === month;
+    if (i % 7 === 0) weeks.push([]);
+    weeks[weeks.length - 1].push(inMonth || fillAdjacent ? date : null);
+  }
+  return weeks;
+}
+
+// ─── Constraints ────────────────────────────────────────────────────
+
+export function isDateDisabled(date: Date, constraints: DateConstraints = {}): boolean {
+  const { minDate, maxDate, disabledDates, isDateDisabled: predicate } = constraints;
+  const day = startOfDay(date);
+  if (minDate && day < startOfDay(minDate)) return true;
+  if (maxDate && day > startOfDay(maxDate)) return true;
+  if (disabledDates?.some((d) => isSameDay(d, day))) return true;
+  if (predicate?.(day)) return true;
+  return false;
+}
+
+/**
+ * A month is disabled only when its *entire* span falls outside the
+ * min/max range — a month straddling the boundary stays selectable.
+ */
+export function isMonthDisabled(
+  year: number,
+  month: number,
+  { minDate, maxDate }: Pick<DateConstraints, 'minDate' | 'maxDate'> = {},
+): boolean {
+  const monthStart = new Date(year, month, 1);
+  const monthEnd = new Date(year, month + 1, 0);
+  if (minDate && monthEnd < startOfDay(minDate)) return true;
+  if (maxDate && monthStart > startOfDay(maxDate)) return true;
+  return false;
+}
+
+/** Clamp a day into `[minDate, maxDate]` — used to keep keyboard focus in range. */
+export function clampDate(date: Date, { minDate, maxDate }: Pick<DateConstraints, 'minDate' | 'maxDate'> = {}): Date {
+  if (minDate && startOfDay(date) < startOfDay(minDate)) return startOfDay(minDate);
+  if (maxDate && startOfDay(date) > startOfDay(maxDate)) return startOfDay(maxDate);
+  return date;
+}
+
+// ─── Ranges ─────────────────────────────────────────────────────────
+
+/** Order a range so `start <= end`, whichever end was picked first. */
+export function normalizeRange({ start, end }: DateRange): DateRange {
+  if (start && end && startOfDay(end) < startOfDay(start)) return { start: end, end: start };
+  return { start, end };
+}
+
+/** True when `date` falls on or between a complete range's ends (day granularity). */
+export function isWithinRange(date: Date, range: DateRange): boolean {
+  const { start, end } = normalizeRange(range);
+  if (!start || !end) return false;
+  const day = startOfDay(date);
+  return day >= startOfDay(start) && day <= startOfDay(end);
+}
+
+/** Inclusive day count of a complete range — `0` when either end is missing. */
+export function getRangeLength(range: DateRange): number {
+  const { start, end } = normalizeRange(range);
+  if (!start || !end) return 0;
+  return Math.round((startOfDay(end).getTime() - startOfDay(start).getTime()) / 86_400_000) + 1;
+}
+
+/**
+ * Clamp both ends into `[minDate, maxDate]`. Returns `null` when the range
+ * lies entirely outside the bounds — a preset that cannot be honoured at all.
+ */
+export function clampRange(
+  range: DateRange,
+  bounds: Pick<DateConstraints, 'minDate' | 'maxDate'> = {},
+): DateRange | null {
+  const { start, end } = normalizeRange(range);
+  if (!start || !end) return { start, end };
+  const clamped = { start: clampDate(start, bounds), end: clampDate(end, bounds) };
+  if (bounds.minDate && startOfDay(end) < startOfDay(bounds.minDate)) return null;
+  if (bounds.maxDate && startOfDay(start) > startOfDay(bounds.maxDate)) return null;
+  return clamped;
+}
+
+/**
+ * Step a range to the adjacent period of the same shape — the `onPrev` /
+ * `onNext` of a PeriodNav paired with a range picker. A range covering whole
+ * calendar months (Jan 1 – Mar 31) steps by that many months so it stays
+ * month-aligned; anything else steps by its own day count.
+ */
+export function shiftDateRange(range: DateRange, direction: 1 | -1): DateRange {
+  const { start, end } = normalizeRange(range);
+  if (!start || !end) return { start, end };
+
+  const wholeMonths =
+    start.getDate() === 1 && end.getDate() === getDaysInMonth(end.getFullYear(), end.getMonth());
+  if (wholeMonths) {
+    const months =
+      (end.getFullYear() - start.getFullYear()) * 12 + (end.getMonth() - start.getMonth()) + 1;
+    const nextStart = new Date(start.getFullYear(), start.getMonth() + months * direction, 1);
+    const nextEnd = new Date(nextStart.getFullYear(), nextStart.getMonth() + months, 0);
+    return { start: nextStart, end: nextEnd };
+  }
+
+  const days = getRangeLength({ start, end }) * direction;
+  return { start: addDays(start, days), end: addDays(end, days) };
+}
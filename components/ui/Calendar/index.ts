@@ -1,2 +1,10 @@
-// Calendar — placeholder, component not yet implemented
-export {};
+export {
+  Calendar,
+  type CalendarProps,
+  type CalendarView,
+  type CalendarDensity,
+  type CalendarEvent,
+  type CalendarEventTone,
+} from './Calendar';
+export { default } from './Calendar';
+export { shiftDateRange, type WeekStart, type DateConstraints, type DateRange } from './dateUtils';
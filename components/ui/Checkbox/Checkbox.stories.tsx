@@ -26,6 +26,14 @@ const meta: Meta<typeof Checkbox> = {
       control: 'boolean',
       description: 'Locks the input and applies muted styling.',
     },
+    indeterminate: {
+      control: 'boolean',
+      description: 'Mixed state, announced as "mixed" — e.g. a select-all box when only some rows are selected.',
+    },
+    error: {
+      control: 'text',
+      description: 'Error message rendered below the checkbox. Marks the input `aria-invalid`.',
+    },
     onChange: {
       action: 'changed',
       description: 'Called with the native change event when the checkbox toggles.',
@@ -106,3 +114,22 @@ export const Horizontal: Story = {
     </div>
   ),
 };
+
+/**
+ * A consumer's `aria-describedby` is kept alongside the error link, so the
+ * input is described by both the hint and the message.
+ * @summary Play-function interaction test
+ */
+export const InteractionTestCheckboxDescribedBy: Story = {
+  tags: ['!manifest', 'interaction-test'],
+  render: () => (
+    <div>
+      <p id="terms-hint">You can withdraw consent at any time.</p>
+      <Checkbox label="Accept terms and conditions" aria-describedby="terms-hint" error="Accept the terms to continue" />
+    </div>
+  ),
+  play: async ({ canvasElement }) => {
+    const checkbox = within(canvasElement).getByLabelText('Accept terms and conditions');
+    await expect(checkbox).toHaveAccessibleDescription('You can withdraw consent at any time. Accept the terms to continue');
+  },
+};
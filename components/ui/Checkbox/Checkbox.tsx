@@ -1,4 +1,4 @@
-import { type InputHTMLAttributes, type ReactNode } from 'react';
+import { forwardRef, useEffect, useId, useImperativeHandle, useRef, type InputHTMLAttributes, type ReactNode } from 'react';
 import { bdsClass } from '../../utils';
 import './Checkbox.css';
 
@@ -11,44 +11,87 @@ export interface CheckboxProps extends Omit<InputHTMLAttributes<HTMLInputElement
   defaultChecked?: boolean;
   /** Disable the input and apply muted styling. */
   disabled?: boolean;
+  /** Render the mixed state (announced as "mixed") — e.g. a select-all box when only some rows are selected. Default `false`. */
+  indeterminate?: boolean;
   /** Called when the checkbox toggles — receives the native change event. */
   onChange?: (event: React.ChangeEvent<HTMLInputElement>) => void;
+  /** Error message rendered below the checkbox. Marks the input invalid. */
+  error?: string;
 }
 
 /**
  * Checkbox — themed checkbox with label text.
  *
+ * Pass `error` to mark it invalid — e.g. an unchecked terms box on submit.
+ * The message renders below the label and is linked to the input with
+ * `aria-describedby`.
+ *
  * @summary Themed checkbox with adjacent label
  */
-export function Checkbox({
-  label,
-  checked,
-  defaultChecked,
-  disabled = false,
-  onChange,
-  id,
-  className,
-  style,
-  ...props
-}: CheckboxProps) {
-  return (
-    <label
-      className={bdsClass('bds-checkbox', disabled && 'bds-checkbox--disabled', className)}
-      style={style}
-    >
-      <input
-        type="checkbox"
-        className="bds-checkbox__input"
-        checked={checked}
-        defaultChecked={defaultChecked}
-        disabled={disabled}
-        onChange={onChange}
-        id={id}
-        {...props}
-      />
-      <span className="bds-checkbox__text">{label}</span>
-    </label>
-  );
-}
+export const Checkbox = forwardRef<HTMLInputElement, CheckboxProps>(
+  (
+    {
+      label,
+      checked,
+      defaultChecked,
+      disabled = false,
+      indeterminate = false,
+      onChange,
+      error,
+      id,
+      className,
+      style,
+      'aria-describedby': describedBy,
+      ...props
+    },
+    ref,
+  ) => {
+    // `indeterminate` is a DOM property with no HTML attribute.
+    const inputRef = useRef<HTMLInputElement>(null);
+    useImperativeHandle(ref, () => inputRef.current as HTMLInputElement);
+    useEffect(() => {
+      if (inputRef.current) inputRef.current.indeterminate = indeterminate;
+    }, [indeterminate]);
+
+    const errorId = `checkbox-${useId()}-error`;
+
+    // The wrapper renders with or without an error, so an error appearing
+    // (e.g. on submit, with focus already on the input) doesn't remount the
+    // input and drop focus. Without an error it is `display: contents`, so
+    // the <label> — which keeps `className` and `style` — is still the box
+    // the consumer's layout sizes. The message sits outside the <label> so
+    // it isn't read as part of the checkbox's name.
+    return (
+      <span className="bds-checkbox-field">
+        <label
+          className={bdsClass('bds-checkbox', disabled && 'bds-checkbox--disabled', className)}
+          style={style}
+        >
+          <input
+            ref={inputRef}
+            type="checkbox"
+            className="bds-checkbox__input"
+            checked={checked}
+            defaultChecked={defaultChecked}
+            disabled={disabled}
+            onChange={onChange}
+            id={id}
+            aria-invalid={error ? true : undefined}
+            aria-describedby={[describedBy, error && errorId].filter(Boolean).join(' ') || undefined}
+            {...props}
+          />
+          <span className="bds-checkbox__text">{label}</span>
+        </label>
+        {error && (
+          <span id={errorId} className="bds-checkbox__error" role="alert">
+            {error}
+          </span>
+        )}
+      </span>
+    );
+  },
+);
+
+Checkbox.displayName = 'Checkbox';
 
 export default Checkbox;
@@ -1,4 +1,5 @@
 import type { Meta, StoryObj } from '@storybook/react-vite';
+import { expect, within } from 'storybook/test';
 import { TableView } from './TableView';
 import { ListView } from './ListView';
 import { ProfileView } from './ProfileView';
@@ -10,6 +11,7 @@ import { DataSection } from '../DataSection';
 import { Field } from '../Field';
 import { FieldGrid } from '../FieldGrid';
 import { Board as BoardLayout, BoardColumn, BoardCard } from '../Board';
+import { InteractiveListItem } from '../InteractiveListItem';
 
 /*
  * DataView is a *family* of four sibling views (TableView / ListView /
@@ -197,3 +199,58 @@ export const Board: Story = {
     </PreviewFrame>
   ),
 };
+
+/* ─── Virtualized — `virtualize` on ListView ─────────────────────
+   Here the row count is the subject, not a fixture: windowing only
+   shows at a size where mounting everything would hurt. */
+
+const patientNames = ['Emily Rivera', 'Marcus Hale', 'Priya Patel', 'Jonah Brooks', 'Sofia Lindqvist'];
+
+/** The `CardList` stays a direct child of ListView, so its items are the ones windowed. */
+const patientItems = () =>
+  Array.from({ length: 10_000 }, (_, i) => (
+    <InteractiveListItem key={i} title={`${patientNames[i % patientNames.length]} #${i + 1}`} onClick={() => {}} />
+  ));
+
+/**
+ * `virtualize` mounts only the items in view — 10,000 list items here. The
+ * loading / empty / error states are unchanged.
+ *
+ * @summary ListView — 10,000 windowed items
+ */
+export const Virtualized: Story = {
+  args: { loading: false, empty: false, error: '', emptyState: { title: 'No patients' } },
+  render: (args) => (
+    <PreviewFrame>
+      <ListView {...args} virtualize={{ rowHeight: 72, height: 480 }}>
+        <CardList gap="sm" aria-label="Patients">
+          {patientItems()}
+        </CardList>
+      </ListView>
+    </PreviewFrame>
+  ),
+};
+
+/**
+ * Each mounted item reports its position against the full list, so screen
+ * readers announce "1 of 10,000".
+ * @summary Play-function interaction test
+ */
+export const InteractionTestVirtualizedListPosition: Story = {
+  tags: ['!manifest', 'interaction-test'],
+  render: () => (
+    <ListView virtualize={{ rowHeight: 72, height: 320 }}>
+      <CardList gap="sm" aria-label="Patients">
+        {patientItems()}
+      </CardList>
+    </ListView>
+  ),
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    const items = within(canvas.getByRole('list', { name: 'Patients' })).getAllByRole('listitem');
+    await expect(items.length).toBeLessThan(30);
+    await expect(items[0]).toHaveAttribute('aria-setsize', '10000');
+    await expect(items[0]).toHaveAttribute('aria-posinset', '1');
+    await expect(items[0]).toHaveTextContent('Emily Rivera #1');
+  },
+};
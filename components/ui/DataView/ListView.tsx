@@ -1,13 +1,66 @@
+import { Children, isValidElement } from 'react';
+import { CardList, type CardListProps } from '../CardList';
+import type { VirtualizeOptions } from '../shared/useVirtualRows';
 import { DataViewShell, ListSkeleton, type DataViewProps } from './DataView';
+import { WindowedList } from './WindowedList';
+
+export interface ListViewProps extends DataViewProps {
+  /**
+   * Render only the items in view, for lists in the thousands. Windows the
+   * items passed as `children` — or, when the only child is a `CardList`,
+   * that list's items, keeping its `gap` and accessible name. Default off.
+   */
+  virtualize?: VirtualizeOptions;
+}
 
 /**
  * ListView — loading / empty / error shell around a `CardList` /
  * `InteractiveListItem` stack. The list is passed as `children`.
  *
+ * With `virtualize`, the content state mounts only the items in view; the
+ * space of the rest is held open so the scrollbar and positions stay true.
+ * Each `<li>` carries `aria-setsize` / `aria-posinset`, and the focused item
+ * stays mounted when it scrolls away.
+ *
+ * @example
+ * ```tsx
+ * <ListView loading={isLoading} empty={patients.length === 0} virtualize={{ rowHeight: 72, height: 640 }}>
+ *   <CardList gap="sm" aria-label="Patients">
+ *     {patients.map((p) => <InteractiveListItem key={p.id} title={p.name} onClick={() => open(p)} />)}
+ *   </CardList>
+ * </ListView>
+ * ```
+ *
  * @summary Loading/empty/error shell around a list.
  */
-export function ListView(props: DataViewProps) {
-  return <DataViewShell defaultSkeleton={<ListSkeleton />} {...props} />;
+export function ListView({ virtualize, children, ...props }: ListViewProps) {
+  if (!virtualize) {
+    return (
+      <DataViewShell defaultSkeleton={<ListSkeleton />} {...props}>
+        {children}
+      </DataViewShell>
+    );
+  }
+
+  // Unwrap here rather than in the client list, so a server-rendered page
+  // hands over the items and not an already-rendered `<ul>`.
+  const nodes = Children.toArray(children);
+  const cardList =
+    nodes.length === 1 && isValidElement<CardListProps>(nodes[0]) && nodes[0].type === CardList
+      ? nodes[0]
+      : undefined;
+  return (
+    <DataViewShell defaultSkeleton={<ListSkeleton />} {...props}>
+      <WindowedList
+        virtualize={virtualize}
+        items={Children.toArray(cardList ? cardList.props.children : children).filter(isValidElement)}
+        gap={cardList?.props.gap ?? 'lg'}
+        className={cardList?.props.className}
+        aria-label={cardList?.props['aria-label']}
+        aria-labelledby={cardList?.props['aria-labelledby']}
+      />
+    </DataViewShell>
+  );
 }
 
 export default ListView;
@@ -1,5 +1,17 @@
+import { cloneElement, isValidElement } from 'react';
+import { Table, type TableProps } from '../Table/Table';
+import type { VirtualizeOptions } from '../shared/useVirtualRows';
 import { DataViewShell, TableSkeleton, type DataViewProps } from './DataView';
 
+export interface TableViewProps extends DataViewProps {
+  /**
+   * Render only the body rows in view, for tables in the thousands —
+   * forwarded as the `virtualize` prop of the `Table` passed as `children`,
+   * which must be a direct child. Default off.
+   */
+  virtualize?: VirtualizeOptions;
+}
+
 /**
  * TableView — loading / empty / error shell around a `Table`. A thin wrapper
  * that owns only those three states; the `Table` is passed as `children`.
@@ -18,8 +30,16 @@ import { DataViewShell, TableSkeleton, type DataViewProps } from './DataView';
  *
  * @summary Loading/empty/error shell around a Table.
  */
-export function TableView(props: DataViewProps) {
-  return <DataViewShell defaultSkeleton={<TableSkeleton />} {...props} />;
+export function TableView({ virtualize, children, ...props }: TableViewProps) {
+  const content =
+    virtualize && isValidElement<TableProps>(children) && children.type === Table
+      ? cloneElement(children, { virtualize })
+      : children;
+  return (
+    <DataViewShell defaultSkeleton={<TableSkeleton />} {...props}>
+      {content}
+    </DataViewShell>
+  );
 }
 
 export default TableView;
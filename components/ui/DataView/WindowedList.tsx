@@ -0,0 +1,61 @@
+'use client';
+
+import { type ReactElement } from 'react';
+import { bdsClass } from '../../utils';
+import type { CardListGap } from '../CardList';
+import { useVirtualRows, type VirtualizeOptions } from '../shared/useVirtualRows';
+
+export interface WindowedListProps {
+  virtualize: VirtualizeOptions;
+  /** The list items — each rendered in its own `<li>`. */
+  items: ReactElement[];
+  gap: CardListGap;
+  className?: string;
+  'aria-label'?: string;
+  'aria-labelledby'?: string;
+}
+
+/**
+ * ListView's windowed content state — items outside the viewport are not
+ * mounted. Internal to the DataView module.
+ */
+export function WindowedList({ virtualize, items, gap, className, ...aria }: WindowedListProps) {
+  const { containerRef, onScroll, onFocus, onBlur, rows, gapAfter } = useVirtualRows({
+    count: items.length,
+    rowHeight: virtualize.rowHeight,
+    viewportHeight: virtualize.height,
+    overscan: virtualize.overscan,
+  });
+
+  return (
+    <div
+      ref={containerRef}
+      className="bds-list-view"
+      style={{ height: virtualize.height }}
+      onScroll={onScroll}
+      onFocus={onFocus}
+      onBlur={onBlur}
+    >
+      {/* Skipped items become margin above the next rendered item and
+          padding after the last, so no spacer elements enter the list. */}
+      <ul
+        className={bdsClass('bds-list-view__items', `bds-list-view__items--gap-${gap}`, className)}
+        style={gapAfter > 0 ? { paddingBottom: gapAfter } : undefined}
+        {...aria}
+      >
+        {rows.map(({ index, gapBefore }) => (
+          <li
+            key={items[index].key ?? index}
+            className="bds-list-view__item"
+            data-index={index}
+            aria-setsize={items.length}
+            aria-posinset={index + 1}
+            style={gapBefore > 0 ? { marginTop: gapBefore } : undefined}
+          >
+            {items[index]}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
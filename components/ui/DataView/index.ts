@@ -1,5 +1,5 @@
-export { TableView } from './TableView';
-export { ListView } from './ListView';
+export { TableView, type TableViewProps } from './TableView';
+export { ListView, type ListViewProps } from './ListView';
 export { ProfileView } from './ProfileView';
 export { BoardView } from './BoardView';
 export {
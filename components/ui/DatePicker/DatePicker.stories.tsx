@@ -2,6 +2,9 @@ import { useState } from 'react';
 import type { Meta, StoryObj } from '@storybook/react-vite';
 import { expect, fn, userEvent, waitFor, within } from 'storybook/test';
 import { DatePicker } from './DatePicker';
+import { DateRangePicker, formatDateRange } from './DateRangePicker';
+import { PeriodNav } from '../PeriodNav';
+import { shiftDateRange, type DateRange } from '../Calendar/dateUtils';
 
 /* ─── Meta ────────────────────────────────────────────────────── */
 
@@ -54,6 +57,31 @@ const meta: Meta<typeof DatePicker> = {
       control: 'date',
       description: 'Latest selectable date. Days after are disabled in the grid.',
     },
+    disabledDates: {
+      control: false,
+      description: 'Individual days that are never selectable (`precision="day"` only).',
+    },
+    isDateDisabled: {
+      control: false,
+      description: 'Predicate for rule-based blocking, e.g. weekends (`precision="day"` only).',
+    },
+    weekStartsOn: {
+      control: { type: 'number', min: 0, max: 6 },
+      description:
+        'First day of the week in the day grid — `0` Sunday … `6` Saturday. Default: derived from `locale`.',
+    },
+    locale: {
+      control: 'select',
+      options: ['en-US', 'en-GB', 'de-DE', 'fr-FR', 'ja-JP'],
+      description:
+        "BCP 47 locale for the trigger label, month and weekday names and week start. Default: the nearest `LocaleProvider`, else `'en-US'`.",
+    },
+    timeZone: {
+      control: 'select',
+      options: [undefined, 'America/Chicago', 'Europe/London', 'Asia/Tokyo'],
+      description:
+        'IANA zone the date is picked in — `onChange` receives midnight of the picked day in this zone. Default: the nearest `LocaleProvider`, else the host zone.',
+    },
     fullWidth: {
       control: 'boolean',
       description: 'Stretches the trigger to fill its container.',
@@ -67,6 +95,7 @@ const meta: Meta<typeof DatePicker> = {
 
 export default meta;
 type Story = StoryObj<typeof DatePicker>;
+type RangeStory = StoryObj<typeof DateRangePicker>;
 
 /* ═══════════════════════════════════════════════════════════════
    DEFAULT — single canonical story per ADR-010 §components without
@@ -185,6 +214,45 @@ export const Month: Story = {
   },
 };
 
+/* ═══════════════════════════════════════════════════════════════
+   RANGE — DateRangePicker, the range sibling. Presets column plus two
+   side-by-side months; hover previews the pending span. The PeriodNav
+   pairing steps the committed range with `shiftDateRange`.
+   ═══════════════════════════════════════════════════════════════ */
+
+/** @summary Date range picker — presets plus two months with hover preview */
+export const Range: Story = {
+  render: () => {
+    const [range, setRange] = useState<DateRange | null>(null);
+    return (
+      <div style={{ width: 320 }}>
+        <DateRangePicker label="Reporting period" value={range} onChange={setRange} />
+      </div>
+    );
+  },
+};
+
+/** @summary Range picker paired with PeriodNav — prev / next step the selected period */
+export const RangeWithPeriodNav: Story = {
+  render: () => {
+    const [range, setRange] = useState<DateRange>({
+      start: new Date(2025, 3, 1),
+      end: new Date(2025, 5, 30),
+    });
+    return (
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 16, width: 420 }}>
+        <PeriodNav
+          aria-label="Browse periods"
+          label={formatDateRange(range)}
+          onPrev={() => setRange(shiftDateRange(range, -1))}
+          onNext={() => setRange(shiftDateRange(range, 1))}
+        />
+        <DateRangePicker aria-label="Reporting period" value={range} onChange={setRange} />
+      </div>
+    );
+  },
+};
+
 /* ═══════════════════════════════════════════════════════════════
    INTERACTION TESTS — play-only, excluded from the MCP manifest +
    sidebar gallery (ADR-010 rule 5). Cover onChange snapping to the
@@ -284,3 +352,99 @@ export const InteractionTestMonthMinMaxGating: Story = {
     expect(may).not.toBeDisabled();
   },
 };
+
+/**
+ * `locale` drives the trigger format and week start; `timeZone` reads the
+ * value as a day in that zone and hands back midnight of the picked day
+ * there — independent of the browser's own zone.
+ * @summary Play-function interaction test
+ */
+export const InteractionTestLocaleAndTimeZoneRoundTrip: Story = {
+  tags: ['!manifest', 'interaction-test'],
+  args: {
+    locale: 'de-DE',
+    timeZone: 'Asia/Tokyo',
+    // Midnight 11 June 2025 in Tokyo.
+    value: new Date(Date.UTC(2025, 5, 10, 15)),
+    onChange: fn(),
+  },
+  play: async ({ canvasElement, args }) => {
+    const canvas = within(canvasElement);
+    const trigger = canvas.getByRole('button', { name: /11\. Juni 2025/ });
+    await userEvent.click(trigger);
+
+    const body = within(document.body);
+    const dialog = await body.findByRole('dialog', {}, { timeout: 3000 });
+    const headers = await waitFor(() => within(dialog).getAllByRole('columnheader'), { timeout: 3000 });
+    await expect(headers[0]).toHaveAccessibleName('Montag');
+
+    await userEvent.click(within(dialog).getByRole('gridcell', { name: /12\. Juni 2025/ }));
+    await expect(args.onChange).toHaveBeenCalledWith(new Date(Date.UTC(2025, 5, 11, 15)));
+  },
+};
+
+/**
+ * First click picks the start, hovering a later day previews the span, and
+ * the second click commits `{ start, end }` and closes the popover.
+ * @summary Play-function interaction test
+ */
+export const InteractionTestRangeHoverPreviewAndCommit: RangeStory = {
+  tags: ['!manifest', 'interaction-test'],
+  args: {
+    'aria-label': 'Stay',
+    value: { start: new Date(2025, 5, 2), end: new Date(2025, 5, 4) },
+    onChange: fn(),
+  },
+  render: (args) => <DateRangePicker {...args} />,
+  play: async ({ canvasElement, args }) => {
+    const canvas = within(canvasElement);
+    await userEvent.click(canvas.getByRole('button', { name: 'Stay' }));
+
+    const body = within(document.body);
+    const dialog = await body.findByRole('dialog', {}, { timeout: 3000 });
+    // June 2025 on the left, July on the right.
+    await waitFor(() => within(dialog).getByRole('grid', { name: 'July 2025' }), { timeout: 3000 });
+
+    await userEvent.click(within(dialog).getByRole('gridcell', { name: /June 10, 2025/ }));
+    await userEvent.hover(within(dialog).getByRole('gridcell', { name: /June 14, 2025/ }));
+    await waitFor(() =>
+      expect(within(dialog).getByRole('gridcell', { name: /June 12, 2025/ })).toHaveAttribute(
+        'data-in-range',
+      ),
+    );
+
+    await userEvent.click(within(dialog).getByRole('gridcell', { name: /June 14, 2025/ }));
+    await expect(args.onChange).toHaveBeenCalledWith({
+      start: new Date(2025, 5, 10),
+      end: new Date(2025, 5, 14),
+    });
+    await waitFor(() => expect(body.queryByRole('dialog')).toBeNull());
+  },
+};
+
+/**
+ * Presets are clamped into `minDate` / `maxDate`; one that falls entirely
+ * outside the bounds renders disabled.
+ * @summary Play-function interaction test
+ */
+export const InteractionTestRangePresetsRespectBounds: Story = {
+  tags: ['!manifest', 'interaction-test'],
+  render: () => (
+    <DateRangePicker
+      aria-label="Booking window"
+      minDate={new Date(new Date().getFullYear() + 1, 0, 1)}
+    />
+  ),
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    await userEvent.click(canvas.getByRole('button', { name: 'Booking window' }));
+
+    const body = within(document.body);
+    const dialog = await body.findByRole('dialog', {}, { timeout: 3000 });
+    const ytd = await waitFor(() => within(dialog).getByRole('button', { name: 'Year to date' }), {
+      timeout: 3000,
+    });
+    await expect(ytd).toBeDisabled();
+    await expect(within(dialog).getByRole('button', { name: 'Last 30 days' })).toBeDisabled();
+  },
+};
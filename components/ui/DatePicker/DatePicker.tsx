@@ -2,11 +2,15 @@ import {
   forwardRef,
   useState,
   useCallback,
-  useMemo,
+  useRef,
   type KeyboardEvent,
 } from 'react';
 import * as Popover from '@radix-ui/react-popover';
+import { Calendar } from '../Calendar';
+import { isMonthDisabled, type WeekStart } from '../Calendar/dateUtils';
 import { bdsClass } from '../../utils';
+import { fromZonedTime, getMonthNames, toZonedTime } from '../../utils/intl';
+import { useLocale } from '../../providers/LocaleProvider';
 import './DatePicker.css';
 
 // ─── Types ──────────────────────────────────────────────────────────
@@ -43,6 +47,25 @@ export interface DatePickerProps {
   minDate?: Date;
   /** Maximum selectable date */
   maxDate?: Date;
+  /** Individual days that are never selectable (`precision="day"` only) */
+  disabledDates?: Date[];
+  /** Predicate for rule-based blocking, e.g. weekends (`precision="day"` only) */
+  isDateDisabled?: (date: Date) => boolean;
+  /** First day of the week in the day grid — `0` Sunday … `6` Saturday (default: derived from `locale`) */
+  weekStartsOn?: WeekStart;
+  /**
+   * BCP 47 locale for the trigger label, month and weekday names and week
+   * start, e.g. `'de-DE'` (default: the nearest LocaleProvider, else `'en-US'`)
+   */
+  locale?: string;
+  /**
+   * IANA time zone the date is picked in, e.g. `'America/Chicago'` (default:
+   * the nearest LocaleProvider, else the host zone). `value`, `minDate` and
+   * `maxDate` are read as days in this zone, and `onChange` receives midnight
+   * of the picked day *in this zone* — so a value round-trips for a practice
+   * in another zone.
+   */
+  timeZone?: string;
   /** Input id */
   id?: string;
   /**
@@ -56,207 +79,23 @@ export interface DatePickerProps {
   className?: string;
 }
 
-// ─── Constants ──────────────────────────────────────────────────────
-
-const DAYS = ['Su', 'Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa'];
-const MONTHS = [
-  'January', 'February', 'March', 'April', 'May', 'June',
-  'July', 'August', 'September', 'October', 'November', 'December',
-];
-
 // ─── Helpers ────────────────────────────────────────────────────────
 
-function getDaysInMonth(year: number, month: number): number {
-  return new Date(year, month + 1, 0).getDate();
-}
-
-function getFirstDayOfMonth(year: number, month: number): number {
-  return new Date(year, month, 1).getDay();
-}
-
-function isSameDay(a: Date, b: Date): boolean {
-  return (
-    a.getFullYear() === b.getFullYear() &&
-    a.getMonth() === b.getMonth() &&
-    a.getDate() === b.getDate()
-  );
-}
-
-function isToday(date: Date): boolean {
-  return isSameDay(date, new Date());
-}
-
-function formatDate(date: Date): string {
-  return date.toLocaleDateString('en-US', {
+function formatDate(date: Date, locale: string): string {
+  return date.toLocaleDateString(locale, {
     month: 'short',
     day: 'numeric',
     year: 'numeric',
   });
 }
 
-function formatMonthYear(date: Date): string {
-  return date.toLocaleDateString('en-US', {
+function formatMonthYear(date: Date, locale: string): string {
+  return date.toLocaleDateString(locale, {
     month: 'long',
     year: 'numeric',
   });
 }
 
-function isDateDisabled(date: Date, minDate?: Date, maxDate?: Date): boolean {
-  if (minDate && date < new Date(minDate.getFullYear(), minDate.getMonth(), minDate.getDate())) {
-    return true;
-  }
-  if (maxDate && date > new Date(maxDate.getFullYear(), maxDate.getMonth(), maxDate.getDate())) {
-    return true;
-  }
-  return false;
-}
-
-// A month is disabled only when its *entire* span falls outside the
-// min/max range — a month straddling the boundary stays selectable.
-function isMonthDisabled(year: number, month: number, minDate?: Date, maxDate?: Date): boolean {
-  const monthStart = new Date(year, month, 1);
-  const monthEnd = new Date(year, month + 1, 0);
-  if (minDate) {
-    const min = new Date(minDate.getFullYear(), minDate.getMonth(), minDate.getDate());
-    if (monthEnd < min) return true;
-  }
-  if (maxDate) {
-    const max = new Date(maxDate.getFullYear(), maxDate.getMonth(), maxDate.getDate());
-    if (monthStart > max) return true;
-  }
-  return false;
-}
-
-// ─── Calendar Sub-component ─────────────────────────────────────────
-
-function Calendar({
-  value,
-  onChange,
-  minDate,
-  maxDate,
-  onClose,
-}: {
-  value: Date | null;
-  onChange: (date: Date) => void;
-  minDate?: Date;
-  maxDate?: Date;
-  onClose: () => void;
-}) {
-  const [viewDate, setViewDate] = useState(() => value ?? new Date());
-  const year = viewDate.getFullYear();
-  const month = viewDate.getMonth();
-
-  const days = useMemo(() => {
-    const daysInMonth = getDaysInMonth(year, month);
-    const firstDay = getFirstDayOfMonth(year, month);
-    const cells: (Date | null)[] = [];
-
-    for (let i = 0; i < firstDay; i++) cells.push(null);
-    for (let d = 1; d <= daysInMonth; d++) cells.push(new Date(year, month, d));
-
-    return cells;
-  }, [year, month]);
-
-  const prevMonth = useCallback(() => {
-    setViewDate(new Date(year, month - 1, 1));
-  }, [year, month]);
-
-  const nextMonth = useCallback(() => {
-    setViewDate(new Date(year, month + 1, 1));
-  }, [year, month]);
-
-  const handleKeyDown = useCallback(
-    (e: KeyboardEvent<HTMLDivElement>) => {
-      if (e.key === 'Escape') {
-        onClose();
-      }
-    },
-    [onClose]
-  );
-
-  return (
-    <div
-      className="bds-date-picker__calendar"
-      onKeyDown={handleKeyDown}
-    >
-      {/* Header: month/year nav */}
-      <div className="bds-date-picker__calendar-header">
-        <button
-          type="button"
-          className="bds-date-picker__nav-button"
-          onClick={prevMonth}
-          aria-label="Previous month"
-        >
-          ‹
-        </button>
-        <span className="bds-date-picker__month-label">
-          {MONTHS[month]} {year}
-        </span>
-        <button
-          type="button"
-          className="bds-date-picker__nav-button"
-          onClick={nextMonth}
-          aria-label="Next month"
-        >
-          ›
-        </button>
-      </div>
-
-      {/* Day-of-week headers */}
-      <div className="bds-date-picker__day-header">
-        {DAYS.map((d) => (
-          <div key={d} className="bds-date-picker__day-label">
-            {d}
-          </div>
-        ))}
-      </div>
-
-      {/* Day grid */}
-      <div
-        className="bds-date-picker__day-grid"
-        role="grid"
-        aria-label={`${MONTHS[month]} ${year}`}
-      >
-        {days.map((day, i) => {
-          if (!day) {
-            return <div key={`empty-${i}`} />;
-          }
-
-          const selected = value ? isSameDay(day, value) : false;
-          const today = isToday(day);
-          const disabled = isDateDisabled(day, minDate, maxDate);
-
-          return (
-            <button
-              key={day.toISOString()}
-              type="button"
-              className={bdsClass(
-                'bds-date-picker__day',
-                selected && 'bds-date-picker__day--selected',
-                today && !selected && 'bds-date-picker__day--today',
-              )}
-              disabled={disabled}
-              onClick={() => {
-                if (!disabled) onChange(day);
-              }}
-              aria-label={day.toLocaleDateString('en-US', {
-                weekday: 'long',
-                month: 'long',
-                day: 'numeric',
-                year: 'numeric',
-              })}
-              aria-selected={selected}
-              role="gridcell"
-            >
-              {day.getDate()}
-            </button>
-          );
-        })}
-      </div>
-    </div>
-  );
-}
-
 // ─── MonthGrid Sub-component ────────────────────────────────────────
 
 function MonthGrid({
@@ -264,12 +103,14 @@ function MonthGrid({
   onChange,
   minDate,
   maxDate,
+  locale,
   onClose,
 }: {
   value: Date | null;
   onChange: (date: Date) => void;
   minDate?: Date;
   maxDate?: Date;
+  locale: string;
   onClose: () => void;
 }) {
   const [viewYear, setViewYear] = useState(() => (value ?? new Date()).getFullYear());
@@ -323,12 +164,12 @@ function MonthGrid({
         role="grid"
         aria-label={`${viewYear}`}
       >
-        {MONTHS.map((monthName, monthIndex) => {
+        {getMonthNames(locale, 'short').map((monthName, monthIndex) => {
           const monthDate = new Date(viewYear, monthIndex, 1);
           const selected = value
             ? value.getFullYear() === viewYear && value.getMonth() === monthIndex
             : false;
-          const disabled = isMonthDisabled(viewYear, monthIndex, minDate, maxDate);
+          const disabled = isMonthDisabled(viewYear, monthIndex, { minDate, maxDate });
 
           return (
             <button
@@ -342,11 +183,11 @@ function MonthGrid({
               onClick={() => {
                 if (!disabled) onChange(monthDate);
               }}
-              aria-label={formatMonthYear(monthDate)}
+              aria-label={formatMonthYear(monthDate, locale)}
               aria-selected={selected}
               role="gridcell"
             >
-              {monthName.slice(0, 3)}
+              {monthName}
             </button>
           );
         })}
@@ -361,7 +202,9 @@ function MonthGrid({
  * DatePicker - BDS themed date picker component
  *
  * Fully token-based — all styles reference BDS semantic design tokens.
- * Uses Radix UI Popover for accessible popover behavior.
+ * Uses Radix UI Popover for accessible popover behavior. The day grid is
+ * `<Calendar density="compact">`, so min/max/disabled-date rules and keyboard
+ * grid navigation behave identically in both components.
  * Matches form component conventions: label, helperText, error, size variants.
  *
  * @example
@@ -389,6 +232,11 @@ export const DatePicker = forwardRef<HTMLButtonElement, DatePickerProps>(
       disabled = false,
       minDate,
       maxDate,
+      disabledDates,
+      isDateDisabled,
+      weekStartsOn,
+      locale: localeProp,
+      timeZone: timeZoneProp,
       id,
       'aria-label': ariaLabel,
       className = '',
@@ -396,15 +244,25 @@ export const DatePicker = forwardRef<HTMLButtonElement, DatePickerProps>(
     ref
   ) => {
     const [open, setOpen] = useState(false);
+    const contentRef = useRef<HTMLDivElement>(null);
     const inputId = id || `datepicker-${Math.random().toString(36).substring(2, 11)}`;
     const hasError = Boolean(error);
+    const localeContext = useLocale();
+    const locale = localeProp ?? localeContext.locale;
+    const timeZone = timeZoneProp ?? localeContext.timeZone;
+
+    // The grids work in local fields — read every bound as a day in
+    // `timeZone`, and hand back midnight of the picked day in that zone.
+    const zonedValue = value ? toZonedTime(value, timeZone) : null;
+    const zonedMin = minDate && toZonedTime(minDate, timeZone);
+    const zonedMax = maxDate && toZonedTime(maxDate, timeZone);
 
     const handleSelect = useCallback(
       (date: Date) => {
-        onChange?.(date);
+        onChange?.(fromZonedTime(date, timeZone));
         setOpen(false);
       },
-      [onChange]
+      [onChange, timeZone]
     );
 
     return (
@@ -446,11 +304,11 @@ export const DatePicker = forwardRef<HTMLButtonElement, DatePickerProps>(
                 error ? `${inputId}-error` : helperText ? `${inputId}-helper` : undefined
               }
             >
-              <span className={value ? undefined : 'bds-date-picker__placeholder'}>
-                {value
+              <span className={zonedValue ? undefined : 'bds-date-picker__placeholder'}>
+                {zonedValue
                   ? precision === 'month'
-                    ? formatMonthYear(value)
-                    : formatDate(value)
+                    ? formatMonthYear(zonedValue, locale)
+                    : formatDate(zonedValue, locale)
                   : placeholder}
               </span>
               <span className="bds-date-picker__caret" aria-hidden>
@@ -461,27 +319,47 @@ export const DatePicker = forwardRef<HTMLButtonElement, DatePickerProps>(
 
           <Popover.Portal>
             <Popover.Content
+              ref={contentRef}
               sideOffset={4}
               align="start"
               style={{ outline: 'none' }}
               aria-label={precision === 'month' ? 'Choose month' : 'Choose date'}
+              onOpenAutoFocus={(e) => {
+                // Land on the grid's roving tab stop (the selected day, else
+                // today) rather than the first nav button — WAI-ARIA date
+                // picker dialog pattern.
+                const cell = contentRef.current?.querySelector<HTMLElement>(
+                  '[role="grid"] [tabindex="0"]',
+                );
+                if (cell) {
+                  e.preventDefault();
+                  cell.focus();
+                }
+              }}
             >
               {precision === 'month' ? (
                 <MonthGrid
-                  value={value}
+                  value={zonedValue}
                   onChange={handleSelect}
-                  minDate={minDate}
-                  maxDate={maxDate}
+                  minDate={zonedMin}
+                  maxDate={zonedMax}
+                  locale={locale}
                   onClose={() => setOpen(false)}
                 />
               ) : (
-                <Calendar
-                  value={value}
-                  onChange={handleSelect}
-                  minDate={minDate}
-                  maxDate={maxDate}
-                  onClose={() => setOpen(false)}
-                />
+                <div className="bds-date-picker__calendar">
+                  <Calendar
+                    density="compact"
+                    value={zonedValue}
+                    onSelect={handleSelect}
+                    minDate={zonedMin}
+                    maxDate={zonedMax}
+                    disabledDates={disabledDates}
+                    isDateDisabled={isDateDisabled}
+                    weekStartsOn={weekStartsOn}
+                    locale={locale}
+                  />
+                </div>
               )}
             </Popover.Content>
           </Popover.Portal>
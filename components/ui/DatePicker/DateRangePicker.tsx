@@ -0,0 +1,399 @@
+import { forwardRef, useCallback, useRef, useState } from 'react';
+import * as Popover from '@radix-ui/react-popover';
+import { Calendar } from '../Calendar';
+import {
+  addDays,
+  addMonths,
+  clampRange,
+  isSameDay,
+  startOfDay,
+  startOfMonth,
+  type DateRange,
+  type WeekStart,
+} from '../Calendar/dateUtils';
+import { bdsClass } from '../../utils';
+import { DEFAULT_LOCALE, formatDateRangeLabel, fromZonedTime, toZonedTime } from '../../utils/intl';
+import { useLocale } from '../../providers/LocaleProvider';
+import type { DatePickerSize } from './DatePicker';
+import './DatePicker.css';
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+/** A named shortcut in the presets column, resolved against today on open. */
+export interface DateRangePreset {
+  /** Stable identifier — used as the React key */
+  id: string;
+  /** Visible label, e.g. `"Last 30 days"` */
+  label: string;
+  /** Range the preset selects, computed from the start of today */
+  getRange: (today: Date) => DateRange;
+}
+
+export interface DateRangePickerProps {
+  /** Selected range */
+  value?: DateRange | null;
+  /** Called with a complete range once both ends are picked, or a preset is chosen */
+  onChange?: (range: DateRange) => void;
+  /** Size variant matching BDS form components */
+  size?: DatePickerSize;
+  /** Optional label */
+  label?: string;
+  /** Helper text below input */
+  helperText?: string;
+  /** Error message (triggers error state) */
+  error?: string;
+  /** Placeholder text */
+  placeholder?: string;
+  /** Full width */
+  fullWidth?: boolean;
+  /** Disabled state */
+  disabled?: boolean;
+  /** Earliest selectable day for either end. Presets are clamped to it. */
+  minDate?: Date;
+  /** Latest selectable day for either end. Presets are clamped to it. */
+  maxDate?: Date;
+  /** Individual days that can never be a range end */
+  disabledDates?: Date[];
+  /** Predicate for rule-based blocking of range ends, e.g. weekends */
+  isDateDisabled?: (date: Date) => boolean;
+  /** First day of the week in both month grids — `0` Sunday … `6` Saturday (default: derived from `locale`) */
+  weekStartsOn?: WeekStart;
+  /** BCP 47 locale for labels and both grids (default: the nearest LocaleProvider, else `'en-US'`) */
+  locale?: string;
+  /**
+   * IANA time zone the range is picked in (default: the nearest
+   * LocaleProvider, else the host zone). Both ends are read as days in this
+   * zone and returned as midnight of those days in it.
+   */
+  timeZone?: string;
+  /**
+   * Shortcuts listed beside the calendars (default `DATE_RANGE_PRESETS`).
+   * Pass `[]` to hide the column.
+   */
+  presets?: DateRangePreset[];
+  /** Input id */
+  id?: string;
+  /** Accessible name for the trigger when no visible `label` is rendered */
+  'aria-label'?: string;
+  /** Additional className */
+  className?: string;
+}
+
+// ─── Presets ────────────────────────────────────────────────────────
+
+/** The default presets column — rolling windows, then calendar periods to date. */
+export const DATE_RANGE_PRESETS: DateRangePreset[] = [
+  {
+    id: 'last-7-days',
+    label: 'Last 7 days',
+    getRange: (today) => ({ start: addDays(today, -6), end: today }),
+  },
+  {
+    id: 'last-30-days',
+    label: 'Last 30 days',
+    getRange: (today) => ({ start: addDays(today, -29), end: today }),
+  },
+  {
+    id: 'this-month',
+    label: 'This month',
+    getRange: (today) => ({
+      start: startOfMonth(today),
+      end: new Date(today.getFullYear(), today.getMonth() + 1, 0),
+    }),
+  },
+  {
+    id: 'this-quarter',
+    label: 'This quarter',
+    getRange: (today) => {
+      const first = today.getMonth() - (today.getMonth() % 3);
+      return {
+        start: new Date(today.getFullYear(), first, 1),
+        end: new Date(today.getFullYear(), first + 3, 0),
+      };
+    },
+  },
+  {
+    id: 'year-to-date',
+    label: 'Year to date',
+    getRange: (today) => ({ start: new Date(today.getFullYear(), 0, 1), end: today }),
+  },
+];
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+/**
+ * Trigger label for a range — `"Jun 1 – 30, 2025"` in `en-US`, with the
+ * locale collapsing whatever month and year the ends share.
+ */
+export function formatDateRange({ start, end }: DateRange, locale: string = DEFAULT_LOCALE): string {
+  if (!start) return '';
+  if (!end) {
+    const startLabel = start.toLocaleDateString(locale, { month: 'short', day: 'numeric', year: 'numeric' });
+    return `${startLabel} – …`;
+  }
+  return formatDateRangeLabel(start, end, locale);
+}
+
+function isSameRange(a: DateRange | null | undefined, b: DateRange | null): boolean {
+  if (!a?.start || !a.end || !b?.start || !b.end) return false;
+  return isSameDay(a.start, b.start) && isSameDay(a.end, b.end);
+}
+
+// ─── DateRangePicker Component ──────────────────────────────────────
+
+/**
+ * DateRangePicker - BDS themed date range picker
+ *
+ * The range sibling of DatePicker: same field shell (label, helperText,
+ * error, size variants), with a popover holding a presets column and two
+ * side-by-side `<Calendar density="compact">` months. The first click picks
+ * the start; hovering or keyboard-focusing a later day previews the span;
+ * the second click completes the range, fires `onChange` and closes. A
+ * second click *before* the start restarts the selection from that day.
+ *
+ * `minDate` / `maxDate` bound both ends. Presets are clamped into the bounds
+ * and disabled when they fall entirely outside them.
+ *
+ * Pair with PeriodNav for period-scoped reports — `shiftDateRange(value, ±1)`
+ * steps the selected range to the adjacent period of the same shape.
+ *
+ * @example
+ * ```tsx
+ * <DateRangePicker label="Reporting period" value={range} onChange={setRange} />
+ * <DateRangePicker presets={[]} minDate={new Date()} label="Stay" />
+ * ```
+ *
+ * @summary Themed date range picker with presets and two-month hover preview
+ */
+export const DateRangePicker = forwardRef<HTMLButtonElement, DateRangePickerProps>(
+  (
+    {
+      value = null,
+      onChange,
+      size = 'md',
+      label,
+      helperText,
+      error,
+      placeholder = 'Select a date range',
+      fullWidth = false,
+      disabled = false,
+      minDate,
+      maxDate,
+      disabledDates,
+      isDateDisabled,
+      weekStartsOn,
+      locale: localeProp,
+      timeZone: timeZoneProp,
+      presets = DATE_RANGE_PRESETS,
+      id,
+      'aria-label': ariaLabel,
+      className = '',
+    },
+    ref
+  ) => {
+    const [open, setOpen] = useState(false);
+    // `draft` holds a half-picked range while the popover is open; `null`
+    // means nothing has been clicked yet and the committed `value` shows.
+    const [draft, setDraft] = useState<DateRange | null>(null);
+    const [hovered, setHovered] = useState<Date | null>(null);
+    const contentRef = useRef<HTMLDivElement>(null);
+    const inputId = id || `daterangepicker-${Math.random().toString(36).substring(2, 11)}`;
+    const hasError = Boolean(error);
+    const localeContext = useLocale();
+    const locale = localeProp ?? localeContext.locale;
+    const timeZone = timeZoneProp ?? localeContext.timeZone;
+
+    // Same zone handling as DatePicker: the grids and presets work on days
+    // in `timeZone`; `commit` converts both ends back to instants.
+    const zonedValue: DateRange | null = value && {
+      start: value.start && toZonedTime(value.start, timeZone),
+      end: value.end && toZonedTime(value.end, timeZone),
+    };
+    const bounds = {
+      minDate: minDate && toZonedTime(minDate, timeZone),
+      maxDate: maxDate && toZonedTime(maxDate, timeZone),
+    };
+
+    const [anchor, setAnchor] = useState<Date>(() =>
+      startOfMonth(zonedValue?.start ?? toZonedTime(new Date(), timeZone)),
+    );
+
+    const handleOpenChange = useCallback(
+      (next: boolean) => {
+        setOpen(next);
+        setDraft(null);
+        setHovered(null);
+        if (next) setAnchor(startOfMonth(zonedValue?.start ?? toZonedTime(new Date(), timeZone)));
+      },
+      [timeZone, zonedValue?.start]
+    );
+
+    const commit = useCallback(
+      ({ start, end }: DateRange) => {
+        onChange?.({
+          start: start && fromZonedTime(start, timeZone),
+          end: end && fromZonedTime(end, timeZone),
+        });
+        handleOpenChange(false);
+      },
+      [handleOpenChange, onChange, timeZone]
+    );
+
+    const handleSelect = useCallback(
+      (day: Date) => {
+        if (!draft?.start || day < draft.start) {
+          setDraft({ start: day, end: null });
+          return;
+        }
+        commit({ start: draft.start, end: day });
+      },
+      [commit, draft]
+    );
+
+    // Preview the pending span against the hovered day; a hover before the
+    // start previews nothing, since clicking there restarts the selection.
+    const pending = draft?.start && !draft.end ? draft.start : null;
+    const displayed: DateRange | null = pending
+      ? { start: pending, end: hovered && hovered >= pending ? hovered : null }
+      : zonedValue;
+
+    const today = startOfDay(toZonedTime(new Date(), timeZone));
+    const calendarProps = {
+      density: 'compact' as const,
+      value: null,
+      onSelect: handleSelect,
+      range: displayed ?? undefined,
+      onDayHover: setHovered,
+      ...bounds,
+      disabledDates,
+      isDateDisabled,
+      weekStartsOn,
+      locale,
+    };
+
+    return (
+      <div
+        className={bdsClass(
+          'bds-date-picker',
+          `bds-date-picker--${size}`,
+          fullWidth && 'bds-date-picker--full-width',
+          className,
+        )}
+      >
+        {label && (
+          <label
+            htmlFor={inputId}
+            className={bdsClass(
+              'bds-date-picker__label',
+              hasError && 'bds-date-picker__label--tone-negative',
+            )}
+          >
+            {label}
+          </label>
+        )}
+
+        <Popover.Root open={open} onOpenChange={handleOpenChange}>
+          <Popover.Trigger asChild disabled={disabled}>
+            <button
+              ref={ref}
+              id={inputId}
+              type="button"
+              className={bdsClass(
+                'bds-date-picker__trigger',
+                hasError && 'bds-date-picker__trigger--tone-negative',
+                disabled && 'bds-date-picker__trigger--disabled',
+                open && 'bds-date-picker__trigger--open',
+              )}
+              aria-label={label ? undefined : ariaLabel}
+              aria-invalid={hasError}
+              aria-describedby={
+                error ? `${inputId}-error` : helperText ? `${inputId}-helper` : undefined
+              }
+            >
+              <span className={zonedValue?.start ? undefined : 'bds-date-picker__placeholder'}>
+                {zonedValue?.start ? formatDateRange(zonedValue, locale) : placeholder}
+              </span>
+              <span className="bds-date-picker__caret" aria-hidden>
+                ▾
+              </span>
+            </button>
+          </Popover.Trigger>
+
+          <Popover.Portal>
+            <Popover.Content
+              ref={contentRef}
+              sideOffset={4}
+              align="start"
+              style={{ outline: 'none' }}
+              aria-label="Choose date range"
+              onOpenAutoFocus={(e) => {
+                const cell = contentRef.current?.querySelector<HTMLElement>(
+                  '[role="grid"] [tabindex="0"]',
+                );
+                if (cell) {
+                  e.preventDefault();
+                  cell.focus();
+                }
+              }}
+            >
+              <div className="bds-date-picker__calendar bds-date-range-picker__panel">
+                {presets.length > 0 && (
+                  <ul className="bds-date-range-picker__presets" aria-label="Presets">
+                    {presets.map((preset) => {
+                      const range = clampRange(preset.getRange(today), bounds);
+                      return (
+                        <li key={preset.id}>
+                          <button
+                            type="button"
+                            className="bds-date-range-picker__preset"
+                            disabled={!range}
+                            aria-pressed={isSameRange(zonedValue, range)}
+                            onClick={() => range && commit(range)}
+                          >
+                            {preset.label}
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+                <div className="bds-date-range-picker__months">
+                  <Calendar
+                    {...calendarProps}
+                    className="bds-date-range-picker__month"
+                    date={anchor}
+                    onDateChange={(d) => setAnchor(startOfMonth(d))}
+                  />
+                  <Calendar
+                    {...calendarProps}
+                    className="bds-date-range-picker__month"
+                    date={addMonths(anchor, 1)}
+                    onDateChange={(d) => setAnchor(addMonths(startOfMonth(d), -1))}
+                  />
+                </div>
+              </div>
+            </Popover.Content>
+          </Popover.Portal>
+        </Popover.Root>
+
+        {error && (
+          <span
+            id={`${inputId}-error`}
+            className="bds-date-picker__helper bds-date-picker__helper--tone-negative"
+            role="alert"
+          >
+            {error}
+          </span>
+        )}
+
+        {helperText && !error && (
+          <span id={`${inputId}-helper`} className="bds-date-picker__helper">
+            {helperText}
+          </span>
+        )}
+      </div>
+    );
+  }
+);
+
+DateRangePicker.displayName = 'DateRangePicker';
@@ -1,2 +1,10 @@
 export { DatePicker, type DatePickerProps, type DatePickerSize } from './DatePicker';
 export { default } from './DatePicker';
+
+export {
+  DateRangePicker,
+  DATE_RANGE_PRESETS,
+  formatDateRange,
+  type DateRangePickerProps,
+  type DateRangePreset,
+} from './DateRangePicker';
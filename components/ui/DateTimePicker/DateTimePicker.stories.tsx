@@ -0,0 +1,196 @@
+import { useState } from 'react';
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { expect, fn, userEvent, waitFor, within } from 'storybook/test';
+import { DateTimePicker } from './DateTimePicker';
+
+/* ─── Meta ────────────────────────────────────────────────────── */
+
+const meta: Meta<typeof DateTimePicker> = {
+  title: 'Components/date-time-picker',
+  component: DateTimePicker,
+  tags: ['surface-shared'],
+  parameters: { layout: 'centered' },
+  argTypes: {
+    size: {
+      control: 'select',
+      options: ['sm', 'md', 'lg'],
+      description:
+        'Trigger height — matches the BDS form-input scale (`sm`=32px, `md`=40px, `lg`=48px). Default `md`.',
+    },
+    label: {
+      control: 'text',
+      description:
+        'Optional label rendered above the trigger. Wired to the trigger via `htmlFor` so clicking the label focuses the trigger.',
+    },
+    'aria-label': {
+      control: 'text',
+      description: 'Accessible name for the trigger when no visible `label` is rendered.',
+    },
+    placeholder: {
+      control: 'text',
+      description: 'Trigger placeholder when no value is selected. Default `Select date and time`.',
+    },
+    helperText: {
+      control: 'text',
+      description: 'Helper text rendered below the trigger when no `error` is set.',
+    },
+    error: {
+      control: 'text',
+      description:
+        'Error message — non-empty value triggers error styling, announces via `role="alert"`, and suppresses `helperText`.',
+    },
+    minDate: {
+      control: 'date',
+      description:
+        'Earliest selectable instant. Earlier days are disabled, and on its own day so are the earlier times.',
+    },
+    maxDate: {
+      control: 'date',
+      description:
+        'Latest selectable instant. Later days are disabled, and on its own day so are the later times.',
+    },
+    disabledDates: { control: false, description: 'Individual days that are never selectable.' },
+    isDateDisabled: { control: false, description: 'Predicate for rule-based day blocking, e.g. weekends.' },
+    weekStartsOn: {
+      control: { type: 'number', min: 0, max: 6 },
+      description: 'First day of the week in the day grid. Default: derived from `locale`.',
+    },
+    minuteStep: {
+      control: 'number',
+      description: 'Minute increment for the minute column — `15` for quarter-hour slots. Default `1`.',
+    },
+    use24Hour: {
+      control: 'boolean',
+      description: "24-hour columns with no AM/PM column. Default: the locale's clock.",
+    },
+    locale: {
+      control: 'select',
+      options: ['en-US', 'en-GB', 'de-DE', 'fr-FR', 'ja-JP'],
+      description:
+        "BCP 47 locale for the trigger label, grid and clock. Default: the nearest `LocaleProvider`, else `'en-US'`.",
+    },
+    timeZone: {
+      control: 'select',
+      options: [undefined, 'America/Chicago', 'Europe/London', 'Asia/Tokyo'],
+      description:
+        'IANA zone the day and time are picked in. Default: the nearest `LocaleProvider`, else the host zone.',
+    },
+    fullWidth: {
+      control: 'boolean',
+      description: 'Stretches the trigger to fill its container.',
+    },
+    disabled: {
+      control: 'boolean',
+      description: 'Locks the trigger — non-interactive, muted appearance, popover does not open.',
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof DateTimePicker>;
+
+/* ═══════════════════════════════════════════════════════════════
+   DEFAULT — single canonical story per ADR-010 §components without
+   a variant axis. Render wraps DateTimePicker in `useState` so the
+   canvas is fully interactive (DateTimePicker is controlled).
+   ═══════════════════════════════════════════════════════════════ */
+
+/** @summary Themed date-and-time picker — calendar plus time columns, one Date value */
+export const Default: Story = {
+  args: {
+    size: 'md',
+    label: 'Appointment',
+    minuteStep: 15,
+  },
+  render: (args) => {
+    const [value, setValue] = useState<Date | null>(null);
+    return (
+      <div style={{ width: 320 }}>
+        <DateTimePicker
+          {...args}
+          minDate={args.minDate ? new Date(args.minDate as unknown as number) : undefined}
+          maxDate={args.maxDate ? new Date(args.maxDate as unknown as number) : undefined}
+          value={value}
+          onChange={setValue}
+        />
+      </div>
+    );
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    await userEvent.click(canvas.getByRole('button', { name: /appointment/i }));
+
+    const body = within(document.body);
+    const dialog = await body.findByRole('dialog', {}, { timeout: 3000 });
+    await expect(dialog).toBeVisible();
+    await waitFor(() => within(dialog).getByRole('listbox', { name: 'Minute' }), { timeout: 3000 });
+  },
+};
+
+/* ═══════════════════════════════════════════════════════════════
+   INTERACTION TESTS — play-only, excluded from the MCP manifest +
+   sidebar gallery (ADR-010 rule 5).
+   ═══════════════════════════════════════════════════════════════ */
+
+/**
+ * `minDate` is an instant: days before it are disabled, and on its own day
+ * the earlier hours and minutes are too. Moving the value onto that day
+ * clamps the time up to the first allowed minute step.
+ * @summary Play-function interaction test
+ */
+export const InteractionTestMinBoundAcrossDayBoundary: Story = {
+  tags: ['!manifest', 'interaction-test'],
+  args: {
+    'aria-label': 'Visit',
+    use24Hour: true,
+    minuteStep: 15,
+    minDate: new Date(2025, 5, 11, 14, 20),
+    value: new Date(2025, 5, 12, 9, 0),
+    onChange: fn(),
+  },
+  play: async ({ canvasElement, args }) => {
+    const canvas = within(canvasElement);
+    await userEvent.click(canvas.getByRole('button', { name: 'Visit' }));
+
+    const body = within(document.body);
+    const dialog = await body.findByRole('dialog', {}, { timeout: 3000 });
+    const june10 = await waitFor(() => within(dialog).getByRole('gridcell', { name: /June 10, 2025/ }), {
+      timeout: 3000,
+    });
+    await expect(june10).toBeDisabled();
+
+    await userEvent.click(within(dialog).getByRole('gridcell', { name: /June 11, 2025/ }));
+    // 09:00 on the 11th is before the bound — lands on 14:30, the first 15-minute step after 14:20.
+    await expect(args.onChange).toHaveBeenCalledWith(new Date(2025, 5, 11, 14, 30));
+  },
+};
+
+/**
+ * On the bound's own day, hours with no allowed minute step are disabled.
+ * @summary Play-function interaction test
+ */
+export const InteractionTestTimeOptionsGatedOnBoundDay: Story = {
+  tags: ['!manifest', 'interaction-test'],
+  args: {
+    'aria-label': 'Visit',
+    use24Hour: true,
+    minuteStep: 15,
+    minDate: new Date(2025, 5, 11, 14, 20),
+    maxDate: new Date(2025, 5, 11, 17, 0),
+    value: new Date(2025, 5, 11, 15, 0),
+  },
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    await userEvent.click(canvas.getByRole('button', { name: 'Visit' }));
+
+    const body = within(document.body);
+    const dialog = await body.findByRole('dialog', {}, { timeout: 3000 });
+    const hours = await waitFor(() => within(dialog).getByRole('listbox', { name: 'Hour' }), {
+      timeout: 3000,
+    });
+    await expect(within(hours).getByRole('option', { name: '13' })).toBeDisabled();
+    await expect(within(hours).getByRole('option', { name: '14' })).not.toBeDisabled();
+    await expect(within(hours).getByRole('option', { name: '17' })).not.toBeDisabled();
+    await expect(within(hours).getByRole('option', { name: '18' })).toBeDisabled();
+  },
+};
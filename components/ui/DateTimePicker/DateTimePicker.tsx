@@ -0,0 +1,370 @@
+import { forwardRef, useRef, useState } from 'react';
+import * as Popover from '@radix-ui/react-popover';
+import { Icon } from '../Icon';
+import { Calendar } from '../Calendar';
+import { isSameDay, type WeekStart } from '../Calendar/dateUtils';
+import { ScrollColumn } from '../TimePicker/TimePicker';
+import { Calendar as CalendarIcon } from '../../icons';
+import { bdsClass } from '../../utils';
+import { fromZonedTime, getDayPeriodLabels, toZonedTime, uses24HourClock } from '../../utils/intl';
+import { useLocale } from '../../providers/LocaleProvider';
+import '../DatePicker/DatePicker.css';
+import '../TimePicker/TimePicker.css';
+import './DateTimePicker.css';
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+export type DateTimePickerSize = 'sm' | 'md' | 'lg';
+
+export interface DateTimePickerProps {
+  /** Selected instant — one `Date` carrying both the day and the time */
+  value?: Date | null;
+  /** Called with the new instant whenever the day or a time part changes */
+  onChange?: (date: Date) => void;
+  /** Size variant matching BDS form components */
+  size?: DateTimePickerSize;
+  /** Optional label */
+  label?: string;
+  /** Helper text below input */
+  helperText?: string;
+  /** Error message (triggers error state) */
+  error?: string;
+  /** Placeholder text */
+  placeholder?: string;
+  /** Full width */
+  fullWidth?: boolean;
+  /** Disabled state */
+  disabled?: boolean;
+  /** Earliest selectable instant — its time-of-day limits the times offered on that day */
+  minDate?: Date;
+  /** Latest selectable instant — its time-of-day limits the times offered on that day */
+  maxDate?: Date;
+  /** Individual days that are never selectable */
+  disabledDates?: Date[];
+  /** Predicate for rule-based day blocking, e.g. weekends */
+  isDateDisabled?: (date: Date) => boolean;
+  /** First day of the week in the day grid (default: derived from `locale`) */
+  weekStartsOn?: WeekStart;
+  /** Minute step interval (default 1) */
+  minuteStep?: number;
+  /** Use 24-hour display (default: the locale's clock) */
+  use24Hour?: boolean;
+  /** BCP 47 locale for the trigger label, grid and clock (default: the nearest LocaleProvider, else `'en-US'`) */
+  locale?: string;
+  /**
+   * IANA time zone the day and time are picked in (default: the nearest
+   * LocaleProvider, else the host zone) — `onChange` receives the instant
+   * that wall-clock time names in this zone.
+   */
+  timeZone?: string;
+  /** Input id */
+  id?: string;
+  /** Accessible name for the trigger when no visible `label` is rendered */
+  'aria-label'?: string;
+  /** Additional className */
+  className?: string;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+// Time a freshly picked day starts at when there is no value yet.
+const DEFAULT_HOUR = 9;
+
+function pad(n: number): string {
+  return n.toString().padStart(2, '0');
+}
+
+function withTime(day: Date, hour: number, minute: number): Date {
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour, minute);
+}
+
+function isWithinBounds(date: Date, minDate?: Date, maxDate?: Date): boolean {
+  if (minDate && date < minDate) return false;
+  if (maxDate && date > maxDate) return false;
+  return true;
+}
+
+/**
+ * Pull `date` into `[minDate, maxDate]`, landing on the minute step — the
+ * first step at or after `minDate`, or the last at or before `maxDate`.
+ */
+function clampToBounds(date: Date, step: number, minDate?: Date, maxDate?: Date): Date {
+  if (minDate && date < minDate) {
+    const minutes = Math.ceil((minDate.getHours() * 60 + minDate.getMinutes()) / step) * step;
+    const snapped = withTime(minDate, 0, minutes);
+    return isSameDay(snapped, minDate) ? snapped : minDate;
+  }
+  if (maxDate && date > maxDate) {
+    const minutes = Math.floor((maxDate.getHours() * 60 + maxDate.getMinutes()) / step) * step;
+    return withTime(maxDate, 0, minutes);
+  }
+  return date;
+}
+
+function formatDateTime(date: Date, locale: string, use24Hour: boolean): string {
+  return date.toLocaleString(locale, {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    hourCycle: use24Hour ? 'h23' : 'h12',
+  });
+}
+
+// ─── DateTimePicker Component ───────────────────────────────────────
+
+/**
+ * DateTimePicker - BDS themed date-and-time picker
+ *
+ * One field, one `Date`: the popover puts DatePicker's compact Calendar
+ * beside TimePicker's hour / minute (/ period) columns, and every change
+ * emits the combined instant — no merging two values in the parent.
+ *
+ * `minDate` / `maxDate` are instants, so the bound is enforced across the
+ * day boundary: days outside the range are disabled in the grid, and on
+ * the first / last day the out-of-range times are disabled too. Picking a
+ * day or hour that would leave the range clamps to the nearest allowed
+ * minute step. Shares the field shell (label, helperText, error, size)
+ * with DatePicker.
+ *
+ * @example
+ * ```tsx
+ * <DateTimePicker label="Appointment" value={slot} onChange={setSlot} minuteStep={15} />
+ * <DateTimePicker label="Follow-up" minDate={new Date()} error="Pick a future time" />
+ * ```
+ *
+ * @summary Themed date-and-time picker with one Date value
+ */
+export const DateTimePicker = forwardRef<HTMLButtonElement, DateTimePickerProps>(
+  (
+    {
+      value = null,
+      onChange,
+      size = 'md',
+      label,
+      helperText,
+      error,
+      placeholder = 'Select date and time',
+      fullWidth = false,
+      disabled = false,
+      minDate,
+      maxDate,
+      disabledDates,
+      isDateDisabled,
+      weekStartsOn,
+      minuteStep = 1,
+      use24Hour: use24HourProp,
+      locale: localeProp,
+      timeZone: timeZoneProp,
+      id,
+      'aria-label': ariaLabel,
+      className = '',
+    },
+    ref
+  ) => {
+    const [open, setOpen] = useState(false);
+    const contentRef = useRef<HTMLDivElement>(null);
+    const inputId = id || `datetimepicker-${Math.random().toString(36).substring(2, 11)}`;
+    const hasError = Boolean(error);
+    const localeContext = useLocale();
+    const locale = localeProp ?? localeContext.locale;
+    const timeZone = timeZoneProp ?? localeContext.timeZone;
+    const use24Hour = use24HourProp ?? uses24HourClock(locale);
+
+    // Everything below works on wall-clock times in `timeZone`; `emit`
+    // converts back to an instant.
+    const zonedValue = value ? toZonedTime(value, timeZone) : null;
+    const zonedMin = minDate && toZonedTime(minDate, timeZone);
+    const zonedMax = maxDate && toZonedTime(maxDate, timeZone);
+
+    // Times picked before a day land on today.
+    const base =
+      zonedValue ??
+      clampToBounds(
+        withTime(toZonedTime(new Date(), timeZone), DEFAULT_HOUR, 0),
+        minuteStep,
+        zonedMin,
+        zonedMax,
+      );
+
+    const emit = (next: Date) => {
+      const clamped = clampToBounds(next, minuteStep, zonedMin, zonedMax);
+      onChange?.(fromZonedTime(clamped, timeZone));
+    };
+
+    const hour24 = base.getHours();
+    const minute = base.getMinutes();
+    const period: 'AM' | 'PM' = hour24 >= 12 ? 'PM' : 'AM';
+    const hour12 = hour24 % 12 === 0 ? 12 : hour24 % 12;
+
+    // ── Column data — an option is disabled when no minute step under it
+    //    falls inside the bounds on the selected day. ──
+
+    const minuteSteps = Array.from({ length: Math.ceil(60 / minuteStep) }, (_, i) => i * minuteStep);
+    const hourAllowed = (h24: number) =>
+      minuteSteps.some((m) => isWithinBounds(withTime(base, h24, m), zonedMin, zonedMax));
+
+    const hours = use24Hour
+      ? Array.from({ length: 24 }, (_, h) => ({ value: h, label: pad(h), disabled: !hourAllowed(h) }))
+      : Array.from({ length: 12 }, (_, i) => {
+          const h = i + 1;
+          const h24 = (h % 12) + (period === 'PM' ? 12 : 0);
+          return { value: h, label: pad(h), disabled: !hourAllowed(h24) };
+        });
+
+    const minutes = minuteSteps.map((m) => ({
+      value: m,
+      label: pad(m),
+      disabled: !isWithinBounds(withTime(base, hour24, m), zonedMin, zonedMax),
+    }));
+
+    const halfDay = (offset: number) => Array.from({ length: 12 }, (_, h) => h + offset);
+    const [amLabel, pmLabel] = getDayPeriodLabels(locale);
+    const periods = [
+      { value: 'AM' as const, label: amLabel, disabled: !halfDay(0).some(hourAllowed) },
+      { value: 'PM' as const, label: pmLabel, disabled: !halfDay(12).some(hourAllowed) },
+    ];
+
+    // ── Handlers ──
+
+    const handleDaySelect = (day: Date) => emit(withTime(day, hour24, minute));
+
+    const handleHourSelect = (h: number | string) => {
+      const next = use24Hour ? Number(h) : (Number(h) % 12) + (period === 'PM' ? 12 : 0);
+      emit(withTime(base, next, minute));
+    };
+
+    const handlePeriodSelect = (p: number | string) => {
+      emit(withTime(base, (hour24 % 12) + (p === 'PM' ? 12 : 0), minute));
+    };
+
+    return (
+      <div
+        className={bdsClass(
+          'bds-date-picker',
+          `bds-date-picker--${size}`,
+          fullWidth && 'bds-date-picker--full-width',
+          className,
+        )}
+      >
+        {label && (
+          <label
+            htmlFor={inputId}
+            className={bdsClass(
+              'bds-date-picker__label',
+              hasError && 'bds-date-picker__label--tone-negative',
+            )}
+          >
+            {label}
+          </label>
+        )}
+
+        <Popover.Root open={open} onOpenChange={setOpen}>
+          <Popover.Trigger asChild disabled={disabled}>
+            <button
+              ref={ref}
+              id={inputId}
+              type="button"
+              className={bdsClass(
+                'bds-date-picker__trigger',
+                hasError && 'bds-date-picker__trigger--tone-negative',
+                disabled && 'bds-date-picker__trigger--disabled',
+                open && 'bds-date-picker__trigger--open',
+              )}
+              aria-label={label ? undefined : ariaLabel}
+              aria-invalid={hasError}
+              aria-describedby={
+                error ? `${inputId}-error` : helperText ? `${inputId}-helper` : undefined
+              }
+            >
+              <span className={zonedValue ? undefined : 'bds-date-picker__placeholder'}>
+                {zonedValue ? formatDateTime(zonedValue, locale, use24Hour) : placeholder}
+              </span>
+              <span className="bds-date-time-picker__icon" aria-hidden>
+                <Icon icon={CalendarIcon} />
+              </span>
+            </button>
+          </Popover.Trigger>
+
+          <Popover.Portal>
+            <Popover.Content
+              ref={contentRef}
+              sideOffset={4}
+              align="start"
+              style={{ outline: 'none' }}
+              aria-label="Choose date and time"
+              onOpenAutoFocus={(e) => {
+                const cell = contentRef.current?.querySelector<HTMLElement>(
+                  '[role="grid"] [tabindex="0"]',
+                );
+                if (cell) {
+                  e.preventDefault();
+                  cell.focus();
+                }
+              }}
+            >
+              <div className="bds-date-picker__calendar bds-date-time-picker__panel">
+                <Calendar
+                  className="bds-date-time-picker__calendar"
+                  density="compact"
+                  value={zonedValue}
+                  defaultDate={base}
+                  onSelect={handleDaySelect}
+                  minDate={zonedMin}
+                  maxDate={zonedMax}
+                  disabledDates={disabledDates}
+                  isDateDisabled={isDateDisabled}
+                  weekStartsOn={weekStartsOn}
+                  locale={locale}
+                />
+                <div className="bds-time-picker__columns bds-date-time-picker__columns">
+                  <ScrollColumn
+                    items={hours}
+                    selected={use24Hour ? hour24 : hour12}
+                    onSelect={handleHourSelect}
+                    ariaLabel="Hour"
+                  />
+                  <ScrollColumn
+                    items={minutes}
+                    selected={minute}
+                    onSelect={(m) => emit(withTime(base, hour24, Number(m)))}
+                    ariaLabel="Minute"
+                  />
+                  {!use24Hour && (
+                    <ScrollColumn
+                      items={periods}
+                      selected={period}
+                      onSelect={handlePeriodSelect}
+                      ariaLabel="AM or PM"
+                    />
+                  )}
+                </div>
+              </div>
+            </Popover.Content>
+          </Popover.Portal>
+        </Popover.Root>
+
+        {error && (
+          <span
+            id={`${inputId}-error`}
+            className="bds-date-picker__helper bds-date-picker__helper--tone-negative"
+            role="alert"
+          >
+            {error}
+          </span>
+        )}
+
+        {helperText && !error && (
+          <span id={`${inputId}-helper`} className="bds-date-picker__helper">
+            {helperText}
+          </span>
+        )}
+      </div>
+    );
+  }
+);
+
+DateTimePicker.displayName = 'DateTimePicker';
+
+export default DateTimePicker;
@@ -0,0 +1,2 @@
+export { DateTimePicker, type DateTimePickerProps, type DateTimePickerSize } from './DateTimePicker';
+export { default } from './DateTimePicker';
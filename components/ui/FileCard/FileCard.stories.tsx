@@ -68,6 +68,27 @@ const meta: Meta<typeof FileCard> = {
       control: 'text',
       description: 'Accessible alt text for image / svg previews. Falls back to `name`.',
     },
+    status: {
+      control: 'select',
+      options: [undefined, 'queued', 'uploading', 'complete', 'failed', 'canceled'],
+      description: 'Upload state — adds a status line, and a progress bar while queued or uploading.',
+    },
+    progress: {
+      control: { type: 'range', min: 0, max: 100 },
+      description: 'Upload progress, 0–100.',
+    },
+    error: {
+      control: 'text',
+      description: 'Failure message shown while `status` is `failed`.',
+    },
+    onCancel: {
+      action: 'cancel',
+      description: 'Cancel action handler. Rendered only while queued or uploading.',
+    },
+    onRetry: {
+      action: 'retry',
+      description: 'Retry action handler. Rendered only once failed or canceled.',
+    },
   },
 };
 
@@ -122,6 +143,36 @@ export const Icon: Story = {
   },
 };
 
+/* ═══════════════════════════════════════════════════════════════
+   UPLOAD STATUS — the in-flight states side by side
+   ═══════════════════════════════════════════════════════════════ */
+
+/**
+ * Each upload state — queued, uploading with progress, failed with a
+ * message and Retry, canceled, and complete.
+ * @summary Upload status line, progress bar and Cancel / Retry actions
+ */
+export const UploadStatus: Story = {
+  args: { preview: 'icon', name: 'contract.pdf' },
+  render: () => (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--gap-lg)' }}>
+      <FileCard preview="icon" name="brand-guidelines.pdf" meta="2.4 MB" status="queued" onCancel={fn()} />
+      <FileCard preview="icon" name="contract.pdf" meta="840 KB" status="uploading" progress={42} onCancel={fn()} />
+      <FileCard
+        preview="icon"
+        name="logo-pack.zip"
+        meta="18.2 MB"
+        status="failed"
+        error="Upload failed with status 503"
+        onRetry={fn()}
+        onDelete={fn()}
+      />
+      <FileCard preview="icon" name="press-kit.zip" meta="6.1 MB" status="canceled" onRetry={fn()} onDelete={fn()} />
+      <FileCard preview="icon" name="invoice.pdf" meta="96 KB" status="complete" onDelete={fn()} />
+    </div>
+  ),
+};
+
 /* ═══════════════════════════════════════════════════════════════
    Q4 — irreducible: FileUploader/FileCard swap driven by upload state
    ═══════════════════════════════════════════════════════════════ */
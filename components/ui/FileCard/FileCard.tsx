@@ -1,7 +1,8 @@
 import { type HTMLAttributes } from 'react';
 import { Icon } from '../Icon';
 import { Frame, type FrameRatio } from '../Frame';
-import { ArrowSquareOut, CloudArrowUp, File as FileIcon, Trash } from '../../icons';
+import { ProgressBar } from '../ProgressBar';
+import { ArrowSquareOut, CloudArrowUp, File as FileIcon, Rotate, Trash, WarningCircle, X } from '../../icons';
 import { bdsClass } from '../../utils';
 import './FileCard.css';
 
@@ -19,6 +20,12 @@ export type FileCardPreview = 'image' | 'icon' | 'svg';
  */
 export type FileCardAspectRatio = FrameRatio;
 
+/**
+ * Upload state of the file. `queued` and `uploading` show a progress bar;
+ * `failed` shows the `error` message in the negative tone.
+ */
+export type FileCardStatus = 'queued' | 'uploading' | 'complete' | 'failed' | 'canceled';
+
 /**
  * `FileCard` component props.
  */
@@ -43,6 +50,31 @@ export interface FileCardProps extends Omit<HTMLAttributes<HTMLDivElement>, 'onC
   disabled?: boolean;
   /** Accessible alt text for image / svg previews. Falls back to `name`. */
   previewAlt?: string;
+  /** Upload state. When omitted the card shows a settled file with no status line. */
+  status?: FileCardStatus;
+  /** Upload progress, 0–100. Drives the progress bar while `status` is `queued` or `uploading`. */
+  progress?: number;
+  /** Failure message shown while `status` is `failed`. Default `Upload failed`. */
+  error?: string;
+  /** Cancel action handler. Rendered only while `status` is `queued` or `uploading`. */
+  onCancel?: () => void;
+  /** Retry action handler. Rendered only while `status` is `failed` or `canceled`. */
+  onRetry?: () => void;
+}
+
+function statusText(status: FileCardStatus, progress: number, error?: string): string {
+  switch (status) {
+    case 'queued':
+      return 'Waiting to upload';
+    case 'uploading':
+      return `Uploading… ${Math.round(progress)}%`;
+    case 'complete':
+      return 'Uploaded';
+    case 'failed':
+      return error ?? 'Upload failed';
+    case 'canceled':
+      return 'Upload canceled';
+  }
 }
 
 /**
@@ -58,6 +90,11 @@ export interface FileCardProps extends Omit<HTMLAttributes<HTMLDivElement>, 'onC
  * - Single populated → `<FileCard …>`
  * - Multi → list of `FileCard`s + small `FileUploader` for "add more"
  *
+ * Pass `status` to show an in-flight upload — a status line, a
+ * `ProgressBar` while queued or uploading, and Cancel / Retry actions
+ * when `onCancel` / `onRetry` are set. `FileUploader` renders its upload
+ * queue this way.
+ *
  * The `aspectRatio` slug consumes the `--aspect-*` token family (BDS #486) so
  * CMS uploaders can encode the target image shape once — the same slug feeds
  * `<Frame ratio="…">` on the consumer side.
@@ -89,10 +126,19 @@ export function FileCard({
   onDelete,
   disabled = false,
   previewAlt,
+  status,
+  progress = 0,
+  error,
+  onCancel,
+  onRetry,
   className,
   ...props
 }: FileCardProps) {
   const altText = previewAlt ?? name;
+  const pending = status === 'queued' || status === 'uploading';
+  const stopped = status === 'failed' || status === 'canceled';
+  const showCancel = onCancel && pending;
+  const showRetry = onRetry && stopped;
   const previewBox = (
     <Frame
       as="span"
@@ -118,7 +164,13 @@ export function FileCard({
 
   return (
     <div
-      className={bdsClass('bds-file-card', disabled ? 'bds-file-card--disabled' : undefined, className)}
+      className={bdsClass(
+        'bds-file-card',
+        disabled ? 'bds-file-card--disabled' : undefined,
+        status ? `bds-file-card--status-${status}` : undefined,
+        className,
+      )}
+      aria-busy={pending || undefined}
       {...props}
     >
       <div className="bds-file-card__card">
@@ -139,6 +191,12 @@ export function FileCard({
           <div className="bds-file-card__meta">
             <p className="bds-file-card__name">{name}</p>
             {meta && <p className="bds-file-card__metadata">{meta}</p>}
+            {status && (
+              <p className="bds-file-card__status">
+                {status === 'failed' && <Icon icon={WarningCircle} />}
+                <span>{statusText(status, progress, error)}</span>
+              </p>
+            )}
           </div>
           {href && (
             <a
@@ -153,8 +211,33 @@ export function FileCard({
           )}
         </div>
       </div>
-      {(onReplace || onDelete) && (
+      {pending && <ProgressBar value={progress} label={`Uploading ${name}`} />}
+      {(onReplace || onDelete || showCancel || showRetry) && (
         <div className="bds-file-card__actions">
+          {showCancel && (
+            <button
+              type="button"
+              className="bds-file-card__action"
+              onClick={onCancel}
+              disabled={disabled}
+              aria-label={`Cancel upload of ${name}`}
+            >
+              <Icon icon={X} />
+              <span>Cancel</span>
+            </button>
+          )}
+          {showRetry && (
+            <button
+              type="button"
+              className="bds-file-card__action"
+              onClick={onRetry}
+              disabled={disabled}
+              aria-label={`Retry upload of ${name}`}
+            >
+              <Icon icon={Rotate} />
+              <span>Retry</span>
+            </button>
+          )}
           {onReplace && (
             <button
               type="button"
@@ -1,2 +1,2 @@
 export { FileCard, default } from './FileCard';
-export type { FileCardProps, FileCardPreview, FileCardAspectRatio } from './FileCard';
+export type { FileCardProps, FileCardPreview, FileCardAspectRatio, FileCardStatus } from './FileCard';
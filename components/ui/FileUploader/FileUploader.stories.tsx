@@ -1,7 +1,8 @@
 import { useState } from 'react';
 import type { Meta, StoryObj } from '@storybook/react-vite';
-import { expect, fn, userEvent } from 'storybook/test';
+import { expect, fn, userEvent, waitFor, within } from 'storybook/test';
 import { FileUploader } from './FileUploader';
+import type { UploadAdapter } from './uploadAdapters';
 
 /* ─── Meta ────────────────────────────────────────────────────── */
 
@@ -44,6 +45,42 @@ const meta: Meta<typeof FileUploader> = {
       action: 'changed',
       description: 'Called with the accepted `File[]` after validation.',
     },
+    minSize: {
+      control: 'number',
+      description: 'Minimum file size in bytes.',
+    },
+    minDimensions: {
+      control: 'object',
+      description: 'Smallest accepted `{ width, height }` in pixels. Raster images only.',
+    },
+    maxDimensions: {
+      control: 'object',
+      description: 'Largest accepted `{ width, height }` in pixels. Raster images only.',
+    },
+    onReject: {
+      action: 'rejected',
+      description: 'Called with one structured `FileRejection` per broken rule.',
+    },
+    adapter: {
+      control: false,
+      description: 'Upload transport. When set, accepted files upload and render as a `FileCard` queue.',
+    },
+    chunkSize: {
+      control: 'number',
+      description: 'Chunk size in bytes for resumable uploads. Requires `adapter`.',
+    },
+    concurrency: {
+      control: 'number',
+      description: 'Files uploading at once. Requires `adapter`.',
+    },
+    onUploadComplete: {
+      action: 'upload complete',
+      description: 'Called with the queue item once a file finishes uploading.',
+    },
+    onUploadError: {
+      action: 'upload failed',
+      description: 'Called with the queue item when an upload attempt fails.',
+    },
   },
 };
 
@@ -99,6 +136,59 @@ export const WithFileList: Story = {
   },
 };
 
+/* ═══════════════════════════════════════════════════════════════
+   Q4 — irreducible: upload queue driven by a simulated transport
+   ═══════════════════════════════════════════════════════════════ */
+
+/**
+ * Stand-in transport: each request "sends" in ten steps over `duration`
+ * ms. A file with "flaky" in its name fails its first attempt.
+ */
+function simulatedAdapter(duration = 1500): UploadAdapter {
+  const attempts = new Map<string, number>();
+  return {
+    send: ({ file, body, signal, onProgress }) =>
+      new Promise((resolve, reject) => {
+        const attempt = (attempts.get(file.name) ?? 0) + 1;
+        attempts.set(file.name, attempt);
+        let step = 0;
+        const timer = setInterval(() => {
+          step += 1;
+          onProgress((body.size * step) / 10);
+          if (step === 5 && attempt === 1 && file.name.includes('flaky')) {
+            clearInterval(timer);
+            reject(new Error('Upload failed with status 503'));
+          } else if (step === 10) {
+            clearInterval(timer);
+            resolve({ data: { url: `/assets/${file.name}` } });
+          }
+        }, duration / 10);
+        signal.addEventListener('abort', () => {
+          clearInterval(timer);
+          reject(new DOMException('The upload was canceled', 'AbortError'));
+        });
+      }),
+  };
+}
+
+/**
+ * Files upload as soon as they're picked — each one a `FileCard` with its
+ * own progress bar and Cancel. Name a file "flaky…" to see a failure and
+ * Retry.
+ * @summary Upload queue with per-file progress, cancel and retry
+ */
+export const WithUploads: Story = {
+  args: {
+    label: 'Upload brand assets',
+    helperText: 'Images or PDFs up to 10MB',
+    accept: 'image/*,.pdf',
+    multiple: true,
+    maxSize: 10 * 1024 * 1024,
+    adapter: simulatedAdapter(),
+    chunkSize: 256 * 1024,
+  },
+};
+
 /* ═══════════════════════════════════════════════════════════════
    INTERACTION TEST — play-only, hidden from MCP discovery
    ═══════════════════════════════════════════════════════════════ */
@@ -124,3 +214,79 @@ export const InteractionTestKeyboardActivation: Story = {
     await expect(clickSpy).toHaveBeenCalled();
   },
 };
+
+const makeFile = (name: string, type: string, size = 2048) => new File([new Uint8Array(size)], name, { type });
+
+/**
+ * Two files upload side by side; the flaky one fails, shows its error and
+ * succeeds on Retry. Completion calls `onUploadComplete` for both.
+ * @summary Play-function interaction test
+ */
+export const InteractionTestUploadRetry: Story = {
+  tags: ['!manifest', 'interaction-test'],
+  args: {
+    multiple: true,
+    adapter: simulatedAdapter(200),
+    onUploadComplete: fn(),
+    onUploadError: fn(),
+  },
+  play: async ({ canvas, canvasElement, args }) => {
+    const input = canvasElement.querySelector('input[type="file"]') as HTMLInputElement;
+    await userEvent.upload(input, [makeFile('contract.pdf', 'application/pdf'), makeFile('flaky-logo.pdf', 'application/pdf')]);
+
+    const queue = canvas.getByRole('list', { name: 'Uploads' });
+    await waitFor(() => expect(within(queue).getByText('Upload failed with status 503')).toBeInTheDocument());
+    await expect(args.onUploadError).toHaveBeenCalledTimes(1);
+
+    await userEvent.click(within(queue).getByRole('button', { name: 'Retry upload of flaky-logo.pdf' }));
+    await waitFor(() => expect(within(queue).getAllByText('Uploaded')).toHaveLength(2));
+    await expect(args.onUploadComplete).toHaveBeenCalledTimes(2);
+  },
+};
+
+/**
+ * Cancel stops an in-flight upload and leaves it listed as canceled.
+ * @summary Play-function interaction test
+ */
+export const InteractionTestUploadCancel: Story = {
+  tags: ['!manifest', 'interaction-test'],
+  args: { adapter: simulatedAdapter(5000), onUploadComplete: fn() },
+  play: async ({ canvas, canvasElement, args }) => {
+    const input = canvasElement.querySelector('input[type="file"]') as HTMLInputElement;
+    await userEvent.upload(input, makeFile('press-kit.pdf', 'application/pdf'));
+
+    const queue = canvas.getByRole('list', { name: 'Uploads' });
+    await expect(within(queue).getByRole('progressbar', { name: 'Uploading press-kit.pdf' })).toBeInTheDocument();
+    await userEvent.click(within(queue).getByRole('button', { name: 'Cancel upload of press-kit.pdf' }));
+
+    await expect(within(queue).getByText('Upload canceled')).toBeInTheDocument();
+    await expect(within(queue).queryByRole('progressbar')).not.toBeInTheDocument();
+    await expect(args.onUploadComplete).not.toHaveBeenCalled();
+  },
+};
+
+/**
+ * Files that break a rule never reach `onChange`; `onReject` gets one
+ * structured rejection per broken rule.
+ * @summary Play-function interaction test
+ */
+export const InteractionTestValidationRejections: Story = {
+  tags: ['!manifest', 'interaction-test'],
+  args: { accept: '.pdf', maxSize: 1024, multiple: true, onChange: fn(), onReject: fn() },
+  play: async ({ canvas, canvasElement, args }) => {
+    const input = canvasElement.querySelector('input[type="file"]') as HTMLInputElement;
+    // `applyAccept: false` — drag-drop bypasses the picker's filter, so the component must catch it.
+    await userEvent.upload(
+      input,
+      [makeFile('ok.pdf', 'application/pdf', 512), makeFile('huge.pdf', 'application/pdf', 4096), makeFile('logo.png', 'image/png', 512)],
+      { applyAccept: false },
+    );
+
+    await waitFor(() => expect(args.onChange).toHaveBeenCalledWith([expect.objectContaining({ name: 'ok.pdf' })]));
+    await expect(args.onReject).toHaveBeenCalledWith([
+      expect.objectContaining({ code: 'file-too-large', limit: 1024, actual: 4096 }),
+      expect.objectContaining({ code: 'file-invalid-type' }),
+    ]);
+    await expect(canvas.getByText(/"huge.pdf" exceeds the 1 KB limit/)).toBeInTheDocument();
+  },
+};
@@ -1,7 +1,11 @@
-import { type HTMLAttributes, useState, useRef, useCallback } from 'react';
+import { type HTMLAttributes, useState, useRef, useCallback, useEffect } from 'react';
 import { Icon } from '../Icon';
+import { FileCard } from '../FileCard';
 import { CloudArrowUp } from '../../icons';
 import { bdsClass } from '../../utils';
+import { formatBytes, validateFile, type FileRejection, type ImageDimensions } from './fileValidation';
+import { useFileUpload, type FileUploadItem } from './useFileUpload';
+import type { UploadAdapter } from './uploadAdapters';
 import './FileUploader.css';
 
 /**
@@ -14,6 +18,12 @@ export interface FileUploaderProps extends Omit<HTMLAttributes<HTMLDivElement>,
   multiple?: boolean;
   /** Maximum file size in bytes */
   maxSize?: number;
+  /** Minimum file size in bytes */
+  minSize?: number;
+  /** Smallest accepted image size in pixels. Checked on raster images only. */
+  minDimensions?: ImageDimensions;
+  /** Largest accepted image size in pixels. Checked on raster images only. */
+  maxDimensions?: ImageDimensions;
   /** Disabled state */
   disabled?: boolean;
   /** Custom label text */
@@ -24,24 +34,73 @@ export interface FileUploaderProps extends Omit<HTMLAttributes<HTMLDivElement>,
   error?: string;
   /** Change handler with selected files */
   onChange?: (files: File[]) => void;
+  /** Called with every broken rule when picked or dropped files fail validation */
+  onReject?: (rejections: FileRejection[]) => void;
+  /**
+   * Upload transport. When set, accepted files upload straight away and
+   * each one renders below the dropzone as a `FileCard` with progress,
+   * Cancel / Retry and Delete.
+   */
+  adapter?: UploadAdapter;
+  /** Split uploads into chunks of this many bytes so they can resume. Requires `adapter`. */
+  chunkSize?: number;
+  /** Files uploading at once. Requires `adapter`. Default `3`. */
+  concurrency?: number;
+  /** Called when a file finishes uploading, with the server's response on the item */
+  onUploadComplete?: (item: FileUploadItem) => void;
+  /** Called when an upload attempt fails */
+  onUploadError?: (item: FileUploadItem) => void;
 }
 
-// `accept` honors three forms per HTML spec: extension (`.svg`), MIME type
-// (`image/svg+xml`), and MIME wildcard (`image/*`). Browsers only enforce
-// `accept` in the file picker — drag-drop bypasses it — so we check here too.
-function fileMatchesAccept(file: File, accept: string): boolean {
-  const name = file.name.toLowerCase();
-  const type = (file.type || '').toLowerCase();
-  const patterns = accept
-    .split(',')
-    .map((p) => p.trim().toLowerCase())
-    .filter(Boolean);
-  if (patterns.length === 0) return true;
-  return patterns.some((p) => {
-    if (p.startsWith('.')) return name.endsWith(p);
-    if (p.endsWith('/*')) return type.startsWith(p.slice(0, -1));
-    return type === p;
-  });
+// Stands in when there's no `adapter` — the hook is always called, but
+// nothing is added to its queue, so this never runs.
+const NO_ADAPTER: UploadAdapter = {
+  send: () => Promise.reject(new Error('FileUploader has no upload adapter')),
+};
+
+const uploadErrorMessage = (error: unknown) => (error instanceof Error ? error.message : undefined);
+
+/** One queued upload, with an object-URL preview for images. */
+function FileUploadCard({
+  item,
+  disabled,
+  onCancel,
+  onRetry,
+  onRemove,
+}: {
+  item: FileUploadItem;
+  disabled: boolean;
+  onCancel: (id: string) => void;
+  onRetry: (id: string) => void;
+  onRemove: (id: string) => void;
+}) {
+  const { id, file, status, progress, error } = item;
+  const isImage = file.type.startsWith('image/');
+  const [src, setSrc] = useState<string>();
+
+  useEffect(() => {
+    if (!isImage) return;
+    const url = URL.createObjectURL(file);
+    setSrc(url);
+    return () => URL.revokeObjectURL(url);
+  }, [file, isImage]);
+
+  const pending = status === 'queued' || status === 'uploading';
+  return (
+    <FileCard
+      preview={!isImage ? 'icon' : file.type === 'image/svg+xml' ? 'svg' : 'image'}
+      src={src}
+      name={file.name}
+      meta={formatBytes(file.size)}
+      status={status}
+      progress={progress}
+      error={status === 'failed' ? uploadErrorMessage(error) : undefined}
+      disabled={disabled}
+      onCancel={() => onCancel(id)}
+      onRetry={() => onRetry(id)}
+      onDelete={pending ? undefined : () => onRemove(id)}
+    />
+  );
 }
 
 /**
@@ -50,8 +109,14 @@ function fileMatchesAccept(file: File, accept: string): boolean {
  * A dropzone that accepts files via drag-and-drop or click-to-browse.
  * Supports file type filtering, size limits, and multiple files.
  *
- * Validates `accept` and `maxSize` on both click-to-browse and drag-and-drop;
- * mismatched files are rejected with an inline error.
+ * Validates `accept`, size and image dimensions on both click-to-browse and
+ * drag-and-drop; rejected files get an inline error, and `onReject`
+ * receives a structured `FileRejection` per broken rule.
+ *
+ * Pass an `adapter` to upload accepted files: each renders as a `FileCard`
+ * with its own progress bar, Cancel / Retry, and — with `chunkSize` —
+ * resumable chunked transfer. Use `useFileUpload` directly to lay the
+ * queue out yourself.
  *
  * @example
  * ```tsx
@@ -71,11 +136,20 @@ export function FileUploader({
   accept,
   multiple = false,
   maxSize,
+  minSize,
+  minDimensions,
+  maxDimensions,
   disabled = false,
   label = 'Drag and drop files here',
   helperText,
   error,
   onChange,
+  onReject,
+  adapter,
+  chunkSize,
+  concurrency,
+  onUploadComplete,
+  onUploadError,
   className = '',
   style,
   ...props
@@ -86,47 +160,43 @@ export function FileUploader({
 
   const displayError = error || internalError;
 
-  const validateFiles = useCallback(
-    (files: File[]): File[] => {
-      const errors: string[] = [];
-
-      let valid = files;
-      if (accept && accept.trim()) {
-        const mismatched = valid.filter((f) => !fileMatchesAccept(f, accept));
-        if (mismatched.length > 0) {
-          errors.push(
-            mismatched.length === 1
-              ? `"${mismatched[0].name}" is not a supported file type`
-              : `${mismatched.length} files are not supported file types`,
-          );
-          valid = valid.filter((f) => fileMatchesAccept(f, accept));
-        }
-      }
-
-      if (maxSize) {
-        const oversized = valid.filter((f) => f.size > maxSize);
-        if (oversized.length > 0) {
-          const maxMB = (maxSize / (1024 * 1024)).toFixed(1);
-          errors.push(`File(s) exceed ${maxMB}MB limit`);
-          valid = valid.filter((f) => f.size <= maxSize);
-        }
-      }
-
-      setInternalError(errors.join(' · '));
-      return valid;
+  const [announcement, setAnnouncement] = useState('');
+  const upload = useFileUpload({
+    adapter: adapter ?? NO_ADAPTER,
+    chunkSize,
+    concurrency,
+    onComplete: (item) => {
+      setAnnouncement(`${item.file.name} uploaded`);
+      onUploadComplete?.(item);
     },
-    [accept, maxSize],
-  );
+    onError: (item) => {
+      setAnnouncement(`${item.file.name} failed to upload`);
+      onUploadError?.(item);
+    },
+  });
 
   const handleFiles = useCallback(
-    (fileList: FileList | null) => {
+    async (fileList: FileList | null) => {
       if (!fileList || disabled) return;
-      const files = validateFiles(Array.from(fileList));
-      if (files.length > 0) {
-        onChange?.(files);
+      const files = Array.from(fileList);
+      const results = await Promise.all(
+        files.map((file) => validateFile(file, { accept, maxSize, minSize, minDimensions, maxDimensions })),
+      );
+      const rejections = results.flat();
+      const accepted = files.filter((_, i) => results[i].length === 0);
+
+      setInternalError(rejections.map((r) => r.message).join(' · '));
+      if (rejections.length > 0) onReject?.(rejections);
+      if (accepted.length === 0) return;
+
+      onChange?.(accepted);
+      if (adapter) {
+        // A single-file uploader replaces what it held.
+        if (!multiple) upload.items.forEach((item) => upload.remove(item.id));
+        upload.add(accepted);
       }
     },
-    [disabled, validateFiles, onChange],
+    [disabled, accept, maxSize, minSize, minDimensions, maxDimensions, onReject, onChange, adapter, multiple, upload],
   );
 
   const handleDragOver = useCallback(
@@ -145,7 +215,7 @@ export function FileUploader({
     (e: React.DragEvent) => {
       e.preventDefault();
       setIsDragOver(false);
-      handleFiles(e.dataTransfer.files);
+      void handleFiles(e.dataTransfer.files);
     },
     [handleFiles],
   );
@@ -156,7 +226,7 @@ export function FileUploader({
 
   const handleInputChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
-      handleFiles(e.target.files);
+      void handleFiles(e.target.files);
       // Reset so same file can be selected again
       e.target.value = '';
     },
@@ -193,6 +263,26 @@ export function FileUploader({
       </div>
       {helperText && !displayError && <p className="bds-file-uploader__helper">{helperText}</p>}
       {displayError && <p className="bds-file-uploader__error">{displayError}</p>}
+      {upload.items.length > 0 && (
+        <ul className="bds-file-uploader__queue" aria-label="Uploads">
+          {upload.items.map((item) => (
+            <li key={item.id}>
+              <FileUploadCard
+                item={item}
+                disabled={disabled}
+                onCancel={upload.cancel}
+                onRetry={upload.retry}
+                onRemove={upload.remove}
+              />
+            </li>
+          ))}
+        </ul>
+      )}
+      {adapter && (
+        <p className="bds-file-uploader__live" aria-live="polite">
+          {announcement}
+        </p>
+      )}
       <input
         ref={inputRef}
         type="file"
@@ -0,0 +1,65 @@
+/**
+ * fileValidation unit tests — type, size and image-dimension rejections.
+ */
+import { describe, it, expect } from 'vitest';
+import { fileMatchesAccept, formatBytes, validateFile, type ImageDimensions } from './fileValidation';
+
+const makeFile = (name: string, type: string, size = 10) => new File([new Uint8Array(size)], name, { type });
+const decodesAs = (size: ImageDimensions) => async () => size;
+const undecodable = async (): Promise<ImageDimensions> => {
+  throw new Error('bad image');
+};
+
+describe('fileMatchesAccept', () => {
+  it('matches extensions, MIME types and wildcards', () => {
+    const svg = makeFile('Icon.SVG', 'image/svg+xml');
+    expect(fileMatchesAccept(svg, '.svg')).toBe(true);
+    expect(fileMatchesAccept(svg, 'image/svg+xml')).toBe(true);
+    expect(fileMatchesAccept(svg, 'image/*')).toBe(true);
+    expect(fileMatchesAccept(svg, '.pdf, application/pdf')).toBe(false);
+  });
+});
+
+describe('formatBytes', () => {
+  it('uses binary units', () => {
+    expect(formatBytes(512)).toBe('512 B');
+    expect(formatBytes(248 * 1024)).toBe('248 KB');
+    expect(formatBytes(5 * 1024 * 1024)).toBe('5.0 MB');
+  });
+});
+
+describe('validateFile', () => {
+  it('accepts a file that breaks no rule', async () => {
+    const pdf = makeFile('contract.pdf', 'application/pdf');
+    expect(await validateFile(pdf, { accept: '.pdf', maxSize: 100 })).toEqual([]);
+  });
+
+  it('reports type and size together, with limits', async () => {
+    const zip = makeFile('brand.zip', 'application/zip', 2048);
+    const rejections = await validateFile(zip, { accept: 'image/*', maxSize: 1024 });
+    expect(rejections.map((r) => r.code)).toEqual(['file-invalid-type', 'file-too-large']);
+    expect(rejections[1]).toMatchObject({ limit: 1024, actual: 2048, message: '"brand.zip" exceeds the 1 KB limit' });
+  });
+
+  it('checks raster image dimensions against both bounds', async () => {
+    const logo = makeFile('logo.png', 'image/png');
+    const rules = { minDimensions: { width: 400, height: 400 }, maxDimensions: { width: 4000, height: 4000 } };
+    expect(await validateFile(logo, rules, decodesAs({ width: 800, height: 800 }))).toEqual([]);
+
+    const [small] = await validateFile(logo, rules, decodesAs({ width: 200, height: 800 }));
+    expect(small).toMatchObject({ code: 'image-too-small', actual: { width: 200, height: 800 } });
+    const [large] = await validateFile(logo, rules, decodesAs({ width: 5000, height: 800 }));
+    expect(large.code).toBe('image-too-large');
+  });
+
+  it('reports an image that will not decode', async () => {
+    const [rejection] = await validateFile(makeFile('broken.jpg', 'image/jpeg'), { minDimensions: { width: 1, height: 1 } }, undecodable);
+    expect(rejection.code).toBe('image-unreadable');
+  });
+
+  it('skips dimension checks for SVGs and non-images', async () => {
+    const rules = { minDimensions: { width: 400, height: 400 } };
+    expect(await validateFile(makeFile('icon.svg', 'image/svg+xml'), rules, undecodable)).toEqual([]);
+    expect(await validateFile(makeFile('deck.pdf', 'application/pdf'), rules, undecodable)).toEqual([]);
+  });
+});
@@ -0,0 +1,159 @@
+// ─── Types ──────────────────────────────────────────────────────────
+
+/** Pixel size of an image. */
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+/** Client-side checks run on every picked or dropped file. */
+export interface FileValidationRules {
+  /** `accept` string — extensions (`.svg`), MIME types (`image/svg+xml`) and wildcards (`image/*`). */
+  accept?: string;
+  /** Largest allowed size in bytes. */
+  maxSize?: number;
+  /** Smallest allowed size in bytes. */
+  minSize?: number;
+  /** Smallest allowed image size. Raster images only — SVGs have no intrinsic pixel size. */
+  minDimensions?: ImageDimensions;
+  /** Largest allowed image size. Raster images only. */
+  maxDimensions?: ImageDimensions;
+}
+
+/** Why a file was turned away. */
+export type FileRejectionCode =
+  | 'file-invalid-type'
+  | 'file-too-large'
+  | 'file-too-small'
+  | 'image-too-small'
+  | 'image-too-large'
+  | 'image-unreadable';
+
+/** One broken rule for one file. A file can break several. */
+export interface FileRejection {
+  file: File;
+  code: FileRejectionCode;
+  /** Human-readable sentence naming the file, safe to show inline. */
+  message: string;
+  /** The limit that was broken — bytes or pixels. Absent for type and unreadable errors. */
+  limit?: number | ImageDimensions;
+  /** The file's own value for the broken limit. */
+  actual?: number | ImageDimensions;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+// `accept` honors three forms per HTML spec: extension (`.svg`), MIME type
+// (`image/svg+xml`), and MIME wildcard (`image/*`). Browsers only enforce
+// `accept` in the file picker — drag-drop bypasses it — so we check here too.
+export function fileMatchesAccept(file: File, accept: string): boolean {
+  const name = file.name.toLowerCase();
+  const type = (file.type || '').toLowerCase();
+  const patterns = accept
+    .split(',')
+    .map((p) => p.trim().toLowerCase())
+    .filter(Boolean);
+  if (patterns.length === 0) return true;
+  return patterns.some((p) => {
+    if (p.startsWith('.')) return name.endsWith(p);
+    if (p.endsWith('/*')) return type.startsWith(p.slice(0, -1));
+    return type === p;
+  });
+}
+
+/** `248 KB`, `5.0 MB` — binary units, one decimal from MB up. */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+}
+
+/** Decode an image file just far enough to read its pixel size. Rejects when it can't be decoded. */
+export function readImageDimensions(file: File): Promise<ImageDimensions> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Could not decode ${file.name}`));
+    };
+    img.src = url;
+  });
+}
+
+const hasDimensionRules = (rules: FileValidationRules) =>
+  rules.minDimensions !== undefined || rules.maxDimensions !== undefined;
+
+const isRasterImage = (file: File) => file.type.startsWith('image/') && file.type !== 'image/svg+xml';
+
+/**
+ * Check one file against `rules`. Resolves with every rule it breaks —
+ * an empty array means the file is accepted. Dimension rules decode the
+ * image, so they only run once type and size pass.
+ *
+ * `readDimensions` is injectable for environments without an image decoder.
+ */
+export async function validateFile(
+  file: File,
+  rules: FileValidationRules,
+  readDimensions: (file: File) => Promise<ImageDimensions> = readImageDimensions,
+): Promise<FileRejection[]> {
+  const rejections: FileRejection[] = [];
+  const { accept, maxSize, minSize, minDimensions, maxDimensions } = rules;
+
+  if (accept && accept.trim() && !fileMatchesAccept(file, accept)) {
+    rejections.push({ file, code: 'file-invalid-type', message: `"${file.name}" is not a supported file type` });
+  }
+  if (maxSize !== undefined && file.size > maxSize) {
+    rejections.push({
+      file,
+      code: 'file-too-large',
+      message: `"${file.name}" exceeds the ${formatBytes(maxSize)} limit`,
+      limit: maxSize,
+      actual: file.size,
+    });
+  }
+  if (minSize !== undefined && file.size < minSize) {
+    rejections.push({
+      file,
+      code: 'file-too-small',
+      message: `"${file.name}" is smaller than ${formatBytes(minSize)}`,
+      limit: minSize,
+      actual: file.size,
+    });
+  }
+
+  if (rejections.length > 0 || !hasDimensionRules(rules) || !isRasterImage(file)) return rejections;
+
+  let size: ImageDimensions;
+  try {
+    size = await readDimensions(file);
+  } catch {
+    return [{ file, code: 'image-unreadable', message: `"${file.name}" could not be read as an image` }];
+  }
+
+  if (minDimensions && (size.width < minDimensions.width || size.height < minDimensions.height)) {
+    rejections.push({
+      file,
+      code: 'image-too-small',
+      message: `"${file.name}" is ${size.width} × ${size.height}px — at least ${minDimensions.width} × ${minDimensions.height}px required`,
+      limit: minDimensions,
+      actual: size,
+    });
+  }
+  if (maxDimensions && (size.width > maxDimensions.width || size.height > maxDimensions.height)) {
+    rejections.push({
+      file,
+      code: 'image-too-large',
+      message: `"${file.name}" is ${size.width} × ${size.height}px — at most ${maxDimensions.width} × ${maxDimensions.height}px allowed`,
+      limit: maxDimensions,
+      actual: size,
+    });
+  }
+  return rejections;
+}
@@ -1 +1,24 @@
 export { FileUploader, type FileUploaderProps } from './FileUploader';
+export {
+  useFileUpload,
+  type FileUploadItem,
+  type FileUploadStatus,
+  type UseFileUploadOptions,
+  type UseFileUploadReturn,
+} from './useFileUpload';
+export {
+  createXhrUploadAdapter,
+  createFetchUploadAdapter,
+  type UploadAdapter,
+  type UploadRequest,
+  type UploadResponse,
+  type HttpUploadAdapterOptions,
+  type UploadHttpError,
+} from './uploadAdapters';
+export {
+  validateFile,
+  type FileValidationRules,
+  type FileRejection,
+  type FileRejectionCode,
+  type ImageDimensions,
+} from './fileValidation';
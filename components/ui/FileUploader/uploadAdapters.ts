@@ -0,0 +1,198 @@
+// ─── Types ──────────────────────────────────────────────────────────
+
+/** One request an adapter sends — the whole file, or one chunk of it. */
+export interface UploadRequest {
+  file: File;
+  /** The bytes to send — `file` itself, or `file.slice(start, end)`. */
+  body: Blob;
+  /** Offset of `body` in `file`, bytes. */
+  start: number;
+  /** End of `body` in `file` (exclusive), bytes. Equals `file.size` on the last request. */
+  end: number;
+  /** Session id the server returned for an earlier chunk of this file — absent on the first. */
+  uploadId?: string;
+  /** Aborted when the upload is canceled or removed. */
+  signal: AbortSignal;
+  /** Report bytes of `body` sent so far. */
+  onProgress: (loaded: number) => void;
+}
+
+/** What an adapter resolves with once the server accepts a request. */
+export interface UploadResponse {
+  /** Upload session id — sent back with the file's later chunks and used to resume. */
+  uploadId?: string;
+  /** The server's reply, parsed. Passed through to `onUploadComplete`. */
+  data?: unknown;
+}
+
+/**
+ * Moves bytes to a server. `createXhrUploadAdapter` and
+ * `createFetchUploadAdapter` cover plain HTTP endpoints; implement this
+ * directly for SDK-backed storage (signed URLs, tus, S3 multipart).
+ */
+export interface UploadAdapter {
+  /** Send one request. Reject to fail the upload; honour `signal` to cancel. */
+  send: (request: UploadRequest) => Promise<UploadResponse>;
+  /**
+   * Resumable uploads: bytes of `file` the server already holds for
+   * `uploadId`. Asked before a retry so the upload continues from there.
+   * Without it, a retry resumes after the last chunk the server confirmed.
+   */
+  getOffset?: (file: File, uploadId: string) => Promise<number>;
+}
+
+/** Options shared by the built-in HTTP adapters. */
+export interface HttpUploadAdapterOptions {
+  /** Endpoint — a fixed URL, or one built per request (e.g. per upload session). */
+  url: string | ((request: UploadRequest) => string);
+  /** HTTP method. Default `POST`. */
+  method?: 'POST' | 'PUT' | 'PATCH';
+  /** Extra request headers, fixed or per request. */
+  headers?: Record<string, string> | ((request: UploadRequest) => Record<string, string>);
+  /**
+   * Multipart field name for the file. Default `file`. Pass `null` to send
+   * the raw bytes as the request body instead of `multipart/form-data`.
+   */
+  fieldName?: string | null;
+  /** Send cookies cross-origin. Default `false`. */
+  withCredentials?: boolean;
+  /**
+   * Turn the response body into an `UploadResponse`. Default: parse JSON
+   * and read `uploadId` from it; the whole body becomes `data`.
+   */
+  parseResponse?: (body: string) => UploadResponse;
+}
+
+/** A non-2xx reply from an HTTP adapter. */
+export interface UploadHttpError extends Error {
+  status: number;
+  body: string;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+function defaultParseResponse(body: string): UploadResponse {
+  try {
+    const data: unknown = JSON.parse(body);
+    const uploadId =
+      data !== null && typeof data === 'object' && typeof (data as { uploadId?: unknown }).uploadId === 'string'
+        ? (data as { uploadId: string }).uploadId
+        : undefined;
+    return { uploadId, data };
+  } catch {
+    return { data: body };
+  }
+}
+
+/**
+ * Headers that tell the server where a chunk belongs — `Content-Range`
+ * for any request that isn't the whole file, and `Upload-Id` once the
+ * server has issued one.
+ */
+export function chunkHeaders(request: Pick<UploadRequest, 'file' | 'start' | 'end' | 'uploadId'>): Record<string, string> {
+  const headers: Record<string, string> = {};
+  const { file, start, end, uploadId } = request;
+  if (start > 0 || end < file.size) {
+    headers['Content-Range'] = `bytes ${start}-${Math.max(start, end - 1)}/${file.size}`;
+  }
+  if (uploadId) headers['Upload-Id'] = uploadId;
+  return headers;
+}
+
+function resolveRequest(options: HttpUploadAdapterOptions, request: UploadRequest) {
+  const { url, headers, fieldName = 'file' } = options;
+  let body: Blob | FormData = request.body;
+  if (fieldName !== null) {
+    body = new FormData();
+    body.append(fieldName, request.body, request.file.name);
+  }
+  return {
+    url: typeof url === 'function' ? url(request) : url,
+    headers: { ...chunkHeaders(request), ...(typeof headers === 'function' ? headers(request) : headers) },
+    body,
+  };
+}
+
+function httpError(status: number, body: string): UploadHttpError {
+  return Object.assign(new Error(`Upload failed with status ${status}`), { status, body });
+}
+
+function abortError(): Error {
+  return new DOMException('The upload was canceled', 'AbortError');
+}
+
+// ─── Adapters ───────────────────────────────────────────────────────
+
+/**
+ * Upload over `XMLHttpRequest` — the only browser transport that reports
+ * upload progress byte by byte.
+ *
+ * @example
+ * ```tsx
+ * const adapter = createXhrUploadAdapter({
+ *   url: '/api/assets',
+ *   headers: () => ({ Authorization: `Bearer ${getToken()}` }),
+ * });
+ * ```
+ */
+export function createXhrUploadAdapter(options: HttpUploadAdapterOptions): UploadAdapter {
+  const { method = 'POST', withCredentials = false, parseResponse = defaultParseResponse } = options;
+  return {
+    send: (request) =>
+      new Promise((resolve, reject) => {
+        if (request.signal.aborted) {
+          reject(abortError());
+          return;
+        }
+        const { url, headers, body } = resolveRequest(options, request);
+        const xhr = new XMLHttpRequest();
+        const onAbort = () => xhr.abort();
+
+        xhr.open(method, url);
+        xhr.withCredentials = withCredentials;
+        Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+        xhr.upload.onprogress = (e) => request.onProgress(e.loaded);
+        xhr.onload = () => {
+          request.signal.removeEventListener('abort', onAbort);
+          if (xhr.status >= 200 && xhr.status < 300) {
+            request.onProgress(request.body.size);
+            resolve(parseResponse(xhr.responseText));
+          } else {
+            reject(httpError(xhr.status, xhr.responseText));
+          }
+        };
+        xhr.onerror = () => {
+          request.signal.removeEventListener('abort', onAbort);
+          reject(new Error('Network error during upload'));
+        };
+        xhr.onabort = () => reject(abortError());
+        request.signal.addEventListener('abort', onAbort, { once: true });
+        xhr.send(body);
+      }),
+  };
+}
+
+/**
+ * Upload over `fetch`. `fetch` can't observe bytes leaving the browser, so
+ * progress moves once per request — pair it with `chunkSize` to get
+ * steady progress on large files. Prefer the XHR adapter otherwise.
+ */
+export function createFetchUploadAdapter(options: HttpUploadAdapterOptions): UploadAdapter {
+  const { method = 'POST', withCredentials = false, parseResponse = defaultParseResponse } = options;
+  return {
+    send: async (request) => {
+      const { url, headers, body } = resolveRequest(options, request);
+      const res = await fetch(url, {
+        method,
+        headers,
+        body,
+        signal: request.signal,
+        credentials: withCredentials ? 'include' : 'same-origin',
+      });
+      const text = await res.text();
+      if (!res.ok) throw httpError(res.status, text);
+      request.onProgress(request.body.size);
+      return parseResponse(text);
+    },
+  };
+}
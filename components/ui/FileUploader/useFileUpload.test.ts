@@ -0,0 +1,85 @@
+/**
+ * useFileUpload unit tests — chunking and resume in `runUpload` against a fake adapter.
+ */
+import { describe, it, expect } from 'vitest';
+import { runUpload } from './useFileUpload';
+import { chunkHeaders, type UploadAdapter, type UploadRequest } from './uploadAdapters';
+
+const makeFile = (size: number) => new File([new Uint8Array(size)], 'asset.bin');
+
+function recordingAdapter(failAt?: number) {
+  const requests: Array<Pick<UploadRequest, 'start' | 'end' | 'uploadId'> & { size: number }> = [];
+  const adapter: UploadAdapter = {
+    send: async ({ body, start, end, uploadId, onProgress }) => {
+      if (start === failAt) throw new Error('Network error during upload');
+      requests.push({ start, end, uploadId, size: body.size });
+      onProgress(body.size);
+      return { uploadId: uploadId ?? 'session-1', data: { end } };
+    },
+  };
+  return { adapter, requests };
+}
+
+const signal = () => new AbortController().signal;
+
+describe('runUpload', () => {
+  it('sends the whole file in one request without a chunk size', async () => {
+    const { adapter, requests } = recordingAdapter();
+    const response = await runUpload({ file: makeFile(100), adapter, offset: 0, signal: signal(), onProgress: () => {} });
+    expect(requests).toEqual([{ start: 0, end: 100, uploadId: undefined, size: 100 }]);
+    expect(response).toEqual({ uploadId: 'session-1', data: { end: 100 } });
+  });
+
+  it('sends chunks in order, threading the upload id and whole-file progress', async () => {
+    const { adapter, requests } = recordingAdapter();
+    const progress: number[] = [];
+    await runUpload({ file: makeFile(250), adapter, chunkSize: 100, offset: 0, signal: signal(), onProgress: (n) => progress.push(n) });
+    expect(requests).toEqual([
+      { start: 0, end: 100, uploadId: undefined, size: 100 },
+      { start: 100, end: 200, uploadId: 'session-1', size: 100 },
+      { start: 200, end: 250, uploadId: 'session-1', size: 50 },
+    ]);
+    expect(progress).toEqual([100, 200, 250]);
+  });
+
+  it('resumes from the last confirmed chunk after a failure', async () => {
+    const failing = recordingAdapter(200);
+    const points: Array<{ offset: number; uploadId?: string }> = [];
+    const file = makeFile(250);
+    await expect(
+      runUpload({ file, adapter: failing.adapter, chunkSize: 100, offset: 0, signal: signal(), onProgress: () => {}, onChunk: (p) => points.push(p) }),
+    ).rejects.toThrow('Network error');
+    expect(points[points.length - 1]).toEqual({ offset: 200, uploadId: 'session-1' });
+
+    const { adapter, requests } = recordingAdapter();
+    await runUpload({ file, adapter, chunkSize: 100, ...points[points.length - 1], signal: signal(), onProgress: () => {} });
+    expect(requests).toEqual([{ start: 200, end: 250, uploadId: 'session-1', size: 50 }]);
+  });
+
+  it('stops before the next chunk once aborted', async () => {
+    const controller = new AbortController();
+    const { adapter, requests } = recordingAdapter();
+    const aborting: UploadAdapter = {
+      send: async (request) => {
+        const response = await adapter.send(request);
+        controller.abort();
+        return response;
+      },
+    };
+    await expect(
+      runUpload({ file: makeFile(250), adapter: aborting, chunkSize: 100, offset: 0, signal: controller.signal, onProgress: () => {} }),
+    ).rejects.toThrow('canceled');
+    expect(requests).toHaveLength(1);
+  });
+});
+
+describe('chunkHeaders', () => {
+  it('adds Content-Range for partial bodies and the upload id once issued', () => {
+    const file = makeFile(250);
+    expect(chunkHeaders({ file, start: 0, end: 250 })).toEqual({});
+    expect(chunkHeaders({ file, start: 100, end: 200, uploadId: 'session-1' })).toEqual({
+      'Content-Range': 'bytes 100-199/250',
+      'Upload-Id': 'session-1',
+    });
+  });
+});
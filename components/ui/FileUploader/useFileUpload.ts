@@ -0,0 +1,276 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { UploadAdapter, UploadResponse } from './uploadAdapters';
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+export type FileUploadStatus = 'queued' | 'uploading' | 'complete' | 'failed' | 'canceled';
+
+/** One file in the upload queue. */
+export interface FileUploadItem {
+  /** Stable id for the item — pass to `cancel`, `retry` and `remove`. */
+  id: string;
+  file: File;
+  status: FileUploadStatus;
+  /** Bytes sent so far. */
+  loaded: number;
+  /** Percent sent, 0–100. */
+  progress: number;
+  /** Why the last attempt failed. Set while `status` is `failed`. */
+  error?: unknown;
+  /** The adapter's response to the final request. Set once `status` is `complete`. */
+  response?: UploadResponse;
+}
+
+export interface UseFileUploadOptions {
+  /** Transport — see `createXhrUploadAdapter`. */
+  adapter: UploadAdapter;
+  /**
+   * Split files larger than this many bytes into sequential requests, so a
+   * failed or canceled upload can resume instead of starting over. Unset
+   * sends each file in one request.
+   */
+  chunkSize?: number;
+  /** Files uploading at once; the rest wait. Default `3`. */
+  concurrency?: number;
+  /** Called once a file finishes uploading. */
+  onComplete?: (item: FileUploadItem) => void;
+  /** Called when an upload attempt fails — not when it's canceled. */
+  onError?: (item: FileUploadItem) => void;
+}
+
+export interface UseFileUploadReturn {
+  /** Every file added, in the order added. */
+  items: FileUploadItem[];
+  /** Queue files. They start as soon as a slot is free. */
+  add: (files: File[]) => void;
+  /** Stop a queued or in-flight upload. It stays listed as `canceled`. */
+  cancel: (id: string) => void;
+  /** Re-queue a failed or canceled upload. Chunked uploads resume where they stopped. */
+  retry: (id: string) => void;
+  /** Cancel if needed, then drop the item from the list. */
+  remove: (id: string) => void;
+}
+
+/** Where a chunked upload can pick up again. */
+interface ResumePoint {
+  offset: number;
+  uploadId?: string;
+}
+
+export interface RunUploadOptions extends ResumePoint {
+  file: File;
+  adapter: UploadAdapter;
+  chunkSize?: number;
+  signal: AbortSignal;
+  /** Bytes of the whole file sent so far. */
+  onProgress: (loaded: number) => void;
+  /** A chunk was confirmed — the upload can resume from here. */
+  onChunk?: (point: ResumePoint) => void;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+/**
+ * Send `file` through `adapter`, from `offset` on. Without `chunkSize`
+ * it's one request; with it, one request per chunk in order, each
+ * carrying the `uploadId` the server returned for the one before.
+ * Resolves with the final response.
+ */
+export async function runUpload({
+  file,
+  adapter,
+  chunkSize,
+  offset,
+  uploadId,
+  signal,
+  onProgress,
+  onChunk,
+}: RunUploadOptions): Promise<UploadResponse> {
+  const size = chunkSize && chunkSize > 0 ? chunkSize : file.size;
+  let start = chunkSize ? Math.min(offset, file.size) : 0;
+  let session = uploadId;
+  let response: UploadResponse = {};
+
+  // An empty file still gets one request.
+  do {
+    if (signal.aborted) throw new DOMException('The upload was canceled', 'AbortError');
+    const end = Math.min(start + size, file.size);
+    const chunkStart = start;
+    response = await adapter.send({
+      file,
+      body: chunkStart === 0 && end === file.size ? file : file.slice(chunkStart, end),
+      start: chunkStart,
+      end,
+      uploadId: session,
+      signal,
+      onProgress: (loaded) => onProgress(chunkStart + Math.min(loaded, end - chunkStart)),
+    });
+    session = response.uploadId ?? session;
+    start = end;
+    onChunk?.({ offset: end, uploadId: session });
+  } while (start < file.size);
+
+  return { ...response, uploadId: session };
+}
+
+const percent = (loaded: number, total: number) => (total === 0 ? 100 : Math.round((loaded / total) * 100));
+
+let uploadCounter = 0;
+function nextId(): string {
+  return `upload-${++uploadCounter}`;
+}
+
+// ─── useFileUpload Hook ─────────────────────────────────────────────
+
+/**
+ * Upload queue behind `FileUploader`'s `adapter` prop — use it directly to
+ * render the queue yourself.
+ *
+ * Files start as soon as they're added, `concurrency` at a time. Each
+ * item reports status and progress; `cancel` aborts the request and
+ * `retry` puts it back in the queue. With `chunkSize`, a retry resumes
+ * after the last chunk the server confirmed (or from `adapter.getOffset`).
+ *
+ * @example
+ * ```tsx
+ * const upload = useFileUpload({ adapter, chunkSize: 5 * 1024 * 1024 });
+ *
+ * <FileUploader multiple onChange={upload.add} />
+ * {upload.items.map((item) => (
+ *   <FileCard
+ *     key={item.id}
+ *     preview="icon"
+ *     name={item.file.name}
+ *     status={item.status}
+ *     progress={item.progress}
+ *     onCancel={() => upload.cancel(item.id)}
+ *     onRetry={() => upload.retry(item.id)}
+ *   />
+ * ))}
+ * ```
+ */
+export function useFileUpload({
+  adapter,
+  chunkSize,
+  concurrency = 3,
+  onComplete,
+  onError,
+}: UseFileUploadOptions): UseFileUploadReturn {
+  const [items, setItems] = useState<FileUploadItem[]>([]);
+  const controllers = useRef(new Map<string, AbortController>());
+  const resumePoints = useRef(new Map<string, ResumePoint>());
+
+  // Read the latest options from inside in-flight uploads.
+  const latest = useRef({ adapter, chunkSize, onComplete, onError });
+  latest.current = { adapter, chunkSize, onComplete, onError };
+
+  const patch = useCallback((id: string, update: Partial<FileUploadItem>) => {
+    setItems((current) => current.map((item) => (item.id === id ? { ...item, ...update } : item)));
+  }, []);
+
+  const start = useCallback(
+    async (item: FileUploadItem) => {
+      const controller = new AbortController();
+      controllers.current.set(item.id, controller);
+      const { adapter: transport, chunkSize: chunk } = latest.current;
+      const { file } = item;
+
+      try {
+        let point = resumePoints.current.get(item.id) ?? { offset: 0 };
+        if (point.uploadId && transport.getOffset) {
+          point = { ...point, offset: await transport.getOffset(file, point.uploadId) };
+          if (controller.signal.aborted) return;
+        }
+        patch(item.id, { status: 'uploading', error: undefined, loaded: point.offset, progress: percent(point.offset, file.size) });
+
+        const response = await runUpload({
+          file,
+          adapter: transport,
+          chunkSize: chunk,
+          ...point,
+          signal: controller.signal,
+          onProgress: (loaded) => {
+            if (!controller.signal.aborted) patch(item.id, { loaded, progress: percent(loaded, file.size) });
+          },
+          onChunk: (next) => resumePoints.current.set(item.id, next),
+        });
+
+        if (controller.signal.aborted) return;
+        resumePoints.current.delete(item.id);
+        const done: FileUploadItem = { ...item, status: 'complete', loaded: file.size, progress: 100, error: undefined, response };
+        patch(item.id, done);
+        latest.current.onComplete?.(done);
+      } catch (error) {
+        // Canceled — `cancel` / `remove` already updated the item.
+        if (controller.signal.aborted) return;
+        const failed: FileUploadItem = { ...item, status: 'failed', error };
+        patch(item.id, { status: 'failed', error });
+        latest.current.onError?.(failed);
+      } finally {
+        if (controllers.current.get(item.id) === controller) controllers.current.delete(item.id);
+      }
+    },
+    [patch],
+  );
+
+  // Fill free slots from the front of the queue.
+  useEffect(() => {
+    const free = concurrency - controllers.current.size;
+    if (free <= 0) return;
+    items
+      .filter((item) => item.status === 'queued' && !controllers.current.has(item.id))
+      .slice(0, free)
+      .forEach((item) => void start(item));
+  }, [items, concurrency, start]);
+
+  // Abort anything still in flight on unmount.
+  useEffect(() => {
+    const active = controllers.current;
+    return () => active.forEach((controller) => controller.abort());
+  }, []);
+
+  const add = useCallback((files: File[]) => {
+    const added = files.map((file): FileUploadItem => ({ id: nextId(), file, status: 'queued', loaded: 0, progress: 0 }));
+    setItems((current) => [...current, ...added]);
+  }, []);
+
+  const abort = useCallback((id: string) => {
+    controllers.current.get(id)?.abort();
+    controllers.current.delete(id);
+  }, []);
+
+  const cancel = useCallback(
+    (id: string) => {
+      abort(id);
+      setItems((current) =>
+        current.map((item) =>
+          item.id === id && (item.status === 'queued' || item.status === 'uploading')
+            ? { ...item, status: 'canceled' }
+            : item,
+        ),
+      );
+    },
+    [abort],
+  );
+
+  const retry = useCallback((id: string) => {
+    setItems((current) =>
+      current.map((item) =>
+        item.id === id && (item.status === 'failed' || item.status === 'canceled')
+          ? { ...item, status: 'queued', error: undefined }
+          : item,
+      ),
+    );
+  }, []);
+
+  const remove = useCallback(
+    (id: string) => {
+      abort(id);
+      resumePoints.current.delete(id);
+      setItems((current) => current.filter((item) => item.id !== id));
+    },
+    [abort],
+  );
+
+  return { items, add, cancel, retry, remove };
+}
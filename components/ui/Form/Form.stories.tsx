@@ -1,7 +1,15 @@
+import { useState } from 'react';
 import type { Meta, StoryObj } from '@storybook/react-vite';
+import { expect, userEvent, waitFor, within } from 'storybook/test';
 import { Form } from './Form';
+import { useBdsForm } from './useBdsForm';
+import type { StandardSchemaV1 } from './standardSchema';
 import { TextInput } from '../TextInput';
 import { TextArea } from '../TextArea';
+import { Select } from '../Select';
+import { Checkbox } from '../Checkbox';
+import { DatePicker } from '../DatePicker';
+import { MultiSelect } from '../MultiSelect';
 import { Button } from '../Button';
 
 /**
@@ -54,3 +62,163 @@ export const Default: Story = {
     </div>
   ),
 };
+
+// ─── useBdsForm ─────────────────────────────────────────────────────
+
+interface InviteValues extends Record<string, unknown> {
+  email: string;
+  role: string;
+  start: Date | null;
+  teams: string[];
+  terms: boolean;
+}
+
+/**
+ * A hand-written Standard Schema — what zod, valibot or ArkType hand the
+ * hook. Async, with a short delay, to stand in for a server-side check.
+ */
+const inviteSchema: StandardSchemaV1<unknown, InviteValues> = {
+  '~standard': {
+    version: 1,
+    vendor: 'storybook',
+    validate: async (input) => {
+      const values = input as InviteValues;
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      const issues: StandardSchemaV1.Issue[] = [];
+      if (!/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(values.email)) issues.push({ path: ['email'], message: 'Enter a valid email address' });
+      if (!values.role) issues.push({ path: ['role'], message: 'Choose a role' });
+      if (!values.start) issues.push({ path: ['start'], message: 'Pick a start date' });
+      if (values.teams.length === 0) issues.push({ path: ['teams'], message: 'Add at least one team' });
+      if (!values.terms) issues.push({ path: ['terms'], message: 'Accept the terms to continue' });
+      return issues.length > 0 ? { issues } : { value: values };
+    },
+  },
+};
+
+const roles = [
+  { label: 'Viewer', value: 'viewer' },
+  { label: 'Editor', value: 'editor' },
+  { label: 'Admin', value: 'admin' },
+];
+
+const teams = [
+  { label: 'Design', value: 'design' },
+  { label: 'Engineering', value: 'engineering' },
+  { label: 'Marketing', value: 'marketing' },
+];
+
+const emptyInvite: InviteValues = { email: '', role: '', start: null, teams: [], terms: false };
+
+function InviteForm({ defaultValues = emptyInvite }: { defaultValues?: InviteValues }) {
+  const [sentTo, setSentTo] = useState<string>();
+  const form = useBdsForm({
+    schema: inviteSchema,
+    defaultValues,
+    onSubmit: async (values) => {
+      await new Promise((resolve) => setTimeout(resolve, 300));
+      setSentTo(values.email);
+    },
+  });
+
+  return (
+    <div style={{ width: 400 }}>
+      <Form
+        {...form.formProps}
+        title="Invite a teammate"
+        success={sentTo ? `Invitation sent to ${sentTo}` : undefined}
+        footer={
+          <Button type="submit" loading={form.isSubmitting}>
+            Send invite
+          </Button>
+        }
+      >
+        <TextInput label="Email" type="email" fullWidth {...form.register('email')} />
+        <Select label="Role" placeholder="Select…" options={roles} {...form.register('role')} />
+        <DatePicker label="Start date" fullWidth {...form.registerValue('start')} />
+        <MultiSelect label="Teams" placeholder="Add a team" options={teams} {...form.registerValue('teams')} />
+        <Checkbox label="I agree to the terms" {...form.registerCheckbox('terms')} />
+      </Form>
+    </div>
+  );
+}
+
+/**
+ * `useBdsForm` driving TextInput, Select, DatePicker, MultiSelect and
+ * Checkbox from one async schema. Fields validate on blur; submit
+ * validates everything and focuses the first invalid field.
+ * @summary Schema-validated form with useBdsForm
+ */
+export const WithValidation: Story = {
+  args: { children: null },
+  render: () => <InviteForm />,
+};
+
+/**
+ * Submitting the empty form shows every error and moves focus to the
+ * first invalid field.
+ * @summary Play-function interaction test
+ */
+export const InteractionTestFormSubmitInvalid: Story = {
+  tags: ['!manifest', 'interaction-test'],
+  args: { children: null },
+  render: () => <InviteForm />,
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    await userEvent.click(canvas.getByRole('button', { name: 'Send invite' }));
+    await waitFor(() => expect(canvas.getByText('Enter a valid email address')).toBeInTheDocument());
+    await expect(canvas.getByText('Accept the terms to continue')).toBeInTheDocument();
+    await expect(canvas.getByLabelText('Email')).toHaveFocus();
+    await expect(canvas.getByLabelText('Email')).toHaveAttribute('aria-invalid', 'true');
+  },
+};
+
+/**
+ * After a failed submit, fixing a field clears its error as you type.
+ * @summary Play-function interaction test
+ */
+export const InteractionTestFormErrorClears: Story = {
+  tags: ['!manifest', 'interaction-test'],
+  args: { children: null },
+  render: () => <InviteForm />,
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    await userEvent.click(canvas.getByRole('button', { name: 'Send invite' }));
+    await waitFor(() => expect(canvas.getByText('Accept the terms to continue')).toBeInTheDocument());
+
+    await userEvent.type(canvas.getByLabelText('Email'), 'ada@example.com');
+    await waitFor(() => expect(canvas.queryByText('Enter a valid email address')).not.toBeInTheDocument());
+
+    await userEvent.click(canvas.getByRole('checkbox', { name: 'I agree to the terms' }));
+    await waitFor(() => expect(canvas.queryByText('Accept the terms to continue')).not.toBeInTheDocument());
+    await expect(canvas.getByText('Choose a role')).toBeInTheDocument();
+  },
+};
+
+/**
+ * With every other field valid, submit focuses the terms checkbox — its
+ * error appears without remounting the input that just took focus.
+ * @summary Play-function interaction test
+ */
+export const InteractionTestFormCheckboxFocus: Story = {
+  tags: ['!manifest', 'interaction-test'],
+  args: { children: null },
+  render: () => (
+    <InviteForm
+      defaultValues={{
+        email: 'ada@example.com',
+        role: 'editor',
+        start: new Date(2026, 10, 2),
+        teams: ['design'],
+        terms: false,
+      }}
+    />
+  ),
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    await userEvent.click(canvas.getByRole('button', { name: 'Send invite' }));
+    await waitFor(() => expect(canvas.getByText('Accept the terms to continue')).toBeInTheDocument());
+    const terms = canvas.getByRole('checkbox', { name: 'I agree to the terms' });
+    await expect(terms).toHaveAttribute('aria-invalid', 'true');
+    await expect(terms).toHaveFocus();
+  },
+};
@@ -1 +1,17 @@
 export { Form, type FormProps, type FormLayout } from './Form';
+export {
+  useBdsForm,
+  type UseBdsFormOptions,
+  type UseBdsFormReturn,
+  type FormValues,
+  type FormFieldName,
+  type FormErrors,
+  type FormFieldFlags,
+  type FormValidateOn,
+  type FormInputBinding,
+  type FormCheckboxBinding,
+  type FormValueBinding,
+  type FormFieldBinding,
+  type FormBinding,
+} from './useBdsForm';
+export type { StandardSchemaV1 } from './standardSchema';
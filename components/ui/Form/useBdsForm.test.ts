@@ -0,0 +1,76 @@
+/**
+ * useBdsForm unit tests — routing schema issues to fields, and dirty-tracking value comparison.
+ */
+import { describe, it, expect } from 'vitest';
+import { isSameValue, issuesToErrors, runSchema } from './useBdsForm';
+import type { StandardSchemaV1 } from './standardSchema';
+
+type Signup = { email: string; age: string };
+
+/** A minimal Standard Schema — what zod and valibot expose under `~standard`. */
+function signupSchema(options: { async?: boolean } = {}): StandardSchemaV1<Signup, { email: string; age: number }> {
+  return {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: (input) => {
+        const { email, age } = input as Signup;
+        const issues: StandardSchemaV1.Issue[] = [];
+        if (!email.includes('@')) issues.push({ message: 'Enter a valid email', path: ['email'] });
+        if (!/^\d+$/.test(age)) issues.push({ message: 'Age must be a number', path: [{ key: 'age' }] });
+        const result: StandardSchemaV1.Result<{ email: string; age: number }> =
+          issues.length > 0 ? { issues } : { value: { email, age: Number(age) } };
+        return options.async ? Promise.resolve(result) : result;
+      },
+    },
+  };
+}
+
+describe('issuesToErrors', () => {
+  it('keeps the first message per field, routed by the first path segment', () => {
+    const { errors, formError } = issuesToErrors([
+      { message: 'Required', path: ['email'] },
+      { message: 'Too short', path: ['email'] },
+      { message: 'Pick at least one', path: [{ key: 'tags' }, 0] },
+    ]);
+    expect(errors).toEqual({ email: 'Required', tags: 'Pick at least one' });
+    expect(formError).toBeUndefined();
+  });
+
+  it('turns path-less issues into the form error', () => {
+    const { errors, formError } = issuesToErrors([{ message: 'End must be after start' }, { message: 'Other', path: [] }]);
+    expect(errors).toEqual({});
+    expect(formError).toBe('End must be after start');
+  });
+});
+
+describe('runSchema', () => {
+  it('returns the schema output when valid, sync or async', async () => {
+    expect(await runSchema(signupSchema(), { email: 'a@b.co', age: '42' })).toEqual({
+      valid: true,
+      value: { email: 'a@b.co', age: 42 },
+    });
+    expect(await runSchema(signupSchema({ async: true }), { email: 'a@b.co', age: '42' })).toMatchObject({ valid: true });
+  });
+
+  it('returns per-field errors when invalid', async () => {
+    expect(await runSchema(signupSchema({ async: true }), { email: 'nope', age: 'x' })).toEqual({
+      valid: false,
+      errors: { email: 'Enter a valid email', age: 'Age must be a number' },
+      formError: undefined,
+    });
+  });
+
+  it('passes values through without a schema', async () => {
+    expect(await runSchema(undefined, { email: '' })).toEqual({ valid: true, value: { email: '' } });
+  });
+});
+
+describe('isSameValue', () => {
+  it('compares dates by time and arrays item by item', () => {
+    expect(isSameValue(new Date(2026, 0, 1), new Date(2026, 0, 1))).toBe(true);
+    expect(isSameValue(['a', 'b'], ['a', 'b'])).toBe(true);
+    expect(isSameValue(['a', 'b'], ['b', 'a'])).toBe(false);
+    expect(isSameValue('', null)).toBe(false);
+  });
+});
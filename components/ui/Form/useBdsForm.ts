@@ -0,0 +1,375 @@
+import { useCallback, useMemo, useRef, useState, type ChangeEvent, type FormEvent } from 'react';
+import type { StandardSchemaV1 } from './standardSchema';
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+/** Field values keyed by field name. */
+export type FormValues = Record<string, unknown>;
+
+export type FormFieldName<Values> = Extract<keyof Values, string>;
+
+/** One message per field — the first issue the schema reported for it. */
+export type FormErrors<Values> = Partial<Record<FormFieldName<Values>, string>>;
+
+/** Per-field boolean state — touched, dirty. */
+export type FormFieldFlags<Values> = Partial<Record<FormFieldName<Values>, boolean>>;
+
+/**
+ * When a field validates before the first submit. After a submit, every
+ * change revalidates whatever the setting.
+ */
+export type FormValidateOn = 'submit' | 'blur' | 'change';
+
+export interface UseBdsFormOptions<Values extends FormValues, Output = Values> {
+  /** Starting values. Also the baseline `dirty` compares against. */
+  defaultValues: Values;
+  /**
+   * Any Standard Schema — zod, valibot, ArkType. Validates the whole
+   * values object, sync or async; issues route to fields by the first
+   * segment of their path, and path-less issues become `formError`.
+   */
+  schema?: StandardSchemaV1<unknown, Output>;
+  /** Called with the schema's output once the form validates. */
+  onSubmit: (values: Output) => void | Promise<unknown>;
+  /** When fields validate before the first submit. Default `blur`. */
+  validateOn?: FormValidateOn;
+}
+
+/** Spread on `TextInput`, `TextArea` and `Select`. */
+export interface FormInputBinding {
+  name: string;
+  value: string;
+  onChange: (event: ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => void;
+  onBlur: () => void;
+  error?: string;
+  ref: (element: HTMLElement | null) => void;
+}
+
+/** Spread on `Checkbox`. */
+export interface FormCheckboxBinding {
+  name: string;
+  checked: boolean;
+  onChange: (event: ChangeEvent<HTMLInputElement>) => void;
+  onBlur: () => void;
+  error?: string;
+  ref: (element: HTMLElement | null) => void;
+}
+
+/** Spread on value-emitting controls — `DatePicker`, `TimePicker`, `DateTimePicker`, `MultiSelect`. */
+export interface FormValueBinding<Value> {
+  value: Value;
+  onChange: (value: Value) => void;
+  error?: string;
+  ref: (element: HTMLElement | null) => void;
+}
+
+/** Spread on a read-mode `Field` — the error lands in its helper slot. */
+export interface FormFieldBinding {
+  helper?: string;
+  helperTone?: 'negative';
+}
+
+/** Spread on `Form`. */
+export interface FormBinding {
+  onSubmit: (event?: FormEvent) => Promise<void>;
+  noValidate: true;
+  error?: string;
+}
+
+export interface UseBdsFormReturn<Values extends FormValues> {
+  values: Values;
+  errors: FormErrors<Values>;
+  /** Schema issues with no field path — cross-field rules. Shown by `formProps` as the Form error. */
+  formError?: string;
+  /** Fields the user has left (or changed, for value controls). */
+  touched: FormFieldFlags<Values>;
+  /** Fields whose value differs from `defaultValues`. */
+  dirty: FormFieldFlags<Values>;
+  isDirty: boolean;
+  isSubmitting: boolean;
+  submitCount: number;
+  /** Bind a text-valued input by name. */
+  register: (name: FormFieldName<Values>) => FormInputBinding;
+  /** Bind a `Checkbox` to a boolean field. */
+  registerCheckbox: (name: FormFieldName<Values>) => FormCheckboxBinding;
+  /** Bind a control whose `onChange` receives the value itself. */
+  registerValue: <Name extends FormFieldName<Values>>(name: Name) => FormValueBinding<Values[Name]>;
+  /** Route a field's error to a `Field`'s helper slot. */
+  registerField: (name: FormFieldName<Values>) => FormFieldBinding;
+  /** Set a value from code. Validates like a user change. */
+  setValue: <Name extends FormFieldName<Values>>(name: Name, value: Values[Name]) => void;
+  /** Set or clear a field error — e.g. one the server returned. */
+  setError: (name: FormFieldName<Values>, message: string | undefined) => void;
+  /** Validate every field now. Resolves `true` when the form is valid. */
+  validate: () => Promise<boolean>;
+  /** Validate, then submit — or focus the first invalid field. */
+  handleSubmit: (event?: FormEvent) => Promise<void>;
+  /** Back to `values` (default: the original defaults), clearing errors and touched state. */
+  reset: (values?: Values) => void;
+  /** Spread on `<Form>`: submit handler, `noValidate`, and `formError` as its `error`. */
+  formProps: FormBinding;
+}
+
+type SchemaOutcome<Output> =
+  | { valid: true; value: Output }
+  | { valid: false; errors: Record<string, string>; formError?: string };
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+/** The field an issue belongs to — the first segment of its path, or `''` for the form itself. */
+export function issueField(issue: StandardSchemaV1.Issue): string {
+  const [first] = issue.path ?? [];
+  if (first === undefined) return '';
+  return String(typeof first === 'object' ? first.key : first);
+}
+
+/** Collapse schema issues to one message per field (first wins) plus a form-level message. */
+export function issuesToErrors(issues: ReadonlyArray<StandardSchemaV1.Issue>): {
+  errors: Record<string, string>;
+  formError?: string;
+} {
+  const errors: Record<string, string> = {};
+  let formError: string | undefined;
+  for (const issue of issues) {
+    const field = issueField(issue);
+    if (field === '') formError ??= issue.message;
+    else if (!(field in errors)) errors[field] = issue.message;
+  }
+  return { errors, formError };
+}
+
+/** Run `schema` over `values`. Without a schema every value passes through unchanged. */
+export async function runSchema<Output>(
+  schema: StandardSchemaV1<unknown, Output> | undefined,
+  values: unknown,
+): Promise<SchemaOutcome<Output>> {
+  if (!schema) return { valid: true, value: values as Output };
+  const result = await schema['~standard'].validate(values);
+  if (result.issues) return { valid: false, ...issuesToErrors(result.issues) };
+  return { valid: true, value: result.value };
+}
+
+/** Value equality for dirty tracking — dates by time, arrays item by item. */
+export function isSameValue(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isSameValue(item, b[i]));
+  }
+  return false;
+}
+
+const toText = (value: unknown) => (value == null ? '' : String(value));
+
+/** The element that comes first in the document. */
+function firstInDocument(elements: HTMLElement[]): HTMLElement | undefined {
+  return [...elements].sort((a, b) => (a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1))[0];
+}
+
+// ─── useBdsForm Hook ────────────────────────────────────────────────
+
+/**
+ * Form state and validation for BDS inputs.
+ *
+ * Register each input by name and spread the result on it — the binding
+ * carries the value, change / blur handlers, a ref, and the field's
+ * message through the component's own `error` prop. Validation runs the
+ * Standard Schema you pass (zod, valibot, ArkType), sync or async.
+ *
+ * On submit every field validates; if any fail, the first invalid field
+ * in the document takes focus and `onSubmit` isn't called.
+ *
+ * @example
+ * ```tsx
+ * const form = useBdsForm({
+ *   schema: z.object({ email: z.string().email(), role: z.string().min(1), terms: z.literal(true) }),
+ *   defaultValues: { email: '', role: '', terms: false },
+ *   onSubmit: (values) => api.invite(values),
+ * });
+ *
+ * <Form {...form.formProps} footer={<Button type="submit">Invite</Button>}>
+ *   <TextInput label="Email" {...form.register('email')} />
+ *   <Select label="Role" options={roles} {...form.register('role')} />
+ *   <Checkbox label="I agree to the terms" {...form.registerCheckbox('terms')} />
+ * </Form>
+ * ```
+ */
+export function useBdsForm<Values extends FormValues, Output = Values>({
+  defaultValues,
+  schema,
+  onSubmit,
+  validateOn = 'blur',
+}: UseBdsFormOptions<Values, Output>): UseBdsFormReturn<Values> {
+  type Name = FormFieldName<Values>;
+
+  const [defaults, setDefaults] = useState(defaultValues);
+  const [values, setValues] = useState(defaultValues);
+  const [errors, setErrors] = useState<FormErrors<Values>>({});
+  const [formError, setFormError] = useState<string>();
+  const [touched, setTouched] = useState<FormFieldFlags<Values>>({});
+  const [submitCount, setSubmitCount] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Handlers read the latest values and options without changing identity.
+  const valuesRef = useRef(values);
+  const latest = useRef({ schema, onSubmit, validateOn, submitCount, errors });
+  latest.current = { schema, onSubmit, validateOn, submitCount, errors };
+
+  // Async validation can settle out of order — only the newest run per
+  // scope ('*' for the whole form) may write errors.
+  const runs = useRef(new Map<string, number>());
+  const elements = useRef(new Map<string, HTMLElement>());
+  const refCallbacks = useRef(new Map<string, (element: HTMLElement | null) => void>());
+
+  const validateScope = useCallback(async (scope: Name | '*') => {
+    const run = (runs.current.get(scope) ?? 0) + 1;
+    runs.current.set(scope, run);
+    const outcome = await runSchema(latest.current.schema, valuesRef.current);
+    if (runs.current.get(scope) !== run) return outcome;
+
+    const next: FormErrors<Values> = outcome.valid ? {} : (outcome.errors as FormErrors<Values>);
+    if (scope === '*') {
+      setErrors(next);
+      setFormError(outcome.valid ? undefined : outcome.formError);
+    } else {
+      setErrors((current) => ({ ...current, [scope]: next[scope] }));
+    }
+    return outcome;
+  }, []);
+
+  // A change revalidates the field when validating on change, after a
+  // submit (then the whole form), or to clear an error being fixed.
+  const afterChange = useCallback(
+    (name: Name, committed: boolean) => {
+      const { validateOn: mode, submitCount: submits, errors: shown } = latest.current;
+      if (submits > 0) void validateScope('*');
+      else if (mode === 'change' || (mode === 'blur' && committed) || shown[name] !== undefined) void validateScope(name);
+    },
+    [validateScope],
+  );
+
+  const change = useCallback(
+    (name: Name, value: unknown, committed = false) => {
+      valuesRef.current = { ...valuesRef.current, [name]: value };
+      setValues(valuesRef.current);
+      if (committed) setTouched((current) => ({ ...current, [name]: true }));
+      afterChange(name, committed);
+    },
+    [afterChange],
+  );
+
+  const blur = useCallback(
+    (name: Name) => {
+      setTouched((current) => (current[name] ? current : { ...current, [name]: true }));
+      if (latest.current.validateOn === 'blur' && latest.current.submitCount === 0) void validateScope(name);
+    },
+    [validateScope],
+  );
+
+  const refFor = (name: Name) => {
+    let callback = refCallbacks.current.get(name);
+    if (!callback) {
+      callback = (element) => {
+        if (element) elements.current.set(name, element);
+        else elements.current.delete(name);
+      };
+      refCallbacks.current.set(name, callback);
+    }
+    return callback;
+  };
+
+  const validate = useCallback(async () => (await validateScope('*')).valid, [validateScope]);
+
+  const handleSubmit = useCallback(
+    async (event?: FormEvent) => {
+      event?.preventDefault();
+      setSubmitCount((count) => count + 1);
+      latest.current.submitCount += 1;
+      setTouched(Object.fromEntries(Object.keys(valuesRef.current).map((name) => [name, true])) as FormFieldFlags<Values>);
+
+      const outcome = await validateScope('*');
+      if (!outcome.valid) {
+        const invalid = Object.keys(outcome.errors)
+          .map((name) => elements.current.get(name))
+          .filter((element): element is HTMLElement => element !== undefined);
+        firstInDocument(invalid)?.focus();
+        return;
+      }
+
+      setIsSubmitting(true);
+      try {
+        await latest.current.onSubmit(outcome.value);
+      } finally {
+        setIsSubmitting(false);
+      }
+    },
+    [validateScope],
+  );
+
+  const reset = useCallback(
+    (next?: Values) => {
+      const base = next ?? defaults;
+      runs.current.clear();
+      valuesRef.current = base;
+      setDefaults(base);
+      setValues(base);
+      setErrors({});
+      setFormError(undefined);
+      setTouched({});
+      setSubmitCount(0);
+    },
+    [defaults],
+  );
+
+  const setError = useCallback((name: Name, message: string | undefined) => {
+    setErrors((current) => ({ ...current, [name]: message }));
+  }, []);
+
+  const dirty = useMemo(() => {
+    const flags: FormFieldFlags<Values> = {};
+    for (const name of Object.keys(values) as Name[]) {
+      if (!isSameValue(values[name], defaults[name])) flags[name] = true;
+    }
+    return flags;
+  }, [values, defaults]);
+
+  return {
+    values,
+    errors,
+    formError,
+    touched,
+    dirty,
+    isDirty: Object.keys(dirty).length > 0,
+    isSubmitting,
+    submitCount,
+    register: (name) => ({
+      name,
+      value: toText(values[name]),
+      onChange: (event) => change(name, event.target.value),
+      onBlur: () => blur(name),
+      error: errors[name],
+      ref: refFor(name),
+    }),
+    registerCheckbox: (name) => ({
+      name,
+      checked: Boolean(values[name]),
+      onChange: (event) => change(name, event.target.checked, true),
+      onBlur: () => blur(name),
+      error: errors[name],
+      ref: refFor(name),
+    }),
+    registerValue: (name) => ({
+      value: values[name],
+      onChange: (value) => change(name, value, true),
+      error: errors[name],
+      ref: refFor(name),
+    }),
+    registerField: (name) => (errors[name] ? { helper: errors[name], helperTone: 'negative' } : {}),
+    setValue: (name, value) => change(name, value, true),
+    setError,
+    validate,
+    handleSubmit,
+    reset,
+    formProps: { onSubmit: handleSubmit, noValidate: true, error: formError },
+  };
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useMemo, type CSSProperties, type ReactNode } from 'react';
+import { forwardRef, useState, useMemo, type CSSProperties, type FocusEvent, type ReactNode } from 'react';
 import { Icon } from '../Icon';
 import {
   Select,
@@ -102,6 +102,10 @@ export interface MultiSelectProps {
   className?: string;
   /** Optional style override */
   style?: CSSProperties;
+  /** Name on the underlying `<select>` */
+  name?: string;
+  /** Called when the dropdown loses focus */
+  onBlur?: (event: FocusEvent<HTMLSelectElement>) => void;
 }
 
 /**
@@ -131,9 +135,12 @@ export interface MultiSelectProps {
  * />
  * ```
  *
+ * The forwarded ref points at the dropdown's `<select>` — the element
+ * that takes focus.
+ *
  * @summary Themed multi-select dropdown with chip values
  */
-export function MultiSelect({
+export const MultiSelect = forwardRef<HTMLSelectElement, MultiSelectProps>(function MultiSelect({
   options,
   value: controlledValue,
   defaultValue,
@@ -148,7 +155,9 @@ export function MultiSelect({
   tagSize,
   className = '',
   style,
-}: MultiSelectProps) {
+  name,
+  onBlur,
+}, ref) {
   // Internal state for uncontrolled mode
   const [internalValue, setInternalValue] = useState<string[]>(defaultValue ?? []);
   const selectedValues = controlledValue ?? internalValue;
@@ -222,6 +231,9 @@ export function MultiSelect({
       style={style}
     >
       <Select
+        ref={ref}
+        name={name}
+        onBlur={onBlur}
         label={label}
         placeholder={remainingCount === 0 ? 'All options selected' : placeholder}
         value=""
@@ -286,6 +298,6 @@ export function MultiSelect({
       )}
     </div>
   );
-}
+});
 
 export default MultiSelect;
@@ -0,0 +1,382 @@
+'use client';
+
+import {
+  useRef,
+  type CSSProperties,
+  type KeyboardEvent,
+  type PointerEvent,
+  type ReactNode,
+} from 'react';
+import { bdsClass } from '../../utils';
+import { Checkbox } from '../Checkbox';
+import { TableSkeleton } from '../DataView/DataView';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+  sortArrows,
+  type TableHeaderBackground,
+  type TableSize,
+} from './Table';
+import {
+  MAX_COLUMN_WIDTH,
+  MIN_COLUMN_WIDTH,
+  useDataTable,
+  type DataTableColumn,
+  type DataTableSort,
+  type DataTableSortValue,
+} from './useDataTable';
+import './Table.css';
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+export interface DataTableProps<Row> {
+  /** Column definitions, in display order. */
+  columns: DataTableColumn<Row>[];
+  /** Unsorted rows — `DataTable` sorts them for display. */
+  rows: Row[];
+  /** Stable id for a row — selection is tracked by id, so it survives re-sorting. */
+  getRowId: (row: Row) => string;
+  /** Persist column widths in `localStorage` under this id. Omit to keep widths in memory only. */
+  tableId?: string;
+  /** Controlled sort. Pass `null` for unsorted. */
+  sort?: DataTableSort | null;
+  /** Initial sort for uncontrolled use. */
+  defaultSort?: DataTableSort | null;
+  /** Called with the next sort when a header toggles. */
+  onSortChange?: (sort: DataTableSort | null) => void;
+  /** Add a leading checkbox column with select-all and shift-click ranges. Default `false`. */
+  selectable?: boolean;
+  /** Controlled selected row ids. */
+  selectedIds?: string[];
+  /** Initial selected row ids for uncontrolled use. */
+  defaultSelectedIds?: string[];
+  /** Called with the next selected ids whenever selection changes. */
+  onSelectionChange?: (ids: string[]) => void;
+  /** Accessible name for a row's checkbox. Default `Select row N`. */
+  getRowLabel?: (row: Row) => string;
+  /** Render `TableSkeleton` in place of the rows. */
+  loading?: boolean;
+  /** Apply alternating row backgrounds. Default `false`. */
+  striped?: boolean;
+  /** Row density — forwarded to `Table`. Default `default`. */
+  size?: TableSize;
+  /** Header row background fill — forwarded to `Table`. Default `secondary`. */
+  headerBackground?: TableHeaderBackground;
+  /** Accessible name for the table. */
+  'aria-label'?: string;
+  /** Additional className on the scroll container. */
+  className?: string;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+// Fixed width of the checkbox column.
+const SELECT_COLUMN_WIDTH = 48;
+// Keyboard resize increment.
+const RESIZE_STEP = 16;
+
+/** Sticky placement for a pinned cell — read by `.bds-data-table [data-pin]`. */
+interface PinProps {
+  style: CSSProperties;
+  'data-pin': 'start' | 'end';
+  'data-pin-edge'?: 'start' | 'end';
+}
+
+function renderValue(value: DataTableSortValue): ReactNode {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return value.toLocaleDateString();
+  return String(value);
+}
+
+function columnLabel<Row>(column: DataTableColumn<Row>): string {
+  return typeof column.header === 'string' ? column.header : column.id;
+}
+
+// ─── ColumnResizer ──────────────────────────────────────────────────
+
+interface ColumnResizerProps {
+  label: string;
+  width: number;
+  min: number;
+  max: number;
+  onResize: (width: number) => void;
+}
+
+/**
+ * Drag handle on a header cell's trailing edge — pointer drag, or arrow keys
+ * when focused. A `separator` with `aria-valuenow` so the width is announced.
+ */
+function ColumnResizer({ label, width, min, max, onResize }: ColumnResizerProps) {
+  const drag = useRef<{ x: number; width: number } | null>(null);
+
+  const handlePointerDown = (e: PointerEvent<HTMLSpanElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    drag.current = { x: e.clientX, width };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLSpanElement>) => {
+    if (!drag.current) return;
+    onResize(drag.current.width + e.clientX - drag.current.x);
+  };
+
+  const handlePointerUp = (e: PointerEvent<HTMLSpanElement>) => {
+    drag.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLSpanElement>) => {
+    const next =
+      e.key === 'ArrowLeft' ? width - RESIZE_STEP
+        : e.key === 'ArrowRight' ? width + RESIZE_STEP
+          : e.key === 'Home' ? min
+            : e.key === 'End' ? max
+              : null;
+    if (next === null) return;
+    e.preventDefault();
+    onResize(next);
+  };
+
+  return (
+    <span
+      role="separator"
+      aria-orientation="vertical"
+      aria-label={`Resize ${label} column`}
+      aria-valuenow={width}
+      aria-valuemin={min}
+      aria-valuemax={max}
+      tabIndex={0}
+      className="bds-data-table__resizer"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onKeyDown={handleKeyDown}
+    />
+  );
+}
+
+// ─── DataTable Component ────────────────────────────────────────────
+
+/**
+ * DataTable — column-driven data grid on top of `Table`.
+ *
+ * Takes column definitions and rows and owns the behaviour every consumer
+ * used to rebuild: sortable headers (real buttons, `aria-sort` on the
+ * `<th>`), checkbox selection with select-all and shift-click ranges,
+ * columns pinned to the start or end edge while the grid scrolls
+ * horizontally, and resizable columns whose widths persist per `tableId`.
+ * `loading` swaps the body for DataView's `TableSkeleton`.
+ *
+ * State lives in `useDataTable` — use the hook directly for a layout this
+ * renderer doesn't cover. Empty and error states stay with `TableView`:
+ * wrap a `DataTable` in it the same way as a hand-built `Table`.
+ *
+ * @example
+ * ```tsx
+ * <DataTable
+ *   tableId="clients"
+ *   columns={[
+ *     { id: 'name', header: 'Name', accessor: (c) => c.name, sortable: true, pin: 'start' },
+ *     { id: 'plan', header: 'Plan', accessor: (c) => c.plan },
+ *     { id: 'mrr', header: 'MRR', accessor: (c) => c.mrr, sortable: true },
+ *   ]}
+ *   rows={clients}
+ *   getRowId={(c) => c.id}
+ *   selectable
+ *   onSelectionChange={setSelected}
+ * />
+ * ```
+ *
+ * @summary Column-driven data grid — sorting, selection, pinning and resizing
+ */
+export function DataTable<Row>({
+  columns,
+  rows,
+  getRowId,
+  tableId,
+  sort,
+  defaultSort,
+  onSortChange,
+  selectable = false,
+  selectedIds,
+  defaultSelectedIds,
+  onSelectionChange,
+  getRowLabel,
+  loading = false,
+  striped = false,
+  size = 'default',
+  headerBackground = 'secondary',
+  'aria-label': ariaLabel,
+  className,
+}: DataTableProps<Row>) {
+  const table = useDataTable({
+    columns,
+    rows,
+    getRowId,
+    tableId,
+    sort,
+    defaultSort,
+    onSortChange,
+    selectedIds,
+    defaultSelectedIds,
+    onSelectionChange,
+  });
+
+  // ── Pinning — sticky offsets accumulate inward from each edge. The
+  //    checkbox column rides along with the start-pinned columns. ──
+  const pinStart = columns[0]?.pin === 'start';
+  const pins: Record<string, PinProps> = {};
+
+  let left = selectable && pinStart ? SELECT_COLUMN_WIDTH : 0;
+  let lastStart: string | undefined;
+  for (const column of columns) {
+    if (column.pin !== 'start') break;
+    pins[column.id] = { style: { left }, 'data-pin': 'start' };
+    left += table.getColumnWidth(column.id);
+    lastStart = column.id;
+  }
+
+  let right = 0;
+  let firstEnd: string | undefined;
+  for (let i = columns.length - 1; i >= 0 && columns[i].pin === 'end'; i--) {
+    pins[columns[i].id] = { style: { right }, 'data-pin': 'end' };
+    right += table.getColumnWidth(columns[i].id);
+    firstEnd = columns[i].id;
+  }
+
+  // The innermost pinned cell on each side draws the divider against the
+  // scrolling columns.
+  if (lastStart) pins[lastStart]['data-pin-edge'] = 'start';
+  if (firstEnd) pins[firstEnd]['data-pin-edge'] = 'end';
+
+  const selectPin: PinProps | undefined =
+    selectable && pinStart
+      ? { style: { left: 0 }, 'data-pin': 'start' }
+      : undefined;
+
+  const totalWidth =
+    (selectable ? SELECT_COLUMN_WIDTH : 0) +
+    columns.reduce((sum, column) => sum + table.getColumnWidth(column.id), 0);
+
+  if (loading) {
+    return (
+      <div className={bdsClass('bds-data-table', className)} aria-busy="true">
+        <TableSkeleton />
+      </div>
+    );
+  }
+
+  return (
+    <div className={bdsClass('bds-data-table', className)}>
+      <Table
+        striped={striped}
+        size={size}
+        headerBackground={headerBackground}
+        roundedTop={false}
+        roundedBottom={false}
+        aria-label={ariaLabel}
+        style={{ width: totalWidth }}
+      >
+        <colgroup>
+          {selectable && <col style={{ width: SELECT_COLUMN_WIDTH }} />}
+          {columns.map((column) => (
+            <col key={column.id} style={{ width: table.getColumnWidth(column.id) }} />
+          ))}
+        </colgroup>
+
+        <TableHeader>
+          <TableRow>
+            {selectable && (
+              <TableHead className="bds-data-table__select" {...selectPin}>
+                <Checkbox
+                  label=""
+                  aria-label="Select all rows"
+                  checked={table.allSelected}
+                  indeterminate={table.someSelected}
+                  onChange={table.toggleAll}
+                />
+              </TableHead>
+            )}
+            {columns.map((column) => {
+              const direction = table.getSortDirection(column.id);
+              const width = table.getColumnWidth(column.id);
+              return (
+                <TableHead
+                  key={column.id}
+                  aria-sort={
+                    column.sortable
+                      ? direction === 'asc'
+                        ? 'ascending'
+                        : direction === 'desc'
+                          ? 'descending'
+                          : 'none'
+                      : undefined
+                  }
+                  {...pins[column.id]}
+                >
+                  {column.sortable ? (
+                    <button
+                      type="button"
+                      className="bds-data-table__sort"
+                      onClick={() => table.toggleSort(column.id)}
+                    >
+                      {column.header}
+                      <span aria-hidden="true">{sortArrows[direction]}</span>
+                    </button>
+                  ) : (
+                    column.header
+                  )}
+                  {column.resizable !== false && (
+                    <ColumnResizer
+                      label={columnLabel(column)}
+                      width={width}
+                      min={column.minWidth ?? MIN_COLUMN_WIDTH}
+                      max={column.maxWidth ?? MAX_COLUMN_WIDTH}
+                      onResize={(next) => table.setColumnWidth(column.id, next)}
+                    />
+                  )}
+                </TableHead>
+              );
+            })}
+          </TableRow>
+        </TableHeader>
+
+        <TableBody>
+          {table.rows.map((row, index) => {
+            const id = getRowId(row);
+            const selected = table.isSelected(id);
+            return (
+              <TableRow key={id} selected={selected}>
+                {selectable && (
+                  <TableCell className="bds-data-table__select" {...selectPin}>
+                    <Checkbox
+                      label=""
+                      aria-label={getRowLabel?.(row) ?? `Select row ${index + 1}`}
+                      checked={selected}
+                      onChange={(e) =>
+                        table.toggleRow(id, { range: (e.nativeEvent as MouseEvent).shiftKey })
+                      }
+                    />
+                  </TableCell>
+                )}
+                {columns.map((column) => (
+                  <TableCell key={column.id} {...pins[column.id]}>
+                    {column.cell ? column.cell(row) : renderValue(column.accessor?.(row))}
+                  </TableCell>
+                ))}
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export default DataTable;
@@ -1,4 +1,5 @@
 import type { Meta, StoryObj } from '@storybook/react-vite';
+import { expect, fireEvent, userEvent, within } from 'storybook/test';
 import { Icon } from '@iconify/react';
 import {
   Table,
@@ -17,6 +18,8 @@ import {
   TableServiceTagCell,
   TableSubheader,
 } from './Table';
+import { DataTable } from './DataTable';
+import type { DataTableColumn } from './useDataTable';
 import { Badge } from '../Badge';
 import { Tag } from '../Tag';
 import { Button } from '../Button';
@@ -593,3 +596,244 @@ export const WithServiceTagCell: Story = {
     );
   },
 };
+
+/* ═══════════════════════════════════════════════════════════════
+   DATA TABLE — column-driven grid over Table (`DataTable` /
+   `useDataTable`): sorting, selection, pinning, resizing.
+   ═══════════════════════════════════════════════════════════════ */
+
+interface Account {
+  id: string;
+  name: string;
+  owner: string;
+  plan: string;
+  seats: number;
+  renews: Date;
+  status: 'positive' | 'warning' | 'negative' | 'info';
+}
+
+const accounts: Account[] = [
+  { id: 'acc-1', name: 'Northwind Dental', owner: 'Alice Chen', plan: 'Growth', seats: 24, renews: new Date(2026, 2, 1), status: 'positive' },
+  { id: 'acc-2', name: 'Bright Smiles', owner: 'Bob Smith', plan: 'Starter', seats: 6, renews: new Date(2025, 10, 12), status: 'warning' },
+  { id: 'acc-3', name: 'Cedar Family Practice', owner: 'Carol Davis', plan: 'Scale', seats: 58, renews: new Date(2026, 6, 30), status: 'positive' },
+  { id: 'acc-4', name: 'Harbor Orthodontics', owner: 'Dan Lee', plan: 'Growth', seats: 17, renews: new Date(2025, 11, 5), status: 'info' },
+  { id: 'acc-5', name: 'Elm Street Clinic', owner: 'Eve Johnson', plan: 'Starter', seats: 3, renews: new Date(2025, 8, 20), status: 'negative' },
+];
+
+const accountColumns: DataTableColumn<Account>[] = [
+  { id: 'name', header: 'Account', accessor: (a) => a.name, sortable: true, pin: 'start', width: 220 },
+  { id: 'owner', header: 'Owner', accessor: (a) => a.owner, sortable: true },
+  { id: 'plan', header: 'Plan', accessor: (a) => a.plan },
+  { id: 'seats', header: 'Seats', accessor: (a) => a.seats, sortable: true, width: 96 },
+  { id: 'renews', header: 'Renews', accessor: (a) => a.renews, sortable: true },
+  {
+    id: 'status',
+    header: 'Status',
+    accessor: (a) => statusLabel(a.status),
+    cell: (a) => <Badge tone={a.status} size="sm">{statusLabel(a.status)}</Badge>,
+    pin: 'end',
+    width: 128,
+    resizable: false,
+  },
+];
+
+/**
+ * `DataTable` takes column definitions and rows and owns the behaviour
+ * consumers used to rebuild on `Table`: sortable headers (`aria-sort`),
+ * checkbox selection with shift-click ranges, `pin: 'start' | 'end'`
+ * columns that stay put while the grid scrolls sideways, and resize handles
+ * whose widths persist under `tableId`. The narrow frame forces horizontal
+ * scroll so the pinned Account and Status columns are visible.
+ *
+ * @summary Column-driven data grid — sort, select, pin, resize
+ */
+export const DataGrid: Story = {
+  render: () => (
+    <div style={{ maxWidth: 640 }}>
+      <DataTable
+        aria-label="Accounts"
+        tableId="storybook-accounts"
+        columns={accountColumns}
+        rows={accounts}
+        getRowId={(a) => a.id}
+        getRowLabel={(a) => `Select ${a.name}`}
+        selectable
+        defaultSort={{ columnId: 'name', direction: 'asc' }}
+      />
+    </div>
+  ),
+};
+
+/**
+ * `loading` swaps the grid body for DataView's `TableSkeleton` inside the
+ * same bordered frame, so the layout doesn't jump when rows arrive.
+ *
+ * @summary DataTable loading state — TableSkeleton
+ */
+export const DataGridLoading: Story = {
+  render: () => (
+    <DataTable aria-label="Accounts" columns={accountColumns} rows={[]} getRowId={(a) => a.id} loading />
+  ),
+};
+
+/**
+ * Header click cycles ascending → descending → unsorted, mirrored in
+ * `aria-sort` on the `<th>`.
+ * @summary Play-function interaction test
+ */
+export const InteractionTestDataTableSort: Story = {
+  tags: ['!manifest', 'interaction-test'],
+  render: () => (
+    <DataTable aria-label="Accounts" columns={accountColumns} rows={accounts} getRowId={(a) => a.id} />
+  ),
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    const seats = canvas.getByRole('columnheader', { name: /seats/i });
+    await expect(seats).toHaveAttribute('aria-sort', 'none');
+
+    await userEvent.click(within(seats).getByRole('button'));
+    await expect(seats).toHaveAttribute('aria-sort', 'ascending');
+    let rows = canvas.getAllByRole('row');
+    await expect(rows[1]).toHaveTextContent('Elm Street Clinic');
+
+    await userEvent.click(within(seats).getByRole('button'));
+    await expect(seats).toHaveAttribute('aria-sort', 'descending');
+    rows = canvas.getAllByRole('row');
+    await expect(rows[1]).toHaveTextContent('Cedar Family Practice');
+
+    await userEvent.click(within(seats).getByRole('button'));
+    await expect(seats).toHaveAttribute('aria-sort', 'none');
+  },
+};
+
+/**
+ * Shift-click extends the selection from the last toggled row; the header
+ * box goes mixed, then checked once every row is in.
+ * @summary Play-function interaction test
+ */
+export const InteractionTestDataTableRangeSelection: Story = {
+  tags: ['!manifest', 'interaction-test'],
+  render: () => (
+    <DataTable
+      aria-label="Accounts"
+      columns={accountColumns}
+      rows={accounts}
+      getRowId={(a) => a.id}
+      getRowLabel={(a) => `Select ${a.name}`}
+      selectable
+    />
+  ),
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    const all = canvas.getByRole('checkbox', { name: 'Select all rows' });
+
+    await userEvent.click(canvas.getByRole('checkbox', { name: 'Select Bright Smiles' }));
+    await fireEvent.click(canvas.getByRole('checkbox', { name: 'Select Harbor Orthodontics' }), { shiftKey: true });
+
+    await expect(canvas.getByRole('checkbox', { name: 'Select Northwind Dental' })).not.toBeChecked();
+    await expect(canvas.getByRole('checkbox', { name: 'Select Bright Smiles' })).toBeChecked();
+    await expect(canvas.getByRole('checkbox', { name: 'Select Cedar Family Practice' })).toBeChecked();
+    await expect(canvas.getByRole('checkbox', { name: 'Select Harbor Orthodontics' })).toBeChecked();
+    await expect(all).toBePartiallyChecked();
+
+    await userEvent.click(all);
+    await expect(all).toBeChecked();
+    await expect(canvas.getByRole('checkbox', { name: 'Select Elm Street Clinic' })).toBeChecked();
+  },
+};
+
+/**
+ * Resize handles are focusable separators — arrow keys step the width,
+ * Home / End jump to the bounds, and `aria-valuenow` reports it. Columns
+ * with `resizable: false` get no handle.
+ * @summary Play-function interaction test
+ */
+export const InteractionTestDataTableResize: Story = {
+  tags: ['!manifest', 'interaction-test'],
+  render: () => (
+    <DataTable aria-label="Accounts" columns={accountColumns} rows={accounts} getRowId={(a) => a.id} />
+  ),
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    const handle = canvas.getByRole('separator', { name: 'Resize Owner column' });
+    await expect(handle).toHaveAttribute('aria-valuenow', '160');
+
+    handle.focus();
+    await userEvent.keyboard('{ArrowRight}{ArrowRight}');
+    await expect(handle).toHaveAttribute('aria-valuenow', '192');
+    await userEvent.keyboard('{Home}');
+    await expect(handle).toHaveAttribute('aria-valuenow', '64');
+
+    await expect(canvas.queryByRole('separator', { name: 'Resize Status column' })).toBeNull();
+  },
+};
+
+/* ═══════════════════════════════════════════════════════════════
+   VIRTUALIZED — `virtualize` windows the body for thousands of rows.
+   ═══════════════════════════════════════════════════════════════ */
+
+const plans = ['Starter', 'Growth', 'Scale'];
+
+/** Deterministic 10,000-row fixture. */
+const ledger = Array.from({ length: 10_000 }, (_, i) => ({
+  id: `inv-${String(i + 1).padStart(5, '0')}`,
+  account: accounts[i % accounts.length].name,
+  plan: plans[i % plans.length],
+  amount: ((i * 7919) % 90_000) / 100 + 49,
+}));
+
+const LedgerTable = ({ height, striped }: { height: number; striped?: boolean }) => (
+  <Table aria-label="Invoices" striped={striped} virtualize={{ rowHeight: 49, height }}>
+    <TableHeader>
+      <TableRow>
+        <TableHead>Invoice</TableHead>
+        <TableHead>Account</TableHead>
+        <TableHead>Plan</TableHead>
+        <TableHead>Amount</TableHead>
+      </TableRow>
+    </TableHeader>
+    <TableBody>
+      {ledger.map((row) => (
+        <TableRow key={row.id}>
+          <TableCell>{row.id}</TableCell>
+          <TableCell>{row.account}</TableCell>
+          <TableCell>{row.plan}</TableCell>
+          <TableCell>{`$${row.amount.toFixed(2)}`}</TableCell>
+        </TableRow>
+      ))}
+    </TableBody>
+  </Table>
+);
+
+/**
+ * `virtualize` mounts only the rows in view — 10,000 invoices here, a few
+ * dozen `<tr>`s in the DOM. The header stays pinned, striping follows the
+ * row index, and `aria-rowcount` / `aria-rowindex` give assistive tech the
+ * full size and each row's true position.
+ *
+ * @summary Windowed Table — 10,000 rows, sticky header
+ */
+export const Virtualized: Story = {
+  render: () => <LedgerTable height={480} striped />,
+};
+
+/**
+ * Only a window of rows is mounted, but the row count and each row's index
+ * are reported against the full dataset.
+ * @summary Play-function interaction test
+ */
+export const InteractionTestVirtualizedRowCount: Story = {
+  tags: ['!manifest', 'interaction-test'],
+  render: () => <LedgerTable height={320} />,
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement);
+    const table = canvas.getByRole('table', { name: 'Invoices' });
+    await expect(table).toHaveAttribute('aria-rowcount', '10001');
+
+    const rows = canvas.getAllByRole('row');
+    await expect(rows.length).toBeLessThan(40);
+    await expect(rows[0]).toHaveAttribute('aria-rowindex', '1');
+    await expect(rows[1]).toHaveAttribute('aria-rowindex', '2');
+    await expect(rows[1]).toHaveTextContent('inv-00001');
+  },
+};
@@ -1,12 +1,18 @@
 'use client';
 
 import {
+  Children,
+  Fragment,
+  cloneElement,
+  isValidElement,
   type HTMLAttributes,
+  type ReactElement,
   type TdHTMLAttributes,
   type ThHTMLAttributes,
   type ReactNode,
 } from 'react';
 import { bdsClass } from '../../utils';
+import { useVirtualRows, type VirtualizeOptions } from '../shared/useVirtualRows';
 import { Avatar, type AvatarStatus } from '../Avatar';
 import { Image } from '../Image';
 import { Logo, type LogoProps } from '../Logo';
@@ -38,6 +44,12 @@ export interface TableProps extends HTMLAttributes<HTMLTableElement> {
   roundedBottom?: boolean;
   /** Header row background fill. Default `secondary`. */
   headerBackground?: TableHeaderBackground;
+  /**
+   * Render only the body rows in view, for datasets in the thousands. The
+   * table scrolls inside a `height`-px viewport under a pinned header.
+   * Windows the direct `TableRow` children of `TableBody`. Default off.
+   */
+  virtualize?: VirtualizeOptions;
   /** Table content — typically `TableHead` and `TableBody` from this same module. */
   children: ReactNode;
 }
@@ -51,6 +63,13 @@ export interface TableProps extends HTMLAttributes<HTMLTableElement> {
  * `data-header-bg`). CSS reads those selectors, eliminating the need for
  * React context.
  *
+ * With `virtualize`, only the body rows in view (plus `overscan`) are
+ * mounted; spacer rows hold the height of the rest, so the sticky header,
+ * the scrollbar and row offsets behave as if every row were there. The
+ * table carries `aria-rowcount` and each rendered row its `aria-rowindex`,
+ * the focused row stays mounted when it scrolls away, and striping follows
+ * the row index rather than DOM position.
+ *
  * @summary Themed data table with striped + size variants
  */
 export function Table({
@@ -62,27 +81,118 @@ export function Table({
   roundedTop = true,
   roundedBottom = true,
   headerBackground = 'secondary',
+  virtualize,
   children,
   className,
   style,
   ...props
 }: TableProps) {
+  const tableProps = {
+    className: bdsClass('bds-table', className),
+    style,
+    'data-striped': striped || undefined,
+    'data-size': size,
+    'data-flush': flush || undefined,
+    'data-header-border': headerBorder || undefined,
+    'data-header-border-weight': headerBorder ? headerBorderWeight : undefined,
+    // A windowed table's viewport draws the outer border and corners.
+    'data-rounded-top': (!virtualize && roundedTop) || undefined,
+    'data-rounded-bottom': (!virtualize && roundedBottom) || undefined,
+    'data-header-bg': headerBackground,
+    ...props,
+  };
+
+  if (virtualize) {
+    return (
+      <WindowedTable virtualize={virtualize} striped={striped} tableProps={tableProps}>
+        {children}
+      </WindowedTable>
+    );
+  }
+  return <table {...tableProps}>{children}</table>;
+}
+
+// ─── Windowed body (`virtualize`) ──────────────────────────────
+
+type RowElement = ReactElement<Record<string, unknown>>;
+
+/** Direct row elements of a `TableHeader` / `TableBody`. */
+function rowsOf(section: ReactElement<{ children?: ReactNode }> | undefined): RowElement[] {
+  if (!section) return [];
+  return Children.toArray(section.props.children).filter(isValidElement) as RowElement[];
+}
+
+/** Stand-in for the unrendered rows between two rendered ones. */
+function SpacerRow({ height }: { height: number }) {
   return (
-    <table
-      className={bdsClass('bds-table', className)}
-      style={style}
-      data-striped={striped || undefined}
-      data-size={size}
-      data-flush={flush || undefined}
-      data-header-border={headerBorder || undefined}
-      data-header-border-weight={headerBorder ? headerBorderWeight : undefined}
-      data-rounded-top={roundedTop || undefined}
-      data-rounded-bottom={roundedBottom || undefined}
-      data-header-bg={headerBackground}
-      {...props}
+    <tr aria-hidden="true" className="bds-table-spacer-row" style={{ height }}>
+      <td colSpan={100} />
+    </tr>
+  );
+}
+
+interface WindowedTableProps {
+  virtualize: VirtualizeOptions;
+  striped: boolean;
+  tableProps: HTMLAttributes<HTMLTableElement>;
+  children: ReactNode;
+}
+
+function WindowedTable({ virtualize, striped, tableProps, children }: WindowedTableProps) {
+  const sections = Children.toArray(children);
+  const header = sections.find(
+    (node): node is ReactElement<TableHeaderProps> => isValidElement(node) && node.type === TableHeader,
+  );
+  const body = sections.find(
+    (node): node is ReactElement<TableBodyProps> => isValidElement(node) && node.type === TableBody,
+  );
+  const headerRows = rowsOf(header);
+  const bodyRows = rowsOf(body);
+
+  const { containerRef, onScroll, onFocus, onBlur, rows, gapAfter } = useVirtualRows({
+    count: bodyRows.length,
+    rowHeight: virtualize.rowHeight,
+    viewportHeight: virtualize.height,
+    overscan: virtualize.overscan,
+  });
+
+  const windowedBody = [
+    ...rows.map(({ index, gapBefore }) => (
+      <Fragment key={bodyRows[index].key ?? index}>
+        {gapBefore > 0 && <SpacerRow height={gapBefore} />}
+        {cloneElement(bodyRows[index], {
+          'aria-rowindex': headerRows.length + index + 1,
+          'data-index': index,
+          'data-stripe': (striped && index % 2 === 1) || undefined,
+        })}
+      </Fragment>
+    )),
+    gapAfter > 0 && <SpacerRow key="gap-after" height={gapAfter} />,
+  ];
+
+  return (
+    <div
+      ref={containerRef}
+      className="bds-table-viewport"
+      style={{ height: virtualize.height }}
+      onScroll={onScroll}
+      onFocus={onFocus}
+      onBlur={onBlur}
     >
-      {children}
-    </table>
+      <table {...tableProps} aria-rowcount={headerRows.length + bodyRows.length}>
+        {sections.map((section) => {
+          if (section === header) {
+            return cloneElement(
+              header,
+              undefined,
+              headerRows.map((row, i) => cloneElement(row, { 'aria-rowindex': i + 1 })),
+            );
+          }
+          if (section === body) return cloneElement(body, undefined, windowedBody);
+          return section;
+        })}
+      </table>
+    </div>
   );
 }
 
@@ -160,7 +270,8 @@ export interface TableHeadProps extends ThHTMLAttributes<HTMLTableCellElement> {
   children: ReactNode;
 }
 
-const sortArrows: Record<SortDirection, string> = {
+/** Sort-state glyphs — shared with `DataTable`'s sort buttons. */
+export const sortArrows: Record<SortDirection, string> = {
   asc: ' ↑',
   desc: ' ↓',
   none: ' ↕',
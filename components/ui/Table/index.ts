@@ -36,4 +36,14 @@ export {
   type TableSize,
   type SortDirection,
 } from './Table';
+export { DataTable, type DataTableProps } from './DataTable';
+export type { VirtualizeOptions, VirtualRowHeight } from '../shared/useVirtualRows';
+export {
+  useDataTable,
+  type DataTableColumn,
+  type DataTableSort,
+  type DataTableSortValue,
+  type UseDataTableOptions,
+  type UseDataTableReturn,
+} from './useDataTable';
 export { default } from './Table';
@@ -0,0 +1,135 @@
+/**
+ * useDataTable unit tests — sorting, selection ranges and column-width clamping.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  clampColumnWidth,
+  nextSort,
+  selectRange,
+  sortRows,
+  type DataTableColumn,
+} from './useDataTable';
+
+interface Client {
+  id: string;
+  name: string;
+  mrr: number | null;
+  since: Date;
+}
+
+const ROWS: Client[] = [
+  { id: 'a', name: 'Northwind', mrr: 1200, since: new Date(2023, 4, 1) },
+  { id: 'b', name: 'acme', mrr: null, since: new Date(2021, 0, 15) },
+  { id: 'c', name: 'Client 10', mrr: 300, since: new Date(2024, 8, 9) },
+  { id: 'd', name: 'Client 9', mrr: 1200, since: new Date(2022, 2, 3) },
+];
+
+const COLUMNS: DataTableColumn<Client>[] = [
+  { id: 'name', header: 'Name', accessor: (c) => c.name, sortable: true },
+  { id: 'mrr', header: 'MRR', accessor: (c) => c.mrr, sortable: true, minWidth: 80, maxWidth: 200 },
+  { id: 'since', header: 'Since', accessor: (c) => c.since, sortable: true },
+  { id: 'len', header: 'Length', sortFn: (a, b) => a.name.length - b.name.length },
+];
+
+const ids = (rows: Client[]) => rows.map((r) => r.id);
+
+describe('sortRows', () => {
+  it('returns the input when unsorted', () => {
+    expect(sortRows(ROWS, COLUMNS, null)).toBe(ROWS);
+  });
+
+  it('compares strings case-insensitively with numeric runs', () => {
+    expect(ids(sortRows(ROWS, COLUMNS, { columnId: 'name', direction: 'asc' }))).toEqual([
+      'b',
+      'd',
+      'c',
+      'a',
+    ]);
+  });
+
+  it('keeps empty values last in both directions', () => {
+    expect(ids(sortRows(ROWS, COLUMNS, { columnId: 'mrr', direction: 'asc' }))).toEqual([
+      'c',
+      'a',
+      'd',
+      'b',
+    ]);
+    expect(ids(sortRows(ROWS, COLUMNS, { columnId: 'mrr', direction: 'desc' }))).toEqual([
+      'a',
+      'd',
+      'c',
+      'b',
+    ]);
+  });
+
+  it('orders dates chronologically', () => {
+    expect(ids(sortRows(ROWS, COLUMNS, { columnId: 'since', direction: 'desc' }))).toEqual([
+      'c',
+      'a',
+      'd',
+      'b',
+    ]);
+  });
+
+  it('prefers a custom sortFn and stays stable on ties', () => {
+    expect(ids(sortRows(ROWS, COLUMNS, { columnId: 'len', direction: 'asc' }))).toEqual([
+      'b',
+      'd',
+      'a',
+      'c',
+    ]);
+  });
+
+  it('does not mutate the input', () => {
+    const before = ids(ROWS);
+    sortRows(ROWS, COLUMNS, { columnId: 'name', direction: 'desc' });
+    expect(ids(ROWS)).toEqual(before);
+  });
+});
+
+describe('nextSort', () => {
+  it('cycles ascending → descending → unsorted', () => {
+    const asc = nextSort(null, 'name');
+    expect(asc).toEqual({ columnId: 'name', direction: 'asc' });
+    const desc = nextSort(asc, 'name');
+    expect(desc).toEqual({ columnId: 'name', direction: 'desc' });
+    expect(nextSort(desc, 'name')).toBeNull();
+  });
+
+  it('starts a different column ascending', () => {
+    expect(nextSort({ columnId: 'name', direction: 'desc' }, 'mrr')).toEqual({
+      columnId: 'mrr',
+      direction: 'asc',
+    });
+  });
+});
+
+describe('selectRange', () => {
+  const order = ['a', 'b', 'c', 'd', 'e'];
+
+  it('selects every row between the anchor and the target', () => {
+    expect(selectRange(['a'], order, 'b', 'd', true).sort()).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('works upwards and deselects when the target was selected', () => {
+    expect(selectRange(['a', 'b', 'c', 'd', 'e'], order, 'd', 'b', false).sort()).toEqual([
+      'a',
+      'e',
+    ]);
+  });
+
+  it('toggles the target alone without an anchor in view', () => {
+    expect(selectRange([], order, null, 'c', true)).toEqual(['c']);
+    expect(selectRange(['a'], order, 'gone', 'c', true).sort()).toEqual(['a', 'c']);
+  });
+});
+
+describe('clampColumnWidth', () => {
+  it('clamps to the column bounds, else the defaults', () => {
+    expect(clampColumnWidth(COLUMNS[1], 40)).toBe(80);
+    expect(clampColumnWidth(COLUMNS[1], 500)).toBe(200);
+    expect(clampColumnWidth(COLUMNS[0], 10)).toBe(64);
+    expect(clampColumnWidth(COLUMNS[0], 9000)).toBe(640);
+    expect(clampColumnWidth(COLUMNS[0], 150.6)).toBe(151);
+  });
+});
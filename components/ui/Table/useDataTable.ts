@@ -0,0 +1,352 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
+import type { SortDirection } from './Table';
+
+// ─── Types ──────────────────────────────────────────────────────────
+
+/** A value a column sorts by. `null` / `undefined` always sort last. */
+export type DataTableSortValue = string | number | boolean | Date | null | undefined;
+
+export interface DataTableColumn<Row> {
+  /** Stable column key — used for sort state, persisted widths and React keys. */
+  id: string;
+  /** Header cell content. */
+  header: ReactNode;
+  /** Value the column sorts by, and renders when `cell` is omitted. */
+  accessor?: (row: Row) => DataTableSortValue;
+  /** Custom cell content. Default: the `accessor` value as text. */
+  cell?: (row: Row) => ReactNode;
+  /** Render the header as a sort toggle. Requires `accessor` or `sortFn`. Default `false`. */
+  sortable?: boolean;
+  /** Custom ascending comparator — overrides the `accessor`-based order. */
+  sortFn?: (a: Row, b: Row) => number;
+  /** Pin the column to the table's `start` or `end` edge while scrolling horizontally. Pinned columns must sit at that edge of `columns`. */
+  pin?: 'start' | 'end';
+  /** Initial width in px. Default `160`. */
+  width?: number;
+  /** Smallest width a resize can reach, in px. Default `64`. */
+  minWidth?: number;
+  /** Largest width a resize can reach, in px. Default `640`. */
+  maxWidth?: number;
+  /** Allow the user to resize the column. Default `true`. */
+  resizable?: boolean;
+}
+
+export interface DataTableSort {
+  columnId: string;
+  direction: Exclude<SortDirection, 'none'>;
+}
+
+export interface UseDataTableOptions<Row> {
+  /** Column definitions, in display order. */
+  columns: DataTableColumn<Row>[];
+  /** Unsorted rows. */
+  rows: Row[];
+  /** Stable id for a row — selection is tracked by id, so it survives re-sorting. */
+  getRowId: (row: Row) => string;
+  /** Persist column widths in `localStorage` under this id. Omit to keep widths in memory only. */
+  tableId?: string;
+  /** Controlled sort. Pass `null` for unsorted. */
+  sort?: DataTableSort | null;
+  /** Initial sort for uncontrolled use. */
+  defaultSort?: DataTableSort | null;
+  /** Called with the next sort when a header toggles. */
+  onSortChange?: (sort: DataTableSort | null) => void;
+  /** Controlled selected row ids. */
+  selectedIds?: string[];
+  /** Initial selected row ids for uncontrolled use. */
+  defaultSelectedIds?: string[];
+  /** Called with the next selected ids whenever selection changes. */
+  onSelectionChange?: (ids: string[]) => void;
+}
+
+export interface UseDataTableReturn<Row> {
+  /** Rows in display (sorted) order. */
+  rows: Row[];
+  /** Current sort, or `null` when unsorted. */
+  sort: DataTableSort | null;
+  /** `aria-sort`-ready direction for a column — `none` when it is not the sorted column. */
+  getSortDirection: (columnId: string) => SortDirection;
+  /** Cycle a column through ascending → descending → unsorted. */
+  toggleSort: (columnId: string) => void;
+  /** Selected row ids. */
+  selectedIds: string[];
+  isSelected: (rowId: string) => boolean;
+  /**
+   * Toggle one row. With `range`, every row between the last toggled row and
+   * this one (in display order) takes this row's new state — shift-click.
+   */
+  toggleRow: (rowId: string, options?: { range?: boolean }) => void;
+  /** Select every row, or clear the selection when all are already selected. */
+  toggleAll: () => void;
+  allSelected: boolean;
+  someSelected: boolean;
+  /** Resolved width of a column in px — persisted, else `column.width`, else the default. */
+  getColumnWidth: (columnId: string) => number;
+  /** Set a column's width, clamped to its `minWidth` / `maxWidth`. */
+  setColumnWidth: (columnId: string, width: number) => void;
+  /** Drop user-resized widths (and their persisted copy). */
+  resetColumnWidths: () => void;
+}
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+export const DEFAULT_COLUMN_WIDTH = 160;
+export const MIN_COLUMN_WIDTH = 64;
+export const MAX_COLUMN_WIDTH = 640;
+
+/** localStorage key prefix for persisted column widths */
+const STORAGE_PREFIX = 'bds-table-widths:';
+
+function compareValues(a: DataTableSortValue, b: DataTableSortValue): number {
+  const aMissing = a === null || a === undefined || a === '';
+  const bMissing = b === null || b === undefined || b === '';
+  if (aMissing || bMissing) return aMissing === bMissing ? 0 : aMissing ? 1 : -1;
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b);
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+}
+
+/**
+ * Rows in `sort` order. Stable — ties keep their input order — and empty
+ * values stay last in both directions.
+ */
+export function sortRows<Row>(
+  rows: Row[],
+  columns: DataTableColumn<Row>[],
+  sort: DataTableSort | null,
+): Row[] {
+  const column = sort && columns.find((c) => c.id === sort.columnId);
+  if (!sort || !column || (!column.sortFn && !column.accessor)) return rows;
+  const sign = sort.direction === 'asc' ? 1 : -1;
+
+  if (column.sortFn) {
+    const sortFn = column.sortFn;
+    return [...rows].sort((a, b) => sign * sortFn(a, b));
+  }
+
+  const accessor = column.accessor!;
+  return [...rows].sort((a, b) => {
+    const av = accessor(a);
+    const bv = accessor(b);
+    const aMissing = av === null || av === undefined || av === '';
+    const bMissing = bv === null || bv === undefined || bv === '';
+    if (aMissing || bMissing) return compareValues(av, bv);
+    return sign * compareValues(av, bv);
+  });
+}
+
+/** The sort a header click moves to: ascending → descending → unsorted. */
+export function nextSort(current: DataTableSort | null, columnId: string): DataTableSort | null {
+  if (!current || current.columnId !== columnId) return { columnId, direction: 'asc' };
+  if (current.direction === 'asc') return { columnId, direction: 'desc' };
+  return null;
+}
+
+/**
+ * Apply a shift-click range: every id between `anchorId` and `targetId` in
+ * `orderedIds` (inclusive) becomes selected when `select`, else deselected.
+ * Falls back to toggling `targetId` alone when the anchor is not in view.
+ */
+export function selectRange(
+  selected: string[],
+  orderedIds: string[],
+  anchorId: string | null,
+  targetId: string,
+  select: boolean,
+): string[] {
+  const from = anchorId === null ? -1 : orderedIds.indexOf(anchorId);
+  const to = orderedIds.indexOf(targetId);
+  const range =
+    from === -1 || to === -1
+      ? [targetId]
+      : orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+
+  const next = new Set(selected);
+  for (const id of range) {
+    if (select) next.add(id);
+    else next.delete(id);
+  }
+  return [...next];
+}
+
+export function clampColumnWidth<Row>(column: DataTableColumn<Row>, width: number): number {
+  const min = column.minWidth ?? MIN_COLUMN_WIDTH;
+  const max = column.maxWidth ?? MAX_COLUMN_WIDTH;
+  return Math.round(Math.min(max, Math.max(min, width)));
+}
+
+/**
+ * Load persisted column widths for a table
+ */
+function loadColumnWidths(tableId: string): Record<string, number> {
+  if (typeof window === 'undefined') return {};
+
+  try {
+    const stored = localStorage.getItem(STORAGE_PREFIX + tableId);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (e) {
+    console.warn('Failed to load column widths from localStorage:', e);
+  }
+  return {};
+}
+
+/**
+ * Persist column widths for a table
+ */
+function saveColumnWidths(tableId: string, widths: Record<string, number>): void {
+  if (typeof window === 'undefined') return;
+
+  try {
+    if (Object.keys(widths).length === 0) localStorage.removeItem(STORAGE_PREFIX + tableId);
+    else localStorage.setItem(STORAGE_PREFIX + tableId, JSON.stringify(widths));
+  } catch (e) {
+    console.warn('Failed to save column widths to localStorage:', e);
+  }
+}
+
+// ─── Hook ───────────────────────────────────────────────────────────
+
+/**
+ * useDataTable — headless state for a data grid: sorting, row selection
+ * (with shift-click ranges) and column widths persisted per `tableId`.
+ *
+ * Renders nothing. `DataTable` is the BDS renderer over it; reach for the
+ * hook directly when a table needs a layout `DataTable` doesn't offer, and
+ * compose the returned state onto `Table` / `TableHead` / `TableRow`.
+ *
+ * Sort and selection are controlled when `sort` / `selectedIds` are passed,
+ * uncontrolled otherwise. Persisted widths load after mount, so server and
+ * first client render agree.
+ *
+ * @example
+ * ```tsx
+ * const table = useDataTable({ columns, rows: users, getRowId: (u) => u.id, tableId: 'users' });
+ * table.rows.map((u) => <TableRow key={u.id} selected={table.isSelected(u.id)}>…</TableRow>);
+ * ```
+ */
+export function useDataTable<Row>({
+  columns,
+  rows,
+  getRowId,
+  tableId,
+  sort: controlledSort,
+  defaultSort = null,
+  onSortChange,
+  selectedIds: controlledSelected,
+  defaultSelectedIds = [],
+  onSelectionChange,
+}: UseDataTableOptions<Row>): UseDataTableReturn<Row> {
+  // ── Sort ──
+  const [internalSort, setInternalSort] = useState<DataTableSort | null>(defaultSort);
+  const isSortControlled = controlledSort !== undefined;
+  const sort = isSortControlled ? controlledSort : internalSort;
+
+  const sortedRows = useMemo(() => sortRows(rows, columns, sort), [rows, columns, sort]);
+
+  const toggleSort = useCallback(
+    (columnId: string) => {
+      const next = nextSort(sort, columnId);
+      if (!isSortControlled) setInternalSort(next);
+      onSortChange?.(next);
+    },
+    [sort, isSortControlled, onSortChange],
+  );
+
+  const getSortDirection = useCallback(
+    (columnId: string): SortDirection =>
+      sort && sort.columnId === columnId ? sort.direction : 'none',
+    [sort],
+  );
+
+  // ── Selection ──
+  const [internalSelected, setInternalSelected] = useState<string[]>(defaultSelectedIds);
+  const isSelectionControlled = controlledSelected !== undefined;
+  const selectedIds = isSelectionControlled ? controlledSelected : internalSelected;
+  const selectedSet = useMemo(() => new Set(selectedIds), [selectedIds]);
+  const anchorRef = useRef<string | null>(null);
+
+  const orderedIds = useMemo(() => sortedRows.map(getRowId), [sortedRows, getRowId]);
+
+  const setSelection = useCallback(
+    (next: string[]) => {
+      if (!isSelectionControlled) setInternalSelected(next);
+      onSelectionChange?.(next);
+    },
+    [isSelectionControlled, onSelectionChange],
+  );
+
+  const toggleRow = useCallback(
+    (rowId: string, { range = false }: { range?: boolean } = {}) => {
+      const select = !selectedSet.has(rowId);
+      const anchor = range ? anchorRef.current : null;
+      anchorRef.current = rowId;
+      setSelection(selectRange(selectedIds, orderedIds, anchor, rowId, select));
+    },
+    [selectedIds, selectedSet, orderedIds, setSelection],
+  );
+
+  const allSelected = orderedIds.length > 0 && orderedIds.every((id) => selectedSet.has(id));
+  const someSelected = !allSelected && orderedIds.some((id) => selectedSet.has(id));
+
+  const toggleAll = useCallback(() => {
+    anchorRef.current = null;
+    setSelection(allSelected ? [] : orderedIds);
+  }, [allSelected, orderedIds, setSelection]);
+
+  // ── Column widths ──
+  const [widths, setWidths] = useState<Record<string, number>>({});
+  const loadedRef = useRef(false);
+
+  useEffect(() => {
+    loadedRef.current = false;
+    setWidths(tableId ? loadColumnWidths(tableId) : {});
+  }, [tableId]);
+
+  useEffect(() => {
+    // Skip the write that would echo the load back.
+    if (!loadedRef.current) {
+      loadedRef.current = true;
+      return;
+    }
+    if (tableId) saveColumnWidths(tableId, widths);
+  }, [tableId, widths]);
+
+  const getColumnWidth = useCallback(
+    (columnId: string) => {
+      const column = columns.find((c) => c.id === columnId);
+      const width = widths[columnId] ?? column?.width ?? DEFAULT_COLUMN_WIDTH;
+      return column ? clampColumnWidth(column, width) : width;
+    },
+    [columns, widths],
+  );
+
+  const setColumnWidth = useCallback(
+    (columnId: string, width: number) => {
+      const column = columns.find((c) => c.id === columnId);
+      if (!column) return;
+      setWidths((prev) => ({ ...prev, [columnId]: clampColumnWidth(column, width) }));
+    },
+    [columns],
+  );
+
+  const resetColumnWidths = useCallback(() => setWidths({}), []);
+
+  return {
+    rows: sortedRows,
+    sort,
+    getSortDirection,
+    toggleSort,
+    selectedIds,
+    isSelected: (rowId: string) => selectedSet.has(rowId),
+    toggleRow,
+    toggleAll,
+    allSelected,
+    someSelected,
+    getColumnWidth,
+    setColumnWidth,
+    resetColumnWidths,
+  };
+}
@@ -43,7 +43,13 @@ const meta: Meta<typeof TimePicker> = {
     use24Hour: {
       control: 'boolean',
       description:
-        'Render the picker in 24-hour mode (hours 00–23, no AM/PM column). Default `false` (12-hour with AM/PM).',
+        "Render the picker in 24-hour mode (hours 00–23, no AM/PM column). Default: the locale's clock — 12-hour with AM/PM in `en-US`.",
+    },
+    locale: {
+      control: 'select',
+      options: ['en-US', 'en-GB', 'de-DE', 'fr-FR', 'ja-JP'],
+      description:
+        "BCP 47 locale for the trigger label, default clock and day-period labels. Default: the nearest `LocaleProvider`, else `'en-US'`.",
     },
     fullWidth: {
       control: 'boolean',
@@ -72,7 +78,6 @@ export const Default: Story = {
     size: 'md',
     placeholder: 'Select time',
     minuteStep: 1,
-    use24Hour: false,
   },
   render: (args) => {
     const [value, setValue] = useState('09:00');
@@ -10,6 +10,8 @@ import * as Popover from '@radix-ui/react-popover';
 import { Icon } from '../Icon';
 import { Clock } from '../../icons';
 import { bdsClass } from '../../utils';
+import { getDayPeriodLabels, uses24HourClock } from '../../utils/intl';
+import { useLocale } from '../../providers/LocaleProvider';
 import './TimePicker.css';
 
 // ─── Types ──────────────────────────────────────────────────────────
@@ -37,8 +39,14 @@ export interface TimePickerProps {
   disabled?: boolean;
   /** Minute step interval (default 1) */
   minuteStep?: number;
-  /** Use 24-hour display (default false — shows AM/PM) */
+  /** Use 24-hour display (default: the locale's clock — `en-US` shows AM/PM) */
   use24Hour?: boolean;
+  /**
+   * BCP 47 locale for the trigger label, clock and day-period labels, e.g.
+   * `'en-GB'` (default: the nearest LocaleProvider, else `'en-US'`). The
+   * value is a wall-clock `HH:mm`, so no time zone applies.
+   */
+  locale?: string;
   /** Input id */
   id?: string;
   /** Additional className */
@@ -68,11 +76,13 @@ function to24(hour12: number, period: 'AM' | 'PM'): number {
   return hour12 === 12 ? 12 : hour12 + 12;
 }
 
-function formatDisplay(value: string, use24Hour: boolean): string {
+function formatDisplay(value: string, use24Hour: boolean, locale: string): string {
   const { hour, minute } = parse24(value);
-  if (use24Hour) return `${pad(hour)}:${pad(minute)}`;
-  const { hour12, period } = to12(hour);
-  return `${pad(hour12)}:${pad(minute)} ${period}`;
+  return new Date(2023, 0, 1, hour, minute).toLocaleTimeString(locale, {
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: use24Hour ? 'h23' : 'h12',
+  });
 }
 
 function generateMinutes(step: number): number[] {
@@ -83,13 +93,18 @@ function generateMinutes(step: number): number[] {
 
 // ─── ScrollColumn Sub-component ─────────────────────────────────────
 
-function ScrollColumn({
+/**
+ * One scrolling listbox of time parts. Exported for DateTimePicker, which
+ * renders the same hour / minute / period columns beside its calendar and
+ * disables the options its min / max rule out.
+ */
+export function ScrollColumn({
   items,
   selected,
   onSelect,
   ariaLabel,
 }: {
-  items: { value: number | string; label: string }[];
+  items: { value: number | string; label: string; disabled?: boolean }[];
   selected: number | string;
   onSelect: (value: number | string) => void;
   ariaLabel: string;
@@ -129,6 +144,7 @@ function ScrollColumn({
               isSelected && 'bds-time-picker__cell--selected',
             )}
             aria-selected={isSelected}
+            disabled={item.disabled}
             onClick={(e: ReactMouseEvent) => {
               e.preventDefault();
               onSelect(item.value);
@@ -173,7 +189,8 @@ export const TimePicker = forwardRef<HTMLButtonElement, TimePickerProps>(
       fullWidth = false,
       disabled = false,
       minuteStep = 1,
-      use24Hour = false,
+      use24Hour: use24HourProp,
+      locale: localeProp,
       id,
       className = '',
     },
@@ -182,6 +199,9 @@ export const TimePicker = forwardRef<HTMLButtonElement, TimePickerProps>(
     const [open, setOpen] = useState(false);
     const inputId = id || `timepicker-${Math.random().toString(36).substring(2, 11)}`;
     const hasError = Boolean(error);
+    const localeContext = useLocale();
+    const locale = localeProp ?? localeContext.locale;
+    const use24Hour = use24HourProp ?? uses24HourClock(locale);
 
     const { hour: hour24, minute } = parse24(value);
     const { hour12, period } = to12(hour24);
@@ -200,9 +220,10 @@ export const TimePicker = forwardRef<HTMLButtonElement, TimePickerProps>(
       label: pad(m),
     }));
 
+    const [amLabel, pmLabel] = getDayPeriodLabels(locale);
     const periods = [
-      { value: 'AM' as const, label: 'AM' },
-      { value: 'PM' as const, label: 'PM' },
+      { value: 'AM' as const, label: amLabel },
+      { value: 'PM' as const, label: pmLabel },
     ];
 
     // ── Handlers ──
@@ -279,7 +300,7 @@ export const TimePicker = forwardRef<HTMLButtonElement, TimePickerProps>(
               }
             >
               <span className={value ? undefined : 'bds-time-picker__placeholder'}>
-                {value ? formatDisplay(value, use24Hour) : placeholder}
+                {value ? formatDisplay(value, use24Hour, locale) : placeholder}
               </span>
               <span className="bds-time-picker__icon" aria-hidden>
                 <Icon icon={Clock} />
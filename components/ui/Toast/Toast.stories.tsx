@@ -1,5 +1,8 @@
 import type { Meta, StoryObj } from '@storybook/react-vite';
+import { expect, userEvent, waitFor, within } from 'storybook/test';
 import { Toast } from './Toast';
+import { Button } from '../Button';
+import { ToastProvider, useToast } from '../../providers/ToastProvider';
 
 const meta: Meta<typeof Toast> = {
   title: 'Components/toast',
@@ -71,3 +74,137 @@ export const Warning: Story = {
 export const Info: Story = {
   args: { title: 'New update available', description: 'Version 2.1 is ready to install.', variant: 'info', onDismiss: () => {} },
 };
+
+/* ═══════════════════════════════════════════════════════════════
+   PROVIDER — queued toasts raised with useToast()
+   ═══════════════════════════════════════════════════════════════ */
+
+function ToastTriggers({ failSave = false }: { failSave?: boolean }) {
+  const toast = useToast();
+  const save = () =>
+    toast.promise(
+      new Promise<void>((resolve, reject) => setTimeout(() => (failSave ? reject() : resolve()), 600)),
+      { loading: 'Saving changes…', success: 'Changes saved', error: "Couldn't save changes" },
+    ).catch(() => {});
+
+  return (
+    <div style={{ display: 'flex', flexWrap: 'wrap', gap: 'var(--gap-md)' }}>
+      <Button onClick={() => toast.success('Link copied')}>Copy link</Button>
+      <Button variant="secondary" onClick={() => toast.show({ id: 'sync', title: 'Sync finished', tone: 'info' })}>
+        Sync
+      </Button>
+      <Button variant="secondary" onClick={save}>
+        Save
+      </Button>
+      <Button
+        variant="secondary"
+        onClick={() =>
+          toast.error('Session expiring', {
+            description: 'Save your work — you will be signed out in 1 minute.',
+            urgency: 'assertive',
+            duration: Infinity,
+          })
+        }
+      >
+        Expire session
+      </Button>
+      <Button variant="secondary" onClick={() => toast.dismiss()}>
+        Dismiss all
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Toasts raised with `useToast()` inside a `ToastProvider`. At most three
+ * show at once; hover or focus the stack to pause the timers, and swipe a
+ * toast sideways to dismiss it. "Sync" reuses one id, so repeated clicks
+ * refresh the same toast instead of stacking copies.
+ *
+ * @summary Queued toasts from the useToast hook
+ */
+export const WithProvider: Story = {
+  parameters: { layout: 'padded' },
+  render: () => (
+    <ToastProvider>
+      <ToastTriggers />
+    </ToastProvider>
+  ),
+};
+
+/**
+ * A repeated id updates the toast already on screen — one toast, not two.
+ * @summary Play-function interaction test
+ */
+export const InteractionTestToastDedupe: Story = {
+  tags: ['!manifest', 'interaction-test'],
+  parameters: { layout: 'padded' },
+  render: () => (
+    <ToastProvider>
+      <ToastTriggers />
+    </ToastProvider>
+  ),
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement.ownerDocument.body);
+    await userEvent.click(canvas.getByRole('button', { name: 'Sync' }));
+    await userEvent.click(canvas.getByRole('button', { name: 'Sync' }));
+    const region = canvas.getByRole('region', { name: 'Notifications' });
+    await expect(within(region).getAllByText('Sync finished')).toHaveLength(1);
+    await userEvent.click(canvas.getByRole('button', { name: 'Dismiss all' }));
+  },
+};
+
+/**
+ * Four toasts raised with `maxVisible` 3 — the fourth waits and steps in
+ * once one is dismissed.
+ * @summary Play-function interaction test
+ */
+export const InteractionTestToastMaxVisible: Story = {
+  tags: ['!manifest', 'interaction-test'],
+  parameters: { layout: 'padded' },
+  render: () => (
+    <ToastProvider maxVisible={3}>
+      <ToastTriggers />
+    </ToastProvider>
+  ),
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement.ownerDocument.body);
+    const copy = canvas.getByRole('button', { name: 'Copy link' });
+    for (let i = 0; i < 4; i++) await userEvent.click(copy);
+
+    const region = canvas.getByRole('region', { name: 'Notifications' });
+    await expect(within(region).getAllByText('Link copied')).toHaveLength(3);
+    await userEvent.click(within(region).getAllByRole('button', { name: 'Dismiss notification' })[0]);
+    await expect(within(region).getAllByText('Link copied')).toHaveLength(3);
+
+    await userEvent.click(canvas.getByRole('button', { name: 'Dismiss all' }));
+    await expect(within(region).queryByText('Link copied')).not.toBeInTheDocument();
+  },
+};
+
+/**
+ * A failed save — the loading toast turns into an error in place, and
+ * an assertive toast lands in the alert region.
+ * @summary Play-function interaction test
+ */
+export const InteractionTestToastPromise: Story = {
+  tags: ['!manifest', 'interaction-test'],
+  parameters: { layout: 'padded' },
+  render: () => (
+    <ToastProvider>
+      <ToastTriggers failSave />
+    </ToastProvider>
+  ),
+  play: async ({ canvasElement }) => {
+    const canvas = within(canvasElement.ownerDocument.body);
+    const region = canvas.getByRole('region', { name: 'Notifications' });
+    await userEvent.click(canvas.getByRole('button', { name: 'Save' }));
+    await expect(within(region).getByText('Saving changes…')).toBeInTheDocument();
+    await waitFor(() => expect(within(region).getByText("Couldn't save changes")).toBeInTheDocument(), { timeout: 2000 });
+    await expect(within(region).queryByText('Saving changes…')).not.toBeInTheDocument();
+
+    await userEvent.click(canvas.getByRole('button', { name: 'Expire session' }));
+    await expect(within(region.querySelector('[role="alert"]') as HTMLElement).getByText('Session expiring')).toBeInTheDocument();
+    await userEvent.click(canvas.getByRole('button', { name: 'Dismiss all' }));
+  },
+};
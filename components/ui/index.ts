@@ -42,6 +42,7 @@ export * from './Counter';
 export * from './DataSection';
 export * from './DataView';
 export * from './DatePicker';
+export * from './DateTimePicker';
 export * from './DependentSelect';
 export * from './DevFeedbackWidget';
 export * from './Dialog';
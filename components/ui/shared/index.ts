@@ -5,3 +5,11 @@
 export { useSuggestionFilter } from './useSuggestionFilter';
 export type { UseSuggestionFilterOptions, UseSuggestionFilterReturn } from './useSuggestionFilter';
 export { useElementWidth } from './useElementWidth';
+export { useVirtualRows } from './useVirtualRows';
+export type {
+  UseVirtualRowsOptions,
+  UseVirtualRowsReturn,
+  VirtualizeOptions,
+  VirtualRow,
+  VirtualRowHeight,
+} from './useVirtualRows';
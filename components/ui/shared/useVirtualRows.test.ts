@@ -0,0 +1,74 @@
+/**
+ * useVirtualRows unit tests — row offsets, index lookup and the rendered window.
+ */
+import { describe, it, expect } from 'vitest';
+import { buildOffsets, findIndexAt, getVirtualRows } from './useVirtualRows';
+
+describe('buildOffsets', () => {
+  it('accumulates row tops and the total height', () => {
+    expect(Array.from(buildOffsets(3, () => 40))).toEqual([0, 40, 80, 120]);
+    expect(Array.from(buildOffsets(3, (i) => (i + 1) * 10))).toEqual([0, 10, 30, 60]);
+    expect(Array.from(buildOffsets(0, () => 40))).toEqual([0]);
+  });
+
+  it('handles 100k rows', () => {
+    const offsets = buildOffsets(100_000, () => 48);
+    expect(offsets[100_000]).toBe(4_800_000);
+  });
+});
+
+describe('findIndexAt', () => {
+  const offsets = buildOffsets(4, (i) => [10, 20, 30, 40][i]);
+
+  it('finds the row spanning a position', () => {
+    expect(findIndexAt(offsets, 0)).toBe(0);
+    expect(findIndexAt(offsets, 9.5)).toBe(0);
+    expect(findIndexAt(offsets, 10)).toBe(1);
+    expect(findIndexAt(offsets, 59)).toBe(2);
+    expect(findIndexAt(offsets, 60)).toBe(3);
+  });
+
+  it('clamps outside the list', () => {
+    expect(findIndexAt(offsets, -20)).toBe(0);
+    expect(findIndexAt(offsets, 500)).toBe(3);
+  });
+});
+
+describe('getVirtualRows', () => {
+  const offsets = buildOffsets(10_000, () => 50);
+
+  it('windows the viewport plus overscan', () => {
+    const { rows, gapAfter } = getVirtualRows(offsets, 0, 200, 2);
+    expect(rows.map((r) => r.index)).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(rows[0].gapBefore).toBe(0);
+    expect(rows.slice(1).every((r) => r.gapBefore === 0)).toBe(true);
+    expect(gapAfter).toBe((10_000 - 7) * 50);
+  });
+
+  it('keeps rendered rows at their true offsets mid-list', () => {
+    const { rows, gapAfter } = getVirtualRows(offsets, 250_000, 200, 2);
+    expect(rows[0]).toEqual({ index: 4998, gapBefore: 4998 * 50 });
+    expect(rows[rows.length - 1].index).toBe(5006);
+    expect(gapAfter).toBe((10_000 - 5007) * 50);
+  });
+
+  it('keeps a pinned row mounted above or below the window', () => {
+    const above = getVirtualRows(offsets, 250_000, 200, 0, 12);
+    expect(above.rows[0]).toEqual({ index: 12, gapBefore: 12 * 50 });
+    expect(above.rows[1]).toEqual({ index: 5000, gapBefore: (5000 - 13) * 50 });
+
+    const below = getVirtualRows(offsets, 0, 100, 0, 9_000);
+    const last = below.rows[below.rows.length - 1];
+    expect(last).toEqual({ index: 9_000, gapBefore: (9_000 - 3) * 50 });
+    expect(below.gapAfter).toBe(999 * 50);
+  });
+
+  it('ignores a pinned row already in the window', () => {
+    const { rows } = getVirtualRows(offsets, 0, 100, 0, 1);
+    expect(rows.map((r) => r.index)).toEqual([0, 1, 2]);
+  });
+
+  it('renders nothing for an empty list', () => {
+    expect(getVirtualRows(buildOffsets(0, () => 50), 0, 200, 2)).toEqual({ rows: [], gapAfter: 0 });
+  });
+});
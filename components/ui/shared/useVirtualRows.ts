@@ -0,0 +1,239 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type FocusEvent,
+  type RefObject,
+  type UIEvent,
+} from 'react';
+
+/** Row height in px — a number for fixed rows, a per-index estimate for variable rows. */
+export type VirtualRowHeight = number | ((index: number) => number);
+
+/** Opt-in windowing for `Table`, `TableView` and `ListView`. */
+export interface VirtualizeOptions {
+  /**
+   * Row height in px. A number fixes every row at that height (no
+   * measuring); a function is a per-index estimate, corrected by measuring
+   * rows as they render — use it when rows wrap or vary.
+   */
+  rowHeight: VirtualRowHeight;
+  /** Viewport height in px — the rows scroll inside it. */
+  height: number;
+  /** Extra rows rendered above and below the viewport. Default `6`. */
+  overscan?: number;
+}
+
+export interface UseVirtualRowsOptions {
+  /** Total number of rows. */
+  count: number;
+  /**
+   * Fixed height of every row, or an estimate per index. With an estimate,
+   * rendered rows are measured and the layout corrects as they report in.
+   */
+  rowHeight: VirtualRowHeight;
+  /** Viewport height in px, used until the container is measured (and on the server). */
+  viewportHeight: number;
+  /** Extra rows rendered above and below the viewport. Default `6`. */
+  overscan?: number;
+}
+
+/** A row to render, with the px of unrendered rows between it and the previous rendered row. */
+export interface VirtualRow {
+  index: number;
+  gapBefore: number;
+}
+
+export interface UseVirtualRowsReturn<T extends HTMLElement> {
+  /** Attach to the scroll container. */
+  containerRef: RefObject<T>;
+  /** Attach to the scroll container's `onScroll`. */
+  onScroll: (event: UIEvent<T>) => void;
+  /** Attach to the scroll container's `onFocus` — keeps the focused row mounted while it scrolls away. */
+  onFocus: (event: FocusEvent<T>) => void;
+  /** Attach to the scroll container's `onBlur`. */
+  onBlur: (event: FocusEvent<T>) => void;
+  /** Rows to render, in index order. */
+  rows: VirtualRow[];
+  /** Px of unrendered rows after the last rendered row. */
+  gapAfter: number;
+  /** Scroll a row to the top of the viewport. */
+  scrollToIndex: (index: number) => void;
+}
+
+// ─── Range math ─────────────────────────────────────────────────────
+
+/** Cumulative row offsets — `offsets[i]` is row `i`'s top, `offsets[count]` the total height. */
+export function buildOffsets(count: number, sizeOf: (index: number) => number): Float64Array {
+  const offsets = new Float64Array(count + 1);
+  for (let i = 0; i < count; i++) offsets[i + 1] = offsets[i] + sizeOf(i);
+  return offsets;
+}
+
+/** Index of the row spanning `y` (clamped to the first / last row). */
+export function findIndexAt(offsets: Float64Array, y: number): number {
+  const count = offsets.length - 1;
+  if (count <= 0) return 0;
+  let lo = 0;
+  let hi = count - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (offsets[mid] <= y) lo = mid;
+    else hi = mid - 1;
+  }
+  return lo;
+}
+
+/**
+ * Rows to render for a scroll position: the viewport plus `overscan` on
+ * each side, plus `pinnedIndex` wherever it sits. Each row carries the
+ * height of the skipped rows before it, so a renderer can fill the gaps
+ * with spacers and keep every rendered row at its true offset.
+ */
+export function getVirtualRows(
+  offsets: Float64Array,
+  scrollTop: number,
+  viewportHeight: number,
+  overscan: number,
+  pinnedIndex?: number | null,
+): { rows: VirtualRow[]; gapAfter: number } {
+  const count = offsets.length - 1;
+  if (count <= 0) return { rows: [], gapAfter: 0 };
+
+  const first = Math.max(0, findIndexAt(offsets, scrollTop) - overscan);
+  const last = Math.min(count - 1, findIndexAt(offsets, scrollTop + viewportHeight) + overscan);
+
+  const indexes: number[] = [];
+  if (pinnedIndex != null && pinnedIndex >= 0 && pinnedIndex < first) indexes.push(pinnedIndex);
+  for (let i = first; i <= last; i++) indexes.push(i);
+  if (pinnedIndex != null && pinnedIndex > last && pinnedIndex < count) indexes.push(pinnedIndex);
+
+  let previousEnd = 0;
+  const rows = indexes.map((index) => {
+    const row = { index, gapBefore: offsets[index] - previousEnd };
+    previousEnd = offsets[index + 1];
+    return row;
+  });
+  return { rows, gapAfter: offsets[count] - previousEnd };
+}
+
+// ─── Hook ───────────────────────────────────────────────────────────
+
+/**
+ * Window a long list of rows inside a scroll container — only the rows in
+ * view (plus overscan) are rendered; the rest are represented by gaps the
+ * caller fills with spacers, so the scrollbar and row offsets stay true.
+ *
+ * Internal engine behind `Table`'s and `ListView`'s `virtualize` option.
+ * Rendered rows must carry `data-index={index}` — the row holding focus is
+ * found through it and kept mounted, and with a per-index `rowHeight`
+ * estimate a `ResizeObserver` measures rows through it so the layout
+ * re-flows as real heights land. Fixed heights skip measuring entirely.
+ *
+ * SSR-safe: before the container is measured the window is sized from
+ * `viewportHeight`, so the server renders the first screen of rows.
+ */
+export function useVirtualRows<T extends HTMLElement = HTMLDivElement>({
+  count,
+  rowHeight,
+  viewportHeight,
+  overscan = 6,
+}: UseVirtualRowsOptions): UseVirtualRowsReturn<T> {
+  const containerRef = useRef<T>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
+  const [measuredViewport, setMeasuredViewport] = useState<number | null>(null);
+
+  // Measured heights by index. A ref so measuring doesn't re-render per
+  // row; `version` bumps once per batch of changes.
+  const measured = useRef(new Map<number, number>());
+  const [version, setVersion] = useState(0);
+  const variable = typeof rowHeight === 'function';
+
+  const offsets = useMemo(
+    () =>
+      buildOffsets(
+        count,
+        typeof rowHeight === 'function'
+          ? (i) => measured.current.get(i) ?? rowHeight(i)
+          : () => rowHeight,
+      ),
+    // `version` stands in for the measured map.
+    [count, rowHeight, version],
+  );
+
+  const { rows, gapAfter } = getVirtualRows(
+    offsets,
+    scrollTop,
+    measuredViewport ?? viewportHeight,
+    overscan,
+    focusedIndex,
+  );
+
+  const onScroll = useCallback((event: UIEvent<T>) => {
+    setScrollTop(event.currentTarget.scrollTop);
+  }, []);
+
+  const onFocus = useCallback((event: FocusEvent<T>) => {
+    const row = (event.target as HTMLElement).closest<HTMLElement>('[data-index]');
+    setFocusedIndex(row ? Number(row.dataset.index) : null);
+  }, []);
+
+  const onBlur = useCallback((event: FocusEvent<T>) => {
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) setFocusedIndex(null);
+  }, []);
+
+  // Track the container's own height.
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el || typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver((entries) => {
+      for (const entry of entries) setMeasuredViewport(entry.contentRect.height);
+    });
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // Measure variable rows. Re-observes after every render so newly
+  // windowed-in rows report their height.
+  const renderedKey = rows.map((r) => r.index).join(',');
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!variable || !el || typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver((entries) => {
+      let changed = false;
+      for (const entry of entries) {
+        const index = Number((entry.target as HTMLElement).dataset.index);
+        const height = entry.borderBoxSize?.[0]?.blockSize ?? entry.contentRect.height;
+        if (Number.isNaN(index) || measured.current.get(index) === height) continue;
+        measured.current.set(index, height);
+        changed = true;
+      }
+      if (changed) setVersion((v) => v + 1);
+    });
+    el.querySelectorAll<HTMLElement>('[data-index]').forEach((row) => observer.observe(row));
+    return () => observer.disconnect();
+  }, [variable, renderedKey]);
+
+  // A new row count invalidates measurements taken against the old rows.
+  const measuredCount = useRef(count);
+  useEffect(() => {
+    if (measuredCount.current === count) return;
+    measuredCount.current = count;
+    measured.current.clear();
+    setVersion((v) => v + 1);
+  }, [count]);
+
+  const scrollToIndex = useCallback(
+    (index: number) => {
+      const el = containerRef.current;
+      if (!el) return;
+      el.scrollTop = offsets[Math.max(0, Math.min(index, count))];
+    },
+    [offsets, count],
+  );
+
+  return { containerRef, onScroll, onFocus, onBlur, rows, gapAfter, scrollToIndex };
+}
@@ -0,0 +1,68 @@
+/**
+ * Intl helper unit tests — locale data and time-zone round-trips the date
+ * and time pickers rely on. Assertions use explicit zones so they hold on
+ * any host zone.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  formatDateRangeLabel,
+  fromZonedTime,
+  getDayPeriodLabels,
+  getMonthNames,
+  getWeekStart,
+  getWeekdayNames,
+  toZonedTime,
+  uses24HourClock,
+} from './intl';
+
+describe('locale data', () => {
+  it('derives the week start from the locale region', () => {
+    expect(getWeekStart('en-US')).toBe(0);
+    expect(getWeekStart('de-DE')).toBe(1);
+    expect(getWeekStart('en-GB')).toBe(1);
+    expect(getWeekStart('ar-EG')).toBe(6);
+  });
+
+  it('falls back to Sunday for an invalid tag', () => {
+    expect(getWeekStart('not a locale')).toBe(0);
+  });
+
+  it('lists month and weekday names from Intl', () => {
+    expect(getMonthNames('de-DE')[2]).toBe('März');
+    expect(getMonthNames('en-US', 'short')[0]).toBe('Jan');
+    expect(getWeekdayNames('en-US', 'long')[0]).toBe('Sunday');
+    expect(getWeekdayNames('fr-FR', 'long')[1]).toBe('lundi');
+  });
+
+  it('reports the locale clock and day-period labels', () => {
+    expect(uses24HourClock('en-US')).toBe(false);
+    expect(uses24HourClock('en-GB')).toBe(true);
+    expect(getDayPeriodLabels('en-US')).toEqual(['AM', 'PM']);
+  });
+
+  it('collapses shared fields in a range label', () => {
+    // ICU pads the dash with thin spaces.
+    expect(formatDateRangeLabel(new Date(2025, 5, 1), new Date(2025, 5, 30))).toMatch(/^Jun 1\s–\s30, 2025$/);
+  });
+});
+
+describe('time zones', () => {
+  it('returns midnight of the picked day in the target zone', () => {
+    const picked = fromZonedTime(new Date(2025, 5, 11), 'Asia/Tokyo');
+    expect(picked.toISOString()).toBe('2025-06-10T15:00:00.000Z');
+  });
+
+  it('round-trips a wall clock through an instant', () => {
+    const wall = new Date(2025, 2, 9, 12, 30);
+    const instant = fromZonedTime(wall, 'America/New_York');
+    // 9 March 2025 is the first day of EDT (UTC-4).
+    expect(instant.toISOString()).toBe('2025-03-09T16:30:00.000Z');
+    expect(toZonedTime(instant, 'America/New_York')).toEqual(wall);
+  });
+
+  it('is a no-op without a zone', () => {
+    const date = new Date(2025, 5, 11, 9);
+    expect(toZonedTime(date)).toBe(date);
+    expect(fromZonedTime(date)).toBe(date);
+  });
+});
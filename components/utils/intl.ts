@@ -0,0 +1,178 @@
+/**
+ * Locale- and time-zone-aware formatting shared by Calendar, DatePicker and
+ * TimePicker.
+ *
+ * Everything a picker shows — week start, month and weekday names, 12 / 24h
+ * clock, day-period labels — is derived from `Intl` for a BCP 47 locale, so
+ * no component carries its own English arrays. `DEFAULT_LOCALE` keeps the
+ * pre-locale output (`en-US`) for callers that pass nothing, and keeps SSR
+ * output independent of the server's locale.
+ *
+ * Time zones: the date engine (`Calendar/dateUtils`) works in the host's
+ * local fields. `toZonedTime` / `fromZonedTime` translate between a real
+ * instant and a "wall clock" Date whose local fields read as that instant
+ * does in an IANA zone — pickers convert on the way in and on the way out.
+ */
+
+import type { WeekStart } from '../ui/Calendar/dateUtils';
+
+export const DEFAULT_LOCALE = 'en-US';
+
+// Regions whose week starts on Sunday or Saturday (CLDR weekData); every
+// other region starts on Monday. Only consulted when the runtime lacks
+// `Intl.Locale#getWeekInfo` / `#weekInfo` (Firefox, older Node).
+const SUNDAY_START = new Set([
+  'AG', 'AS', 'BD', 'BR', 'BS', 'BT', 'BW', 'BZ', 'CA', 'CN', 'CO', 'DM', 'DO', 'ET',
+  'GT', 'GU', 'HK', 'HN', 'ID', 'IL', 'IN', 'JM', 'JP', 'KE', 'KH', 'KR', 'LA', 'MH',
+  'MM', 'MO', 'MT', 'MX', 'MZ', 'NI', 'NP', 'PA', 'PE', 'PH', 'PK', 'PR', 'PT', 'PY',
+  'SA', 'SG', 'SV', 'TH', 'TT', 'TW', 'UM', 'US', 'VE', 'VI', 'WS', 'YE', 'ZA', 'ZW',
+]);
+const SATURDAY_START = new Set(['AE', 'AF', 'BH', 'DJ', 'DZ', 'EG', 'IQ', 'IR', 'JO', 'KW', 'LY', 'OM', 'QA', 'SD', 'SY']);
+
+interface WeekInfo {
+  /** `1` Monday … `7` Sunday */
+  firstDay: number;
+}
+
+type LocaleWithWeekInfo = Intl.Locale & {
+  getWeekInfo?: () => WeekInfo;
+  weekInfo?: WeekInfo;
+};
+
+/** First day of the week for a locale — `0` Sunday … `6` Saturday. */
+export function getWeekStart(locale: string = DEFAULT_LOCALE): WeekStart {
+  let tag: LocaleWithWeekInfo;
+  try {
+    tag = new Intl.Locale(locale) as LocaleWithWeekInfo;
+  } catch {
+    return 0;
+  }
+  const info = tag.getWeekInfo?.() ?? tag.weekInfo;
+  if (info) return (info.firstDay % 7) as WeekStart;
+
+  const region = tag.region ?? tag.maximize().region;
+  if (!region || SUNDAY_START.has(region)) return 0;
+  if (SATURDAY_START.has(region)) return 6;
+  return 1;
+}
+
+/** Twelve month names, January first, in the locale's standalone form. */
+export function getMonthNames(
+  locale: string = DEFAULT_LOCALE,
+  width: 'long' | 'short' = 'long',
+): string[] {
+  const format = new Intl.DateTimeFormat(locale, { month: width });
+  return Array.from({ length: 12 }, (_, month) => format.format(new Date(2023, month, 1)));
+}
+
+/** Seven weekday names, Sunday first — rotate by `weekStartsOn` to render. */
+export function getWeekdayNames(
+  locale: string = DEFAULT_LOCALE,
+  width: 'long' | 'short' | 'narrow' = 'short',
+): string[] {
+  const format = new Intl.DateTimeFormat(locale, { weekday: width });
+  // 1 Jan 2023 was a Sunday.
+  return Array.from({ length: 7 }, (_, day) => format.format(new Date(2023, 0, 1 + day)));
+}
+
+/** True when the locale's default clock runs 0–23 rather than 1–12 with a day period. */
+export function uses24HourClock(locale: string = DEFAULT_LOCALE): boolean {
+  // `hourCycle` is ES2021 on the resolved options; `hour12` is its ES2020 shadow.
+  const { hourCycle, hour12 } = new Intl.DateTimeFormat(locale, { hour: 'numeric' })
+    .resolvedOptions() as Intl.ResolvedDateTimeFormatOptions & { hourCycle?: string };
+  if (hourCycle) return hourCycle === 'h23' || hourCycle === 'h24';
+  return hour12 === false;
+}
+
+/** The locale's morning / afternoon labels — `['AM', 'PM']` in `en-US`. */
+export function getDayPeriodLabels(locale: string = DEFAULT_LOCALE): [string, string] {
+  const format = new Intl.DateTimeFormat(locale, { hour: 'numeric', hourCycle: 'h12' });
+  const label = (hour: number) =>
+    format.formatToParts(new Date(2023, 0, 1, hour)).find((p) => p.type === 'dayPeriod')?.value;
+  return [label(9) ?? 'AM', label(21) ?? 'PM'];
+}
+
+type RangeFormat = Intl.DateTimeFormat & { formatRange?: (start: Date, end: Date) => string };
+
+/**
+ * Format two dates as one range — `"Jun 1 – 30, 2025"` in `en-US` — letting
+ * the locale collapse the fields the ends share.
+ */
+export function formatDateRangeLabel(
+  start: Date,
+  end: Date,
+  locale: string = DEFAULT_LOCALE,
+  options: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', year: 'numeric' },
+): string {
+  const format = new Intl.DateTimeFormat(locale, options) as RangeFormat;
+  if (format.formatRange) return format.formatRange(start, end);
+  return `${format.format(start)} – ${format.format(end)}`;
+}
+
+// ─── Time zones ─────────────────────────────────────────────────────
+
+/** Offset of `timeZone` from UTC at `instant`, in milliseconds. */
+function zoneOffset(instant: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(instant);
+  const field = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((p) => p.type === type)?.value ?? 0);
+  const asUtc = Date.UTC(
+    field('year'),
+    field('month') - 1,
+    field('day'),
+    field('hour'),
+    field('minute'),
+    field('second'),
+  );
+  return asUtc - (instant.getTime() - instant.getMilliseconds());
+}
+
+/**
+ * The wall clock of `instant` in `timeZone`, as a local Date — its
+ * `getFullYear()` … `getMinutes()` read what a clock in that zone shows.
+ * Returns `instant` unchanged when no zone is given.
+ */
+export function toZonedTime(instant: Date, timeZone?: string): Date {
+  if (!timeZone) return instant;
+  const wall = new Date(instant.getTime() + zoneOffset(instant, timeZone));
+  return new Date(
+    wall.getUTCFullYear(),
+    wall.getUTCMonth(),
+    wall.getUTCDate(),
+    wall.getUTCHours(),
+    wall.getUTCMinutes(),
+    wall.getUTCSeconds(),
+    instant.getMilliseconds(),
+  );
+}
+
+/**
+ * Inverse of `toZonedTime` — the instant at which a clock in `timeZone`
+ * shows the local fields of `wallClock`. Returns `wallClock` unchanged when
+ * no zone is given.
+ */
+export function fromZonedTime(wallClock: Date, timeZone?: string): Date {
+  if (!timeZone) return wallClock;
+  const asUtc = Date.UTC(
+    wallClock.getFullYear(),
+    wallClock.getMonth(),
+    wallClock.getDate(),
+    wallClock.getHours(),
+    wallClock.getMinutes(),
+    wallClock.getSeconds(),
+    wallClock.getMilliseconds(),
+  );
+  // Two passes settle instants that sit on the far side of a DST change.
+  let instant = new Date(asUtc - zoneOffset(new Date(asUtc), timeZone));
+  instant = new Date(asUtc - zoneOffset(instant, timeZone));
+  return instant;
+}
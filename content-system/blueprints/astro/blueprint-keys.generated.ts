@@ -0,0 +1,140 @@
+// AUTO-GENERATED by scripts/generate-blueprint-types.mjs — DO NOT EDIT BY HAND.
+// Source: blueprints/blueprint-library.json + the BLUEPRINT_REGISTRY objects in
+// astro/BlueprintDispatcher.astro and react/BlueprintDispatcher.tsx.
+// Regenerate: `npm run typegen:blueprints`. Consumers import these through
+// `./types`, which layers the per-blueprint facts refinement on top.
+
+/** Every active blueprint key in `blueprint-library.json`, in library order. */
+export const KNOWN_BLUEPRINT_KEYS = [
+  'hero_split_60_40',
+  'hero_split_image_card_overlay',
+  'hero_centered_gradient',
+  'hero_fullbleed_photo',
+  'hero_dark_minimal',
+  'services_numbered_rows',
+  'features_3col_icon_grid',
+  'features_3col_branded_dark',
+  'features_alternating_split',
+  'features_bento_asymmetric',
+  'stats_dark_bar',
+  'stats_centered_light',
+  'testimonials_3col_cards',
+  'testimonials_featured_large',
+  'cta_dark_centered',
+  'support_plan_callout_split',
+  'cta_split_contact',
+  'gallery_masonry_3col',
+  'team_cards_centered',
+  'nav_sticky_blur',
+  'nav_light_clean',
+  'hero_interior_minimal',
+  'about_story_split',
+  'services_detail_two_column',
+  'services_3col_card_grid',
+  'contact_form_split',
+  'faq_accordion_grouped',
+  'team_bio_grid',
+  'content_legal_centered',
+] as const;
+
+/** An active blueprint key in `blueprint-library.json`. */
+export type KnownBlueprintKey = (typeof KNOWN_BLUEPRINT_KEYS)[number];
+
+/**
+ * Library keys with `is_active: false` — still valid references, but
+ * not renderable. Validators warn on these instead of calling them unknown.
+ */
+export const INACTIVE_BLUEPRINT_KEYS = [
+  'services_numbered_accordion',
+  'process_grid_4step_numbered',
+  'nav_mega_audience_pathways',
+] as const;
+
+/** Keys with a component in the Astro `BLUEPRINT_REGISTRY`. */
+export const WIRED_BLUEPRINT_KEYS = [
+  'hero_split_60_40',
+  'hero_split_image_card_overlay',
+  'features_3col_branded_dark',
+  'features_bento_asymmetric',
+  'stats_dark_bar',
+  'testimonials_3col_cards',
+  'testimonials_featured_large',
+  'cta_dark_centered',
+  'support_plan_callout_split',
+  'cta_split_contact',
+  'gallery_masonry_3col',
+  'nav_sticky_blur',
+  'hero_interior_minimal',
+  'about_story_split',
+  'services_detail_two_column',
+  'services_3col_card_grid',
+  'contact_form_split',
+  'faq_accordion_grouped',
+  'team_bio_grid',
+  'content_legal_centered',
+] as const satisfies readonly KnownBlueprintKey[];
+
+/** Keys with a renderer in the React `BLUEPRINT_REGISTRY`. */
+export const REACT_WIRED_BLUEPRINT_KEYS = [
+  'hero_split_60_40',
+  'hero_split_image_card_overlay',
+  'features_3col_branded_dark',
+  'features_bento_asymmetric',
+  'stats_dark_bar',
+  'testimonials_3col_cards',
+  'testimonials_featured_large',
+  'cta_dark_centered',
+  'support_plan_callout_split',
+  'cta_split_contact',
+  'gallery_masonry_3col',
+  'nav_sticky_blur',
+  'hero_interior_minimal',
+  'about_story_split',
+  'services_detail_two_column',
+  'services_3col_card_grid',
+  'contact_form_split',
+  'faq_accordion_grouped',
+  'team_bio_grid',
+  'content_legal_centered',
+] as const satisfies readonly KnownBlueprintKey[];
+
+/** Each blueprint's `required_facts` — snake_case library fact ids. */
+export const BLUEPRINT_REQUIRED_FACTS = {
+  hero_split_60_40: ['hero_image_url'],
+  hero_split_image_card_overlay: [],
+  hero_centered_gradient: [],
+  hero_fullbleed_photo: ['hero_image_url'],
+  hero_dark_minimal: [],
+  services_numbered_rows: [],
+  features_3col_icon_grid: [],
+  features_3col_branded_dark: [],
+  features_alternating_split: [],
+  features_bento_asymmetric: [],
+  stats_dark_bar: [],
+  stats_centered_light: [],
+  testimonials_3col_cards: [],
+  testimonials_featured_large: [],
+  cta_dark_centered: [],
+  support_plan_callout_split: [],
+  cta_split_contact: ['phone', 'email'],
+  gallery_masonry_3col: [],
+  team_cards_centered: [],
+  nav_sticky_blur: [],
+  nav_light_clean: [],
+  hero_interior_minimal: [],
+  about_story_split: [],
+  services_detail_two_column: [],
+  services_3col_card_grid: [],
+  contact_form_split: ['phone', 'email', 'address'],
+  faq_accordion_grouped: [],
+  team_bio_grid: [],
+  content_legal_centered: [],
+} as const satisfies Record<KnownBlueprintKey, readonly string[]>;
+
+/** Library fact id → the `ClientFacts` field that carries it. */
+export const REQUIRED_FACT_FIELDS = {
+  address: 'address',
+  email: 'email',
+  hero_image_url: 'heroImageUrl',
+  phone: 'phone',
+} as const;
@@ -0,0 +1,173 @@
+/**
+ * Page composition — resolves which blueprint renders in each slot of a
+ * page and slots the generated content into that sequence. Shared by the
+ * `<PageComposer>` twins (`./PageComposer.astro`, `../react/PageComposer`)
+ * and importable on its own by the scaffold task, which needs the drift
+ * report without rendering anything.
+ *
+ * Contract: docs/BLUEPRINTS-ASTRO-PACKAGE.md §4. The pack owns
+ * composition; content owns copy. Precedence per page:
+ *
+ *   1. client override (`company_profiles.page_compositions[pageType]`)
+ *   2. `pack.pageCompositions[pageType]`
+ *   3. no composition — sections render as content emitted them, by
+ *      their own `visualNotes.blueprintKey` hints
+ *
+ * Content fills slots by index. Where a section's `blueprintKey` hint
+ * disagrees with the composed key, the composed key wins and the
+ * disagreement is reported as `composition_drift` (§4.5) — information
+ * for pack review, never a failure.
+ *
+ * Framework-agnostic and shipped as SOURCE alongside `./types` (the
+ * Astro twin imports it), so it types its inputs structurally rather
+ * than importing `IndustryPack` — any pack or resolved client content
+ * satisfies `ComposablePack`.
+ */
+import type { BlueprintSection, KnownBlueprintKey } from './types';
+
+/** The slice of a page composition the composer reads. */
+export interface ComposablePageComposition {
+  readonly sections: readonly string[];
+}
+
+/**
+ * The slice of an `IndustryPack` the composer reads — `pageCompositions`
+ * keyed by page type. `IndustryPack` and `ResolvedClientContent` both
+ * satisfy it.
+ */
+export interface ComposablePack {
+  readonly pageCompositions?: Readonly<Record<string, ComposablePageComposition>> | null;
+}
+
+/** Where a page's section sequence came from. */
+export type PageCompositionSource = 'client' | 'industry' | 'content';
+
+/**
+ * One slot where content's `visualNotes.blueprintKey` hint disagrees with
+ * the composed key. Shaped as an `enrichment_log` row payload so the
+ * scaffold task can write it as-is.
+ */
+export interface CompositionDrift {
+  readonly source: 'composition_drift';
+  readonly pageType: string;
+  /** Slot index in the composed sequence. */
+  readonly slot: number;
+  readonly sectionKey: string;
+  /** The key that renders — from the client override or the pack. */
+  readonly composedKey: string;
+  /** The key content generation suggested. */
+  readonly hintedKey: string;
+}
+
+export interface ComposePageInput {
+  readonly pack: ComposablePack | null | undefined;
+  readonly pageType: string;
+  /**
+   * Client override for this page (`company_profiles.page_compositions[pageType]`).
+   * An empty `sections` list falls through to the pack.
+   */
+  readonly override?: ComposablePageComposition | null;
+  /** Generated content for the page, in slot order. */
+  readonly sections: readonly BlueprintSection[];
+}
+
+export interface ComposedPage {
+  readonly pageType: string;
+  readonly compositionSource: PageCompositionSource;
+  /** The composed blueprint sequence; empty when `compositionSource` is `'content'`. */
+  readonly blueprintKeys: readonly string[];
+  /** Sections ready for `<BlueprintDispatcher>`, each keyed to its slot's blueprint. */
+  readonly sections: readonly BlueprintSection[];
+  readonly drift: readonly CompositionDrift[];
+  /** Slots with no content section — skipped rather than rendered hollow. */
+  readonly unfilledSlots: readonly { readonly slot: number; readonly blueprintKey: string }[];
+  /** Content sections past the end of the composition — not rendered. */
+  readonly unslottedSections: readonly BlueprintSection[];
+}
+
+function slotSection(section: BlueprintSection, blueprintKey: string): BlueprintSection {
+  // Composition keys are plain strings (pack data); an unknown one still
+  // reaches the dispatcher, which renders <BlueprintFallback> for it.
+  const key = blueprintKey as KnownBlueprintKey;
+  return {
+    ...section,
+    visualNotes: section.visualNotes
+      ? { ...section.visualNotes, blueprintKey: key }
+      : {
+          blueprintKey: key,
+          moodKeywords: [],
+          layoutBlueprint: blueprintKey,
+          imageOpportunity: null,
+          animationSuggestion: null,
+          illustrationOpportunity: null,
+        },
+  };
+}
+
+/**
+ * Resolve a page's blueprint sequence and slot its content into it.
+ *
+ * @example
+ * ```ts
+ * const page = composePage({
+ *   pack: dental,
+ *   pageType: 'home',
+ *   override: profile.page_compositions?.home,
+ *   sections: content.home.sections,
+ * });
+ * page.drift; // → enrichment_log rows, source 'composition_drift'
+ * ```
+ */
+export function composePage({ pack, pageType, override, sections }: ComposePageInput): ComposedPage {
+  const packKeys = pack?.pageCompositions?.[pageType]?.sections ?? [];
+  const overrideKeys = override?.sections ?? [];
+  const compositionSource: PageCompositionSource =
+    overrideKeys.length > 0 ? 'client' : packKeys.length > 0 ? 'industry' : 'content';
+
+  if (compositionSource === 'content') {
+    return {
+      pageType,
+      compositionSource,
+      blueprintKeys: [],
+      sections,
+      drift: [],
+      unfilledSlots: [],
+      unslottedSections: [],
+    };
+  }
+
+  const blueprintKeys = compositionSource === 'client' ? overrideKeys : packKeys;
+  const composed: BlueprintSection[] = [];
+  const drift: CompositionDrift[] = [];
+  const unfilledSlots: { slot: number; blueprintKey: string }[] = [];
+
+  blueprintKeys.forEach((blueprintKey, slot) => {
+    const section = sections[slot];
+    if (!section) {
+      unfilledSlots.push({ slot, blueprintKey });
+      return;
+    }
+    const hintedKey = section.visualNotes?.blueprintKey;
+    if (hintedKey && hintedKey !== blueprintKey) {
+      drift.push({
+        source: 'composition_drift',
+        pageType,
+        slot,
+        sectionKey: section.sectionKey,
+        composedKey: blueprintKey,
+        hintedKey,
+      });
+    }
+    composed.push(slotSection(section, blueprintKey));
+  });
+
+  return {
+    pageType,
+    compositionSource,
+    blueprintKeys,
+    sections: composed,
+    drift,
+    unfilledSlots,
+    unslottedSections: sections.slice(blueprintKeys.length),
+  };
+}
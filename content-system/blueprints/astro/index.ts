@@ -26,6 +26,10 @@
 export type {
   KnownBlueprintKey,
   WiredBlueprintKey,
+  ReactWiredBlueprintKey,
+  RequiredFactOf,
+  ClientFactsFor,
+  BlueprintPropsFor,
   BlueprintSection,
   ClientFacts,
   ResolvedThemeMode,
@@ -39,8 +43,32 @@ export type {
 // ── Implemented-set (runtime) ───────────────────────────────────
 // The keys with a shipped component in BLUEPRINT_REGISTRY. Greppable,
 // runtime-importable (also at the `/types` subpath) — consumers use it
-// to tell "renders" from "falls back to <BlueprintFallback>".
-export { WIRED_BLUEPRINT_KEYS } from './types';
+// to tell "renders" from "falls back to <BlueprintFallback>". All of
+// it is generated from blueprint-library.json + the registries
+// (`npm run typegen:blueprints`). `hasRequiredFacts` narrows
+// `ClientFacts` to `ClientFactsFor<K>` for the scaffold preflight.
+export {
+  KNOWN_BLUEPRINT_KEYS,
+  WIRED_BLUEPRINT_KEYS,
+  REACT_WIRED_BLUEPRINT_KEYS,
+  BLUEPRINT_REQUIRED_FACTS,
+  REQUIRED_FACT_FIELDS,
+  missingRequiredFacts,
+  hasRequiredFacts,
+} from './types';
+
+// ── Page composition (runtime) ──────────────────────────────────
+// The resolver behind <PageComposer>. The scaffold task calls it
+// directly to collect `composition_drift` rows without rendering.
+export { composePage } from './compose-page';
+export type {
+  ComposablePack,
+  ComposablePageComposition,
+  ComposePageInput,
+  ComposedPage,
+  CompositionDrift,
+  PageCompositionSource,
+} from './compose-page';
 
 // ── Blueprint components ───────────────────────────────────────
 // Each blueprint key in `blueprints/blueprint-library.json` that has
@@ -65,6 +93,14 @@ export { default as AboutStorySplit }           from './AboutStorySplit.astro';
 export { default as TestimonialsFeaturedLarge } from './TestimonialsFeaturedLarge.astro';
 export { default as CtaSplitContact }           from './CtaSplitContact.astro';
 export { default as CtaDarkCentered }           from './CtaDarkCentered.astro';
+export { default as NavStickyBlur }             from './NavStickyBlur.astro';
+export { default as FeaturesBentoAsymmetric }   from './FeaturesBentoAsymmetric.astro';
+export { default as Testimonials3ColCards }     from './Testimonials3ColCards.astro';
+export { default as TeamBioGrid }               from './TeamBioGrid.astro';
+export { default as GalleryMasonry3Col }        from './GalleryMasonry3Col.astro';
+export { default as FaqAccordionGrouped }       from './FaqAccordionGrouped.astro';
+export { default as ContactFormSplit }          from './ContactFormSplit.astro';
+export { default as ContentLegalCentered }      from './ContentLegalCentered.astro';
 
 // ── Dispatch surface ────────────────────────────────────────────
 // <BlueprintDispatcher> is the primary consumer entrypoint — client
@@ -74,7 +110,11 @@ export { default as CtaDarkCentered }           from './CtaDarkCentered.astro';
 // unknown keys with a loud visible stub + a CI-greppable data
 // attribute. <SiteHeader> is the site-shell nav component — not a
 // blueprint, but lives in this package because every client Astro
-// site imports it alongside the blueprints.
+// site imports it alongside the blueprints. <PageComposer> sits one
+// level up: it resolves the section sequence from the pack's
+// `pageCompositions` (client override first), slots the content in,
+// then renders through <BlueprintDispatcher>.
+export { default as PageComposer }        from './PageComposer.astro';
 export { default as BlueprintDispatcher } from './BlueprintDispatcher.astro';
 export { default as BlueprintFallback }   from './BlueprintFallback.astro';
 export { default as SiteHeader }          from './SiteHeader.astro';
@@ -11,42 +11,24 @@
  * See `docs/BLUEPRINTS-ASTRO-PACKAGE.md` §2.8 for the versioning policy.
  */
 
+import {
+  BLUEPRINT_REQUIRED_FACTS,
+  REQUIRED_FACT_FIELDS,
+  WIRED_BLUEPRINT_KEYS,
+  REACT_WIRED_BLUEPRINT_KEYS,
+  type KnownBlueprintKey,
+} from './blueprint-keys.generated';
+
 /**
- * Known blueprint keys. Mirrors `blueprints/blueprint-library.json` as a
- * literal union for consumer type-safety. When adding a new blueprint to
- * the library, append its key here in the same PR — the v0.1 policy is
- * hand-maintained; a build-time generator replaces this in a future pass.
+ * Known blueprint keys — generated from `blueprints/blueprint-library.json`
+ * (every active key) by `scripts/generate-blueprint-types.mjs` into
+ * `./blueprint-keys.generated.ts`. Never hand-edit the union: add the
+ * library entry and run `npm run typegen:blueprints`.
+ *
+ * `KNOWN_BLUEPRINT_KEYS` is the same set as a runtime array.
  */
-export type KnownBlueprintKey =
-  | 'hero_split_60_40'
-  | 'hero_split_image_card_overlay'
-  | 'hero_centered_gradient'
-  | 'hero_fullbleed_photo'
-  | 'hero_dark_minimal'
-  | 'hero_interior_minimal'
-  | 'services_numbered_rows'
-  | 'services_detail_two_column'
-  | 'services_3col_card_grid'
-  | 'support_plan_callout_split'
-  | 'features_3col_icon_grid'
-  | 'features_3col_branded_dark'
-  | 'features_alternating_split'
-  | 'features_bento_asymmetric'
-  | 'about_story_split'
-  | 'stats_dark_bar'
-  | 'stats_centered_light'
-  | 'testimonials_3col_cards'
-  | 'testimonials_featured_large'
-  | 'cta_dark_centered'
-  | 'cta_split_contact'
-  | 'contact_form_split'
-  | 'faq_accordion_grouped'
-  | 'team_cards_centered'
-  | 'team_bio_grid'
-  | 'gallery_masonry_3col'
-  | 'nav_sticky_blur'
-  | 'nav_light_clean'
-  | 'content_legal_centered';
+export { KNOWN_BLUEPRINT_KEYS } from './blueprint-keys.generated';
+export type { KnownBlueprintKey };
 
 /**
  * Blueprint keys that have a shipped Astro component wired into the
@@ -58,33 +40,22 @@ export type KnownBlueprintKey =
  * The portal generation preflight (#621) reads it to warn when a generated
  * key is known-but-unwired (renders as fallback).
  *
- * Kept honest two ways, both on pre-push (`npm run validate`):
- *   - `satisfies readonly KnownBlueprintKey[]` (tsc) — every wired key is a
- *     real blueprint key.
- *   - `scripts/validate-blueprints.mjs` — this list, the dispatcher's
- *     `BLUEPRINT_REGISTRY` keys, and library.json's active keys must agree.
+ * Generated from the registry itself, so it can't drift from it;
+ * `REACT_WIRED_BLUEPRINT_KEYS` is the same list for the React registry.
+ * `manifest/blueprint-wiring.json` shows both side by side per key, and
+ * `npm run typegen:blueprints:check` fails when any of it is stale.
  *
- * When a blueprint component ships: add it to `BLUEPRINT_REGISTRY` AND append
- * its key here in the same PR.
+ * When a blueprint component ships: add it to `BLUEPRINT_REGISTRY` and
+ * regenerate.
  */
-export const WIRED_BLUEPRINT_KEYS = [
-  'hero_split_60_40',
-  'hero_split_image_card_overlay',
-  'hero_interior_minimal',
-  'stats_dark_bar',
-  'services_detail_two_column',
-  'services_3col_card_grid',
-  'support_plan_callout_split',
-  'features_3col_branded_dark',
-  'about_story_split',
-  'testimonials_featured_large',
-  'cta_split_contact',
-  'cta_dark_centered',
-] as const satisfies readonly KnownBlueprintKey[];
+export { WIRED_BLUEPRINT_KEYS, REACT_WIRED_BLUEPRINT_KEYS };
 
 /** A `KnownBlueprintKey` with a shipped component (∈ `WIRED_BLUEPRINT_KEYS`). */
 export type WiredBlueprintKey = (typeof WIRED_BLUEPRINT_KEYS)[number];
 
+/** A `KnownBlueprintKey` with a shipped React renderer (∈ `REACT_WIRED_BLUEPRINT_KEYS`). */
+export type ReactWiredBlueprintKey = (typeof REACT_WIRED_BLUEPRINT_KEYS)[number];
+
 /**
  * Optional CTA button size. Mirrors the `Button` `size` union (inlined so
  * this contract stays framework-agnostic). Omitted → the blueprint's own
@@ -173,6 +144,17 @@ export interface BlueprintSection {
     readonly audience?: 'brand' | 'marketing' | 'information' | 'product' | 'back-office' | 'service';
     /** Alt text for `imageUrl`. Defaults to empty (decorative) when omitted. */
     readonly imageAlt?: string;
+    /**
+     * Group label for blueprints that cluster their items — the question
+     * category in `faq_accordion_grouped`. Items sharing a label render
+     * together, in first-seen order; ungrouped items form one untitled group.
+     */
+    readonly group?: string;
+    /**
+     * Secondary attribution line — the job title in `team_bio_grid`, the
+     * author's role/company in `testimonials_3col_cards`.
+     */
+    readonly role?: string;
   }[];
   readonly cta: BlueprintCta | null;
   /**
@@ -379,3 +361,52 @@ export interface BlueprintProps {
   readonly clientFacts: ClientFacts;
   readonly theme: ResolvedTheme;
 }
+
+// ── Per-blueprint facts refinement ──────────────────────────────
+
+/**
+ * Each blueprint's `required_facts` (docs/BLUEPRINTS-ASTRO-PACKAGE.md
+ * §2.4), generated from the library. Fact ids are snake_case; each maps
+ * to its `ClientFacts` field via `REQUIRED_FACT_FIELDS`.
+ */
+export { BLUEPRINT_REQUIRED_FACTS, REQUIRED_FACT_FIELDS };
+
+/** The library fact ids blueprint `K` requires — `never` when none. */
+export type RequiredFactOf<K extends KnownBlueprintKey> = (typeof BLUEPRINT_REQUIRED_FACTS)[K][number];
+
+type FactField<F extends keyof typeof REQUIRED_FACT_FIELDS> = (typeof REQUIRED_FACT_FIELDS)[F];
+
+/**
+ * `ClientFacts` with blueprint `K`'s required facts present and non-null.
+ * `ClientFactsFor<'hero_split_60_40'>` narrows `heroImageUrl` to `string`,
+ * so handing it a profile whose `heroImageUrl` may be null is a compile
+ * error until the scaffold has checked (see `hasRequiredFacts`).
+ */
+export type ClientFactsFor<K extends KnownBlueprintKey> = ClientFacts & {
+  readonly [F in RequiredFactOf<K> as FactField<F>]-?: NonNullable<ClientFacts[FactField<F>]>;
+};
+
+/** `BlueprintProps` refined for blueprint `K` — its required facts are guaranteed. */
+export type BlueprintPropsFor<K extends KnownBlueprintKey> = Omit<BlueprintProps, 'clientFacts'> & {
+  readonly clientFacts: ClientFactsFor<K>;
+};
+
+/**
+ * The library fact ids blueprint `key` requires that `clientFacts` lacks
+ * (absent, null or blank). The scaffold preflight reports these before
+ * emitting a client repo.
+ */
+export function missingRequiredFacts(key: KnownBlueprintKey, clientFacts: ClientFacts): string[] {
+  return BLUEPRINT_REQUIRED_FACTS[key].filter((fact: keyof typeof REQUIRED_FACT_FIELDS) => {
+    const value = clientFacts[REQUIRED_FACT_FIELDS[fact]];
+    return value === null || value === undefined || (typeof value === 'string' && value.trim() === '');
+  });
+}
+
+/** True when `clientFacts` carries every fact blueprint `key` requires. */
+export function hasRequiredFacts<K extends KnownBlueprintKey>(
+  key: K,
+  clientFacts: ClientFacts,
+): clientFacts is ClientFactsFor<K> {
+  return missingRequiredFacts(key, clientFacts).length === 0;
+}
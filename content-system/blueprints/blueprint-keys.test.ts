@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+
+import libraryJson from '../../blueprints/blueprint-library.json';
+import type { BlueprintLibrary } from './index';
+import {
+  BLUEPRINT_REQUIRED_FACTS,
+  KNOWN_BLUEPRINT_KEYS,
+  REACT_WIRED_BLUEPRINT_KEYS,
+  WIRED_BLUEPRINT_KEYS,
+  hasRequiredFacts,
+  missingRequiredFacts,
+  type BlueprintPropsFor,
+  type ClientFacts,
+} from './astro/types';
+import { INACTIVE_BLUEPRINT_KEYS } from './astro/blueprint-keys.generated';
+import { baseClientFacts, baseTheme } from './react/_fixtures';
+
+const library = libraryJson as BlueprintLibrary;
+const active = library.blueprints.filter((bp) => bp.is_active);
+
+describe('generated blueprint keys', () => {
+  it('lists every active library key and no inactive one', () => {
+    expect([...KNOWN_BLUEPRINT_KEYS]).toEqual(active.map((bp) => bp.key));
+  });
+
+  it('lists every inactive library key separately', () => {
+    expect([...INACTIVE_BLUEPRINT_KEYS]).toEqual(
+      library.blueprints.filter((bp) => !bp.is_active).map((bp) => bp.key),
+    );
+  });
+
+  it('mirrors each blueprint’s required_facts', () => {
+    for (const bp of active) {
+      expect(BLUEPRINT_REQUIRED_FACTS[bp.key as keyof typeof BLUEPRINT_REQUIRED_FACTS]).toEqual(bp.required_facts);
+    }
+  });
+
+  it('only wires known keys', () => {
+    const known = new Set<string>(KNOWN_BLUEPRINT_KEYS);
+    expect([...WIRED_BLUEPRINT_KEYS, ...REACT_WIRED_BLUEPRINT_KEYS].every((key) => known.has(key))).toBe(true);
+  });
+});
+
+describe('required facts', () => {
+  const facts: ClientFacts = {
+    ...baseClientFacts,
+    phone: '(541) 555-0142',
+    email: '  ',
+    heroImageUrl: null,
+  };
+
+  it('reports missing, null and blank facts by library id', () => {
+    expect(missingRequiredFacts('hero_split_60_40', facts)).toEqual(['hero_image_url']);
+    expect(missingRequiredFacts('cta_split_contact', facts)).toEqual(['email']);
+    expect(missingRequiredFacts('contact_form_split', facts)).toEqual(['email', 'address']);
+    expect(missingRequiredFacts('cta_dark_centered', facts)).toEqual([]);
+  });
+
+  it('narrows ClientFacts for the refined props once the facts are present', () => {
+    const renderHero = (props: BlueprintPropsFor<'hero_split_60_40'>) => props.clientFacts.heroImageUrl.length;
+    const section = { sectionKey: 'hero' } as BlueprintPropsFor<'hero_split_60_40'>['section'];
+
+    // Type-level only (never called): heroImageUrl may be null on plain ClientFacts.
+    // @ts-expect-error — ClientFacts isn't ClientFactsFor<'hero_split_60_40'>.
+    expect(() => renderHero({ section, clientFacts: facts, theme: baseTheme })).toBeTypeOf('function');
+
+    const withImage: ClientFacts = { ...facts, heroImageUrl: '/hero.jpg' };
+    expect(hasRequiredFacts('hero_split_60_40', facts)).toBe(false);
+    if (!hasRequiredFacts('hero_split_60_40', withImage)) throw new Error('expected the hero image fact');
+    expect(renderHero({ section, clientFacts: withImage, theme: baseTheme })).toBe(9);
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+
+import { composePage } from './index';
+import type { BlueprintSection, KnownBlueprintKey } from './astro/types';
+import { smallBusiness } from '../industries';
+import { resolveClientContent } from '../profile';
+
+function section(sectionKey: string, blueprintKey: KnownBlueprintKey | null): BlueprintSection {
+  return {
+    sectionKey,
+    sectionType: sectionKey,
+    heading: sectionKey,
+    subheading: null,
+    body: null,
+    items: [],
+    cta: null,
+    visualNotes: blueprintKey
+      ? {
+          blueprintKey,
+          moodKeywords: ['warm'],
+          layoutBlueprint: blueprintKey,
+          imageOpportunity: null,
+          animationSuggestion: null,
+          illustrationOpportunity: null,
+        }
+      : null,
+  };
+}
+
+const contactSections = [
+  section('hero', 'hero_interior_minimal'),
+  section('contact', 'cta_split_contact'),
+];
+
+describe('composePage — precedence', () => {
+  it('keys content to the pack composition when there is no override', () => {
+    const page = composePage({ pack: smallBusiness, pageType: 'contact', sections: contactSections });
+    expect(page.compositionSource).toBe('industry');
+    expect(page.blueprintKeys).toEqual(smallBusiness.pageCompositions?.contact.sections);
+    expect(page.sections.map((s) => s.visualNotes?.blueprintKey)).toEqual([
+      'hero_interior_minimal',
+      'cta_split_contact',
+    ]);
+    expect(page.drift).toEqual([]);
+  });
+
+  it('lets the client override win over the pack', () => {
+    const page = composePage({
+      pack: smallBusiness,
+      pageType: 'contact',
+      override: { sections: ['hero_split_60_40', 'cta_dark_centered'] },
+      sections: contactSections,
+    });
+    expect(page.compositionSource).toBe('client');
+    expect(page.sections.map((s) => s.visualNotes?.blueprintKey)).toEqual([
+      'hero_split_60_40',
+      'cta_dark_centered',
+    ]);
+  });
+
+  it('falls through to the pack when the override has no sections', () => {
+    const page = composePage({
+      pack: smallBusiness,
+      pageType: 'contact',
+      override: { sections: [] },
+      sections: contactSections,
+    });
+    expect(page.compositionSource).toBe('industry');
+  });
+
+  it('renders content by its own hints when the page type has no composition', () => {
+    const page = composePage({ pack: smallBusiness, pageType: 'careers', sections: contactSections });
+    expect(page.compositionSource).toBe('content');
+    expect(page.sections).toBe(contactSections);
+    expect(page.blueprintKeys).toEqual([]);
+  });
+
+  it('accepts resolved client content as the pack', () => {
+    const content = resolveClientContent({
+      page_compositions: { contact: { sections: ['hero_split_60_40', 'cta_split_contact'] } },
+    });
+    const page = composePage({ pack: content, pageType: 'contact', sections: contactSections });
+    expect(page.sections[0].visualNotes?.blueprintKey).toBe('hero_split_60_40');
+  });
+});
+
+describe('composePage — slotting and drift', () => {
+  it('reports composition_drift where the content hint disagrees, and the composed key wins', () => {
+    const page = composePage({
+      pack: smallBusiness,
+      pageType: 'contact',
+      sections: [section('hero', 'hero_split_60_40'), section('contact', 'cta_split_contact')],
+    });
+    expect(page.sections[0].visualNotes).toMatchObject({
+      blueprintKey: 'hero_interior_minimal',
+      moodKeywords: ['warm'],
+    });
+    expect(page.drift).toEqual([
+      {
+        source: 'composition_drift',
+        pageType: 'contact',
+        slot: 0,
+        sectionKey: 'hero',
+        composedKey: 'hero_interior_minimal',
+        hintedKey: 'hero_split_60_40',
+      },
+    ]);
+  });
+
+  it('fills visualNotes for sections without hints and does not count them as drift', () => {
+    const page = composePage({
+      pack: smallBusiness,
+      pageType: 'contact',
+      sections: [section('hero', null), section('contact', null)],
+    });
+    expect(page.drift).toEqual([]);
+    expect(page.sections[1].visualNotes).toEqual({
+      blueprintKey: 'cta_split_contact',
+      moodKeywords: [],
+      layoutBlueprint: 'cta_split_contact',
+      imageOpportunity: null,
+      animationSuggestion: null,
+      illustrationOpportunity: null,
+    });
+  });
+
+  it('skips unfilled slots and reports content past the end of the composition', () => {
+    const short = composePage({ pack: smallBusiness, pageType: 'contact', sections: contactSections.slice(0, 1) });
+    expect(short.sections).toHaveLength(1);
+    expect(short.unfilledSlots).toEqual([{ slot: 1, blueprintKey: 'cta_split_contact' }]);
+
+    const extra = section('faq', 'faq_accordion_grouped');
+    const long = composePage({ pack: smallBusiness, pageType: 'contact', sections: [...contactSections, extra] });
+    expect(long.sections).toHaveLength(2);
+    expect(long.unslottedSections).toEqual([extra]);
+  });
+
+  it('tolerates a missing pack', () => {
+    const page = composePage({ pack: null, pageType: 'home', sections: contactSections });
+    expect(page.compositionSource).toBe('content');
+    expect(page.sections).toBe(contactSections);
+  });
+});
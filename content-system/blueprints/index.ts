@@ -9,6 +9,10 @@
  * This module owns the *shape* of the library — vocabularies, schema,
  * bridges. The JSON data itself will ship in `brik-bds/blueprints/`
  * (outside the TS build) and be loaded at runtime by consumers.
+ *
+ * `composePage` (the resolver behind the `<PageComposer>` twins) is
+ * re-exported here so the scaffold task can collect
+ * `composition_drift` rows without a renderer.
  */
 
 export {
@@ -59,4 +63,15 @@ export {
   type BlueprintShortlistProfile,
   type BlueprintShortlistEntry,
   type ResolveBlueprintShortlistOptions,
+  type ShortlistWeights,
 } from './resolver';
+
+export {
+  composePage,
+  type ComposablePack,
+  type ComposablePageComposition,
+  type ComposePageInput,
+  type ComposedPage,
+  type CompositionDrift,
+  type PageCompositionSource,
+} from './astro/compose-page';
@@ -13,8 +13,10 @@
  * reasons since Astro shipped first).
  *
  * Adding a new blueprint = one import + one registry entry here +
- * one barrel export in `./index.ts`. Keep the React registry in
- * lockstep with the Astro registry — both must list the same keys.
+ * one barrel export in `./index.ts`, then `npm run typegen:blueprints`
+ * (regenerates `REACT_WIRED_BLUEPRINT_KEYS`). Keep the React registry
+ * in lockstep with the Astro registry — `manifest/blueprint-wiring.json`
+ * lists any key wired on only one side.
  *
  * ## Contract
  *
@@ -59,6 +61,16 @@ import { ServicesDetailTwoColumn } from './ServicesDetailTwoColumn';
 import { AboutStorySplit } from './AboutStorySplit';
 import { CtaDarkCentered } from './CtaDarkCentered';
 import { CtaSplitContact } from './CtaSplitContact';
+import { NavStickyBlur } from './NavStickyBlur';
+import { FeaturesBentoAsymmetric } from './FeaturesBentoAsymmetric';
+import { StatsDarkBar } from './StatsDarkBar';
+import { Testimonials3ColCards } from './Testimonials3ColCards';
+import { TestimonialsFeaturedLarge } from './TestimonialsFeaturedLarge';
+import { TeamBioGrid } from './TeamBioGrid';
+import { GalleryMasonry3Col } from './GalleryMasonry3Col';
+import { FaqAccordionGrouped } from './FaqAccordionGrouped';
+import { ContactFormSplit } from './ContactFormSplit';
+import { ContentLegalCentered } from './ContentLegalCentered';
 import { BlueprintFallback } from './BlueprintFallback';
 
 const BLUEPRINT_REGISTRY: Partial<
@@ -74,6 +86,16 @@ const BLUEPRINT_REGISTRY: Partial<
   about_story_split: AboutStorySplit,
   cta_dark_centered: CtaDarkCentered,
   cta_split_contact: CtaSplitContact,
+  nav_sticky_blur: NavStickyBlur,
+  features_bento_asymmetric: FeaturesBentoAsymmetric,
+  stats_dark_bar: StatsDarkBar,
+  testimonials_3col_cards: Testimonials3ColCards,
+  testimonials_featured_large: TestimonialsFeaturedLarge,
+  team_bio_grid: TeamBioGrid,
+  gallery_masonry_3col: GalleryMasonry3Col,
+  faq_accordion_grouped: FaqAccordionGrouped,
+  contact_form_split: ContactFormSplit,
+  content_legal_centered: ContentLegalCentered,
 };
 
 interface Props {
@@ -0,0 +1,69 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+
+import { ContactFormSplit } from './ContactFormSplit';
+import type { BlueprintProps } from '../astro/types';
+import { baseTheme, baseClientFacts } from './_fixtures';
+
+const clientFacts: BlueprintProps['clientFacts'] = {
+  ...baseClientFacts,
+  phone: '(555) 123-4567',
+  email: 'hello@acme.test',
+  address: { street: '100 Main Street', city: 'Springfield', state: 'OR', zip: '97477' },
+};
+
+const section: BlueprintProps['section'] = {
+  sectionKey: 'contact-form-split-default',
+  sectionType: 'cta',
+  heading: 'Get in touch',
+  subheading: null,
+  body: 'Send a message and someone on the team replies within one business day.',
+  cta: { label: 'Send message', url: '#' },
+  visualNotes: {
+    blueprintKey: 'contact_form_split',
+    moodKeywords: ['approachable', 'trustworthy'],
+    layoutBlueprint: 'contact_form_split',
+    imageOpportunity: null,
+    animationSuggestion: null,
+    illustrationOpportunity: null,
+  },
+  items: [],
+};
+
+const meta: Meta<typeof ContactFormSplit> = {
+  title: 'Blueprints/contact_form_split',
+  component: ContactFormSplit,
+  tags: ['surface-web'],
+  argTypes: {
+    section: { control: false, description: 'Section content shape — sectionKey, heading, body, cta (submit label), visualNotes. Set in code.' },
+    clientFacts: { control: false, description: 'Site-wide client facts — `phone`, `email`, `address` are required; `contact_form_action` sets the form action. Set in code.' },
+    theme: { control: false, description: 'Theme + archetype config — mode, atmosphere, nav/footer archetype. Set in code.' },
+  },
+  parameters: {
+    layout: 'fullscreen',
+    docs: {
+      description: {
+        component:
+          'Contact details (phone, email, address) beside a `<Form>` with name, email, optional phone and message fields. Posts to `clientFacts.contact_form_action` when set. Missing contact facts render `data-content-needed` stubs.',
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof ContactFormSplit>;
+
+/** @summary Contact details left, message form right */
+export const Default: Story = {
+  args: { section, clientFacts, theme: baseTheme },
+};
+
+/**
+ * A required contact fact that arrives empty renders a
+ * `data-content-needed` stub row instead of the detail — CI grep on
+ * `dist/` blocks publish on it.
+ *
+ * @summary Missing address fact emits a data-content-needed stub
+ */
+export const MissingAddress: Story = {
+  args: { ...Default.args, clientFacts: { ...clientFacts, address: null } },
+};
@@ -0,0 +1,146 @@
+/**
+ * ContactFormSplit — React renderer for the `contact_form_split` blueprint
+ * (`bds-contact-form` section block). Twin of
+ * `../astro/ContactFormSplit.astro`.
+ *
+ * Two columns (45/55, stacked below 992px): contact information on the left —
+ * `h2`, a short reassurance line, then phone / email / address rows — and a
+ * `<Form>` on the right with name, email, optional phone and a message, over
+ * a full-width submit `<Button>`.
+ *
+ *   - section.heading / body   — left-column heading + reassurance line
+ *   - section.cta?.label       — submit label (default `Send message`)
+ *   - clientFacts.phone        — REQUIRED (tel: link)
+ *   - clientFacts.email        — REQUIRED (mailto: link)
+ *   - clientFacts.address      — REQUIRED (one formatted line)
+ *   - clientFacts.contact_form_action? — form `action` (POST); omitted → the
+ *                                form posts to the current page
+ *
+ * required_facts: ['phone', 'email', 'address'] — the scaffold preflight
+ * gates this blueprint before those are populated. A fact that still arrives
+ * empty renders a `data-content-needed` stub in place of its row, matching
+ * `cta_split_contact` — CI grep on `dist/` blocks publish on the stub.
+ *
+ * Slots: bds-contact-form, __container, __info, __title, __description,
+ *   __details, __detail, __detail-label, __detail-value, __form
+ *
+ * @summary Contact section — contact details beside a message form.
+ */
+import { Button, Form, TextArea, TextInput } from '../../../components';
+import type { BlueprintProps, ClientFacts } from '../astro/types';
+import '../section-shell.css';
+import './ContactFormSplit.css';
+
+interface Props extends BlueprintProps {}
+
+/** `street, city, state zip` — null when every part is blank. */
+function formatAddress(address: ClientFacts['address']): string | null {
+  if (!address) return null;
+  const region = [address.state, address.zip].filter(Boolean).join(' ');
+  const line = [address.street, address.city, region].filter(Boolean).join(', ');
+  return line || null;
+}
+
+function ContactDetail({
+  fact,
+  label,
+  value,
+  href,
+}: {
+  fact: string;
+  label: string;
+  value: string | null;
+  href?: string;
+}) {
+  if (!value) {
+    return (
+      <li className="bds-contact-form__detail" data-content-needed={fact} role="presentation">
+        <span className="bds-contact-form__detail-label">{label}</span>
+        <span className="bds-contact-form__detail-value">{label} missing</span>
+      </li>
+    );
+  }
+  return (
+    <li className="bds-contact-form__detail">
+      <span className="bds-contact-form__detail-label">{label}</span>
+      {href ? (
+        <a className="bds-contact-form__detail-value" href={href}>
+          {value}
+        </a>
+      ) : (
+        <span className="bds-contact-form__detail-value">{value}</span>
+      )}
+    </li>
+  );
+}
+
+export function ContactFormSplit({ section, clientFacts }: Props) {
+  const titleId = `${section.sectionKey}-title`;
+  const { phone, email } = clientFacts;
+  const address = formatAddress(clientFacts.address);
+  const action =
+    typeof clientFacts.contact_form_action === 'string' ? clientFacts.contact_form_action : undefined;
+
+  return (
+    <section
+      className="bds-blueprint-section bds-contact-form"
+      data-blueprint-key="contact_form_split"
+      aria-labelledby={titleId}
+    >
+      <div className="bds-blueprint-section__container bds-contact-form__container">
+        <div className="bds-contact-form__info">
+          <h2 id={titleId} className="bds-contact-form__title">
+            {section.heading}
+          </h2>
+          {section.body && <p className="bds-contact-form__description">{section.body}</p>}
+          <ul className="bds-contact-form__details" role="list">
+            <ContactDetail
+              fact="phone"
+              label="Phone"
+              value={phone}
+              href={phone ? `tel:${phone.replace(/[^+\d]/g, '')}` : undefined}
+            />
+            <ContactDetail fact="email" label="Email" value={email} href={email ? `mailto:${email}` : undefined} />
+            <ContactDetail fact="address" label="Address" value={address} />
+          </ul>
+        </div>
+
+        <Form
+          className="bds-contact-form__form"
+          method="post"
+          action={action}
+          aria-labelledby={titleId}
+          footer={
+            <Button type="submit" variant="primary" size="lg" fullWidth>
+              {section.cta?.label ?? 'Send message'}
+            </Button>
+          }
+        >
+          <TextInput size="lg" id={`${section.sectionKey}-name`} name="name" label="Name" autoComplete="name" required fullWidth />
+          <TextInput
+            size="lg"
+            id={`${section.sectionKey}-email`}
+            name="email"
+            type="email"
+            label="Email"
+            autoComplete="email"
+            required
+            fullWidth
+          />
+          <TextInput
+            size="lg"
+            id={`${section.sectionKey}-phone`}
+            name="phone"
+            type="tel"
+            label="Phone (optional)"
+            autoComplete="tel"
+            fullWidth
+          />
+          <TextArea size="lg" id={`${section.sectionKey}-message`} name="message" label="Message" rows={5} required fullWidth />
+        </Form>
+      </div>
+    </section>
+  );
+}
+
+export default ContactFormSplit;
@@ -0,0 +1,82 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+
+import { ContentLegalCentered } from './ContentLegalCentered';
+import type { BlueprintProps } from '../astro/types';
+import { baseTheme, baseClientFacts } from './_fixtures';
+
+const section: BlueprintProps['section'] = {
+  sectionKey: 'legal-privacy',
+  sectionType: 'legal',
+  heading: 'Privacy policy',
+  subheading: 'Last updated 1 March 2026',
+  body: 'This policy explains what information we collect when you visit our website or contact us, and how we use it.\n\nIf you have questions about this policy, contact us using the details on our contact page.',
+  cta: null,
+  visualNotes: {
+    blueprintKey: 'content_legal_centered',
+    moodKeywords: ['quiet', 'readable'],
+    layoutBlueprint: 'content_legal_centered',
+    imageOpportunity: null,
+    animationSuggestion: null,
+    illustrationOpportunity: null,
+  },
+  items: [
+    {
+      title: 'Information we collect',
+      description:
+        'When you submit our contact form we collect your name, email address, phone number and message.\n\nWe also collect basic, anonymised analytics about how pages on this site are used.',
+    },
+    {
+      title: 'How we use your information',
+      description: 'We use your details only to respond to your enquiry and to provide the services you request. We never sell your information.',
+    },
+    {
+      title: 'Your rights',
+      description: 'You may ask us to access, correct or delete the personal information we hold about you at any time.',
+    },
+  ],
+};
+
+const meta: Meta<typeof ContentLegalCentered> = {
+  title: 'Blueprints/content_legal_centered',
+  component: ContentLegalCentered,
+  tags: ['surface-web'],
+  argTypes: {
+    section: { control: false, description: 'Section content shape — sectionKey, heading (page title), subheading (meta line), body (intro), cta, items (subsections: `title` + `description`), visualNotes. Set in code.' },
+    clientFacts: { control: false, description: 'Site-wide client facts (brand, contact, services). Set in code.' },
+    theme: { control: false, description: 'Theme + archetype config — mode, atmosphere, nav/footer archetype. Set in code.' },
+  },
+  parameters: {
+    layout: 'fullscreen',
+    docs: {
+      description: {
+        component:
+          'Centred long-form column for privacy, terms, accessibility and 404 pages. The heading is the page `h1`; each item renders as an `h2` subsection. `body` and item descriptions split into paragraphs on blank lines.',
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof ContentLegalCentered>;
+
+/** @summary Privacy policy with intro and three subsections */
+export const Default: Story = {
+  args: { section, clientFacts: baseClientFacts, theme: baseTheme },
+};
+
+/** @summary Short 404 page with a single return action */
+export const NotFound: Story = {
+  args: {
+    section: {
+      ...section,
+      sectionKey: 'legal-not-found',
+      heading: 'Page not found',
+      subheading: null,
+      body: 'The page you are looking for has moved or no longer exists.',
+      items: [],
+      cta: { label: 'Back to home', url: '/' },
+    },
+    clientFacts: baseClientFacts,
+    theme: baseTheme,
+  },
+};
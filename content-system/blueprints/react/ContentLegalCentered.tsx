@@ -0,0 +1,100 @@
+/**
+ * ContentLegalCentered — React renderer for the `content_legal_centered`
+ * blueprint (`bds-legal` section block). Twin of
+ * `../astro/ContentLegalCentered.astro`.
+ *
+ * Long-form utility page body — privacy policy, terms, accessibility
+ * statement, 404 — in a single centred reading column on a quiet surface.
+ * The section heading is the page's `h1` (these pages carry no hero); each
+ * item is a titled subsection (`h2`). Text is plain: `body` and each
+ * `item.description` split into paragraphs on blank lines. No markup is
+ * interpreted — rendered legal HTML goes through `<LegalDocument>` instead.
+ *
+ *   - section.heading     — page title (`h1`)
+ *   - section.subheading  — muted meta line under the title (e.g. "Last
+ *                           updated 1 March 2026")
+ *   - section.body        — intro paragraphs
+ *   - section.items[]     — subsections: `title` (`h2`) + `description`
+ *   - section.cta?        — optional closing action, the only CTA the
+ *                           layout allows (bottom of the column)
+ *
+ * required_facts: []. Section-driven.
+ *
+ * Slots: bds-legal, __container, __header, __title, __subtitle, __content,
+ *   __subsection, __subsection-title, __paragraph, __actions
+ *
+ * @summary Legal / utility page — centred long-form text column.
+ */
+import { Button } from '../../../components';
+import { isActionCta, type BlueprintProps } from '../astro/types';
+import '../section-shell.css';
+import './ContentLegalCentered.css';
+
+interface Props extends BlueprintProps {}
+
+/** Plain text → paragraphs, split on blank lines. */
+function paragraphs(text: string | null | undefined): string[] {
+  return (text ?? '')
+    .split(/\n\s*\n/)
+    .map((p) => p.trim())
+    .filter(Boolean);
+}
+
+export function ContentLegalCentered({ section }: Props) {
+  const titleId = `${section.sectionKey}-title`;
+  const cta = section.cta;
+
+  return (
+    <section
+      className="bds-blueprint-section bds-legal"
+      data-blueprint-key="content_legal_centered"
+      aria-labelledby={section.heading ? titleId : undefined}
+    >
+      <div className="bds-blueprint-section__container bds-legal__container">
+        {(section.heading || section.subheading) && (
+          <header className="bds-legal__header">
+            {section.heading && (
+              <h1 id={titleId} className="bds-legal__title">
+                {section.heading}
+              </h1>
+            )}
+            {section.subheading && <p className="bds-legal__subtitle">{section.subheading}</p>}
+          </header>
+        )}
+
+        <div className="bds-legal__content">
+          {paragraphs(section.body).map((text, idx) => (
+            <p key={`intro-${idx}`} className="bds-legal__paragraph">
+              {text}
+            </p>
+          ))}
+
+          {section.items.map((item, idx) => (
+            <section key={`${section.sectionKey}-${idx}`} className="bds-legal__subsection">
+              <h2 className="bds-legal__subsection-title">{item.title}</h2>
+              {paragraphs(item.description).map((text, pIdx) => (
+                <p key={pIdx} className="bds-legal__paragraph">
+                  {text}
+                </p>
+              ))}
+            </section>
+          ))}
+        </div>
+
+        {cta && (
+          <div className="bds-legal__actions">
+            <Button
+              {...(isActionCta(cta) ? { onClick: cta.onClick } : { href: cta.url })}
+              variant="secondary"
+              size="md"
+            >
+              {cta.label}
+            </Button>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+}
+
+export default ContentLegalCentered;
@@ -0,0 +1,89 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+
+import { FaqAccordionGrouped } from './FaqAccordionGrouped';
+import type { BlueprintProps } from '../astro/types';
+import { baseTheme, baseClientFacts } from './_fixtures';
+
+const section: BlueprintProps['section'] = {
+  sectionKey: 'faq-grouped-default',
+  sectionType: 'faq',
+  heading: 'Frequently asked questions',
+  subheading: 'FAQ',
+  body: 'Answers to the questions we hear most. Still stuck? Reach out and a real person will help.',
+  cta: null,
+  visualNotes: {
+    blueprintKey: 'faq_accordion_grouped',
+    moodKeywords: ['trustworthy', 'minimal'],
+    layoutBlueprint: 'faq_accordion_grouped',
+    imageOpportunity: null,
+    animationSuggestion: null,
+    illustrationOpportunity: null,
+  },
+  items: [
+    {
+      group: 'Appointments',
+      title: 'How do I book a visit?',
+      description: 'Book online any time, or call during business hours and the front desk will find a slot that works.',
+    },
+    {
+      group: 'Appointments',
+      title: 'What is your cancellation policy?',
+      description: 'Cancel or reschedule at least 24 hours ahead and there is no fee.',
+    },
+    {
+      group: 'Billing',
+      title: 'Which payment methods do you accept?',
+      description: 'All major cards, HSA/FSA cards, and bank transfer for larger invoices.',
+    },
+    {
+      group: 'Billing',
+      title: 'Do you offer payment plans?',
+      description: 'Yes — plans are available for treatments over a set amount. Ask at check-in for details.',
+    },
+  ],
+};
+
+const meta: Meta<typeof FaqAccordionGrouped> = {
+  title: 'Blueprints/faq_accordion_grouped',
+  component: FaqAccordionGrouped,
+  tags: ['surface-web'],
+  argTypes: {
+    section: { control: false, description: 'Section content shape — sectionKey, heading, subheading, body, cta, items (with `group`), visualNotes. Set in code.' },
+    clientFacts: { control: false, description: 'Site-wide client facts (brand, contact, services). Set in code.' },
+    theme: { control: false, description: 'Theme + archetype config — mode, atmosphere, nav/footer archetype. Set in code.' },
+  },
+  parameters: {
+    layout: 'fullscreen',
+    docs: {
+      description: {
+        component:
+          'Centred FAQ section. Items cluster by `item.group` in first-seen order; each named group renders an `h3` label over its own `<Accordion>`. Ungrouped items form one unlabelled accordion.',
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof FaqAccordionGrouped>;
+
+/** @summary Questions grouped by category — one accordion per group */
+export const Default: Story = {
+  args: { section, clientFacts: baseClientFacts, theme: baseTheme },
+};
+
+/**
+ * Items without a `group` collapse into a single unlabelled accordion —
+ * the flat-FAQ case most generated content starts from.
+ *
+ * @summary Ungrouped items render as one flat accordion
+ */
+export const Ungrouped: Story = {
+  args: {
+    ...Default.args,
+    section: {
+      ...section,
+      sectionKey: 'faq-grouped-flat',
+      items: section.items.map(({ title, description }) => ({ title, description })),
+    },
+  },
+};
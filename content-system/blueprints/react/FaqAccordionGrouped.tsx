@@ -0,0 +1,90 @@
+/**
+ * FaqAccordionGrouped — React renderer for the `faq_accordion_grouped`
+ * blueprint (`bds-faq` section block). Twin of
+ * `../astro/FaqAccordionGrouped.astro`.
+ *
+ * Centred section header (eyebrow → `h2` → lead) above a narrowed reading
+ * column of question groups. Items cluster by `item.group` in first-seen
+ * order; each named group gets an `h3` label over its own `<Accordion>`.
+ * Ungrouped items form one unlabelled group, so a flat FAQ renders as a
+ * single accordion with no extra chrome.
+ *
+ *   - item.title        — the question (accordion trigger)
+ *   - item.description  — the answer (accordion panel)
+ *   - item.group?       — the category the question belongs to
+ *
+ * required_facts: []. Section-driven.
+ *
+ * Slots: bds-faq, __header, __subtitle, __title, __description, __groups,
+ *   __group, __group-title, __answer
+ *
+ * Composed with the shared shell (ADR-021): `bds-blueprint-section` on the
+ * root, `bds-blueprint-section__container` on the container.
+ *
+ * @summary FAQ — questions clustered by category, each group an accordion.
+ */
+import { Accordion } from '../../../components';
+import type { BlueprintProps, BlueprintSection } from '../astro/types';
+import '../section-shell.css';
+import './FaqAccordionGrouped.css';
+
+interface Props extends BlueprintProps {}
+
+type FaqItem = BlueprintSection['items'][number];
+
+/** Cluster items by `group`, preserving first-seen order. */
+function groupItems(items: readonly FaqItem[]): { label: string | null; items: FaqItem[] }[] {
+  const groups: { label: string | null; items: FaqItem[] }[] = [];
+  for (const item of items) {
+    const label = item.group?.trim() || null;
+    const existing = groups.find((g) => g.label === label);
+    if (existing) existing.items.push(item);
+    else groups.push({ label, items: [item] });
+  }
+  return groups;
+}
+
+export function FaqAccordionGrouped({ section }: Props) {
+  const titleId = `${section.sectionKey}-title`;
+  const groups = groupItems(section.items);
+
+  return (
+    <section
+      className="bds-blueprint-section bds-faq"
+      data-blueprint-key="faq_accordion_grouped"
+      aria-labelledby={section.heading ? titleId : undefined}
+    >
+      <div className="bds-blueprint-section__container">
+        {(section.heading || section.subheading || section.body) && (
+          <header className="bds-faq__header">
+            {section.subheading && <p className="bds-faq__subtitle">{section.subheading}</p>}
+            {section.heading && (
+              <h2 id={titleId} className="bds-faq__title">
+                {section.heading}
+              </h2>
+            )}
+            {section.body && <p className="bds-faq__description">{section.body}</p>}
+          </header>
+        )}
+
+        <div className="bds-faq__groups">
+          {groups.map((group, groupIdx) => (
+            <div key={group.label ?? `${section.sectionKey}-ungrouped`} className="bds-faq__group">
+              {group.label && <h3 className="bds-faq__group-title">{group.label}</h3>}
+              <Accordion
+                allowMultiple
+                items={group.items.map((item, idx) => ({
+                  id: `${section.sectionKey}-${groupIdx}-${idx}`,
+                  title: item.title,
+                  content: <p className="bds-faq__answer">{item.description}</p>,
+                }))}
+              />
+            </div>
+          ))}
+        </div>
+      </div>
+    </section>
+  );
+}
+
+export default FaqAccordionGrouped;
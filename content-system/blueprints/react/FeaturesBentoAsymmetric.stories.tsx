@@ -0,0 +1,74 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+
+import { FeaturesBentoAsymmetric } from './FeaturesBentoAsymmetric';
+import type { BlueprintProps } from '../astro/types';
+import { baseTheme, baseClientFacts, placeholderImage } from './_fixtures';
+
+const section: BlueprintProps['section'] = {
+  sectionKey: 'features-bento-default',
+  sectionType: 'features',
+  heading: 'Everything under one roof',
+  subheading: 'Why us',
+  body: 'A short lead that frames the tiles below.',
+  cta: null,
+  visualNotes: {
+    blueprintKey: 'features_bento_asymmetric',
+    moodKeywords: ['bold', 'modern'],
+    layoutBlueprint: 'features_bento_asymmetric',
+    imageOpportunity: 'photography per tile',
+    animationSuggestion: null,
+    illustrationOpportunity: null,
+  },
+  items: [
+    {
+      title: 'Designed around the way you live',
+      description: 'The featured tile spans both rows on desktop.',
+      imageUrl: placeholderImage(900, 900, '#d9e4dd', '#3c5a47', 'Featured'),
+      href: '#',
+    },
+    {
+      title: 'Local crews',
+      description: 'Every project run by our own team.',
+      imageUrl: placeholderImage(600, 450, '#e4dcd9', '#5a443c', 'Photo'),
+    },
+    { title: '98%', description: 'of clients would hire us again.' },
+    {
+      title: 'Fixed quotes',
+      description: 'The price we agree is the price you pay.',
+      imageUrl: placeholderImage(600, 450, '#d9dde4', '#3c475a', 'Photo'),
+    },
+    {
+      title: 'Ten-year warranty',
+      description: 'Workmanship covered long after we leave.',
+      imageUrl: placeholderImage(600, 450, '#e4e1d9', '#5a523c', 'Photo'),
+    },
+  ],
+};
+
+const meta: Meta<typeof FeaturesBentoAsymmetric> = {
+  title: 'Blueprints/features_bento_asymmetric',
+  component: FeaturesBentoAsymmetric,
+  tags: ['surface-web'],
+  argTypes: {
+    section: { control: false, description: 'Section content shape — sectionKey, heading, subheading, body, cta, items, visualNotes. Set in code.' },
+    clientFacts: { control: false, description: 'Site-wide client facts (brand, contact, services). Set in code.' },
+    theme: { control: false, description: 'Theme + archetype config — mode, atmosphere, nav/footer archetype. Set in code.' },
+  },
+  parameters: {
+    layout: 'fullscreen',
+    docs: {
+      description: {
+        component:
+          'Asymmetric bento grid (`2fr 1fr 1fr` on desktop). The first item is the featured tile and spans both rows. Items with `imageUrl` render as photo tiles with text over a gradient; items without render as solid brand tiles whose title reads as a large stat.',
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof FeaturesBentoAsymmetric>;
+
+/** @summary Featured photo tile, three photo tiles and one stat tile */
+export const Default: Story = {
+  args: { section, clientFacts: baseClientFacts, theme: baseTheme },
+};
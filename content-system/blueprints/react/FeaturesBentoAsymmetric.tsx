@@ -0,0 +1,86 @@
+/**
+ * FeaturesBentoAsymmetric — React renderer for the `features_bento_asymmetric`
+ * blueprint (`bds-bento` section block). Twin of
+ * `../astro/FeaturesBentoAsymmetric.astro`.
+ *
+ * Section header above an asymmetric bento grid (`2fr 1fr 1fr` from 992px):
+ * the first item is the featured tile and spans both rows; the rest fill the
+ * remaining cells. A tile with `imageUrl` is a photo `<Card>` with its text
+ * over a bottom gradient; a tile without one is a solid brand `<Card>` whose
+ * title reads as the big stat/headline (library layout_spec "stat card").
+ *
+ *   - item.title        — tile title (`h3`) / the stat on a solid tile
+ *   - item.description  — supporting line
+ *   - item.imageUrl?    — photo; omitted → solid brand tile
+ *   - item.imageAlt?    — photo alt (decorative when omitted)
+ *   - item.href?        — makes the whole tile a link
+ *
+ * `bds-bento` is its own block, not a `bds-features` layout modifier: the
+ * two share no slots, and ADR-008 §3 keeps layout words out of class names.
+ *
+ * required_facts: []. Section-driven.
+ *
+ * Slots: bds-bento, __header, __subtitle, __title, __description, __grid,
+ *   __item, __card, __image, __content, __card-title, __card-description
+ *
+ * @summary Bento grid — a featured tile beside a mosaic of photo and stat tiles.
+ */
+import { Card, Image } from '../../../components';
+import { bdsClass } from '../../../components/utils';
+import type { BlueprintProps } from '../astro/types';
+import '../section-shell.css';
+import './FeaturesBentoAsymmetric.css';
+
+interface Props extends BlueprintProps {}
+
+export function FeaturesBentoAsymmetric({ section }: Props) {
+  const titleId = `${section.sectionKey}-title`;
+
+  return (
+    <section
+      className="bds-blueprint-section bds-bento"
+      data-blueprint-key="features_bento_asymmetric"
+      aria-labelledby={section.heading ? titleId : undefined}
+    >
+      <div className="bds-blueprint-section__container">
+        {(section.heading || section.subheading || section.body) && (
+          <header className="bds-bento__header">
+            {section.subheading && <p className="bds-bento__subtitle">{section.subheading}</p>}
+            {section.heading && (
+              <h2 id={titleId} className="bds-bento__title">
+                {section.heading}
+              </h2>
+            )}
+            {section.body && <p className="bds-bento__description">{section.body}</p>}
+          </header>
+        )}
+
+        <ul className="bds-bento__grid" role="list">
+          {section.items.map((item, idx) => (
+            <li
+              key={`${section.sectionKey}-${idx}`}
+              className={bdsClass('bds-bento__item', idx === 0 && 'bds-bento__item--featured')}
+            >
+              <Card
+                variant={item.imageUrl ? 'borderless' : 'brand'}
+                padding="none"
+                href={item.href}
+                className={bdsClass('bds-bento__card', item.imageUrl ? 'bds-bento__card--media' : undefined)}
+              >
+                {item.imageUrl && (
+                  <Image className="bds-bento__image" src={item.imageUrl} alt={item.imageAlt ?? ''} />
+                )}
+                <div className="bds-bento__content">
+                  <h3 className="bds-bento__card-title">{item.title}</h3>
+                  {item.description && <p className="bds-bento__card-description">{item.description}</p>}
+                </div>
+              </Card>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </section>
+  );
+}
+
+export default FeaturesBentoAsymmetric;
@@ -0,0 +1,58 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+
+import { GalleryMasonry3Col } from './GalleryMasonry3Col';
+import type { BlueprintProps } from '../astro/types';
+import { baseTheme, baseClientFacts, placeholderImage } from './_fixtures';
+
+const section: BlueprintProps['section'] = {
+  sectionKey: 'gallery-masonry-default',
+  sectionType: 'gallery',
+  heading: 'Recent work',
+  subheading: 'Portfolio',
+  body: 'A selection of finished projects, photographed on site.',
+  cta: null,
+  visualNotes: {
+    blueprintKey: 'gallery_masonry_3col',
+    moodKeywords: ['modern', 'warm'],
+    layoutBlueprint: 'gallery_masonry_3col',
+    imageOpportunity: 'project photography',
+    animationSuggestion: 'hover zoom',
+    illustrationOpportunity: null,
+  },
+  items: [
+    { title: 'Lakeside kitchen', description: 'Residential', imageUrl: placeholderImage(600, 800, '#d9e4dd', '#3c5a47', '3:4') },
+    { title: 'Downtown loft', description: 'Commercial', imageUrl: placeholderImage(800, 600, '#e4dcd9', '#5a443c', '4:3') },
+    { title: 'Garden studio', description: 'Residential', imageUrl: placeholderImage(600, 600, '#d9dde4', '#3c475a', '1:1') },
+    { title: 'Harbor office', description: 'Commercial', imageUrl: placeholderImage(600, 900, '#e4e1d9', '#5a523c', '2:3') },
+    { title: 'Hillside retreat', description: 'Hospitality', imageUrl: placeholderImage(800, 500, '#dde4d9', '#475a3c', '16:10') },
+    { title: 'Corner café', description: 'Hospitality', imageUrl: placeholderImage(600, 750, '#e4d9e1', '#5a3c52', '4:5') },
+  ],
+};
+
+const meta: Meta<typeof GalleryMasonry3Col> = {
+  title: 'Blueprints/gallery_masonry_3col',
+  component: GalleryMasonry3Col,
+  tags: ['surface-web'],
+  argTypes: {
+    section: { control: false, description: 'Section content shape — sectionKey, heading, subheading, body, cta, items (photo, title, label), visualNotes. Set in code.' },
+    clientFacts: { control: false, description: 'Site-wide client facts (brand, contact, services). Set in code.' },
+    theme: { control: false, description: 'Theme + archetype config — mode, atmosphere, nav/footer archetype. Set in code.' },
+  },
+  parameters: {
+    layout: 'fullscreen',
+    docs: {
+      description: {
+        component:
+          'Masonry of photographs (CSS columns, 1 → 2 → 3) that keeps each image\'s natural aspect ratio. Hovering a tile zooms the photo and fades in its caption — `item.description` as the small label, `item.title` as the title.',
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof GalleryMasonry3Col>;
+
+/** @summary Six mixed-ratio photos interlocking across three columns */
+export const Default: Story = {
+  args: { section, clientFacts: baseClientFacts, theme: baseTheme },
+};
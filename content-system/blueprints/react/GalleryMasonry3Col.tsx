@@ -0,0 +1,75 @@
+/**
+ * GalleryMasonry3Col — React renderer for the `gallery_masonry_3col`
+ * blueprint (`bds-gallery` section block). Twin of
+ * `../astro/GalleryMasonry3Col.astro`.
+ *
+ * Left-aligned section header above a masonry of photographs. Masonry is
+ * CSS multi-column layout (1 → 2 → 3 columns), so each `<Image>` keeps its
+ * natural aspect ratio and the mixed heights interlock — no ratio is forced.
+ * Hovering a tile scales the photo and fades in a caption overlay.
+ *
+ *   - item.imageUrl     — the photo (items without one are skipped)
+ *   - item.imageAlt?    — alt text; defaults to `item.title`
+ *   - item.title        — caption title
+ *   - item.description  — optional small uppercase label above the title
+ *
+ * required_facts: []. Section-driven.
+ *
+ * Slots: bds-gallery, __header, __subtitle, __title, __description, __grid,
+ *   __item, __image, __caption, __label, __caption-title
+ *
+ * @summary Gallery — masonry of photographs with hover captions.
+ */
+import { Image } from '../../../components';
+import type { BlueprintProps } from '../astro/types';
+import '../section-shell.css';
+import './GalleryMasonry3Col.css';
+
+interface Props extends BlueprintProps {}
+
+export function GalleryMasonry3Col({ section }: Props) {
+  const titleId = `${section.sectionKey}-title`;
+  const photos = section.items.filter((item) => item.imageUrl);
+
+  return (
+    <section
+      className="bds-blueprint-section bds-gallery"
+      data-blueprint-key="gallery_masonry_3col"
+      aria-labelledby={section.heading ? titleId : undefined}
+    >
+      <div className="bds-blueprint-section__container">
+        {(section.heading || section.subheading || section.body) && (
+          <header className="bds-gallery__header">
+            {section.subheading && <p className="bds-gallery__subtitle">{section.subheading}</p>}
+            {section.heading && (
+              <h2 id={titleId} className="bds-gallery__title">
+                {section.heading}
+              </h2>
+            )}
+            {section.body && <p className="bds-gallery__description">{section.body}</p>}
+          </header>
+        )}
+
+        <ul className="bds-gallery__grid" role="list">
+          {photos.map((item, idx) => (
+            <li key={`${section.sectionKey}-${idx}`} className="bds-gallery__item">
+              <Image
+                className="bds-gallery__image"
+                src={item.imageUrl as string}
+                alt={item.imageAlt ?? item.title}
+                caption={
+                  <>
+                    {item.description && <span className="bds-gallery__label">{item.description}</span>}
+                    <span className="bds-gallery__caption-title">{item.title}</span>
+                  </>
+                }
+              />
+            </li>
+          ))}
+        </ul>
+      </div>
+    </section>
+  );
+}
+
+export default GalleryMasonry3Col;
@@ -0,0 +1,73 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+
+import { NavStickyBlur } from './NavStickyBlur';
+import type { BlueprintProps } from '../astro/types';
+import { baseTheme, baseClientFacts, placeholderImage } from './_fixtures';
+
+const section: BlueprintProps['section'] = {
+  sectionKey: 'nav-sticky-blur-default',
+  sectionType: 'nav',
+  heading: null,
+  subheading: null,
+  body: null,
+  cta: { label: 'Book a visit', url: '/contact' },
+  visualNotes: {
+    blueprintKey: 'nav_sticky_blur',
+    moodKeywords: ['modern', 'bold'],
+    layoutBlueprint: 'nav_sticky_blur',
+    imageOpportunity: null,
+    animationSuggestion: null,
+    illustrationOpportunity: null,
+  },
+  items: [
+    { title: 'Services', description: '', href: '/services' },
+    { title: 'About', description: '', href: '/about' },
+    { title: 'Reviews', description: '', href: '/reviews' },
+    { title: 'Contact', description: '', href: '/contact' },
+  ],
+};
+
+const meta: Meta<typeof NavStickyBlur> = {
+  title: 'Blueprints/nav_sticky_blur',
+  component: NavStickyBlur,
+  tags: ['surface-web'],
+  argTypes: {
+    section: { control: false, description: 'Section content shape — items (nav links: `title` + `href`), cta (header action), visualNotes. Heading and body are not rendered. Set in code.' },
+    clientFacts: { control: false, description: 'Site-wide client facts — `logoUrl` and `brandName` drive the logo. Set in code.' },
+    theme: { control: false, description: 'Theme + archetype config — mode, atmosphere, nav/footer archetype. Set in code.' },
+  },
+  parameters: {
+    layout: 'fullscreen',
+    docs: {
+      description: {
+        component:
+          'Dark translucent `<TopNavigation sticky>` with a backdrop blur. Items become the nav links and `section.cta` the primary action. Without `clientFacts.logoUrl` the brand name renders as text.',
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof NavStickyBlur>;
+
+/** @summary Brand-name logo, four links and a CTA */
+export const Default: Story = {
+  args: { section, clientFacts: baseClientFacts, theme: baseTheme },
+};
+
+/** @summary Image logo over scrolling content to show the blur */
+export const WithLogoOverContent: Story = {
+  args: {
+    section,
+    clientFacts: { ...baseClientFacts, logoUrl: placeholderImage(144, 36, '#ffffff', '#0a0d14', 'Logo') },
+    theme: baseTheme,
+  },
+  decorators: [
+    (Story) => (
+      <div style={{ height: 480, overflow: 'auto' }}>
+        <Story />
+        <img src={placeholderImage(1440, 960, '#e07a5f', '#ffffff', 'Page content')} alt="" style={{ display: 'block', width: '100%' }} />
+      </div>
+    ),
+  ],
+};
@@ -0,0 +1,69 @@
+/**
+ * NavStickyBlur — React renderer for the `nav_sticky_blur` blueprint
+ * (`bds-site-nav` block). Twin of `../astro/NavStickyBlur.astro`.
+ *
+ * A dark, translucent top bar that sticks to the viewport and blurs the page
+ * scrolling beneath it. Composes `<TopNavigation sticky>`; the blueprint only
+ * re-skins it — translucent inverse surface, backdrop blur, hairline rule,
+ * muted-inverse links. Unlike the section families it is a `<nav>` landmark,
+ * not a `bds-blueprint-section`, so it carries no section rhythm.
+ *
+ *   - clientFacts.logoUrl  — logo image (36px tall); falls back to
+ *                            `clientFacts.brandName` as text
+ *   - section.items[]      — nav links: `title` → label, `href` → target
+ *                            (`#` when omitted)
+ *   - section.cta?         — primary action at the right edge
+ *
+ * `heading`/`subheading`/`body` are not rendered — a nav bar has no prose.
+ *
+ * required_facts: []. Section-driven; the brand name is always present.
+ *
+ * Library layout_spec asks for `position: fixed`; sticky is used instead so
+ * the bar never covers the first section's top edge, which fixed would do
+ * without every page reserving a matching offset.
+ *
+ * @summary Sticky nav bar with dark translucent blurred background.
+ */
+import { Button, TopNavigation } from '../../../components';
+import { isActionCta, type BlueprintProps } from '../astro/types';
+import './NavStickyBlur.css';
+
+interface Props extends BlueprintProps {}
+
+export function NavStickyBlur({ section, clientFacts }: Props) {
+  const cta = section.cta;
+
+  const logo = (
+    <a className="bds-site-nav__brand" href="/" aria-label={`${clientFacts.brandName} home`}>
+      {clientFacts.logoUrl ? (
+        <img className="bds-site-nav__logo" src={clientFacts.logoUrl} alt={clientFacts.brandName} />
+      ) : (
+        <span className="bds-site-nav__brand-name">{clientFacts.brandName}</span>
+      )}
+    </a>
+  );
+
+  return (
+    <TopNavigation
+      className="bds-site-nav"
+      data-blueprint-key="nav_sticky_blur"
+      aria-label="Primary"
+      sticky
+      logo={logo}
+      links={section.items.map((item) => ({ label: item.title, href: item.href ?? '#' }))}
+      actions={
+        cta ? (
+          <Button
+            {...(isActionCta(cta) ? { onClick: cta.onClick } : { href: cta.url })}
+            variant="primary"
+            size="sm"
+          >
+            {cta.label}
+          </Button>
+        ) : undefined
+      }
+    />
+  );
+}
+
+export default NavStickyBlur;
@@ -0,0 +1,99 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+
+import { PageComposer } from './PageComposer';
+import { baseClientFacts, baseTheme } from './_fixtures';
+import type { BlueprintSection, KnownBlueprintKey } from '../astro/types';
+import { smallBusiness } from '../../industries';
+
+function visualNotes(blueprintKey: KnownBlueprintKey): BlueprintSection['visualNotes'] {
+  return {
+    blueprintKey,
+    moodKeywords: ['trustworthy'],
+    layoutBlueprint: blueprintKey,
+    imageOpportunity: null,
+    animationSuggestion: null,
+    illustrationOpportunity: null,
+  };
+}
+
+/** Generated content for the small-business `contact` page, in slot order. */
+const contactSections: readonly BlueprintSection[] = [
+  {
+    sectionKey: 'contact-hero',
+    sectionType: 'hero',
+    heading: 'Get in touch',
+    subheading: 'Contact',
+    body: 'Questions, quotes or a quick hello — we answer every message within one business day.',
+    items: [],
+    cta: null,
+    // Content generation suggested a split hero; the pack declares the
+    // interior hero for this slot, so the pack wins and drift is reported.
+    visualNotes: visualNotes('hero_split_60_40'),
+  },
+  {
+    sectionKey: 'contact-cta',
+    sectionType: 'cta',
+    heading: 'Talk to a real person',
+    subheading: null,
+    body: 'Call, email or stop by the shop — whichever is easiest for you.',
+    items: [],
+    cta: { label: 'Send a message', url: '#contact' },
+    visualNotes: visualNotes('cta_split_contact'),
+  },
+];
+
+const meta: Meta<typeof PageComposer> = {
+  title: 'Blueprints/page_composer',
+  component: PageComposer,
+  tags: ['surface-web'],
+  argTypes: {
+    pack: { control: false, description: 'Industry pack (or resolved client content) supplying `pageCompositions`. Set in code.' },
+    pageType: { control: 'text', description: 'Key into `pack.pageCompositions`.' },
+    override: { control: 'object', description: 'Client override for this page — `{ sections: BlueprintKey[] }`. Wins over the pack.' },
+    sections: { control: false, description: 'Generated content for the page, in slot order. Set in code.' },
+    clientFacts: { control: false, description: 'Site-wide client facts (brand, contact, services). Set in code.' },
+    theme: { control: false, description: 'Theme + archetype config — mode, atmosphere, nav/footer archetype. Set in code.' },
+    onDrift: { action: 'composition_drift', description: 'Receives `composition_drift` rows where content hints disagree with the composition.' },
+  },
+  parameters: {
+    layout: 'fullscreen',
+    docs: {
+      description: {
+        component:
+          'Renders a page body from `pack.pageCompositions[pageType]`. A client `override` wins over the pack; the pack wins over each section\'s `visualNotes.blueprintKey` hint. Content fills the composed slots by index and renders through `BlueprintDispatcher`. Hint disagreements are reported to `onDrift` as `composition_drift` rows.',
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof PageComposer>;
+
+/**
+ * The small-business pack's contact composition. The hero slot's content
+ * hinted `hero_split_60_40`; it renders as `hero_interior_minimal` and
+ * `onDrift` receives one row.
+ *
+ * @summary Pack composition — content hint overridden, drift reported
+ */
+export const PackComposition: Story = {
+  args: {
+    pack: smallBusiness,
+    pageType: 'contact',
+    sections: contactSections,
+    clientFacts: baseClientFacts,
+    theme: baseTheme,
+  },
+};
+
+/**
+ * A client override swaps the closing section for the dark centered CTA.
+ *
+ * @summary Client override — wins over the pack
+ */
+export const ClientOverride: Story = {
+  args: {
+    ...PackComposition.args,
+    override: { sections: ['hero_interior_minimal', 'cta_dark_centered'] },
+  },
+};
@@ -0,0 +1,84 @@
+/**
+ * PageComposer (React) — renders a whole page body from an industry
+ * pack's `pageCompositions[pageType]`, the client's per-page override
+ * and the generated content for that page. Twin of
+ * `../astro/PageComposer.astro`.
+ *
+ * Resolution lives in `composePage` (`../astro/compose-page`): the
+ * client override wins over the pack, the pack wins over content's
+ * `visualNotes.blueprintKey` hints, and content fills the composed
+ * slots by index. The composed sections render through
+ * `<BlueprintDispatcher>`, so registry lookup and `<BlueprintFallback>`
+ * behave exactly as they do for a flat `sections` array.
+ *
+ * ## Contract
+ *
+ *   Props:
+ *     - pack          — the client's industry pack (or resolved client content)
+ *     - pageType      — key into `pack.pageCompositions`
+ *     - override      — client override for this page, optional
+ *     - sections      — generated content for the page, in slot order
+ *     - clientFacts   — passed through to every blueprint
+ *     - theme         — passed through to every blueprint
+ *     - onDrift       — receives the `composition_drift` entries, if any
+ *
+ *   Behavior:
+ *     - a slot with no content section is skipped, not rendered hollow
+ *     - content past the end of the composition is not rendered
+ *     - no composition for `pageType` → sections render by their own hints
+ *     - `onDrift` runs during render (server-side for static builds), so
+ *       it must be safe to call more than once — log, don't mutate state
+ */
+import type { BlueprintSection, ClientFacts, ResolvedTheme } from '../astro/types';
+import {
+  composePage,
+  type ComposablePack,
+  type ComposablePageComposition,
+  type CompositionDrift,
+} from '../astro/compose-page';
+
+import { BlueprintDispatcher } from './BlueprintDispatcher';
+
+export interface PageComposerProps {
+  pack: ComposablePack | null | undefined;
+  pageType: string;
+  override?: ComposablePageComposition | null;
+  sections: readonly BlueprintSection[];
+  clientFacts: ClientFacts;
+  theme: ResolvedTheme;
+  onDrift?: (drift: readonly CompositionDrift[]) => void;
+}
+
+/**
+ * PageComposer — renders a page type's composed blueprint sequence with
+ * the generated content slotted in.
+ *
+ * @example
+ * ```tsx
+ * <PageComposer
+ *   pack={dental}
+ *   pageType="home"
+ *   override={profile.page_compositions?.home}
+ *   sections={content.home.sections}
+ *   clientFacts={facts}
+ *   theme={theme}
+ *   onDrift={(rows) => log.push(...rows)}
+ * />
+ * ```
+ */
+export function PageComposer({
+  pack,
+  pageType,
+  override,
+  sections,
+  clientFacts,
+  theme,
+  onDrift,
+}: PageComposerProps) {
+  const page = composePage({ pack, pageType, override, sections });
+  if (onDrift && page.drift.length > 0) onDrift(page.drift);
+
+  return <BlueprintDispatcher sections={page.sections} clientFacts={clientFacts} theme={theme} />;
+}
+
+export default PageComposer;
@@ -0,0 +1,56 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+
+import { StatsDarkBar } from './StatsDarkBar';
+import type { BlueprintProps } from '../astro/types';
+import { baseTheme, baseClientFacts } from './_fixtures';
+
+const section: BlueprintProps['section'] = {
+  sectionKey: 'stats-dark-bar-default',
+  sectionType: 'stats',
+  heading: 'By the numbers',
+  subheading: null,
+  body: null,
+  cta: null,
+  visualNotes: {
+    blueprintKey: 'stats_dark_bar',
+    moodKeywords: ['confident', 'proof'],
+    layoutBlueprint: 'stats_dark_bar',
+    imageOpportunity: null,
+    animationSuggestion: null,
+    illustrationOpportunity: null,
+  },
+  items: [
+    { title: '25+', description: 'Years in practice' },
+    { title: '4,800', description: 'Patients served' },
+    { title: '98%', description: 'Would recommend us' },
+    { title: '3', description: 'Locations' },
+  ],
+};
+
+const meta: Meta<typeof StatsDarkBar> = {
+  title: 'Blueprints/stats_dark_bar',
+  component: StatsDarkBar,
+  tags: ['surface-web'],
+  argTypes: {
+    section: { control: false, description: 'Section content shape — sectionKey, heading (visually hidden region label), items (number as `title`, caption as `description`), visualNotes. Set in code.' },
+    clientFacts: { control: false, description: 'Site-wide client facts (brand, contact, services). Set in code.' },
+    theme: { control: false, description: 'Theme + archetype config — mode, atmosphere, nav/footer archetype. Set in code.' },
+  },
+  parameters: {
+    layout: 'fullscreen',
+    docs: {
+      description: {
+        component:
+          'A dark bar of proof-point stats laid out by `<Grid>`. `item.title` is the number and `item.description` its caption. `section.heading` labels the region for assistive tech and is not shown.',
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof StatsDarkBar>;
+
+/** @summary Four stats in one dark row */
+export const Default: Story = {
+  args: { section, clientFacts: baseClientFacts, theme: baseTheme },
+};
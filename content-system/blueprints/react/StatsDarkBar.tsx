@@ -0,0 +1,58 @@
+/**
+ * StatsDarkBar — React renderer for the `stats_dark_bar` blueprint
+ * (`bds-stats` section block). Twin of `../astro/StatsDarkBar.astro`.
+ *
+ * A row of proof-point stats on a dark surface, laid out by a `<Grid>`
+ * (one column on narrow screens, auto-fit above). Numbers are content, not
+ * decoration — each stat is a list item screen readers read in full.
+ *
+ *   - item.title        — the number or short string
+ *   - item.description  — the caption under it
+ *
+ * `section.heading` names the region through a visually-hidden `h2`; without
+ * one the section falls back to a "Key stats" `aria-label`.
+ *
+ * required_facts: []. Section-driven.
+ *
+ * Slots: bds-stats, __list, __item, __value, __label
+ *
+ * @summary Stats — a dark bar of proof-point numbers.
+ */
+import { Grid } from '../../../components';
+import type { BlueprintProps } from '../astro/types';
+import '../section-shell.css';
+import './StatsDarkBar.css';
+
+interface Props extends BlueprintProps {}
+
+export function StatsDarkBar({ section }: Props) {
+  const titleId = `${section.sectionKey}-title`;
+
+  return (
+    <section
+      className="bds-blueprint-section bds-stats"
+      data-blueprint-key="stats_dark_bar"
+      aria-labelledby={section.heading ? titleId : undefined}
+      aria-label={section.heading ? undefined : 'Key stats'}
+    >
+      <div className="bds-blueprint-section__container">
+        {section.heading && (
+          <h2 id={titleId} className="bds-visually-hidden">
+            {section.heading}
+          </h2>
+        )}
+
+        <Grid as="ul" role="list" columns="auto-fit" minColumnWidth="160px" gap="xl" className="bds-stats__list">
+          {section.items.map((item, idx) => (
+            <li key={`${section.sectionKey}-${idx}`} className="bds-stats__item">
+              <span className="bds-stats__value">{item.title}</span>
+              <span className="bds-stats__label">{item.description}</span>
+            </li>
+          ))}
+        </Grid>
+      </div>
+    </section>
+  );
+}
+
+export default StatsDarkBar;
@@ -0,0 +1,87 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+
+import { TeamBioGrid } from './TeamBioGrid';
+import type { BlueprintProps } from '../astro/types';
+import { baseTheme, baseClientFacts, placeholderImage } from './_fixtures';
+
+const section: BlueprintProps['section'] = {
+  sectionKey: 'team-bio-grid-default',
+  sectionType: 'team',
+  heading: 'Meet the team',
+  subheading: 'Our people',
+  body: 'The people you will see at every visit — trained, certified and glad to help.',
+  cta: null,
+  visualNotes: {
+    blueprintKey: 'team_bio_grid',
+    moodKeywords: ['warm', 'trustworthy'],
+    layoutBlueprint: 'team_bio_grid',
+    imageOpportunity: 'portrait per member',
+    animationSuggestion: null,
+    illustrationOpportunity: null,
+  },
+  items: [
+    {
+      title: 'Jordan Avery',
+      role: 'Founder & Lead Practitioner',
+      description: 'Twenty years in practice and still the first to arrive every morning.',
+      imageUrl: placeholderImage(400, 400, '#d9e4dd', '#3c5a47', 'Portrait'),
+    },
+    {
+      title: 'Sam Okafor',
+      role: 'Operations Manager',
+      description: 'Keeps the schedule running and every patient informed.',
+      imageUrl: placeholderImage(400, 400, '#e4dcd9', '#5a443c', 'Portrait'),
+    },
+    {
+      title: 'Riley Chen',
+      role: 'Client Coordinator',
+      description: 'Your first call, your first visit, and your go-to for questions.',
+      imageUrl: placeholderImage(400, 400, '#d9dde4', '#3c475a', 'Portrait'),
+    },
+  ],
+};
+
+const meta: Meta<typeof TeamBioGrid> = {
+  title: 'Blueprints/team_bio_grid',
+  component: TeamBioGrid,
+  tags: ['surface-web'],
+  argTypes: {
+    section: { control: false, description: 'Section content shape — sectionKey, heading, subheading, body, cta, items (name, `role`, bio, portrait), visualNotes. Set in code.' },
+    clientFacts: { control: false, description: 'Site-wide client facts (brand, contact, services). Set in code.' },
+    theme: { control: false, description: 'Theme + archetype config — mode, atmosphere, nav/footer archetype. Set in code.' },
+  },
+  parameters: {
+    layout: 'fullscreen',
+    docs: {
+      description: {
+        component:
+          'Responsive grid of borderless member cards — circular portrait, name, role and a one-sentence bio. Members without a portrait fall back to an initials `<Avatar>`.',
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof TeamBioGrid>;
+
+/** @summary Three members with portraits */
+export const Default: Story = {
+  args: { section, clientFacts: baseClientFacts, theme: baseTheme },
+};
+
+/**
+ * Members without `imageUrl` render an initials `<Avatar>` at the same
+ * portrait size, so a partially photographed team still lines up.
+ *
+ * @summary Missing portraits fall back to initials avatars
+ */
+export const InitialsFallback: Story = {
+  args: {
+    ...Default.args,
+    section: {
+      ...section,
+      sectionKey: 'team-bio-grid-initials',
+      items: section.items.map(({ imageUrl: _imageUrl, ...item }) => item),
+    },
+  },
+};
@@ -0,0 +1,78 @@
+/**
+ * TeamBioGrid — React renderer for the `team_bio_grid` blueprint
+ * (`bds-team` section block). Twin of `../astro/TeamBioGrid.astro`.
+ *
+ * Section header (eyebrow → `h2` → lead) above a responsive `<Grid>` of
+ * borderless member cards: a circular portrait, the name (`h3`), the role,
+ * and an optional one-sentence bio. White space separates the cards — no
+ * border, no fill (library layout_spec).
+ *
+ *   - item.title        — member name
+ *   - item.role?        — job title / credentials
+ *   - item.description  — short bio (omitted when blank)
+ *   - item.imageUrl?    — portrait; omitted → an initials `<Avatar>`
+ *   - item.imageAlt?    — portrait alt; defaults to the member name
+ *
+ * required_facts: []. Section-driven.
+ *
+ * Slots: bds-team, __header, __subtitle, __title, __description, __grid,
+ *   __item, __card, __portrait, __name, __role, __bio
+ *
+ * @summary Team grid — portrait, name, role and bio per member.
+ */
+import { Avatar, Card, Grid, Image } from '../../../components';
+import type { BlueprintProps } from '../astro/types';
+import '../section-shell.css';
+import './TeamBioGrid.css';
+
+interface Props extends BlueprintProps {}
+
+export function TeamBioGrid({ section }: Props) {
+  const titleId = `${section.sectionKey}-title`;
+
+  return (
+    <section
+      className="bds-blueprint-section bds-team"
+      data-blueprint-key="team_bio_grid"
+      aria-labelledby={section.heading ? titleId : undefined}
+    >
+      <div className="bds-blueprint-section__container">
+        {(section.heading || section.subheading || section.body) && (
+          <header className="bds-team__header">
+            {section.subheading && <p className="bds-team__subtitle">{section.subheading}</p>}
+            {section.heading && (
+              <h2 id={titleId} className="bds-team__title">
+                {section.heading}
+              </h2>
+            )}
+            {section.body && <p className="bds-team__description">{section.body}</p>}
+          </header>
+        )}
+
+        <Grid as="ul" role="list" columns="auto-fit" minColumnWidth="220px" gap="xl" className="bds-team__grid">
+          {section.items.map((item, idx) => (
+            <li key={`${section.sectionKey}-${idx}`} className="bds-team__item">
+              <Card variant="borderless" padding="none" className="bds-team__card">
+                {item.imageUrl ? (
+                  <Image
+                    className="bds-team__portrait"
+                    src={item.imageUrl}
+                    alt={item.imageAlt ?? item.title}
+                    ratio="1-1"
+                  />
+                ) : (
+                  <Avatar className="bds-team__portrait" name={item.title} size="xl" />
+                )}
+                <h3 className="bds-team__name">{item.title}</h3>
+                {item.role && <p className="bds-team__role">{item.role}</p>}
+                {item.description && <p className="bds-team__bio">{item.description}</p>}
+              </Card>
+            </li>
+          ))}
+        </Grid>
+      </div>
+    </section>
+  );
+}
+
+export default TeamBioGrid;
@@ -0,0 +1,67 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+
+import { Testimonials3ColCards } from './Testimonials3ColCards';
+import type { BlueprintProps } from '../astro/types';
+import { baseTheme, baseClientFacts } from './_fixtures';
+
+const section: BlueprintProps['section'] = {
+  sectionKey: 'testimonials-3col-default',
+  sectionType: 'testimonials',
+  heading: 'What our clients say',
+  subheading: 'Reviews',
+  body: null,
+  cta: null,
+  visualNotes: {
+    blueprintKey: 'testimonials_3col_cards',
+    moodKeywords: ['warm', 'trustworthy'],
+    layoutBlueprint: 'testimonials_3col_cards',
+    imageOpportunity: null,
+    animationSuggestion: 'hover lift',
+    illustrationOpportunity: null,
+  },
+  items: [
+    {
+      title: 'Morgan Lee',
+      role: 'Homeowner',
+      description: 'They showed up on time, explained every step, and left the place cleaner than they found it.',
+    },
+    {
+      title: 'Priya Natarajan',
+      role: 'Owner, Corner Café',
+      description: 'Our renovation finished a week early. The team felt like part of our staff by the end.',
+    },
+    {
+      title: 'Dana Flores',
+      role: 'Property Manager',
+      description: 'Clear quotes, no surprises on the invoice. We now send every building their way.',
+    },
+  ],
+};
+
+const meta: Meta<typeof Testimonials3ColCards> = {
+  title: 'Blueprints/testimonials_3col_cards',
+  component: Testimonials3ColCards,
+  tags: ['surface-web'],
+  argTypes: {
+    section: { control: false, description: 'Section content shape — sectionKey, heading, subheading, body, cta, items (quote as `description`, author as `title`, `role`), visualNotes. Set in code.' },
+    clientFacts: { control: false, description: 'Site-wide client facts (brand, contact, services). Set in code.' },
+    theme: { control: false, description: 'Theme + archetype config — mode, atmosphere, nav/footer archetype. Set in code.' },
+  },
+  parameters: {
+    layout: 'fullscreen',
+    docs: {
+      description: {
+        component:
+          'Centred header above a three-up grid of outlined `<Testimonial>` cards. `item.description` is the quote, `item.title` the author and `item.role` their role or company. Cards lift on hover.',
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof Testimonials3ColCards>;
+
+/** @summary Three testimonial cards in one row */
+export const Default: Story = {
+  args: { section, clientFacts: baseClientFacts, theme: baseTheme },
+};
@@ -0,0 +1,70 @@
+/**
+ * Testimonials3ColCards — React renderer for the `testimonials_3col_cards`
+ * blueprint (`bds-testimonials` section block). Twin of
+ * `../astro/Testimonials3ColCards.astro`.
+ *
+ * Centred section header above a responsive `<Grid>` of outlined
+ * `<Testimonial>`s (1 → 3 columns). Cards lift on hover.
+ *
+ *   - item.description  — the quote
+ *   - item.title        — author name
+ *   - item.role?        — author role / company
+ *
+ * No star rating is rendered: `BlueprintSection` items carry no rating, and
+ * a blueprint never invents one.
+ *
+ * required_facts: []. Section-driven.
+ *
+ * Slots: bds-testimonials, __header, __subtitle, __title, __description,
+ *   __grid, __item, __card
+ *
+ * @summary Testimonials — three-up grid of quote cards.
+ */
+import { Grid, Testimonial } from '../../../components';
+import type { BlueprintProps } from '../astro/types';
+import '../section-shell.css';
+import './Testimonials3ColCards.css';
+
+interface Props extends BlueprintProps {}
+
+export function Testimonials3ColCards({ section }: Props) {
+  const titleId = `${section.sectionKey}-title`;
+
+  return (
+    <section
+      className="bds-blueprint-section bds-testimonials"
+      data-blueprint-key="testimonials_3col_cards"
+      aria-labelledby={section.heading ? titleId : undefined}
+    >
+      <div className="bds-blueprint-section__container">
+        {(section.heading || section.subheading || section.body) && (
+          <header className="bds-testimonials__header">
+            {section.subheading && <p className="bds-testimonials__subtitle">{section.subheading}</p>}
+            {section.heading && (
+              <h2 id={titleId} className="bds-testimonials__title">
+                {section.heading}
+              </h2>
+            )}
+            {section.body && <p className="bds-testimonials__description">{section.body}</p>}
+          </header>
+        )}
+
+        <Grid as="ul" role="list" columns="auto-fit" minColumnWidth="280px" gap="lg" className="bds-testimonials__grid">
+          {section.items.map((item, idx) => (
+            <li key={`${section.sectionKey}-${idx}`} className="bds-testimonials__item">
+              <Testimonial
+                className="bds-testimonials__card"
+                variant="outlined"
+                quote={item.description}
+                authorName={item.title}
+                authorRole={item.role}
+              />
+            </li>
+          ))}
+        </Grid>
+      </div>
+    </section>
+  );
+}
+
+export default Testimonials3ColCards;
@@ -0,0 +1,58 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+
+import { TestimonialsFeaturedLarge } from './TestimonialsFeaturedLarge';
+import type { BlueprintProps } from '../astro/types';
+import { baseTheme, baseClientFacts } from './_fixtures';
+
+const section: BlueprintProps['section'] = {
+  sectionKey: 'testimonials-featured-default',
+  sectionType: 'testimonials',
+  heading: 'What clients say',
+  subheading: null,
+  body: null,
+  cta: null,
+  visualNotes: {
+    blueprintKey: 'testimonials_featured_large',
+    moodKeywords: ['warm', 'trustworthy'],
+    layoutBlueprint: 'testimonials_featured_large',
+    imageOpportunity: null,
+    animationSuggestion: null,
+    illustrationOpportunity: null,
+  },
+  items: [
+    {
+      title: 'Priya Natarajan',
+      role: 'Owner, Corner Café',
+      description:
+        'We interviewed four firms. They were the only one that asked how our mornings actually run — and the new site books more tables before 9am than the old one did all week.',
+    },
+  ],
+};
+
+const meta: Meta<typeof TestimonialsFeaturedLarge> = {
+  title: 'Blueprints/testimonials_featured_large',
+  component: TestimonialsFeaturedLarge,
+  tags: ['surface-web'],
+  argTypes: {
+    section: { control: false, description: 'Section content shape — sectionKey, heading (visually hidden region label), items[0] (quote as `description`, author as `title`, `role`), visualNotes. Set in code.' },
+    clientFacts: { control: false, description: 'Site-wide client facts (brand, contact, services). Set in code.' },
+    theme: { control: false, description: 'Theme + archetype config — mode, atmosphere, nav/footer archetype. Set in code.' },
+  },
+  parameters: {
+    layout: 'fullscreen',
+    docs: {
+      description: {
+        component:
+          'One large, centred `<Testimonial>` for the client story that carries the most weight. Only `items[0]` renders — its `description` is the quote, `title` the author and `role` their role or company.',
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof TestimonialsFeaturedLarge>;
+
+/** @summary A single featured quote */
+export const Default: Story = {
+  args: { section, clientFacts: baseClientFacts, theme: baseTheme },
+};
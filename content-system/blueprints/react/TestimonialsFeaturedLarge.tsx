@@ -0,0 +1,60 @@
+/**
+ * TestimonialsFeaturedLarge — React renderer for the
+ * `testimonials_featured_large` blueprint (`bds-testimonials--featured`
+ * layout of the `bds-testimonials` section block). Twin of
+ * `../astro/TestimonialsFeaturedLarge.astro`.
+ *
+ * One large, centred `<Testimonial>` — used when a single client story
+ * carries disproportionate weight. Only the first item renders.
+ *
+ *   - items[0].description  — the quote
+ *   - items[0].title        — attribution (name)
+ *   - items[0].role?        — role / company
+ *
+ * `section.heading` labels the region through a visually-hidden `h2`,
+ * defaulting to "Featured testimonial".
+ *
+ * required_facts: []. Section-driven.
+ *
+ * Slots: bds-testimonials--featured, __feature
+ *
+ * @summary Testimonials — one featured quote, large and centred.
+ */
+import { Testimonial } from '../../../components';
+import type { BlueprintProps } from '../astro/types';
+import '../section-shell.css';
+import './Testimonials3ColCards.css';
+import './TestimonialsFeaturedLarge.css';
+
+interface Props extends BlueprintProps {}
+
+export function TestimonialsFeaturedLarge({ section }: Props) {
+  const titleId = `${section.sectionKey}-title`;
+  const featured = section.items[0];
+
+  return (
+    <section
+      className="bds-blueprint-section bds-testimonials bds-testimonials--featured"
+      data-blueprint-key="testimonials_featured_large"
+      aria-labelledby={titleId}
+    >
+      <div className="bds-blueprint-section__container">
+        <h2 id={titleId} className="bds-visually-hidden">
+          {section.heading ?? 'Featured testimonial'}
+        </h2>
+
+        {featured && (
+          <Testimonial
+            className="bds-testimonials__feature"
+            variant="outlined"
+            quote={featured.description}
+            authorName={featured.title}
+            authorRole={featured.role}
+          />
+        )}
+      </div>
+    </section>
+  );
+}
+
+export default TestimonialsFeaturedLarge;
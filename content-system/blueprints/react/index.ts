@@ -21,6 +21,8 @@
 // ── Contract types — re-exported from the framework-agnostic source ──
 export type {
   KnownBlueprintKey,
+  ClientFactsFor,
+  BlueprintPropsFor,
   BlueprintSection,
   ClientFacts,
   ResolvedThemeMode,
@@ -104,6 +106,46 @@ export { AboutStorySplit } from './AboutStorySplit';
 export { CtaDarkCentered } from './CtaDarkCentered';
 export { CtaSplitContact } from './CtaSplitContact';
 
+// Blueprint renderers composed directly from BDS primitives (Accordion,
+// Card, Grid, Form, Image, TopNavigation, Testimonial). No section-family
+// primitive sits behind them — each is the only renderer for its key.
+export { NavStickyBlur } from './NavStickyBlur';
+export { FeaturesBentoAsymmetric } from './FeaturesBentoAsymmetric';
+export { StatsDarkBar } from './StatsDarkBar';
+export { Testimonials3ColCards } from './Testimonials3ColCards';
+export { TestimonialsFeaturedLarge } from './TestimonialsFeaturedLarge';
+export { TeamBioGrid } from './TeamBioGrid';
+export { GalleryMasonry3Col } from './GalleryMasonry3Col';
+export { FaqAccordionGrouped } from './FaqAccordionGrouped';
+export { ContactFormSplit } from './ContactFormSplit';
+export { ContentLegalCentered } from './ContentLegalCentered';
+
 // ── Dispatch surface ────────────────────────────────────────────
+// `<PageComposer>` resolves a page's section sequence from the pack's
+// `pageCompositions` (client override first) and renders it through
+// `<BlueprintDispatcher>`. The resolver itself is framework-agnostic.
+export { PageComposer } from './PageComposer';
+export type { PageComposerProps } from './PageComposer';
+export { composePage } from '../astro/compose-page';
+export type {
+  ComposablePack,
+  ComposablePageComposition,
+  ComposePageInput,
+  ComposedPage,
+  CompositionDrift,
+  PageCompositionSource,
+} from '../astro/compose-page';
 export { BlueprintDispatcher } from './BlueprintDispatcher';
 export { BlueprintFallback } from './BlueprintFallback';
+
+// ── Static export ───────────────────────────────────────────────
+// `renderBlueprintPageToHtml` renders sections through
+// `<BlueprintDispatcher>` into a self-contained HTML document (tokens,
+// client theme, atmosphere and the used component CSS inlined) — the
+// mockup path, so mockups match what ships.
+export { renderBlueprintPageToHtml, selectUsedCss } from './render-page-to-html';
+export type {
+  BlueprintPageStylesheets,
+  RenderBlueprintPageInput,
+  RenderedBlueprintPage,
+} from './render-page-to-html';
@@ -0,0 +1,334 @@
+/**
+ * renderBlueprintPageToHtml — server-side render of a blueprint page to a
+ * self-contained HTML document, for client mockups.
+ *
+ * Mockups used to be assembled from the library's `html_snippet` /
+ * `css_snippet` strings while real pages render through the React and
+ * Astro components, so the two drifted. This renders the SAME
+ * `<BlueprintDispatcher>` production uses and inlines the same CSS a
+ * consumer site loads, so the mockup markup is byte-identical to the
+ * shipped blueprint.
+ *
+ * ## Cascade
+ *
+ * The document reproduces the consumer cascade from the installation
+ * guide (`docs/getting-started/installation`), one `<style>` per file:
+ *
+ *   @layer bds-tokens, bds-components, client-theme, client-overrides;
+ *   tokens.css         → @layer bds-tokens
+ *   styles.css         → @layer bds-components   (pruned, see below)
+ *   theme-{client}.css → @layer client-theme
+ *   atmosphere CSS     → unlayered (decoration on top)
+ *
+ * `<html>` carries `data-theme` from `theme.themeMode` and
+ * `data-atmosphere`, the same switches a consumer layout sets.
+ *
+ * ## Component CSS
+ *
+ * `stylesheets.components` is the full component bundle
+ * (`@brikdesigns/bds/styles.css`). Only the rules the page can match are
+ * kept: a style rule survives when at least one of its selectors names
+ * only classes present in the rendered markup (selectors without a class
+ * — `:root`, element selectors — always survive). Classes inside
+ * `:not()` / `:is()` / `:where()` / `:has()` are not required, so those
+ * rules are kept conservatively. `@media` / `@supports` / `@layer` /
+ * `@container` blocks are pruned recursively and dropped when empty;
+ * `@keyframes` survive when a kept rule names them, and every other
+ * at-rule (`@font-face`, `@property`, …) is kept as written. Kept rules
+ * are copied verbatim — nothing is rewritten.
+ *
+ * ## Loading the stylesheets
+ *
+ * The function takes CSS as strings so it runs anywhere React renders. On
+ * Node, read them from the installed package:
+ *
+ *   tokens      — `@brikdesigns/bds/tokens.css`
+ *   components  — `@brikdesigns/bds/styles.css`
+ *   atmosphere  — `getAtmosphereImportPath(atmosphere)`
+ *   clientTheme — the client's `theme-{client}.css`, when it has one
+ */
+import { renderToStaticMarkup } from 'react-dom/server';
+
+import type {
+  BlueprintSection,
+  ClientFacts,
+  ResolvedAtmosphere,
+  ResolvedTheme,
+} from '../astro/types';
+import { BlueprintDispatcher } from './BlueprintDispatcher';
+
+/** CSS sources inlined into the document, as file contents. */
+export interface BlueprintPageStylesheets {
+  /** `@brikdesigns/bds/tokens.css`. */
+  readonly tokens: string;
+  /** `@brikdesigns/bds/styles.css` — pruned to the rules the page uses. */
+  readonly components: string;
+  /** CSS for the chosen atmosphere (`none.css` for no decoration). */
+  readonly atmosphere: string;
+  /** The client's `theme-{client}.css` override layer, if any. */
+  readonly clientTheme?: string | null;
+}
+
+export interface RenderBlueprintPageInput {
+  readonly sections: readonly BlueprintSection[];
+  readonly clientFacts: ClientFacts;
+  readonly theme: ResolvedTheme;
+  /**
+   * Atmosphere for the mockup. Defaults to `theme.atmosphere`; when set,
+   * it also replaces `theme.atmosphere` for every blueprint so markup and
+   * CSS agree.
+   */
+  readonly atmosphere?: ResolvedAtmosphere;
+  readonly stylesheets: BlueprintPageStylesheets;
+  /** Document `<title>`. Defaults to `clientFacts.brandName`. */
+  readonly title?: string;
+  /** `<html lang>`. Defaults to `en`. */
+  readonly lang?: string;
+}
+
+export interface RenderedBlueprintPage {
+  /** The complete document, starting with `<!doctype html>`. */
+  readonly html: string;
+  /** Every class name in the rendered markup, sorted — what pruning matched against. */
+  readonly classNames: readonly string[];
+}
+
+/** The consumer layer order — must match the installation guide. */
+const LAYER_ORDER = '@layer bds-tokens, bds-components, client-theme, client-overrides;';
+
+/** At-rules whose block holds rules to prune; any other block at-rule is kept whole. */
+const CONDITIONAL_AT_RULES = new Set(['media', 'supports', 'layer', 'container', 'scope']);
+
+/** Functional pseudo-classes whose argument classes are optional for a match. */
+const FUNCTIONAL_PSEUDO_RE = /:(?:not|is|where|has)\(/gi;
+
+const CLASS_RE = /\.(-?[_a-zA-Z][\w-]*)/g;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Keep inlined CSS from closing its own `<style>` element. */
+function escapeStyle(css: string): string {
+  return css.replace(/<\/style/gi, '<\\/style');
+}
+
+function collectClassNames(markup: string): string[] {
+  const names = new Set<string>();
+  for (const match of markup.matchAll(/\sclass="([^"]*)"/g)) {
+    for (const name of match[1].split(/\s+/)) {
+      if (name) names.add(name);
+    }
+  }
+  return [...names].sort();
+}
+
+/** Drop the arguments of `:not()` / `:is()` / `:where()` / `:has()`. */
+function stripFunctionalPseudos(selector: string): string {
+  let out = '';
+  let last = 0;
+  for (const match of selector.matchAll(FUNCTIONAL_PSEUDO_RE)) {
+    const open = match.index + match[0].length;
+    if (open <= last) continue;
+    let depth = 1;
+    let i = open;
+    while (i < selector.length && depth > 0) {
+      if (selector[i] === '(') depth++;
+      else if (selector[i] === ')') depth--;
+      i++;
+    }
+    out += selector.slice(last, open - 1);
+    last = i;
+  }
+  return out + selector.slice(last);
+}
+
+/** Split on commas outside parentheses and brackets. */
+function splitSelectorList(prelude: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < prelude.length; i++) {
+    const ch = prelude[i];
+    if (ch === '(' || ch === '[') depth++;
+    else if (ch === ')' || ch === ']') depth--;
+    else if (ch === ',' && depth === 0) {
+      parts.push(prelude.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(prelude.slice(start));
+  return parts;
+}
+
+function selectorMatches(prelude: string, used: ReadonlySet<string>): boolean {
+  return splitSelectorList(prelude).some((selector) => {
+    const required = stripFunctionalPseudos(selector.replace(/\[[^\]]*\]/g, ''));
+    for (const match of required.matchAll(CLASS_RE)) {
+      if (!used.has(match[1])) return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Index just past the `}` closing the block opened at `open`, skipping
+ * strings and comments.
+ */
+function blockEnd(css: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < css.length; i++) {
+    const ch = css[i];
+    if (ch === '/' && css[i + 1] === '*') {
+      const close = css.indexOf('*/', i + 2);
+      i = close === -1 ? css.length : close + 1;
+    } else if (ch === '"' || ch === "'") {
+      let j = i + 1;
+      while (j < css.length && css[j] !== ch) j += css[j] === '\\' ? 2 : 1;
+      i = j;
+    } else if (ch === '{') {
+      depth++;
+    } else if (ch === '}') {
+      depth--;
+      if (depth === 0) return i + 1;
+    }
+  }
+  return css.length;
+}
+
+function pruneRules(
+  css: string,
+  used: ReadonlySet<string>,
+  keepKeyframes: (name: string) => boolean,
+): string {
+  const out: string[] = [];
+  let i = 0;
+
+  while (i < css.length) {
+    if (css.startsWith('/*', i)) {
+      const close = css.indexOf('*/', i + 2);
+      i = close === -1 ? css.length : close + 2;
+      continue;
+    }
+    if (/\s/.test(css[i])) {
+      i++;
+      continue;
+    }
+
+    const brace = css.indexOf('{', i);
+    const semi = css.indexOf(';', i);
+    // Statement at-rule (`@layer a, b;`, `@charset …;`) — kept as written.
+    if (semi !== -1 && (brace === -1 || semi < brace)) {
+      out.push(css.slice(i, semi + 1).trim());
+      i = semi + 1;
+      continue;
+    }
+    if (brace === -1) break;
+
+    const end = blockEnd(css, brace);
+    const prelude = css.slice(i, brace).replace(/\/\*[\s\S]*?\*\//g, '').trim();
+    const atRule = prelude.match(/^@([\w-]+)/)?.[1].toLowerCase();
+
+    if (atRule && CONDITIONAL_AT_RULES.has(atRule)) {
+      const inner = pruneRules(css.slice(brace + 1, end - 1), used, keepKeyframes);
+      if (inner) out.push(`${prelude} {\n${inner}\n}`);
+    } else if (atRule?.endsWith('keyframes')) {
+      if (keepKeyframes(prelude.split(/\s+/)[1] ?? '')) out.push(`${prelude} ${css.slice(brace, end)}`);
+    } else if (atRule || selectorMatches(prelude, used)) {
+      out.push(`${prelude} ${css.slice(brace, end)}`);
+    }
+    i = end;
+  }
+
+  return out.join('\n');
+}
+
+/**
+ * Prune a stylesheet to the rules that can match markup using only
+ * `classNames`. Comments are dropped; every kept rule is copied verbatim.
+ */
+export function selectUsedCss(css: string, classNames: Iterable<string>): string {
+  const used = new Set(classNames);
+  // First pass without keyframes: whatever animation names the kept rules
+  // mention decides which keyframes the second pass keeps.
+  const rules = pruneRules(css, used, () => false);
+  return pruneRules(css, used, (name) => {
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return name !== '' && new RegExp(`(^|[^\\w-])${escaped}([^\\w-]|$)`).test(rules);
+  });
+}
+
+function styleElement(role: string, css: string): string {
+  return `<style data-bds-stylesheet="${role}">\n${escapeStyle(css)}\n</style>`;
+}
+
+/**
+ * Render `sections` through `<BlueprintDispatcher>` into a standalone HTML
+ * document with the page's CSS inlined.
+ *
+ * @example
+ * ```ts
+ * const { html } = renderBlueprintPageToHtml({
+ *   sections: page.sections,
+ *   clientFacts: facts,
+ *   theme,
+ *   atmosphere: 'warm-soft',
+ *   stylesheets: {
+ *     tokens: readFileSync(require.resolve('@brikdesigns/bds/tokens.css'), 'utf8'),
+ *     components: readFileSync(require.resolve('@brikdesigns/bds/styles.css'), 'utf8'),
+ *     atmosphere: readFileSync(require.resolve('@brikdesigns/bds/atmospheres/warm-soft.css'), 'utf8'),
+ *     clientTheme: readFileSync('styles/theme-vale.css', 'utf8'),
+ *   },
+ * });
+ * ```
+ */
+export function renderBlueprintPageToHtml({
+  sections,
+  clientFacts,
+  theme,
+  atmosphere = theme.atmosphere,
+  stylesheets,
+  title = clientFacts.brandName,
+  lang = 'en',
+}: RenderBlueprintPageInput): RenderedBlueprintPage {
+  const pageTheme: ResolvedTheme = atmosphere === theme.atmosphere ? theme : { ...theme, atmosphere };
+  const body = renderToStaticMarkup(
+    <BlueprintDispatcher sections={sections} clientFacts={clientFacts} theme={pageTheme} />,
+  );
+  const classNames = collectClassNames(body);
+
+  const styles = [
+    styleElement('layer-order', LAYER_ORDER),
+    styleElement('tokens', `@layer bds-tokens {\n${stylesheets.tokens}\n}`),
+    styleElement(
+      'components',
+      `@layer bds-components {\n${selectUsedCss(stylesheets.components, new Set(classNames))}\n}`,
+    ),
+    stylesheets.clientTheme
+      ? styleElement('client-theme', `@layer client-theme {\n${stylesheets.clientTheme}\n}`)
+      : null,
+    styleElement('atmosphere', stylesheets.atmosphere),
+  ].filter((style): style is string => style !== null);
+
+  const html = [
+    '<!doctype html>',
+    `<html lang="${escapeHtml(lang)}" data-theme="${pageTheme.themeMode}" data-atmosphere="${atmosphere}">`,
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    ...styles,
+    '</head>',
+    '<body>',
+    body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+
+  return { html, classNames };
+}
@@ -0,0 +1,181 @@
+import { describe, it, expect } from 'vitest';
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+
+import {
+  renderBlueprintPageToHtml,
+  selectUsedCss,
+  type BlueprintPageStylesheets,
+} from './react/render-page-to-html';
+import { BlueprintDispatcher } from './react/BlueprintDispatcher';
+import type { BlueprintSection, ClientFacts, ResolvedTheme } from './astro/types';
+
+const clientFacts: ClientFacts = {
+  brandName: 'Acme & Sons',
+  tagline: null,
+  valueProposition: null,
+  services: [],
+  phone: null,
+  email: null,
+  address: null,
+  hours: [],
+  heroImageUrl: null,
+  logoUrl: null,
+  logoVariants: {},
+};
+
+const theme: ResolvedTheme = {
+  themeMode: 'dark',
+  atmosphere: 'none',
+  navigationArchetype: 'utility-first',
+  footerArchetype: 'four_col_directory',
+};
+
+const sections: BlueprintSection[] = [
+  {
+    sectionKey: 'legal',
+    sectionType: 'legal',
+    heading: 'Privacy policy',
+    subheading: null,
+    body: 'We collect only what we need.',
+    items: [],
+    cta: null,
+    visualNotes: {
+      blueprintKey: 'content_legal_centered',
+      moodKeywords: ['quiet'],
+      layoutBlueprint: 'content_legal_centered',
+      imageOpportunity: null,
+      animationSuggestion: null,
+      illustrationOpportunity: null,
+    },
+  },
+];
+
+const stylesheets: BlueprintPageStylesheets = {
+  tokens: ':root { --page-primary: #fff; }',
+  components: [
+    '/* bundle */',
+    '@layer bds-components {',
+    '  .bds-legal { background: var(--page-secondary); }',
+    '  .bds-legal__title, .bds-unused__title { margin: 0; }',
+    '  .bds-gallery { columns: 3; }',
+    '  @media (min-width: 768px) { .bds-gallery__item { break-inside: avoid; } }',
+    '  .bds-legal__subtitle { animation: bds-fade 1s; }',
+    '  @keyframes bds-spin { to { transform: rotate(1turn); } }',
+    '}',
+    '@keyframes bds-fade { to { opacity: 1; } }',
+  ].join('\n'),
+  atmosphere: 'body::before { content: ""; }',
+  clientTheme: ':root { --page-secondary: #f4efe9; }',
+};
+
+describe('selectUsedCss', () => {
+  it('keeps rules whose classes are all present', () => {
+    const css = '.a { color: red; }\n.a .b { color: blue; }\n.c { color: green; }';
+    expect(selectUsedCss(css, ['a'])).toBe('.a { color: red; }');
+    expect(selectUsedCss(css, ['a', 'b'])).toBe('.a { color: red; }\n.a .b { color: blue; }');
+  });
+
+  it('keeps a rule when any selector in the list matches, verbatim', () => {
+    expect(selectUsedCss('.a, .z { margin: 0; }', ['a'])).toBe('.a, .z { margin: 0; }');
+  });
+
+  it('always keeps selectors without classes', () => {
+    const css = ':root { --x: 1; }\nhtml, body { margin: 0; }\n[data-theme="dark"] .a { color: white; }';
+    expect(selectUsedCss(css, [])).toBe(':root { --x: 1; }\nhtml, body { margin: 0; }');
+  });
+
+  it('does not require classes inside :not() / :is() / :where() / :has()', () => {
+    const css = '.a:not(.z) { color: red; }\n.a:where(.y, .z) > span { color: blue; }';
+    expect(selectUsedCss(css, ['a'])).toBe(css);
+  });
+
+  it('ignores class-like text inside attribute selectors', () => {
+    expect(selectUsedCss('a[href$=".pdf"] { color: red; }', [])).toBe('a[href$=".pdf"] { color: red; }');
+  });
+
+  it('prunes @media and @layer blocks recursively and drops them when empty', () => {
+    const css = '@layer x { .a { color: red; } @media (min-width: 1px) { .b { color: blue; } } }';
+    expect(selectUsedCss(css, ['a'])).toBe('@layer x {\n.a { color: red; }\n}');
+    expect(selectUsedCss(css, [])).toBe('');
+  });
+
+  it('keeps statement at-rules and other block at-rules whole', () => {
+    const css = '@layer a, b;\n@font-face { font-family: X; src: url(x.woff2); }';
+    expect(selectUsedCss(css, [])).toBe(css);
+  });
+
+  it('keeps @keyframes only when a kept rule names them', () => {
+    const css = '.a { animation: spin-slow 1s; }\n@keyframes spin-slow { to { opacity: 1; } }\n@keyframes spin { to { opacity: 0; } }';
+    expect(selectUsedCss(css, ['a'])).toBe('.a { animation: spin-slow 1s; }\n@keyframes spin-slow { to { opacity: 1; } }');
+    expect(selectUsedCss(css, [])).toBe('');
+  });
+
+  it('skips braces inside strings and comments', () => {
+    const css = '.a::before { content: "}"; }\n/* .b { } */\n.c { color: red; }';
+    expect(selectUsedCss(css, ['a'])).toBe('.a::before { content: "}"; }');
+  });
+});
+
+describe('renderBlueprintPageToHtml', () => {
+  it('renders the same markup as <BlueprintDispatcher>', () => {
+    const { html } = renderBlueprintPageToHtml({ sections, clientFacts, theme, stylesheets });
+    const markup = renderToStaticMarkup(createElement(BlueprintDispatcher, { sections, clientFacts, theme }));
+    expect(html).toContain(`<body>\n${markup}\n</body>`);
+  });
+
+  it('emits a standalone document with the theme switches on <html>', () => {
+    const { html } = renderBlueprintPageToHtml({ sections, clientFacts, theme, stylesheets, lang: 'en-GB' });
+    expect(html.startsWith('<!doctype html>\n<html lang="en-GB" data-theme="dark" data-atmosphere="none">')).toBe(true);
+    expect(html).toContain('<title>Acme &amp; Sons</title>');
+    expect(html).not.toMatch(/<link\b|<script\b/);
+  });
+
+  it('inlines the stylesheets in consumer cascade order', () => {
+    const { html } = renderBlueprintPageToHtml({ sections, clientFacts, theme, stylesheets });
+    const order = ['layer-order', 'tokens', 'components', 'client-theme', 'atmosphere'].map((role) =>
+      html.indexOf(`data-bds-stylesheet="${role}"`),
+    );
+    expect(order.every((idx) => idx !== -1)).toBe(true);
+    expect([...order].sort((a, b) => a - b)).toEqual(order);
+    expect(html).toContain('@layer bds-tokens, bds-components, client-theme, client-overrides;');
+    expect(html).toContain('@layer bds-tokens {\n:root { --page-primary: #fff; }\n}');
+    expect(html).toContain('@layer client-theme {\n:root { --page-secondary: #f4efe9; }\n}');
+  });
+
+  it('includes only the component CSS the page uses', () => {
+    const { html, classNames } = renderBlueprintPageToHtml({ sections, clientFacts, theme, stylesheets });
+    expect(classNames).toContain('bds-legal__title');
+    expect(html).toContain('.bds-legal { background: var(--page-secondary); }');
+    expect(html).toContain('.bds-legal__title, .bds-unused__title { margin: 0; }');
+    expect(html).not.toContain('@keyframes bds-spin');
+    expect(html).not.toContain('@keyframes bds-fade');
+    expect(html).not.toContain('bds-gallery');
+    expect(html).not.toContain('/* bundle */');
+  });
+
+  it('omits the client-theme layer when the client has no theme', () => {
+    const { html } = renderBlueprintPageToHtml({
+      sections,
+      clientFacts,
+      theme,
+      stylesheets: { ...stylesheets, clientTheme: null },
+    });
+    expect(html).not.toContain('data-bds-stylesheet="client-theme"');
+  });
+
+  it('stamps an explicit atmosphere on the document', () => {
+    const { html } = renderBlueprintPageToHtml({ sections, clientFacts, theme, atmosphere: 'warm-soft', stylesheets });
+    expect(html).toContain('data-atmosphere="warm-soft"');
+  });
+
+  it('keeps inlined CSS from closing its <style> element', () => {
+    const { html } = renderBlueprintPageToHtml({
+      sections,
+      clientFacts,
+      theme,
+      stylesheets: { ...stylesheets, atmosphere: '/* </style><script>x</script> */' },
+    });
+    expect(html).not.toContain('</style><script>');
+  });
+});
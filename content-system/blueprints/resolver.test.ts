@@ -159,4 +159,111 @@ describe('resolveBlueprintShortlist', () => {
     });
     expect(withInactive.length).toBeGreaterThanOrEqual(ranked.length);
   });
+
+  it('explains each entry from its hit fields', () => {
+    const profile: BlueprintShortlistProfile = {
+      brand_personality: ['Trustworthy', 'Warm', 'Professional'],
+      industry_slug: 'dental',
+    };
+
+    const about = resolveBlueprintShortlistWithScores(profile, normalized).find(
+      (e) => e.blueprint.key === 'about_story_split',
+    )!;
+    expect(about.explanation).toMatch(/^Score 14: personality .+ \(\+6\); industry dental \(\+3\); universal layout \(\+5\)\.$/);
+
+    const blank = scoreBlueprintForProfile({ ...about.blueprint, is_universal: false }, {});
+    expect(blank.explanation).toBe('Score 0: no match on personality, visual style, or industry.');
+  });
+
+  it('merges partial weight overrides over SHORTLIST_WEIGHTS', () => {
+    const profile: BlueprintShortlistProfile = {
+      brand_personality: ['Trustworthy', 'Warm', 'Professional'],
+      industry_slug: 'dental',
+    };
+
+    const entries = resolveBlueprintShortlistWithScores(profile, normalized, {
+      weights: { universalBonus: 0, industrySlugMatch: 10 },
+    });
+    const about = entries.find((e) => e.blueprint.key === 'about_story_split')!;
+    expect(about.score).toBe(10 + SHORTLIST_WEIGHTS.perPersonalityHit * 3);
+    expect(about.explanation).toContain('universal layout (+0)');
+  });
+
+  it('breaks score ties by tier, then most recent last_reviewed, then input order', () => {
+    const base = normalized.find((bp) => bp.key === 'hero_split_60_40')!;
+    const fixture = [
+      { ...base, key: 'older', last_reviewed: '2026-01-01' },
+      { ...base, key: 'newer', last_reviewed: '2026-03-01' },
+      { ...base, key: 'newer_twin', last_reviewed: '2026-03-01' },
+      { ...base, key: 'template_older', tier: 'template' as const, last_reviewed: '2025-12-01' },
+    ];
+
+    const ranked = resolveBlueprintShortlist({}, fixture);
+    expect(ranked.map((bp) => bp.key)).toEqual(['template_older', 'newer', 'newer_twin', 'older']);
+  });
+
+  it('caps entries per section_type with maxPerSectionType', () => {
+    const profile: BlueprintShortlistProfile = {
+      brand_personality: ['Trustworthy', 'Professional'],
+    };
+
+    const full = resolveBlueprintShortlist(profile, normalized);
+    const capped = resolveBlueprintShortlist(profile, normalized, { maxPerSectionType: 1 });
+    const types = capped.map((bp) => bp.section_type);
+    expect(new Set(types).size).toBe(types.length);
+    expect(capped.map((bp) => bp.key)).toEqual(
+      full
+        .filter((bp, idx) => full.findIndex((o) => o.section_type === bp.section_type) === idx)
+        .map((bp) => bp.key),
+    );
+
+    const heroOnly = resolveBlueprintShortlist(profile, normalized, {
+      maxPerSectionType: { hero: 2 },
+    });
+    expect(heroOnly.filter((bp) => bp.section_type === 'hero')).toHaveLength(2);
+    expect(heroOnly.length).toBe(
+      full.length - full.filter((bp) => bp.section_type === 'hero').length + 2,
+    );
+  });
+
+  it('applies the limit after quotas, so capped slots are backfilled', () => {
+    const profile: BlueprintShortlistProfile = {
+      brand_personality: ['Trustworthy', 'Professional'],
+    };
+
+    const ranked = resolveBlueprintShortlist(profile, normalized, {
+      maxPerSectionType: 1,
+      limit: 4,
+    });
+    expect(ranked).toHaveLength(4);
+    expect(new Set(ranked.map((bp) => bp.section_type)).size).toBe(4);
+  });
+
+  it('diversity re-rank pushes look-alikes of the same section_type down', () => {
+    const base = normalized.find((bp) => bp.key === 'hero_split_60_40')!;
+    const fixture = [
+      { ...base, key: 'hero_a', moods: ['bold', 'modern'] as const },
+      { ...base, key: 'hero_a_twin', moods: ['bold', 'modern'] as const },
+      { ...base, key: 'hero_b', moods: ['warm', 'approachable'] as const },
+      { ...base, key: 'cta_a', section_type: 'cta' as const, moods: ['bold', 'modern'] as const },
+    ];
+
+    const plain = resolveBlueprintShortlist({}, fixture);
+    expect(plain.map((bp) => bp.key)).toEqual(['hero_a', 'hero_a_twin', 'hero_b', 'cta_a']);
+
+    const diverse = resolveBlueprintShortlist({}, fixture, { diversity: 2 });
+    expect(diverse.map((bp) => bp.key)).toEqual(['hero_a', 'hero_b', 'cta_a', 'hero_a_twin']);
+  });
+
+  it('treats a shared pattern_type as overlap in the diversity re-rank', () => {
+    const base = normalized.find((bp) => bp.key === 'hero_split_60_40')!;
+    const fixture = [
+      { ...base, key: 'carousel_a', moods: ['bold'] as const, pattern_type: 'carousel' as const },
+      { ...base, key: 'carousel_b', moods: ['warm'] as const, pattern_type: 'carousel' as const },
+      { ...base, key: 'parallax', moods: ['luxury'] as const, pattern_type: 'parallax' as const },
+    ];
+
+    const diverse = resolveBlueprintShortlist({}, fixture, { diversity: 1 });
+    expect(diverse.map((bp) => bp.key)).toEqual(['carousel_a', 'parallax', 'carousel_b']);
+  });
 });
@@ -1,5 +1,6 @@
 import type { Personality, VisualStyle, IndustrySlug } from '../vocabularies';
 import type { NormalizedBlueprint } from './schema';
+import type { BlueprintTier, SectionType } from './vocabularies';
 
 /**
  * Minimal profile shape consumed by `resolveBlueprintShortlist`.
@@ -36,6 +37,18 @@ export const SHORTLIST_WEIGHTS = {
   universalBonus: 5,
 } as const;
 
+/** Scorer weights — same axes as `SHORTLIST_WEIGHTS`, any values. */
+export type ShortlistWeights = { readonly [K in keyof typeof SHORTLIST_WEIGHTS]: number };
+
+/**
+ * Tie-break rank per tier — lower sorts first. `template` entries are
+ * cleared for more surfaces than `internal` ones, so they win ties.
+ */
+const TIER_TIE_BREAK: Record<BlueprintTier, number> = {
+  template: 0,
+  internal: 1,
+};
+
 export interface BlueprintShortlistEntry {
   readonly blueprint: NormalizedBlueprint;
   readonly score: number;
@@ -43,6 +56,13 @@ export interface BlueprintShortlistEntry {
   readonly visual_style_hits: readonly VisualStyle[];
   readonly industry_match: boolean;
   readonly is_universal: boolean;
+  /**
+   * One-line, human-readable account of `score`, built from the hit
+   * fields above — e.g. "Score 14: personality Trustworthy, Warm (+4);
+   * industry dental (+3); universal layout (+5)." Safe to show to
+   * clients next to a suggested layout.
+   */
+  readonly explanation: string;
 }
 
 export interface ResolveBlueprintShortlistOptions {
@@ -58,6 +78,30 @@ export interface ResolveBlueprintShortlistOptions {
    * are soft-deleted and should not be offered for new mockups.
    */
   readonly includeInactive?: boolean;
+  /**
+   * Override individual scorer weights. Unset axes fall back to
+   * `SHORTLIST_WEIGHTS`, so `{ industrySlugMatch: 6 }` only doubles the
+   * industry signal.
+   */
+  readonly weights?: Partial<ShortlistWeights>;
+  /**
+   * Section-type quota — the most entries any one `section_type` may
+   * contribute. A number applies to every section type; a record caps
+   * only the types it names. Entries over quota are dropped, not
+   * deferred, so the next-best blueprint of another type moves up.
+   */
+  readonly maxPerSectionType?: number | Partial<Record<SectionType, number>>;
+  /**
+   * Diversity re-rank strength. Defaults to 0 (pure score order).
+   *
+   * When positive, the list is rebuilt greedily: each pick maximises
+   * `score - diversity × similarity`, where `similarity` (0–1) is the
+   * highest overlap of `moods` + `pattern_type` with any blueprint of
+   * the same `section_type` already picked. A value around the
+   * `perPersonalityHit` weight is enough to split up near-identical
+   * heroes without letting weak matches overtake strong ones.
+   */
+  readonly diversity?: number;
 }
 
 /**
@@ -70,6 +114,7 @@ export interface ResolveBlueprintShortlistOptions {
 export function scoreBlueprintForProfile(
   blueprint: NormalizedBlueprint,
   profile: BlueprintShortlistProfile,
+  weights: ShortlistWeights = SHORTLIST_WEIGHTS,
 ): BlueprintShortlistEntry {
   const personalitySet = new Set<Personality>(profile.brand_personality ?? []);
   const visualStyleSet = new Set<VisualStyle>(profile.style_preferences ?? []);
@@ -88,11 +133,26 @@ export function scoreBlueprintForProfile(
   const industryMatch =
     industrySlug !== null && blueprint.industry_slugs.includes(industrySlug);
 
+  const reasons: string[] = [];
   let score = 0;
-  score += personalityHits.length * SHORTLIST_WEIGHTS.perPersonalityHit;
-  score += visualStyleHits.length * SHORTLIST_WEIGHTS.perVisualStyleHit;
-  if (industryMatch) score += SHORTLIST_WEIGHTS.industrySlugMatch;
-  if (blueprint.is_universal) score += SHORTLIST_WEIGHTS.universalBonus;
+  if (personalityHits.length > 0) {
+    const points = personalityHits.length * weights.perPersonalityHit;
+    score += points;
+    reasons.push(`personality ${personalityHits.join(', ')} (${formatPoints(points)})`);
+  }
+  if (visualStyleHits.length > 0) {
+    const points = visualStyleHits.length * weights.perVisualStyleHit;
+    score += points;
+    reasons.push(`visual style ${visualStyleHits.join(', ')} (${formatPoints(points)})`);
+  }
+  if (industryMatch) {
+    score += weights.industrySlugMatch;
+    reasons.push(`industry ${industrySlug} (${formatPoints(weights.industrySlugMatch)})`);
+  }
+  if (blueprint.is_universal) {
+    score += weights.universalBonus;
+    reasons.push(`universal layout (${formatPoints(weights.universalBonus)})`);
+  }
 
   return {
     blueprint,
@@ -101,9 +161,17 @@ export function scoreBlueprintForProfile(
     visual_style_hits: visualStyleHits,
     industry_match: industryMatch,
     is_universal: blueprint.is_universal,
+    explanation:
+      reasons.length > 0
+        ? `Score ${score}: ${reasons.join('; ')}.`
+        : `Score ${score}: no match on personality, visual style, or industry.`,
   };
 }
 
+function formatPoints(points: number): string {
+  return points < 0 ? `${points}` : `+${points}`;
+}
+
 /**
  * Rank a normalized blueprint library against a company profile.
  *
@@ -111,15 +179,17 @@ export function scoreBlueprintForProfile(
  * blueprints are always included regardless of industry match (their
  * `universalBonus` guarantees a nonzero score); non-universal entries
  * only appear when they earned at least one axis hit, so zero-match
- * blueprints fall out instead of padding the tail.
+ * blueprints fall out instead of padding the tail. `maxPerSectionType`
+ * and `diversity` then thin out look-alikes — see
+ * `ResolveBlueprintShortlistOptions`.
  *
  * Weighting rationale — see `SHORTLIST_WEIGHTS`. The JSDoc on the
  * [Storybook Overview page](https://brikstorybook.netlify.app/?path=/docs/theming-layers-blueprints--docs)
  * explains how the portal wires this into the mockup generator seed.
  *
- * Sort is stable for equal scores: the earlier entry in the input
- * library wins. Callers relying on ordering for equal-score entries
- * should sort the input library by `key` or `last_reviewed` upstream.
+ * Equal scores break by `tier` (`template` first), then `last_reviewed`
+ * (most recently reviewed first), then input-library order, so the
+ * result is deterministic for a given library.
  */
 export function resolveBlueprintShortlist(
   profile: BlueprintShortlistProfile,
@@ -141,10 +211,17 @@ export function resolveBlueprintShortlistWithScores(
   library: readonly NormalizedBlueprint[],
   options: ResolveBlueprintShortlistOptions = {},
 ): readonly BlueprintShortlistEntry[] {
-  const { limit, includeInactive = false } = options;
+  const {
+    limit,
+    includeInactive = false,
+    weights,
+    maxPerSectionType,
+    diversity = 0,
+  } = options;
+  const resolvedWeights: ShortlistWeights = { ...SHORTLIST_WEIGHTS, ...weights };
 
   const indexed = library.map((blueprint, index) => ({
-    entry: scoreBlueprintForProfile(blueprint, profile),
+    entry: scoreBlueprintForProfile(blueprint, profile, resolvedWeights),
     index,
   }));
 
@@ -155,9 +232,77 @@ export function resolveBlueprintShortlistWithScores(
 
   eligible.sort((a, b) => {
     if (b.entry.score !== a.entry.score) return b.entry.score - a.entry.score;
+    const tierDelta =
+      TIER_TIE_BREAK[a.entry.blueprint.tier] - TIER_TIE_BREAK[b.entry.blueprint.tier];
+    if (tierDelta !== 0) return tierDelta;
+    if (a.entry.blueprint.last_reviewed !== b.entry.blueprint.last_reviewed) {
+      return a.entry.blueprint.last_reviewed < b.entry.blueprint.last_reviewed ? 1 : -1;
+    }
     return a.index - b.index;
   });
 
-  const ranked = eligible.map(({ entry }) => entry);
-  return typeof limit === 'number' ? ranked.slice(0, limit) : ranked;
+  const remaining = eligible.map(({ entry }) => entry);
+  const ranked: BlueprintShortlistEntry[] = [];
+  const perSectionType = new Map<SectionType, number>();
+  const max = typeof limit === 'number' ? limit : Infinity;
+
+  while (remaining.length > 0 && ranked.length < max) {
+    // Pre-sorted, so without diversity the first candidate always wins.
+    let bestIdx = 0;
+    if (diversity > 0) {
+      let bestValue = -Infinity;
+      remaining.forEach((candidate, idx) => {
+        const value = candidate.score - diversity * similarityToPicked(candidate, ranked);
+        if (value > bestValue) {
+          bestValue = value;
+          bestIdx = idx;
+        }
+      });
+    }
+
+    const [picked] = remaining.splice(bestIdx, 1);
+    const sectionType = picked.blueprint.section_type;
+    const count = perSectionType.get(sectionType) ?? 0;
+    if (count >= sectionTypeQuota(maxPerSectionType, sectionType)) continue;
+
+    perSectionType.set(sectionType, count + 1);
+    ranked.push(picked);
+  }
+
+  return ranked;
+}
+
+function sectionTypeQuota(
+  quota: ResolveBlueprintShortlistOptions['maxPerSectionType'],
+  sectionType: SectionType,
+): number {
+  if (typeof quota === 'number') return quota;
+  return quota?.[sectionType] ?? Infinity;
+}
+
+/**
+ * Highest Jaccard overlap of `moods` + `pattern_type` between the
+ * candidate and any already-picked blueprint of the same section type.
+ */
+function similarityToPicked(
+  candidate: BlueprintShortlistEntry,
+  picked: readonly BlueprintShortlistEntry[],
+): number {
+  const traits = diversityTraits(candidate.blueprint);
+  let highest = 0;
+  for (const other of picked) {
+    if (other.blueprint.section_type !== candidate.blueprint.section_type) continue;
+    const otherTraits = diversityTraits(other.blueprint);
+    let shared = 0;
+    for (const trait of traits) if (otherTraits.has(trait)) shared += 1;
+    const union = traits.size + otherTraits.size - shared;
+    if (union > 0) highest = Math.max(highest, shared / union);
+  }
+  return highest;
+}
+
+function diversityTraits(blueprint: NormalizedBlueprint): Set<string> {
+  const traits = new Set<string>(blueprint.moods.map((mood) => `mood:${mood}`));
+  if (blueprint.pattern_type) traits.add(`pattern:${blueprint.pattern_type}`);
+  return traits;
 }
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+
+import { lintCopy, regulatoryTerms, COPY_LINT_PENALTIES } from './index';
+import { dental } from '../industries';
+
+const rules = (text: string, options: Parameters<typeof lintCopy>[1]) =>
+  lintCopy(text, options).findings.map((f) => f.rule);
+
+describe('lintCopy — industry', () => {
+  it('flags vocabulary.avoid terms with spans and the pack reason', () => {
+    const text = 'Painless implants from the best dentist in town.';
+    const { findings } = lintCopy(text, { industry: 'dental' });
+    const painless = findings.find((f) => f.excerpt === 'Painless');
+    expect(painless).toMatchObject({ rule: 'vocabulary-avoid', severity: 'error', span: { start: 0, end: 8 } });
+    expect(painless?.message).toContain('unreasonable expectations');
+    expect(findings.some((f) => f.excerpt === 'best dentist')).toBe(true);
+  });
+
+  it('prefers the longer avoid term when two overlap', () => {
+    const { findings } = lintCopy('Meet our cosmetic specialist.', { industry: 'dental' });
+    expect(findings.filter((f) => f.rule === 'vocabulary-avoid').map((f) => f.excerpt)).toEqual(['cosmetic specialist']);
+  });
+
+  it('rejects a CTA label on the pack list and suggests approved ones', () => {
+    const { findings } = lintCopy('Book now →', { industry: 'dental', surface: 'cta' });
+    expect(findings).toHaveLength(1);
+    expect(findings[0]).toMatchObject({ rule: 'cta-rejected', excerpt: 'Book now' });
+    expect(findings[0].suggestions).toEqual(dental.ctaDefaults.approved.slice(0, 3));
+  });
+
+  it('flags terms quoted in regulatory notes for review', () => {
+    expect(regulatoryTerms(dental.regulatory[1])).toContain('#1');
+    const { findings } = lintCopy('Ask about a free exam.', { industry: 'dental' });
+    expect(findings).toEqual([expect.objectContaining({ rule: 'regulatory', severity: 'info', excerpt: 'free' })]);
+  });
+
+  it('accepts a pack object as well as a slug', () => {
+    expect(rules('Painless care.', { industry: dental })).toEqual(['vocabulary-avoid']);
+  });
+});
+
+describe('lintCopy — voice', () => {
+  it('expands contractions for a voice that avoids them', () => {
+    // Authoritative avoids contractions.
+    const { findings } = lintCopy("We'll review your case.", { voices: ['Authoritative'] });
+    const contraction = findings.find((f) => f.rule === 'contractions');
+    expect(contraction?.suggestions).toEqual(['We will']);
+  });
+
+  it('suggests contractions for a voice that encourages them', () => {
+    const { findings } = lintCopy('You are in good hands.', { voices: ['Conversational'] });
+    expect(findings.find((f) => f.rule === 'contractions')?.suggestions).toEqual(["You're"]);
+  });
+
+  it('flags hedges, long sentences and rhetorical questions for Direct', () => {
+    const text =
+      'You might save money. Why wait? You get a plan that covers every visit, every cleaning, every x-ray and every follow-up call for the whole year.';
+    expect(rules(text, { voices: ['Direct'] })).toEqual(['hedging', 'rhetorical-question', 'sentence-length']);
+  });
+
+  it('skips sentence and perspective rules on CTA copy', () => {
+    expect(rules('Why wait?', { voices: ['Direct'], surface: 'cta' })).toEqual([]);
+  });
+
+  it('notes missing second-person address in prose', () => {
+    expect(rules('Our team builds websites. Fast ones.', { voices: ['Direct'] })).toEqual(['perspective']);
+    expect(rules('Our team builds websites.', { voices: ['Direct'] })).toEqual([]);
+  });
+});
+
+describe('lintCopy — score', () => {
+  it('is 100 for clean copy', () => {
+    expect(lintCopy('You get a plan.', { voices: ['Direct'], industry: 'dental' }).score).toBe(100);
+  });
+
+  it('subtracts a penalty per finding and floors at 0', () => {
+    const one = lintCopy('Painless care for you.', { industry: 'dental' });
+    expect(one.score).toBe(100 - COPY_LINT_PENALTIES.error);
+    const many = lintCopy('Painless, cheap, discount, guaranteed results from the best dentist.', { industry: 'dental' });
+    expect(many.score).toBe(0);
+  });
+});
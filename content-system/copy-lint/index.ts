@@ -0,0 +1,19 @@
+/**
+ * Copy lint for the Brik Content System.
+ *
+ * Scores copy against a client's blended voice and industry pack before
+ * it reaches a mockup. `scripts/lint-copy.mjs` runs the same checks over
+ * MDX and JSON content files.
+ */
+
+export type {
+  CopySurface,
+  CopyLintSeverity,
+  CopyLintRule,
+  CopyLintSpan,
+  CopyLintFinding,
+  LintCopyOptions,
+  CopyLintResult,
+} from './types';
+
+export { lintCopy, regulatoryTerms, COPY_LINT_PENALTIES } from './lint-copy';
@@ -0,0 +1,290 @@
+import type { IndustryPack, RegulatoryNote, VoiceRules } from '../schema';
+import { industryPacks } from '../industries';
+import { blendVoices } from '../voices';
+import type {
+  CopyLintFinding,
+  CopyLintResult,
+  CopyLintRule,
+  CopyLintSeverity,
+  CopyLintSpan,
+  LintCopyOptions,
+} from './types';
+
+/**
+ * Points each finding takes off the 100-point score. Exported so the
+ * portal can explain a score with the same numbers.
+ */
+export const COPY_LINT_PENALTIES: Record<CopyLintSeverity, number> = {
+  error: 25,
+  warning: 10,
+  info: 2,
+};
+
+// ─── Word lists ─────────────────────────────────────────────────────
+
+const CONTRACTIONS: Record<string, string> = {
+  "i'm": 'I am',
+  "i'll": 'I will',
+  "i've": 'I have',
+  "i'd": 'I would',
+  "we're": 'we are',
+  "we'll": 'we will',
+  "we've": 'we have',
+  "we'd": 'we would',
+  "you're": 'you are',
+  "you'll": 'you will',
+  "you've": 'you have',
+  "you'd": 'you would',
+  "they're": 'they are',
+  "they'll": 'they will',
+  "they've": 'they have',
+  "it's": 'it is',
+  "it'll": 'it will',
+  "that's": 'that is',
+  "there's": 'there is',
+  "here's": 'here is',
+  "what's": 'what is',
+  "let's": 'let us',
+  "don't": 'do not',
+  "doesn't": 'does not',
+  "didn't": 'did not',
+  "can't": 'cannot',
+  "won't": 'will not',
+  "isn't": 'is not',
+  "aren't": 'are not',
+  "wasn't": 'was not',
+  "weren't": 'were not',
+  "haven't": 'have not',
+  "hasn't": 'has not',
+  "shouldn't": 'should not',
+  "wouldn't": 'would not',
+  "couldn't": 'could not',
+};
+
+// Spelled-out pairs a contraction-friendly voice would shorten. `let us`
+// and `cannot` are left alone — both read naturally in warm copy.
+const EXPANSIONS: Record<string, string> = Object.fromEntries(
+  Object.entries(CONTRACTIONS)
+    .filter(([, expanded]) => expanded.includes(' ') && expanded !== 'let us')
+    .map(([contracted, expanded]) => [expanded.toLowerCase(), contracted]),
+);
+
+const HEDGES = [
+  'might',
+  'may',
+  'could',
+  'possibly',
+  'perhaps',
+  'potentially',
+  'arguably',
+  'somewhat',
+  'hopefully',
+  'up to',
+  'we believe',
+  'we think',
+  'try to',
+];
+
+const PRONOUNS = {
+  reader: ['you', 'your', 'yours'],
+  business: ['we', 'our', 'ours', 'us'],
+};
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Every whole-word, case-insensitive occurrence of `term`. Straight and curly apostrophes match each other. */
+function findTerm(text: string, term: string): CopyLintSpan[] {
+  const pattern = escapeRegExp(term).replace(/'/g, "['’]").replace(/ /g, '\\s+');
+  const re = new RegExp(`(?<![\\w'’])${pattern}(?![\\w'’])`, 'gi');
+  return [...text.matchAll(re)].map((m) => ({ start: m.index ?? 0, end: (m.index ?? 0) + m[0].length }));
+}
+
+const overlaps = (a: CopyLintSpan, b: CopyLintSpan) => a.start < b.end && b.start < a.end;
+
+/** Sentences with their offsets. Line breaks end a sentence too — headings and list items stand alone. */
+function sentences(text: string): CopyLintSpan[] {
+  return [...text.matchAll(/[^.!?\n]+(?:[.!?]+|$)/gm)]
+    .map((m) => {
+      const lead = m[0].length - m[0].trimStart().length;
+      const start = (m.index ?? 0) + lead;
+      return { start, end: start + m[0].trim().length };
+    })
+    .filter((span) => span.end > span.start);
+}
+
+const wordCount = (value: string) => (value.match(/[A-Za-z0-9][\w'’-]*/g) ?? []).length;
+
+/** Match the excerpt's leading capital. */
+function matchCase(replacement: string, excerpt: string): string {
+  return /^[A-Z]/.test(excerpt) ? replacement.charAt(0).toUpperCase() + replacement.slice(1) : replacement;
+}
+
+/** Terms a regulatory note quotes — `Common prohibitions: "best," "#1," …`. */
+export function regulatoryTerms(note: RegulatoryNote): string[] {
+  return [...note.implication.matchAll(/["“]([^"”]+)["”]/g)]
+    .map((m) => m[1].replace(/[,.;:]+$/, '').trim())
+    .filter((term) => term.length > 0 && wordCount(term) <= 4);
+}
+
+function resolveIndustry(industry: LintCopyOptions['industry']): IndustryPack | undefined {
+  if (!industry) return undefined;
+  return typeof industry === 'string' ? industryPacks[industry] : industry;
+}
+
+// ─── Rules ──────────────────────────────────────────────────────────
+
+type Finding = Omit<CopyLintFinding, 'excerpt'>;
+
+const finding = (
+  rule: CopyLintRule,
+  severity: CopyLintSeverity,
+  span: CopyLintSpan,
+  message: string,
+  suggestions: readonly string[] = [],
+): Finding => ({ rule, severity, span, message, suggestions });
+
+function lintIndustry(text: string, pack: IndustryPack): Finding[] {
+  const found: Finding[] = [];
+
+  // Longest terms first, so "cosmetic specialist" wins over "specialist".
+  const avoid = [...pack.vocabulary.avoid].sort((a, b) => b.term.length - a.term.length);
+  for (const { term, reason } of avoid) {
+    for (const span of findTerm(text, term)) {
+      if (found.some((f) => overlaps(f.span, span))) continue;
+      found.push(finding('vocabulary-avoid', 'error', span, `Avoid "${term}" — ${reason}`));
+    }
+  }
+
+  const label = text.trim().replace(/[\s.!→›>]+$/, '');
+  const rejected = pack.ctaDefaults.rejected.find((cta) => cta.toLowerCase() === label.toLowerCase());
+  if (rejected) {
+    const start = text.indexOf(text.trim());
+    found.push(
+      finding(
+        'cta-rejected',
+        'error',
+        { start, end: start + label.length },
+        `"${rejected}" is on the ${pack.displayName} rejected-CTA list.`,
+        pack.ctaDefaults.approved.slice(0, 3),
+      ),
+    );
+  }
+
+  for (const note of pack.regulatory) {
+    for (const term of regulatoryTerms(note)) {
+      for (const span of findTerm(text, term)) {
+        if (found.some((f) => overlaps(f.span, span))) continue;
+        found.push(finding('regulatory', 'info', span, `Check against ${note.topic}: ${note.implication}`));
+      }
+    }
+  }
+  return found;
+}
+
+function lintVoice(text: string, rules: VoiceRules, prose: boolean): Finding[] {
+  const found: Finding[] = [];
+
+  if (rules.contractions === 'avoid') {
+    for (const [contracted, expanded] of Object.entries(CONTRACTIONS)) {
+      for (const span of findTerm(text, contracted)) {
+        const excerpt = text.slice(span.start, span.end);
+        found.push(finding('contractions', 'warning', span, 'This voice avoids contractions.', [matchCase(expanded, excerpt)]));
+      }
+    }
+  } else if (rules.contractions === 'encouraged') {
+    for (const [expanded, contracted] of Object.entries(EXPANSIONS)) {
+      for (const span of findTerm(text, expanded)) {
+        const excerpt = text.slice(span.start, span.end);
+        found.push(finding('contractions', 'info', span, 'This voice reads better contracted.', [matchCase(contracted, excerpt)]));
+      }
+    }
+  }
+
+  if (rules.hedging === 'avoid') {
+    for (const hedge of HEDGES) {
+      for (const span of findTerm(text, hedge)) {
+        found.push(finding('hedging', 'warning', span, `"${hedge}" hedges — this voice states claims plainly.`));
+      }
+    }
+  }
+
+  // Sentence and perspective rules are for prose — not button labels or hints.
+  if (!prose) return found;
+
+  for (const span of sentences(text)) {
+    const sentence = text.slice(span.start, span.end);
+    const words = wordCount(sentence);
+    if (words > rules.sentenceLength.range[1]) {
+      const { avg, range } = rules.sentenceLength;
+      found.push(
+        finding('sentence-length', 'warning', span, `${words}-word sentence — this voice averages ${avg} and tops out at ${range[1]}.`),
+      );
+    }
+    if (rules.rhetoricalQuestions === 'avoid' && sentence.endsWith('?')) {
+      found.push(finding('rhetorical-question', 'warning', span, 'This voice avoids rhetorical questions — make it a statement.'));
+    }
+  }
+
+  if (rules.perspective === 'third-person') {
+    for (const word of [...PRONOUNS.reader, ...PRONOUNS.business]) {
+      for (const span of findTerm(text, word)) {
+        found.push(finding('perspective', 'warning', span, 'This voice writes in the third person.'));
+      }
+    }
+    return found;
+  }
+
+  // A missing pronoun only says something across a few sentences — a
+  // headline or a one-line imperative addresses the reader implicitly.
+  if (sentences(text).length < 2) return found;
+  const whole = { start: 0, end: text.length };
+  const uses = (words: string[]) => words.some((word) => findTerm(text, word).length > 0);
+  if (rules.perspective === 'second-person' && !uses(PRONOUNS.reader)) {
+    found.push(finding('perspective', 'info', whole, 'This voice addresses the reader as "you".'));
+  } else if (rules.perspective === 'first-person-plural' && !uses(PRONOUNS.business)) {
+    found.push(finding('perspective', 'info', whole, 'This voice speaks as "we".'));
+  }
+  return found;
+}
+
+// ─── lintCopy ───────────────────────────────────────────────────────
+
+/**
+ * Check one piece of copy against the client's voice and industry.
+ *
+ *   - Industry — `vocabulary.avoid` terms and rejected CTA labels are
+ *     errors; terms the `regulatory` notes quote are flagged for review.
+ *   - Voice — the picks are blended with `blendVoices`, then checked for
+ *     contractions, hedging and (on `hero` / `paragraph` copy) sentence
+ *     length, rhetorical questions and perspective.
+ *
+ * Figurative language and imperative mood need a reader's judgment, so
+ * they aren't checked.
+ *
+ * @example
+ * ```ts
+ * const { score, findings } = lintCopy('Painless implants from the best dentist in town.', {
+ *   voices: ['Direct', 'Empathetic'],
+ *   industry: 'dental',
+ *   surface: 'hero',
+ * });
+ * ```
+ */
+export function lintCopy(text: string, options: LintCopyOptions = {}): CopyLintResult {
+  const { voices = [], industry, surface = 'paragraph' } = options;
+  const pack = resolveIndustry(industry);
+  const blend = blendVoices(voices);
+  const prose = surface === 'hero' || surface === 'paragraph';
+
+  const findings: CopyLintFinding[] = [
+    ...(pack ? lintIndustry(text, pack) : []),
+    ...(blend ? lintVoice(text, blend.rules, prose) : []),
+  ]
+    .map((f) => ({ ...f, excerpt: text.slice(f.span.start, f.span.end) }))
+    .sort((a, b) => a.span.start - b.span.start || a.span.end - b.span.end);
+
+  const penalty = findings.reduce((sum, f) => sum + COPY_LINT_PENALTIES[f.severity], 0);
+  return { score: Math.max(0, 100 - penalty), findings };
+}
@@ -0,0 +1,72 @@
+/**
+ * Copy-lint types for the Brik Content System.
+ *
+ * `lintCopy` checks generated or hand-written copy against the client's
+ * blended voice (`VoiceRules`) and their industry pack (`vocabulary.avoid`,
+ * `ctaDefaults.rejected`, `regulatory`). Findings carry character spans
+ * into the linted text so editors and the portal can underline them.
+ */
+
+import type { IndustryPack, VoiceExamples } from '../schema';
+import type { IndustrySlug, Voice } from '../vocabularies';
+
+/**
+ * The surface a piece of copy renders on — the same surfaces voice
+ * patterns give examples for. Sentence-level voice rules skip `cta` and
+ * `microcopy`; button labels and form hints aren't prose.
+ */
+export type CopySurface = keyof VoiceExamples;
+
+export type CopyLintSeverity = 'error' | 'warning' | 'info';
+
+export type CopyLintRule =
+  /** Industry pack `vocabulary.avoid` term. */
+  | 'vocabulary-avoid'
+  /** The copy is one of the pack's `ctaDefaults.rejected` labels. */
+  | 'cta-rejected'
+  /** A term the pack's `regulatory` notes call out — review before publishing. */
+  | 'regulatory'
+  /** Sentence longer than the blended voice's range. */
+  | 'sentence-length'
+  /** Contraction in a voice that avoids them, or a spelled-out pair in one that encourages them. */
+  | 'contractions'
+  /** Qualifier in a voice that avoids hedging. */
+  | 'hedging'
+  /** Question in a voice that avoids rhetorical questions. */
+  | 'rhetorical-question'
+  /** Pronouns that don't match the blended voice's perspective. */
+  | 'perspective';
+
+/** Character offsets into the linted text — `text.slice(start, end)`. */
+export interface CopyLintSpan {
+  start: number;
+  end: number;
+}
+
+export interface CopyLintFinding {
+  rule: CopyLintRule;
+  severity: CopyLintSeverity;
+  /** One sentence, safe to show inline. */
+  message: string;
+  span: CopyLintSpan;
+  /** The flagged text — `text.slice(span.start, span.end)`. */
+  excerpt: string;
+  /** Replacements for the excerpt, best first. Empty when the fix needs a rewrite. */
+  suggestions: readonly string[];
+}
+
+export interface LintCopyOptions {
+  /** Client voice picks, in pick order. Blended with `blendVoices`. Omit to skip voice rules. */
+  voices?: readonly Voice[];
+  /** Industry slug or pack. Omit to skip industry rules. */
+  industry?: IndustrySlug | IndustryPack;
+  /** Where the copy renders. Default `paragraph`. */
+  surface?: CopySurface;
+}
+
+export interface CopyLintResult {
+  /** 100 minus `COPY_LINT_PENALTIES` per finding, floored at 0. */
+  score: number;
+  /** Findings in text order. */
+  findings: readonly CopyLintFinding[];
+}
@@ -9,8 +9,10 @@
  *   - vocabularies/ — locked enums (Personality, Voice, Visual Style, Industry)
  *   - schema/       — TypeScript types for pack authoring
  *   - industries/   — industry packs (data + narrative)
- *   - voices/       — voice patterns (rules, examples, pairings)
+ *   - voices/       — voice patterns (rules, examples, pairings) + blender
  *   - blueprints/   — layout + interaction pattern library shape
+ *   - copy-lint/    — scores copy against a voice blend + industry pack
+ *   - profile/      — resolves a client profile through the content cascade
  */
 
 export * from './vocabularies';
@@ -28,6 +30,12 @@ export type {
   IndustryPainPointEntry,
   IndustryKeywordEntry,
   IndustryCtaEntry,
+  IndustryPackIssue,
+  IndustryPackIssueRule,
+  IndustryPackIssueSeverity,
+  IndustryPackReviewStatus,
+  IndustryPackValidationResult,
+  ValidateIndustryPackOptions,
 } from './industries';
 export {
   industryPacks,
@@ -49,6 +57,10 @@ export {
   getIndustriesForParent,
   getIndustryInsurancePlans,
   getIndustryFinancing,
+  validateIndustryPack,
+  validateIndustryPacks,
+  getIndustryPackReviewStatus,
+  REVIEW_CADENCE_MONTHS,
 } from './industries';
 export {
   voicePatterns,
@@ -60,10 +72,44 @@ export {
   expert,
   poetic,
   witty,
+  blendVoices,
+  blendVoiceRules,
+  VOICE_BLEND_WEIGHTS,
+  MAX_BLENDED_VOICES,
+  type BlendedVoice,
+  type VoiceBlend,
+  type VoiceConflict,
 } from './voices';
+export {
+  lintCopy,
+  regulatoryTerms,
+  COPY_LINT_PENALTIES,
+  type CopySurface,
+  type CopyLintSeverity,
+  type CopyLintRule,
+  type CopyLintSpan,
+  type CopyLintFinding,
+  type LintCopyOptions,
+  type CopyLintResult,
+} from './copy-lint';
+export {
+  resolveClientContent,
+  resolveCompliance,
+  FEDERAL_FUNDS_REGIMES,
+  type ClientCtaLanguage,
+  type ClientComplianceProfile,
+  type ClientPageComposition,
+  type ClientContentProfile,
+  type ContentSource,
+  type DroppedComplianceRegime,
+  type ResolvedCompliance,
+  type ResolvedClientContent,
+  type ClientContentProvenance,
+} from './profile';
 export {
   legalTemplates,
   getLegalTemplate,
+  renderLegalTemplate,
   noticeOfPrivacyPractices,
   privacyPolicy,
   termsOfService,
@@ -73,4 +119,6 @@ export {
   type LegalTemplateKeyAlias,
   type LegalReviewStatus,
   type LegalRegime,
+  type LegalTemplateFacts,
+  type RenderedLegalTemplate,
 } from './legal-templates';
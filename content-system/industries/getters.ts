@@ -1,6 +1,6 @@
 import type { IndustryPack, ServiceEntry } from '../schema';
 import type { IndustrySlug, ParentIndustrySlug } from '../vocabularies';
-import { industryPacks } from './index';
+import { industryPacks } from './registry';
 import { smallBusiness } from './small-business';
 
 /**
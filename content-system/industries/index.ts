@@ -1,29 +1,9 @@
-import type { IndustryPack } from '../schema';
-import type { IndustrySlug } from '../vocabularies';
 import { dental } from './dental';
 import { realEstateRvMhc } from './real-estate-rv-mhc';
 import { realEstateCommercial } from './real-estate-commercial';
 import { smallBusiness } from './small-business';
 
-/**
- * Industry pack registry — maps every slug in INDUSTRY_SLUGS to its IndustryPack.
- *
- * When adding a new pack:
- *   1. Add the slug to `vocabularies/industry.ts`
- *   2. Create `{slug}.ts` and `{slug}.mdx` in this folder
- *   3. Import and add to the registry below
- *
- * Type-level guarantee: the record is constrained to IndustrySlug keys, so
- * TypeScript will flag any missing entry when new slugs are added to the
- * vocabulary.
- */
-export const industryPacks: Record<IndustrySlug, IndustryPack> = {
-  'dental': dental,
-  'real-estate-rv-mhc': realEstateRvMhc,
-  'real-estate-commercial': realEstateCommercial,
-  'small-business': smallBusiness,
-};
-
+export { industryPacks } from './registry';
 export { dental, realEstateRvMhc, realEstateCommercial, smallBusiness };
 export type {
   IndustryPainPointEntry,
@@ -46,3 +26,17 @@ export {
   getIndustryInsurancePlans,
   getIndustryFinancing,
 } from './getters';
+export type {
+  IndustryPackIssue,
+  IndustryPackIssueRule,
+  IndustryPackIssueSeverity,
+  IndustryPackReviewStatus,
+  IndustryPackValidationResult,
+  ValidateIndustryPackOptions,
+} from './validate-pack';
+export {
+  validateIndustryPack,
+  validateIndustryPacks,
+  getIndustryPackReviewStatus,
+  REVIEW_CADENCE_MONTHS,
+} from './validate-pack';
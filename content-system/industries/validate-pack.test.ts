@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest';
+
+import libraryJson from '../../blueprints/blueprint-library.json';
+import type { IndustryPack } from '../schema';
+import type { BlueprintLibrary } from '../blueprints';
+import {
+  getIndustryPackReviewStatus,
+  industryPacks,
+  smallBusiness,
+  validateIndustryPack,
+  validateIndustryPacks,
+} from './index';
+
+const blueprints = (libraryJson as BlueprintLibrary).blueprints;
+
+/** small-business with overrides — the catch-all pack has no catalogs of its own. */
+const packWith = (overrides: Partial<IndustryPack>): IndustryPack => ({
+  ...smallBusiness,
+  lastReviewed: '2026-04-20',
+  ...overrides,
+});
+
+const rulesOf = (pack: IndustryPack) =>
+  validateIndustryPack(pack, { blueprints, today: '2026-05-01' }).issues.map((i) => `${i.severity}:${i.rule}:${i.field}`);
+
+// ── Registered packs ─────────────────────────────────────────────────────────
+
+describe('validateIndustryPacks', () => {
+  it('finds no errors in the registered packs', () => {
+    const results = validateIndustryPacks(undefined, { blueprints, today: '2026-04-24' });
+    expect(results.map((r) => r.slug)).toEqual(Object.keys(industryPacks));
+    for (const result of results) {
+      expect(result.issues.filter((i) => i.severity === 'error')).toEqual([]);
+      expect(result.ok).toBe(true);
+    }
+  });
+
+  it('matches the CLI without an explicit library — inactive keys warn', () => {
+    const withLibrary = validateIndustryPacks(undefined, { blueprints, today: '2026-04-24' });
+    expect(validateIndustryPacks(undefined, { today: '2026-04-24' })).toEqual(withLibrary);
+    const commercial = withLibrary.find((r) => r.slug === 'real-estate-commercial')!;
+    const severities = commercial.issues.filter((i) => i.rule === 'blueprint-key').map((i) => i.severity);
+    expect(severities.length).toBeGreaterThan(0);
+    expect(new Set(severities)).toEqual(new Set(['warning']));
+  });
+});
+
+// ── Vocabulary ───────────────────────────────────────────────────────────────
+
+describe('validateIndustryPack — vocabulary', () => {
+  it('flags values outside the locked vocabularies', () => {
+    const pack = packWith({
+      parentIndustry: 'aerospace' as IndustryPack['parentIndustry'],
+      version: 'v1',
+      lastReviewed: '2026-02-30',
+      affinities: {
+        personality: ['Professional', 'Grumpy' as never],
+        voice: ['Direct'],
+        visualStyle: ['Minimal', 'Neon' as never],
+      },
+      footerArchetype: 'mega_footer' as IndustryPack['footerArchetype'],
+    });
+    expect(rulesOf(pack)).toEqual([
+      'error:vocabulary:parentIndustry',
+      'error:vocabulary:version',
+      'error:vocabulary:lastReviewed',
+      'error:vocabulary:affinities.personality[1]',
+      'error:vocabulary:affinities.visualStyle[1]',
+      'error:vocabulary:footerArchetype',
+    ]);
+  });
+});
+
+// ── Catalogs ─────────────────────────────────────────────────────────────────
+
+describe('validateIndustryPack — catalogs', () => {
+  it('flags duplicate slugs once, without repeating their term collisions', () => {
+    const pack = packWith({
+      servicesCatalog: [
+        { slug: 'cleaning', displayName: 'Cleaning', aliases: ['polish'] },
+        { slug: 'cleaning', displayName: 'Cleaning', aliases: ['polish'] },
+      ],
+    });
+    expect(rulesOf(pack)).toEqual(['error:catalog-duplicate:servicesCatalog[1].slug']);
+  });
+
+  it('flags aliases that resolve to two entries, case- and space-insensitively', () => {
+    const pack = packWith({
+      proceduresCatalog: [
+        { slug: 'crown', displayName: 'Crown', aliases: ['cap'] },
+        { slug: 'onlay', displayName: 'Onlay', aliases: ['  CAP ', 'partial crown'] },
+        { slug: 'bridge', displayName: 'Bridge', aliases: ['crown'] },
+      ],
+    });
+    expect(rulesOf(pack)).toEqual([
+      'error:catalog-alias-collision:proceduresCatalog[1].aliases[0]',
+      'error:catalog-alias-collision:proceduresCatalog[2].aliases[0]',
+    ]);
+  });
+
+  it('downgrades collisions across categories to warnings', () => {
+    const pack = packWith({
+      amenitiesCatalog: [
+        { slug: 'pool', displayName: 'Pool', category: 'outdoor', aliases: ['swimming'] },
+        { slug: 'indoor-pool', displayName: 'Indoor Pool', category: 'indoor', aliases: ['swimming'] },
+      ],
+    });
+    const { ok, issues } = validateIndustryPack(pack, { blueprints, today: '2026-05-01' });
+    expect(ok).toBe(true);
+    expect(issues).toEqual([
+      expect.objectContaining({
+        rule: 'catalog-alias-collision',
+        severity: 'warning',
+        field: 'amenitiesCatalog[1].aliases[0]',
+        message: '"swimming" also matches amenitiesCatalog[0] ("pool") in category "outdoor".',
+      }),
+    ]);
+  });
+});
+
+// ── Page archetypes + compositions ───────────────────────────────────────────
+
+describe('validateIndustryPack — page compositions', () => {
+  it('requires composition keys to match pageArchetypes slugs and their own pageArchetype', () => {
+    const pack = packWith({
+      pageCompositions: {
+        home: { pageArchetype: 'home', sections: ['hero_split_60_40'] },
+        blog: { pageArchetype: 'blog', sections: ['hero_interior_minimal'] },
+        about: { pageArchetype: 'home', sections: ['about_story_split'] },
+      },
+    });
+    expect(rulesOf(pack)).toEqual([
+      'error:page-composition:pageCompositions.blog',
+      'error:page-composition:pageCompositions.about.pageArchetype',
+    ]);
+  });
+
+  it('errors on unknown blueprint keys and warns on inactive ones', () => {
+    const pack = packWith({
+      pageArchetypes: [
+        { slug: 'home', displayName: 'Home', required: true, blueprintDefaults: ['hero_split_60_40', 'hero_made_up'] },
+      ],
+      pageCompositions: {
+        home: { pageArchetype: 'home', sections: ['services_numbered_accordion'] },
+      },
+    });
+    expect(rulesOf(pack)).toEqual([
+      'error:blueprint-key:pageArchetypes[0].blueprintDefaults[1]',
+      'warning:blueprint-key:pageCompositions.home.sections[0]',
+    ]);
+  });
+
+  it('warns on inactive keys with the default key lists, same as the full library', () => {
+    const pack = packWith({
+      pageArchetypes: [{ slug: 'home', displayName: 'Home', required: true }],
+      pageCompositions: { home: { pageArchetype: 'home', sections: ['services_numbered_accordion'] } },
+    });
+    const { issues } = validateIndustryPack(pack, { today: '2026-05-01' });
+    expect(issues.map((i) => `${i.severity}:${i.rule}`)).toEqual(['warning:blueprint-key']);
+  });
+});
+
+// ── Review cadence ───────────────────────────────────────────────────────────
+
+describe('getIndustryPackReviewStatus', () => {
+  it('adds the cadence in months and counts days overdue', () => {
+    expect(getIndustryPackReviewStatus({ reviewCadence: 'quarterly', lastReviewed: '2026-04-20' }, '2026-07-20')).toEqual({
+      reviewCadence: 'quarterly',
+      lastReviewed: '2026-04-20',
+      dueOn: '2026-07-20',
+      overdue: false,
+      daysOverdue: 0,
+    });
+    expect(getIndustryPackReviewStatus({ reviewCadence: 'annual', lastReviewed: '2025-10-01' }, '2026-10-11')).toMatchObject({
+      dueOn: '2026-10-01',
+      overdue: true,
+      daysOverdue: 10,
+    });
+  });
+
+  it('clamps due dates to the end of a shorter month', () => {
+    expect(getIndustryPackReviewStatus({ reviewCadence: 'biannual', lastReviewed: '2026-08-31' }, '2026-09-01').dueOn).toBe(
+      '2027-02-28',
+    );
+  });
+
+  it('reports an overdue pack as a warning, leaving it ok', () => {
+    const result = validateIndustryPack(packWith({ lastReviewed: '2026-01-05' }), { blueprints, today: '2026-05-01' });
+    expect(result.ok).toBe(true);
+    expect(result.review.overdue).toBe(true);
+    expect(result.issues).toEqual([
+      expect.objectContaining({
+        rule: 'review-overdue',
+        severity: 'warning',
+        message: 'Review overdue by 26 day(s) — quarterly review was due 2026-04-05.',
+      }),
+    ]);
+  });
+});
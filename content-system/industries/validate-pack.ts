@@ -0,0 +1,361 @@
+import type { IndustryPack, ServiceEntry } from '../schema';
+import type { Blueprint } from '../blueprints';
+import {
+  isDrawerPattern,
+  isFooterArchetype,
+  isIndustrySlug,
+  isNavArchetype,
+  isParentIndustrySlug,
+  isPersonality,
+  isScrollBehavior,
+  isVisualStyle,
+  isVoice,
+} from '../vocabularies';
+import {
+  INACTIVE_BLUEPRINT_KEYS,
+  KNOWN_BLUEPRINT_KEYS,
+} from '../blueprints/astro/blueprint-keys.generated';
+import { industryPacks } from './registry';
+
+/**
+ * Industry pack authoring validator.
+ *
+ * The `IndustryPack` schema carries rules the type system can't see —
+ * vocabulary values arriving through loosely-typed edits, catalog slugs
+ * and aliases that must resolve to exactly one entry, `pageCompositions`
+ * keyed by `pageArchetypes` slugs, blueprint keys that must exist in
+ * `blueprints/blueprint-library.json`, and a review cadence nobody was
+ * checking. `validateIndustryPack` reports all of it in one pass instead
+ * of throwing, same posture as `validateBlueprint`.
+ *
+ * CLI: `scripts/validate-industry-packs.mjs` (`npm run validate:industry-packs`).
+ */
+
+export type IndustryPackIssueSeverity = 'error' | 'warning';
+
+export type IndustryPackIssueRule =
+  /** A field value outside its locked vocabulary, or a malformed version / date. */
+  | 'vocabulary'
+  /** Two catalog entries share a slug. */
+  | 'catalog-duplicate'
+  /**
+   * A slug, display name, or alias that resolves to more than one catalog
+   * entry. An error within one `category`; a warning across categories,
+   * where intake can still disambiguate by category.
+   */
+  | 'catalog-alias-collision'
+  /** A `pageArchetypes` / `pageCompositions` mismatch. */
+  | 'page-composition'
+  /** A blueprint key missing from the library (error) or marked inactive (warning). */
+  | 'blueprint-key'
+  /** `lastReviewed` is older than `reviewCadence` allows. */
+  | 'review-overdue';
+
+export interface IndustryPackIssue {
+  slug: string;
+  rule: IndustryPackIssueRule;
+  severity: IndustryPackIssueSeverity;
+  /** Dotted path into the pack, e.g. `servicesCatalog[3].aliases[1]`. */
+  field: string;
+  message: string;
+}
+
+/** Where a pack sits against its review cadence. */
+export interface IndustryPackReviewStatus {
+  reviewCadence: IndustryPack['reviewCadence'];
+  lastReviewed: string;
+  /** ISO date the next review is due — `lastReviewed` plus the cadence. Null when `lastReviewed` is malformed. */
+  dueOn: string | null;
+  overdue: boolean;
+  /** Whole days past `dueOn`; 0 when not overdue. */
+  daysOverdue: number;
+}
+
+export interface IndustryPackValidationResult {
+  slug: string;
+  /** True when no issue has `error` severity. Overdue reviews are warnings. */
+  ok: boolean;
+  issues: readonly IndustryPackIssue[];
+  review: IndustryPackReviewStatus;
+}
+
+export interface ValidateIndustryPackOptions {
+  /**
+   * The blueprint library page archetypes and compositions reference.
+   * Defaults to the generated `KNOWN_BLUEPRINT_KEYS` plus
+   * `INACTIVE_BLUEPRINT_KEYS` — the same key set and `is_active` flags the
+   * CLI reads from `blueprint-library.json`.
+   */
+  blueprints?: readonly Pick<Blueprint, 'key' | 'is_active'>[];
+  /** ISO date YYYY-MM-DD the review cadence is measured against. Defaults to today (UTC). */
+  today?: string;
+}
+
+/** Months between reviews, per `IndustryPack.reviewCadence`. */
+export const REVIEW_CADENCE_MONTHS: Record<IndustryPack['reviewCadence'], number> = {
+  quarterly: 3,
+  biannual: 6,
+  annual: 12,
+};
+
+/** Library keys with their `is_active` flag, from the generated key lists. */
+const DEFAULT_BLUEPRINTS: readonly Pick<Blueprint, 'key' | 'is_active'>[] = [
+  ...KNOWN_BLUEPRINT_KEYS.map((key) => ({ key, is_active: true })),
+  ...INACTIVE_BLUEPRINT_KEYS.map((key) => ({ key, is_active: false })),
+];
+
+/** The structured catalogs checked for duplicate slugs and alias collisions. */
+const CATALOG_FIELDS = [
+  'servicesCatalog',
+  'conditionsCatalog',
+  'proceduresCatalog',
+  'amenitiesCatalog',
+] as const;
+
+const SEMVER_PATTERN = /^\d+\.\d+\.\d+/;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseIsoDate(value: string): Date | null {
+  if (!ISO_DATE_PATTERN.test(value)) return null;
+  const date = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(date.getTime()) || date.toISOString().slice(0, 10) !== value ? null : date;
+}
+
+/**
+ * Review status for a pack on `today`. Due dates clamp to the end of
+ * the month, so a 31 January review on a quarterly cadence is due
+ * 30 April, not 1 May.
+ */
+export function getIndustryPackReviewStatus(
+  pack: Pick<IndustryPack, 'reviewCadence' | 'lastReviewed'>,
+  today: string = new Date().toISOString().slice(0, 10),
+): IndustryPackReviewStatus {
+  const { reviewCadence, lastReviewed } = pack;
+  const reviewed = parseIsoDate(lastReviewed);
+  const now = parseIsoDate(today);
+  const months = REVIEW_CADENCE_MONTHS[reviewCadence];
+  if (!reviewed || !now || months === undefined) {
+    return { reviewCadence, lastReviewed, dueOn: null, overdue: false, daysOverdue: 0 };
+  }
+
+  const year = reviewed.getUTCFullYear();
+  const month = reviewed.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const due = new Date(Date.UTC(year, month, Math.min(reviewed.getUTCDate(), lastDay)));
+  const daysOverdue = Math.max(0, Math.round((now.getTime() - due.getTime()) / DAY_MS));
+
+  return {
+    reviewCadence,
+    lastReviewed,
+    dueOn: due.toISOString().slice(0, 10),
+    overdue: daysOverdue > 0,
+    daysOverdue,
+  };
+}
+
+/**
+ * Validate an authored industry pack. Dependency-free — returns every
+ * issue instead of throwing, so a pack author sees all drift at once.
+ */
+export function validateIndustryPack(
+  pack: IndustryPack,
+  options: ValidateIndustryPackOptions = {},
+): IndustryPackValidationResult {
+  const {
+    blueprints = DEFAULT_BLUEPRINTS,
+    today,
+  } = options;
+  const issues: IndustryPackIssue[] = [];
+  const push = (
+    rule: IndustryPackIssueRule,
+    field: string,
+    message: string,
+    severity: IndustryPackIssueSeverity = 'error',
+  ) => issues.push({ slug: pack.slug, rule, severity, field, message });
+
+  // ── Vocabulary membership ─────────────────────────────────────
+  if (!isIndustrySlug(pack.slug)) {
+    push('vocabulary', 'slug', `Unknown industry slug "${pack.slug}" — add it to INDUSTRY_SLUGS first.`);
+  }
+  if (!isParentIndustrySlug(pack.parentIndustry)) {
+    push('vocabulary', 'parentIndustry', `Unknown parent industry "${pack.parentIndustry}".`);
+  }
+  if (!SEMVER_PATTERN.test(pack.version)) {
+    push('vocabulary', 'version', `Version "${pack.version}" is not semver.`);
+  }
+  if (REVIEW_CADENCE_MONTHS[pack.reviewCadence] === undefined) {
+    push('vocabulary', 'reviewCadence', `Unknown review cadence "${pack.reviewCadence}".`);
+  }
+  if (!parseIsoDate(pack.lastReviewed)) {
+    push('vocabulary', 'lastReviewed', `lastReviewed "${pack.lastReviewed}" is not an ISO date (YYYY-MM-DD).`);
+  }
+
+  const checkList = (
+    field: string,
+    values: readonly string[],
+    isValid: (value: string) => boolean,
+    vocabulary: string,
+  ) => {
+    values.forEach((value, idx) => {
+      if (!isValid(value)) push('vocabulary', `${field}[${idx}]`, `Unknown ${vocabulary} "${value}".`);
+    });
+  };
+  checkList('affinities.personality', pack.affinities.personality, isPersonality, 'personality');
+  checkList('affinities.voice', pack.affinities.voice, isVoice, 'voice');
+  checkList('affinities.visualStyle', pack.affinities.visualStyle, isVisualStyle, 'visual style');
+
+  if (pack.navigationIA) {
+    const nav = pack.navigationIA;
+    if (!isNavArchetype(nav.archetype)) {
+      push('vocabulary', 'navigationIA.archetype', `Unknown nav archetype "${nav.archetype}".`);
+    }
+    if (!isScrollBehavior(nav.scrollBehavior)) {
+      push('vocabulary', 'navigationIA.scrollBehavior', `Unknown scroll behavior "${nav.scrollBehavior}".`);
+    }
+    if (!isDrawerPattern(nav.mobileDrawer)) {
+      push('vocabulary', 'navigationIA.mobileDrawer', `Unknown drawer pattern "${nav.mobileDrawer}".`);
+    }
+  }
+  if (pack.footerArchetype !== undefined && !isFooterArchetype(pack.footerArchetype)) {
+    push('vocabulary', 'footerArchetype', `Unknown footer archetype "${pack.footerArchetype}".`);
+  }
+
+  // ── Catalogs ──────────────────────────────────────────────────
+  for (const catalogField of CATALOG_FIELDS) {
+    const catalog: readonly ServiceEntry[] | undefined = pack[catalogField];
+    if (catalog) checkCatalog(catalogField, catalog, push);
+  }
+
+  // ── Page archetypes + compositions ────────────────────────────
+  const activeByKey = new Map(blueprints.map((bp) => [bp.key, bp.is_active]));
+  const checkBlueprintKey = (field: string, key: string) => {
+    const active = activeByKey.get(key);
+    if (active === undefined) {
+      push('blueprint-key', field, `Unknown blueprint key "${key}".`);
+    } else if (!active) {
+      push('blueprint-key', field, `Blueprint "${key}" is inactive — it renders through the fallback until activated.`, 'warning');
+    }
+  };
+
+  const archetypeSlugs = new Set<string>();
+  pack.pageArchetypes.forEach((archetype, idx) => {
+    if (archetypeSlugs.has(archetype.slug)) {
+      push('page-composition', `pageArchetypes[${idx}].slug`, `Duplicate page archetype "${archetype.slug}".`);
+    }
+    archetypeSlugs.add(archetype.slug);
+    archetype.blueprintDefaults?.forEach((key, keyIdx) =>
+      checkBlueprintKey(`pageArchetypes[${idx}].blueprintDefaults[${keyIdx}]`, key),
+    );
+  });
+
+  for (const [pageType, composition] of Object.entries(pack.pageCompositions ?? {})) {
+    const field = `pageCompositions.${pageType}`;
+    if (!archetypeSlugs.has(pageType)) {
+      push('page-composition', field, `Composition "${pageType}" has no matching entry in pageArchetypes.`);
+    }
+    if (composition.pageArchetype !== pageType) {
+      push(
+        'page-composition',
+        `${field}.pageArchetype`,
+        `pageArchetype "${composition.pageArchetype}" does not match its key "${pageType}".`,
+      );
+    }
+    composition.sections.forEach((key, idx) => checkBlueprintKey(`${field}.sections[${idx}]`, key));
+    if (composition.navArchetype !== undefined && !isNavArchetype(composition.navArchetype)) {
+      push('vocabulary', `${field}.navArchetype`, `Unknown nav archetype "${composition.navArchetype}".`);
+    }
+    if (composition.footerArchetype !== undefined && !isFooterArchetype(composition.footerArchetype)) {
+      push('vocabulary', `${field}.footerArchetype`, `Unknown footer archetype "${composition.footerArchetype}".`);
+    }
+  }
+
+  // ── Review cadence ────────────────────────────────────────────
+  const review = getIndustryPackReviewStatus(pack, today);
+  if (review.overdue) {
+    push(
+      'review-overdue',
+      'lastReviewed',
+      `Review overdue by ${review.daysOverdue} day(s) — ${pack.reviewCadence} review was due ${review.dueOn}.`,
+      'warning',
+    );
+  }
+
+  return {
+    slug: pack.slug,
+    ok: !issues.some((issue) => issue.severity === 'error'),
+    issues,
+    review,
+  };
+}
+
+/**
+ * Duplicate slugs, and any slug / display name / alias that points at
+ * two different entries. Terms compare case- and whitespace-insensitively,
+ * the way intake free text is matched against the catalog. Each term is
+ * reported once, against the first entry that claimed it.
+ */
+function checkCatalog(
+  catalogField: string,
+  catalog: readonly ServiceEntry[],
+  push: (
+    rule: IndustryPackIssueRule,
+    field: string,
+    message: string,
+    severity?: IndustryPackIssueSeverity,
+  ) => void,
+) {
+  const slugOwner = new Map<string, number>();
+  catalog.forEach((entry, idx) => {
+    const owner = slugOwner.get(entry.slug);
+    if (owner !== undefined) {
+      push(
+        'catalog-duplicate',
+        `${catalogField}[${idx}].slug`,
+        `Duplicate slug "${entry.slug}" — also ${catalogField}[${owner}].`,
+      );
+    } else {
+      slugOwner.set(entry.slug, idx);
+    }
+  });
+
+  const normalize = (term: string) => term.trim().replace(/\s+/g, ' ').toLowerCase();
+  const termOwner = new Map<string, number>();
+  catalog.forEach((entry, idx) => {
+    const terms: Array<[field: string, term: string]> = [
+      [`${catalogField}[${idx}].slug`, entry.slug],
+      [`${catalogField}[${idx}].displayName`, entry.displayName],
+      ...entry.aliases.map((alias, aliasIdx): [string, string] => [
+        `${catalogField}[${idx}].aliases[${aliasIdx}]`,
+        alias,
+      ]),
+    ];
+    for (const [field, term] of terms) {
+      const key = normalize(term);
+      const owner = termOwner.get(key);
+      if (owner === undefined) {
+        termOwner.set(key, idx);
+      } else if (owner !== idx && catalog[owner].slug !== entry.slug) {
+        const sameCategory = catalog[owner].category === entry.category;
+        push(
+          'catalog-alias-collision',
+          field,
+          `"${term}" also matches ${catalogField}[${owner}] ("${catalog[owner].slug}")` +
+            (sameCategory ? '.' : ` in category "${catalog[owner].category ?? 'none'}".`),
+          sameCategory ? 'error' : 'warning',
+        );
+      }
+    }
+  });
+}
+
+/**
+ * Validate every registered pack — or the packs passed in — and return
+ * the results in input order.
+ */
+export function validateIndustryPacks(
+  packs: readonly IndustryPack[] = Object.values(industryPacks),
+  options: ValidateIndustryPackOptions = {},
+): readonly IndustryPackValidationResult[] {
+  return packs.map((pack) => validateIndustryPack(pack, options));
+}
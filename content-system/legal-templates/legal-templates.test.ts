@@ -6,7 +6,9 @@ import {
   noticeOfPrivacyPractices,
   privacyPolicy,
   termsOfService,
+  renderLegalTemplate,
 } from './index';
+import type { LegalTemplate } from './types';
 
 const ALL = [noticeOfPrivacyPractices, privacyPolicy, termsOfService];
 
@@ -69,3 +71,75 @@ describe('templates are generalized — no source-practice specifics leaked', ()
     expect(noticeOfPrivacyPractices.body).toContain('hhs.gov/ocr/privacy/hipaa/complaints');
   });
 });
+
+/** A value for every declared token — optional ones included. */
+const factsFor = (t: LegalTemplate) =>
+  Object.fromEntries(t.fields.map((f) => [f.token, `${f.label} value`]));
+
+describe('renderLegalTemplate', () => {
+  const KEYS = ['notice-of-privacy-practices', 'hipaa-notice', 'privacy-policy', 'terms-of-service'];
+
+  it.each(KEYS)('%s — fills every token when all facts are supplied', (key) => {
+    const doc = renderLegalTemplate(key, factsFor(getLegalTemplate(key)!));
+    expect(doc).not.toBeNull();
+    expect(doc!.markdown).not.toMatch(/\{\{|\}\}/);
+    expect(doc!.html).not.toContain('data-legal-missing-field');
+    expect(doc!.missingFields).toEqual([]);
+    expect(doc!.droppedFields).toEqual([]);
+  });
+
+  it.each(KEYS)('%s — is never launch-ready while pending legal review', (key) => {
+    const doc = renderLegalTemplate(key, factsFor(getLegalTemplate(key)!))!;
+    expect(doc.reviewStatus).toBe('pending_legal_review');
+    expect(doc.launchReady).toBe(false);
+  });
+
+  it.each(KEYS)('%s — reports and visibly marks every missing required field', (key) => {
+    const template = getLegalTemplate(key)!;
+    const doc = renderLegalTemplate(key, {})!;
+    const required = template.fields.filter((f) => f.required);
+    expect(doc.missingFields.map((f) => f.token).sort()).toEqual(required.map((f) => f.token).sort());
+    for (const f of required) {
+      expect(doc.markdown).toContain(`[${f.label}]`);
+      expect(doc.html).toContain(`data-legal-missing-field="${f.token}"`);
+    }
+  });
+
+  it('resolves the hipaa-notice alias to the Notice of Privacy Practices', () => {
+    expect(renderLegalTemplate('hipaa-notice')?.template).toBe(noticeOfPrivacyPractices);
+    expect(renderLegalTemplate('not-a-key')).toBeNull();
+  });
+
+  it('falls back to the practice name when the short name is missing', () => {
+    const doc = renderLegalTemplate('privacy-policy', { practice_name: 'Maple Dental' })!;
+    expect(doc.markdown).toContain('Maple Dental ("Maple Dental," "we,"');
+    expect(doc.droppedFields).toEqual([]);
+  });
+
+  it('drops an optional field with no fallback along with its punctuation', () => {
+    const doc = renderLegalTemplate('terms-of-service', { practice_name: 'Maple Dental' })!;
+    expect(doc.droppedFields.map((f) => f.token)).toEqual(['entity_type']);
+    expect(doc.markdown).toContain('("Maple Dental," "we," "us," or "our"). It is provided');
+  });
+
+  it('treats blank strings as missing', () => {
+    const doc = renderLegalTemplate('privacy-policy', { practice_name: '   ' })!;
+    expect(doc.missingFields.map((f) => f.token)).toContain('practice_name');
+  });
+
+  it('escapes fact values in the HTML output', () => {
+    const doc = renderLegalTemplate('terms-of-service', { practice_name: '<script>x</script>' })!;
+    expect(doc.html).not.toContain('<script>');
+    expect(doc.html).toContain('&lt;script&gt;');
+  });
+
+  it('converts the Markdown body to HTML', () => {
+    const { html } = renderLegalTemplate('hipaa-notice', factsFor(noticeOfPrivacyPractices))!;
+    expect(html).toContain('<h2>Our Commitment</h2>');
+    expect(html).toMatch(/<blockquote><p><strong>THIS NOTICE/);
+    expect(html).toContain('<li>Maintain the privacy and security of your Protected Health Information</li>');
+    expect(html).toContain('<a href="https://www.hhs.gov/ocr/privacy/hipaa/complaints/">');
+    // Address blocks keep their line breaks.
+    expect(html).toContain('Attn: Privacy Officer<br />');
+  });
+});
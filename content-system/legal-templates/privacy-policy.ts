@@ -14,7 +14,7 @@ export const privacyPolicy: LegalTemplate = {
   source: 'tncld-draft-2026-04-20',
   fields: [
     { token: 'practice_name', label: 'Practice Name', required: true, source: 'companies.name' },
-    { token: 'practice_short_name', label: 'Practice Short Name', required: false, source: 'derived from practice_name' },
+    { token: 'practice_short_name', label: 'Practice Short Name', required: false, source: 'derived from practice_name', fallback: 'practice_name' },
     { token: 'website_domain', label: 'Website Domain', required: true, source: 'companies.website_url' },
     { token: 'practice_street', label: 'Practice Street Address', required: true, source: 'company_profiles.privacy_officer_address' },
     { token: 'practice_city_state_zip', label: 'City, State ZIP', required: true, source: 'company_profiles.privacy_officer_address' },
@@ -0,0 +1,90 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+
+import { LegalDocument } from './LegalDocument';
+
+const PRACTICE_FACTS = {
+  practice_name: 'Maple Street Family Dental',
+  practice_short_name: 'Maple Street Dental',
+  practice_street: '120 Maple Street, Suite 4',
+  practice_city_state_zip: 'Springfield, OR 97477',
+  practice_phone: '(541) 555-0142',
+  practice_email: 'hello@maplestreetdental.com',
+  privacy_email: 'privacy@maplestreetdental.com',
+  privacy_officer_name: 'Dana Reyes',
+  website_domain: 'maplestreetdental.com',
+  entity_type: 'an Oregon professional corporation',
+  governing_law_state: 'Oregon',
+  venue_county: 'Lane County, Oregon',
+  effective_date: 'March 1, 2026',
+  last_updated: 'March 1, 2026',
+};
+
+const meta: Meta<typeof LegalDocument> = {
+  title: 'Content System/Legal document',
+  component: LegalDocument,
+  tags: ['surface-web'],
+  argTypes: {
+    templateKey: {
+      control: 'select',
+      options: ['notice-of-privacy-practices', 'hipaa-notice', 'privacy-policy', 'terms-of-service'],
+      description: 'Canonical template key or portal alias.',
+    },
+    facts: { control: 'object', description: 'Values for the template `{{token}}`s, keyed by token.' },
+    showTitle: { control: 'boolean', description: 'Render the template title as the page `<h1>`.' },
+  },
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component:
+          'Renders a BCS legal template filled with the client\'s facts via `renderLegalTemplate`. Every template ships `pending_legal_review`, so a warning banner always sits above the copy until counsel approves it. Missing required facts render inline as highlighted `[Label]` placeholders and are listed in a negative banner. `data-launch-ready` on the root lets scaffold CI block launch.',
+      },
+    },
+  },
+};
+
+export default meta;
+type Story = StoryObj<typeof LegalDocument>;
+
+/**
+ * Every fact supplied — only the pending-review banner remains, because
+ * counsel hasn't approved the template.
+ *
+ * @summary HIPAA notice with every fact filled
+ */
+export const Default: Story = {
+  args: {
+    templateKey: 'hipaa-notice',
+    facts: PRACTICE_FACTS,
+  },
+};
+
+/**
+ * An early-onboarding profile: the address, officer and dates aren't in
+ * yet. Each gap renders as a highlighted `[Label]` and is listed in the
+ * missing-facts banner.
+ *
+ * @summary Missing required facts — inline placeholders and banner
+ */
+export const MissingFacts: Story = {
+  args: {
+    templateKey: 'privacy-policy',
+    facts: {
+      practice_name: PRACTICE_FACTS.practice_name,
+      website_domain: PRACTICE_FACTS.website_domain,
+    },
+  },
+};
+
+/**
+ * Terms of Service with no optional `entity_type` — the clause is
+ * dropped cleanly rather than leaving a hole.
+ *
+ * @summary Terms of Service — optional fact dropped
+ */
+export const TermsOfService: Story = {
+  args: {
+    templateKey: 'terms-of-service',
+    facts: { ...PRACTICE_FACTS, entity_type: undefined },
+  },
+};
@@ -0,0 +1,77 @@
+/**
+ * LegalDocument — renders a Brik legal template (HIPAA Notice of Privacy
+ * Practices, Privacy Policy, Terms of Service) filled with the client's
+ * facts, via `renderLegalTemplate`.
+ *
+ * The template contract (`../types.ts`) makes two things non-negotiable,
+ * and this component enforces both visibly:
+ *
+ *   - `pending_legal_review` templates carry a warning `<Banner>` — the
+ *     copy is generalized from non-attorney-vetted drafts and must not
+ *     launch until counsel signs off.
+ *   - Missing required facts render inline as highlighted `[LABEL]`
+ *     placeholders (`mark[data-legal-missing-field]`) and are listed in a
+ *     negative `<Banner>` above the document.
+ *
+ * `data-launch-ready` on the root mirrors `RenderedLegalTemplate.launchReady`
+ * so scaffold CI can grep a built site for `data-launch-ready="false"`.
+ */
+import { type HTMLAttributes } from 'react';
+
+import { Banner, Prose } from '../../../components';
+import { bdsClass } from '../../../components/utils';
+import { renderLegalTemplate } from '../render';
+import type { LegalTemplateFacts, LegalTemplateKey, LegalTemplateKeyAlias } from '../types';
+import './LegalDocument.css';
+
+export interface LegalDocumentProps extends Omit<HTMLAttributes<HTMLElement>, 'title' | 'children'> {
+  /** Canonical template key or portal alias (`hipaa-notice`). */
+  templateKey: LegalTemplateKey | LegalTemplateKeyAlias;
+  /** Values for the template's `{{token}}`s, keyed by token. */
+  facts?: LegalTemplateFacts;
+  /** Render the template title as the page `<h1>`. Default `true`. */
+  showTitle?: boolean;
+}
+
+/**
+ * @summary Legal page from a BCS template — review banner + missing-field report
+ */
+export function LegalDocument({ templateKey, facts = {}, showTitle = true, className, ...rest }: LegalDocumentProps) {
+  const doc = renderLegalTemplate(templateKey, facts);
+  if (!doc) return null;
+
+  const { template, html, missingFields, reviewStatus, launchReady } = doc;
+
+  return (
+    <article
+      className={bdsClass('bds-legal-document', className)}
+      data-legal-template={template.key}
+      data-legal-review-status={reviewStatus}
+      data-launch-ready={String(launchReady)}
+      {...rest}
+    >
+      {(reviewStatus === 'pending_legal_review' || missingFields.length > 0) && (
+        <div className="bds-legal-document__notices">
+          {reviewStatus === 'pending_legal_review' && (
+            <Banner
+              tone="warning"
+              title="Pending legal review"
+              description="This page is generated from a template counsel hasn't approved. Don't launch it until it's signed off."
+            />
+          )}
+          {missingFields.length > 0 && (
+            <Banner
+              tone="negative"
+              title={`${missingFields.length} required ${missingFields.length === 1 ? 'fact' : 'facts'} missing`}
+              description={missingFields.map((field) => field.label).join('; ')}
+            />
+          )}
+        </div>
+      )}
+      {showTitle && <h1 className="bds-legal-document__title">{template.title}</h1>}
+      <Prose className="bds-legal-document__body" html={html} />
+    </article>
+  );
+}
+
+export default LegalDocument;
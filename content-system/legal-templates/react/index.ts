@@ -0,0 +1,9 @@
+/**
+ * React renderer for Brik legal templates. Ships through the main
+ * library bundle (`lib-entry.ts`) alongside the blueprint renderers:
+ *
+ *   import { LegalDocument } from '@brikdesigns/bds';
+ */
+
+export { LegalDocument } from './LegalDocument';
+export type { LegalDocumentProps } from './LegalDocument';
@@ -0,0 +1,33 @@
+/**
+ * Legal-template registry — templates by canonical key, plus the portal
+ * `templateKey` aliases. Its own module so `render.ts` can look templates up
+ * without importing the package barrel that re-exports it.
+ */
+
+import type { LegalTemplate, LegalTemplateKey, LegalTemplateKeyAlias } from './types';
+import { noticeOfPrivacyPractices } from './notice-of-privacy-practices';
+import { privacyPolicy } from './privacy-policy';
+import { termsOfService } from './terms-of-service';
+
+export const legalTemplates: Record<LegalTemplateKey, LegalTemplate> = {
+  'notice-of-privacy-practices': noticeOfPrivacyPractices,
+  'privacy-policy': privacyPolicy,
+  'terms-of-service': termsOfService,
+};
+
+/**
+ * Portal site-structure `templateKey` values map to legal-template keys.
+ * `hipaa-notice` is the portal alias for the Notice of Privacy Practices.
+ */
+const TEMPLATE_KEY_BY_ALIAS: Record<LegalTemplateKeyAlias, LegalTemplateKey> = {
+  'hipaa-notice': 'notice-of-privacy-practices',
+  'privacy-policy': 'privacy-policy',
+  'terms-of-service': 'terms-of-service',
+};
+
+/** Resolve a portal `templateKey` (or a canonical key) to its LegalTemplate. */
+export function getLegalTemplate(key: string): LegalTemplate | null {
+  if (key in legalTemplates) return legalTemplates[key as LegalTemplateKey];
+  if (key in TEMPLATE_KEY_BY_ALIAS) return legalTemplates[TEMPLATE_KEY_BY_ALIAS[key as LegalTemplateKeyAlias]];
+  return null;
+}
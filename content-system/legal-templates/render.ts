@@ -0,0 +1,211 @@
+import type {
+  LegalTemplate,
+  LegalTemplateField,
+  LegalTemplateFacts,
+  RenderedLegalTemplate,
+} from './types';
+import { getLegalTemplate } from './registry';
+
+/**
+ * Legal-template renderer — fills a template's `{{token}}`s from the
+ * client's facts and reports what's missing, per the contract in
+ * `types.ts`:
+ *
+ *   - A token with a value is replaced by it.
+ *   - An optional token with no value uses its `fallback` token, else is
+ *     dropped along with the punctuation that framed it.
+ *   - A required token with no value renders as a visible `[LABEL]` —
+ *     never silently blank — and is listed in `missingFields`.
+ *
+ * Templates ship `pending_legal_review`, so `launchReady` stays false
+ * until counsel approves the template AND every required fact is in.
+ */
+
+const TOKEN = /\{\{(\w+)\}\}/g;
+
+type Fill =
+  | { kind: 'value'; value: string }
+  | { kind: 'missing'; field: LegalTemplateField }
+  | { kind: 'dropped' };
+
+function valueOf(facts: LegalTemplateFacts, token: string): string | null {
+  const value = facts[token]?.trim();
+  return value ? value : null;
+}
+
+function resolveToken(template: LegalTemplate, facts: LegalTemplateFacts, token: string, seen = new Set<string>()): Fill {
+  const value = valueOf(facts, token);
+  if (value) return { kind: 'value', value };
+  const field = template.fields.find((f) => f.token === token);
+  // Tokens the template doesn't declare are authoring slips — surface them like required ones.
+  if (!field) return { kind: 'missing', field: { token, label: token.replace(/_/g, ' '), required: true } };
+  if (field.required) return { kind: 'missing', field };
+  if (field.fallback && !seen.has(field.fallback)) {
+    return resolveToken(template, facts, field.fallback, new Set(seen).add(token));
+  }
+  return { kind: 'dropped' };
+}
+
+const placeholder = (field: LegalTemplateField) => `[${field.label}]`;
+
+/**
+ * Remove a dropped token and the punctuation that only made sense with
+ * it: a quoted alias (`("{{x}}," "we," …)`) or an appositive (`, {{x}}.`).
+ */
+function dropToken(body: string, token: string): string {
+  const t = `\\{\\{${token}\\}\\}`;
+  return body
+    .replace(new RegExp(`"${t},"\\s*`, 'g'), '')
+    .replace(new RegExp(`,\\s*${t}(?=[.,;:)])`, 'g'), '')
+    .replace(new RegExp(`[ \\t]*${t}[ \\t]*`, 'g'), ' ')
+    .replace(/ +([.,;:)])/g, '$1')
+    .replace(/ {2,}/g, ' ');
+}
+
+// ─── Markdown → HTML ────────────────────────────────────────────────
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+function inline(text: string): string {
+  return escapeHtml(text)
+    .replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>')
+    .replace(/\*(.+?)\*/g, '<em>$1</em>')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, '<a href="$2">$1</a>');
+}
+
+type ListBlock = { type: 'ul' | 'ol'; items: string[] };
+
+type Block = { type: 'h'; level: number; text: string } | { type: 'p' | 'blockquote'; lines: string[] } | ListBlock;
+
+function renderBlock(block: Block): string {
+  switch (block.type) {
+    case 'h':
+      return `<h${block.level}>${inline(block.text)}</h${block.level}>`;
+    case 'ul':
+    case 'ol':
+      return `<${block.type}>${block.items.map((item) => `<li>${inline(item)}</li>`).join('')}</${block.type}>`;
+    case 'p':
+      return `<p>${block.lines.map(inline).join('<br />\n')}</p>`;
+    case 'blockquote':
+      return `<blockquote><p>${block.lines.map(inline).join('<br />\n')}</p></blockquote>`;
+  }
+}
+
+/**
+ * The Markdown subset the templates are written in — headings,
+ * paragraphs, `>` quotes, `-` / `1.` lists, bold, italic and links.
+ * Line breaks inside a paragraph are kept (`<br />`): the templates use
+ * them for address blocks.
+ */
+function markdownToHtml(markdown: string): string {
+  const blocks: Block[] = [];
+  // The block later lines can continue — null after a blank line or heading.
+  let open: Block | null = null;
+
+  for (const raw of markdown.split(/\r?\n/)) {
+    const line = raw.trimEnd();
+    const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+    const bullet = /^\s*[-*]\s+(.*)$/.exec(line);
+    const item = bullet?.[1] ?? /^\s*\d+\.\s+(.*)$/.exec(line)?.[1];
+
+    if (!line.trim()) {
+      open = null;
+    } else if (heading) {
+      blocks.push({ type: 'h', level: heading[1].length, text: heading[2] });
+      open = null;
+    } else if (line.startsWith('>')) {
+      if (open?.type !== 'blockquote') blocks.push((open = { type: 'blockquote', lines: [] }));
+      open.lines.push(line.replace(/^>\s?/, ''));
+    } else if (item !== undefined) {
+      const type = bullet ? 'ul' : 'ol';
+      const list: ListBlock = open?.type === type ? (open as ListBlock) : { type, items: [] };
+      if (list !== open) blocks.push((open = list));
+      list.items.push(item);
+    } else if ((open?.type === 'ul' || open?.type === 'ol') && /^\s+/.test(raw)) {
+      open.items[open.items.length - 1] += ` ${line.trim()}`;
+    } else {
+      if (open?.type !== 'p') blocks.push((open = { type: 'p', lines: [] }));
+      open.lines.push(line);
+    }
+  }
+  return blocks.map(renderBlock).join('\n');
+}
+
+// ─── renderLegalTemplate ────────────────────────────────────────────
+
+/**
+ * Fill a legal template with the client's facts. `key` is a canonical
+ * key or a portal alias (`hipaa-notice`); unknown keys return `null`.
+ *
+ * @example
+ * ```ts
+ * const doc = renderLegalTemplate('hipaa-notice', {
+ *   practice_name: 'Maple Dental',
+ *   privacy_officer_name: 'Dana Reyes',
+ * });
+ * doc?.missingFields.map((f) => f.label); // ['Practice Street Address', …]
+ * doc?.launchReady;                       // false — pending legal review
+ * ```
+ */
+export function renderLegalTemplate(key: string, facts: LegalTemplateFacts = {}): RenderedLegalTemplate | null {
+  const template = getLegalTemplate(key);
+  if (!template) return null;
+
+  const fills = new Map<string, Fill>();
+  for (const match of template.body.matchAll(TOKEN)) {
+    if (!fills.has(match[1])) fills.set(match[1], resolveToken(template, facts, match[1]));
+  }
+
+  let body = template.body;
+  for (const [token, fill] of fills) {
+    if (fill.kind === 'dropped') body = dropToken(body, token);
+  }
+
+  const markdown = body.replace(TOKEN, (_, token: string) => {
+    const fill = fills.get(token);
+    return fill?.kind === 'value' ? fill.value : fill?.kind === 'missing' ? placeholder(fill.field) : '';
+  });
+
+  // Convert with tokens swapped for inert sentinels, then fill the sentinels
+  // with escaped HTML — so fact values can't inject markup or Markdown.
+  const sentinels: string[] = [];
+  const html = markdownToHtml(
+    body.replace(TOKEN, (_, token: string) => `\u0000${sentinels.push(token) - 1}\u0000`),
+  )
+    .replace(/(href="[^"]*")/g, (attr) =>
+      attr.replace(/\u0000(\d+)\u0000/g, (_, i: string) => {
+        const fill = fills.get(sentinels[Number(i)]);
+        return escapeHtml(fill?.kind === 'value' ? fill.value : fill?.kind === 'missing' ? placeholder(fill.field) : '');
+      }),
+    )
+    .replace(/\u0000(\d+)\u0000/g, (_, i: string) => {
+      const fill = fills.get(sentinels[Number(i)]);
+      if (fill?.kind === 'value') return escapeHtml(fill.value);
+      if (fill?.kind === 'missing') {
+        return `<mark data-legal-missing-field="${fill.field.token}">${escapeHtml(placeholder(fill.field))}</mark>`;
+      }
+      return '';
+    });
+
+  // A fallback that resolves to a missing required field reports that field once.
+  const missingFields: LegalTemplateField[] = [];
+  const droppedFields: LegalTemplateField[] = [];
+  for (const [token, fill] of fills) {
+    if (fill.kind === 'missing' && !missingFields.includes(fill.field)) missingFields.push(fill.field);
+    if (fill.kind === 'dropped') {
+      const field = template.fields.find((f) => f.token === token);
+      if (field) droppedFields.push(field);
+    }
+  }
+
+  return {
+    template,
+    markdown,
+    html,
+    missingFields,
+    droppedFields,
+    reviewStatus: template.reviewStatus,
+    launchReady: template.reviewStatus === 'attorney_approved' && missingFields.length === 0,
+  };
+}
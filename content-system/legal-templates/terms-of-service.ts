@@ -14,7 +14,7 @@ export const termsOfService: LegalTemplate = {
   source: 'tncld-draft-2026-04-20',
   fields: [
     { token: 'practice_name', label: 'Practice Name', required: true, source: 'companies.name' },
-    { token: 'practice_short_name', label: 'Practice Short Name', required: false, source: 'derived from practice_name' },
+    { token: 'practice_short_name', label: 'Practice Short Name', required: false, source: 'derived from practice_name', fallback: 'practice_name' },
     { token: 'website_domain', label: 'Website Domain', required: true, source: 'companies.website_url' },
     { token: 'entity_type', label: 'Legal Entity Type', required: false, source: 'company_profiles.business_model' },
     { token: 'governing_law_state', label: 'Governing-Law State', required: true, source: 'company_profiles service area / address state' },
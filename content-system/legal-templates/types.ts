@@ -36,6 +36,12 @@ export interface LegalTemplateField {
   required: boolean;
   /** Hint for where the renderer sources the value (profile/company field). */
   source?: string;
+  /**
+   * Token whose value stands in when this optional field has none — e.g.
+   * the short name falls back to the full practice name rather than
+   * leaving a hole in "…is required by law".
+   */
+  fallback?: string;
 }
 
 export interface LegalTemplate {
@@ -51,3 +57,29 @@ export interface LegalTemplate {
   /** Markdown body with `{{token}}` placeholders. */
   body: string;
 }
+
+/**
+ * Values for a template's `{{token}}`s, keyed by token. Blank strings
+ * count as missing.
+ */
+export type LegalTemplateFacts = Readonly<Record<string, string | null | undefined>>;
+
+/** `renderLegalTemplate` output — the filled document plus its launch report. */
+export interface RenderedLegalTemplate {
+  template: LegalTemplate;
+  /** Filled Markdown. Missing required tokens read `[LABEL]`. */
+  markdown: string;
+  /**
+   * The same document as HTML. Fact values are escaped; a missing
+   * required token renders as `<mark data-legal-missing-field="token">`
+   * so CI and reviewers can find it.
+   */
+  html: string;
+  /** Required fields with no value — each rendered as a visible `[LABEL]`. */
+  missingFields: LegalTemplateField[];
+  /** Optional fields with no value (or fallback) — dropped from the copy. */
+  droppedFields: LegalTemplateField[];
+  reviewStatus: LegalReviewStatus;
+  /** True only when counsel approved the template and no required field is missing. */
+  launchReady: boolean;
+}
@@ -0,0 +1,22 @@
+/**
+ * Client-content resolver for the Brik Content System.
+ *
+ * Applies the content cascade — industry pack defaults, then the
+ * client's `company_profiles` overrides — into the one resolved view
+ * the portal, copy workers and site scaffolding consume, with the
+ * provenance of every field.
+ */
+
+export type {
+  ClientCtaLanguage,
+  ClientComplianceProfile,
+  ClientPageComposition,
+  ClientContentProfile,
+  ContentSource,
+  DroppedComplianceRegime,
+  ResolvedCompliance,
+  ResolvedClientContent,
+  ClientContentProvenance,
+} from './types';
+
+export { resolveClientContent, resolveCompliance, FEDERAL_FUNDS_REGIMES } from './resolve-client-content';
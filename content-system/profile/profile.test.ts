@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+
+import { resolveClientContent, resolveCompliance } from './index';
+import { dental, smallBusiness } from '../industries';
+import { blendVoices } from '../voices';
+import type { ClientContentProfile } from './types';
+
+describe('resolveClientContent — pack defaults', () => {
+  it('resolves an empty profile entirely from the small-business pack', () => {
+    const content = resolveClientContent();
+    expect(content.industry).toBe('small-business');
+    expect(content.pack).toBe(smallBusiness);
+    expect(content.affinities.voice).toEqual(smallBusiness.affinities.voice);
+    expect(content.ctaLanguage.approved).toEqual(smallBusiness.ctaDefaults.approved);
+    expect(content.compliance).toBeNull();
+    expect(content.provenance).toMatchObject({
+      industry: 'fallback',
+      affinities: { personality: 'industry', voice: 'industry', visualStyle: 'industry' },
+      ctaLanguage: { approved: 'industry', rejected: 'industry' },
+      footerArchetype: 'industry',
+    });
+  });
+
+  it('falls back to small-business for an unknown industry slug', () => {
+    const content = resolveClientContent({ industry_slug: 'bakery' } as unknown as ClientContentProfile);
+    expect(content.industry).toBe('small-business');
+    expect(content.provenance.industry).toBe('fallback');
+  });
+
+  it('takes every field from the client pack when nothing is overridden', () => {
+    const content = resolveClientContent({ industry_slug: 'dental' });
+    expect(content.provenance.industry).toBe('client');
+    expect(content.navigationIA).toBe(dental.navigationIA);
+    expect(content.footerArchetype).toBe('legal_heavy');
+    expect(content.pageCompositions.home).toEqual(dental.pageCompositions?.home);
+    expect(Object.values(content.provenance.pageCompositions).every((s) => s === 'industry')).toBe(true);
+    expect(content.voice).toEqual(blendVoices(dental.affinities.voice));
+  });
+});
+
+describe('resolveClientContent — client overrides', () => {
+  it('uses the client trait picks and blends their voices', () => {
+    const content = resolveClientContent({
+      industry_slug: 'dental',
+      voice_tone: ['Direct', 'Witty'],
+      brand_personality: [],
+    });
+    expect(content.affinities.voice).toEqual(['Direct', 'Witty']);
+    expect(content.voice?.voices.map((v) => v.voice)).toEqual(['Direct', 'Witty']);
+    expect(content.provenance.voice).toBe('client');
+    // An empty pick list falls through to the pack.
+    expect(content.provenance.affinities.personality).toBe('industry');
+  });
+
+  it('ignores values outside the locked vocabularies', () => {
+    const content = resolveClientContent({
+      industry_slug: 'dental',
+      voice_tone: ['Sarcastic'],
+    } as unknown as ClientContentProfile);
+    expect(content.affinities.voice).toEqual(dental.affinities.voice);
+    expect(content.provenance.voice).toBe('industry');
+  });
+
+  it('puts client CTAs first and lets them win disagreements with the pack', () => {
+    const { ctaLanguage, provenance } = resolveClientContent({
+      industry_slug: 'dental',
+      cta_language: { approved: ['Book now', 'Request a visit'], rejected: ['schedule a visit'] },
+    });
+    expect(ctaLanguage.approved.slice(0, 2)).toEqual(['Book now', 'Request a visit']);
+    expect(ctaLanguage.approved).not.toContain('Schedule a Visit');
+    expect(ctaLanguage.rejected[0]).toBe('schedule a visit');
+    expect(ctaLanguage.rejected).not.toContain('Book Now');
+    expect(provenance.ctaLanguage).toEqual({ approved: 'merged', rejected: 'merged' });
+  });
+
+  it('layers naming conventions and anti-messages over the pack vocabulary', () => {
+    const { vocabulary, provenance } = resolveClientContent({
+      industry_slug: 'dental',
+      naming_conventions: ['guests', 'painless'],
+      anti_messages: ['cheap', 'hygienist'],
+    });
+    expect(vocabulary.preferred.slice(0, 2)).toEqual(['guests', 'painless']);
+    expect(vocabulary.preferred).not.toContain('hygienist');
+    expect(vocabulary.avoid.some((a) => a.term.toLowerCase() === 'painless')).toBe(false);
+    expect(vocabulary.avoid).toContainEqual({ term: 'hygienist', reason: 'client-specified' });
+    expect(provenance.vocabulary).toEqual({ preferred: 'merged', avoid: 'merged' });
+  });
+
+  it('applies nav, footer and per-page composition overrides', () => {
+    const content = resolveClientContent({
+      industry_slug: 'dental',
+      nav_archetype: 'utility-first',
+      footer_archetype: 'cta_focused',
+      page_compositions: {
+        home: { sections: ['hero_split_60_40', 'cta_dark_centered'], navArchetype: 'calm-flat' },
+        careers: { sections: ['hero_interior_minimal'] },
+        contact: { sections: [] },
+      },
+    });
+    expect(content.navigationIA.archetype).toBe('utility-first');
+    expect(content.navigationIA.primaryLinks).toBe(dental.navigationIA?.primaryLinks);
+    expect(content.footerArchetype).toBe('cta_focused');
+    expect(content.pageCompositions.home).toEqual({
+      pageArchetype: 'home',
+      sections: ['hero_split_60_40', 'cta_dark_centered'],
+      navArchetype: 'calm-flat',
+    });
+    expect(content.pageCompositions.careers.pageArchetype).toBe('careers');
+    expect(content.provenance).toMatchObject({
+      navigationIA: 'merged',
+      footerArchetype: 'client',
+      pageCompositions: { home: 'client', careers: 'client', contact: 'industry' },
+    });
+  });
+});
+
+describe('resolveCompliance', () => {
+  it('keeps every pack regime when the client profile is silent', () => {
+    const compliance = resolveCompliance(dental, null);
+    expect(compliance?.regimes).toEqual(dental.compliance?.regimes);
+    expect(compliance?.droppedRegimes).toEqual([]);
+  });
+
+  it('drops federal-funds regimes and the legal pages they mandate', () => {
+    const { compliance, provenance } = resolveClientContent({
+      industry_slug: 'dental',
+      compliance_profile: { receives_federal_funds: false },
+    });
+    expect(compliance?.regimes).not.toContain('section_1557');
+    expect(compliance?.regimes).not.toContain('section_504');
+    expect(compliance?.requiredLegalPages.map((p) => p.slug)).not.toContain('notice-of-nondiscrimination');
+    expect(compliance?.droppedRegimes).toEqual([
+      { regime: 'section_1557', reason: 'no-federal-funds' },
+      { regime: 'section_504', reason: 'no-federal-funds' },
+    ]);
+    expect(provenance.compliance).toBe('merged');
+  });
+
+  it('drops client-listed regimes but never ADA Title III', () => {
+    const compliance = resolveCompliance(dental, { dropped_regimes: ['hipaa', 'ada_title_iii'] });
+    expect(compliance?.regimes).toContain('ada_title_iii');
+    expect(compliance?.requiredLegalPages.map((p) => p.slug)).toEqual([
+      'accessibility',
+      'notice-of-nondiscrimination',
+      'terms',
+    ]);
+    expect(compliance?.requiredFooterLinks).toEqual(['accessibility']);
+  });
+});
@@ -0,0 +1,281 @@
+import type { ComplianceRegime, IndustryPack, NavigationIA, PageComposition, VocabularyAvoid } from '../schema';
+import { industryPacks, smallBusiness } from '../industries';
+import { blendVoices } from '../voices';
+import {
+  DEFAULT_FOOTER_ARCHETYPE,
+  DEFAULT_INDUSTRY_SLUG,
+  isFooterArchetype,
+  isIndustrySlug,
+  isNavArchetype,
+  isPersonality,
+  isVisualStyle,
+  isVoice,
+  type FooterArchetype,
+} from '../vocabularies';
+import type {
+  ClientComplianceProfile,
+  ClientContentProfile,
+  ContentSource,
+  DroppedComplianceRegime,
+  ResolvedClientContent,
+  ResolvedCompliance,
+} from './types';
+
+/**
+ * Regimes triggered by federal financial assistance — dropped when the
+ * client's `compliance_profile.receives_federal_funds` is `false`.
+ */
+export const FEDERAL_FUNDS_REGIMES: readonly ComplianceRegime[] = ['section_1557', 'section_504'];
+
+/** Every site serving the public owes ADA Title III — no profile can drop it. */
+const PERMANENT_REGIMES: readonly ComplianceRegime[] = ['ada_title_iii'];
+
+// ─── Helpers ────────────────────────────────────────────────────────
+
+interface Resolved<T> {
+  value: T;
+  source: ContentSource;
+}
+
+const key = (value: string) => value.trim().toLowerCase();
+
+/** First occurrence wins; comparison ignores case and surrounding space. */
+function dedupe(values: readonly string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter((value) => {
+    const k = key(value);
+    if (!k || seen.has(k)) return false;
+    seen.add(k);
+    return true;
+  });
+}
+
+/** Drops values that appear in `remove`, ignoring case. */
+function without(values: readonly string[], remove: readonly string[]): string[] {
+  const removed = new Set(remove.map(key));
+  return values.filter((value) => !removed.has(key(value)));
+}
+
+/**
+ * The client's picks when they made any valid ones, else the pack's.
+ * Values outside the locked vocabulary (legacy rows) are ignored.
+ */
+function pick<T extends string>(
+  client: readonly T[] | null | undefined,
+  guard: (value: string) => value is T,
+  fallback: readonly T[],
+): [readonly T[], ContentSource] {
+  const valid = (client ?? []).filter((value) => guard(value));
+  return valid.length > 0 ? [[...new Set(valid)], 'client'] : [fallback, 'industry'];
+}
+
+// ─── Cascade steps ──────────────────────────────────────────────────
+
+/**
+ * Client CTAs lead; the pack's fill in behind them. A label the client
+ * rejects leaves the approved list, and one they approve leaves the
+ * rejected list — the client wins every disagreement with the pack.
+ */
+function resolveCtaLanguage(pack: IndustryPack, profile: ClientContentProfile) {
+  const approved = profile.cta_language?.approved ?? [];
+  const rejected = profile.cta_language?.rejected ?? [];
+  const source: ContentSource = approved.length > 0 || rejected.length > 0 ? 'merged' : 'industry';
+  return {
+    value: {
+      approved: dedupe([...approved, ...without(pack.ctaDefaults.approved, rejected)]),
+      rejected: dedupe([...rejected, ...without(pack.ctaDefaults.rejected, approved)]),
+    },
+    source: { approved: source, rejected: source },
+  };
+}
+
+/**
+ * Naming conventions lead `preferred` and lift any pack avoid they
+ * collide with; anti-messages join `avoid` and leave `preferred`.
+ */
+function resolveVocabulary(pack: IndustryPack, profile: ClientContentProfile) {
+  const naming = dedupe(profile.naming_conventions ?? []);
+  const anti = dedupe(profile.anti_messages ?? []);
+
+  const packAvoid = pack.vocabulary.avoid.filter(({ term }) => without([term], naming).length > 0);
+  const clientAvoid: VocabularyAvoid[] = anti
+    .filter((term) => !packAvoid.some((entry) => key(entry.term) === key(term)))
+    .map((term) => ({ term, reason: 'client-specified' }));
+
+  const preferredSource: ContentSource = naming.length > 0 || anti.length > 0 ? 'merged' : 'industry';
+  const avoidTouched = clientAvoid.length > 0 || packAvoid.length < pack.vocabulary.avoid.length;
+  const avoidSource: ContentSource = avoidTouched ? 'merged' : 'industry';
+  return {
+    value: {
+      preferred: without(dedupe([...naming, ...pack.vocabulary.preferred]), anti),
+      avoid: [...packAvoid, ...clientAvoid],
+    },
+    source: { preferred: preferredSource, avoid: avoidSource },
+  };
+}
+
+function droppedRegimes(
+  regimes: readonly ComplianceRegime[],
+  profile: ClientComplianceProfile | null | undefined,
+): DroppedComplianceRegime[] {
+  const dropped: DroppedComplianceRegime[] = [];
+  for (const regime of regimes) {
+    if (PERMANENT_REGIMES.includes(regime)) continue;
+    if (profile?.receives_federal_funds === false && FEDERAL_FUNDS_REGIMES.includes(regime)) {
+      dropped.push({ regime, reason: 'no-federal-funds' });
+    } else if (profile?.dropped_regimes?.includes(regime)) {
+      dropped.push({ regime, reason: 'client-dropped' });
+    }
+  }
+  return dropped;
+}
+
+/**
+ * Narrow the pack's compliance profile to the client's regimes. Legal
+ * pages mandated only by a dropped regime go with it, and so do the
+ * footer links that pointed at them.
+ */
+export function resolveCompliance(
+  pack: IndustryPack,
+  profile: ClientComplianceProfile | null | undefined,
+): ResolvedCompliance | null {
+  const { compliance } = pack;
+  if (!compliance) return null;
+
+  const dropped = droppedRegimes(compliance.regimes, profile);
+  const isDropped = (regime: ComplianceRegime) => dropped.some((d) => d.regime === regime);
+
+  const requiredLegalPages = compliance.requiredLegalPages.filter((page) => !isDropped(page.regime));
+  const droppedPages = compliance.requiredLegalPages
+    .filter((page) => isDropped(page.regime))
+    .map((page) => page.slug);
+
+  return {
+    ...compliance,
+    regimes: compliance.regimes.filter((regime) => !isDropped(regime)),
+    requiredLegalPages,
+    requiredFooterLinks: without(compliance.requiredFooterLinks ?? [], droppedPages),
+    droppedRegimes: dropped,
+  };
+}
+
+/**
+ * The pack's IA, else the `small-business` baseline. A client
+ * `nav_archetype` swaps the archetype and keeps the pack's links.
+ */
+function resolveNavigationIA(pack: IndustryPack, profile: ClientContentProfile): Resolved<NavigationIA> {
+  const base = pack.navigationIA ?? (smallBusiness.navigationIA as NavigationIA);
+  const archetype = profile.nav_archetype;
+  if (archetype && isNavArchetype(archetype) && archetype !== base.archetype) {
+    return { value: { ...base, archetype }, source: 'merged' };
+  }
+  return { value: base, source: pack.navigationIA ? 'industry' : 'fallback' };
+}
+
+function resolveFooterArchetype(pack: IndustryPack, profile: ClientContentProfile): Resolved<FooterArchetype> {
+  const client = profile.footer_archetype;
+  if (client && isFooterArchetype(client)) return { value: client, source: 'client' };
+  if (pack.footerArchetype) return { value: pack.footerArchetype, source: 'industry' };
+  return { value: DEFAULT_FOOTER_ARCHETYPE, source: 'fallback' };
+}
+
+/**
+ * Per page type: the client's `page_compositions` entry, else the
+ * pack's. A client entry with no sections falls through to the pack.
+ */
+function resolvePageCompositions(pack: IndustryPack, profile: ClientContentProfile) {
+  const value: Record<string, PageComposition> = { ...pack.pageCompositions };
+  const source: Record<string, ContentSource> = {};
+  for (const pageType of Object.keys(value)) source[pageType] = 'industry';
+
+  for (const [pageType, override] of Object.entries(profile.page_compositions ?? {})) {
+    if (!override || override.sections.length === 0) continue;
+    const { navArchetype, footerArchetype } = override;
+    value[pageType] = {
+      pageArchetype: pack.pageCompositions?.[pageType]?.pageArchetype ?? pageType,
+      sections: [...override.sections],
+      ...(navArchetype && isNavArchetype(navArchetype) ? { navArchetype } : {}),
+      ...(footerArchetype && isFooterArchetype(footerArchetype) ? { footerArchetype } : {}),
+    };
+    source[pageType] = 'client';
+  }
+  return { value, source };
+}
+
+// ─── resolveClientContent ───────────────────────────────────────────
+
+/**
+ * Apply the content cascade for one client — industry pack defaults,
+ * then `company_profiles` overrides — and report where every field
+ * came from.
+ *
+ *   - Industry — `industry_slug`, else `DEFAULT_INDUSTRY_SLUG`.
+ *   - Affinities — the client's personality / voice / style picks,
+ *     else the pack's `affinities`. The voice picks are blended with
+ *     `blendVoices`.
+ *   - Vocabulary and CTAs — client values lead and the pack's fill in;
+ *     where the two disagree, the client wins.
+ *   - Compliance — the pack's regimes, minus those the client's
+ *     `compliance_profile` rules out, with their legal pages and
+ *     footer links.
+ *   - Navigation, footer and page compositions — client override >
+ *     pack default > BCS fallback (`small-business` IA,
+ *     `DEFAULT_FOOTER_ARCHETYPE`).
+ *
+ * Empty client fields fall through to the pack, and values outside the
+ * locked vocabularies are ignored, so any `company_profiles` row
+ * resolves.
+ *
+ * @example
+ * ```ts
+ * const content = resolveClientContent({
+ *   industry_slug: 'dental',
+ *   voice_tone: ['Empathetic', 'Direct'],
+ *   cta_language: { approved: ['Request a visit'] },
+ *   compliance_profile: { receives_federal_funds: false },
+ * });
+ * content.ctaLanguage.approved[0];     // 'Request a visit'
+ * content.provenance.ctaLanguage;      // { approved: 'merged', rejected: 'merged' }
+ * ```
+ */
+export function resolveClientContent(profile: ClientContentProfile = {}): ResolvedClientContent {
+  const slug = profile.industry_slug;
+  const hasPack = !!slug && isIndustrySlug(slug) && !!industryPacks[slug];
+  const industry = hasPack ? slug : DEFAULT_INDUSTRY_SLUG;
+  const pack = industryPacks[industry] ?? smallBusiness;
+
+  const [personality, personalitySource] = pick(profile.brand_personality, isPersonality, pack.affinities.personality);
+  const [voice, voiceSource] = pick(profile.voice_tone, isVoice, pack.affinities.voice);
+  const [visualStyle, visualStyleSource] = pick(profile.style_preferences, isVisualStyle, pack.affinities.visualStyle);
+
+  const vocabulary = resolveVocabulary(pack, profile);
+  const ctaLanguage = resolveCtaLanguage(pack, profile);
+  const compliance = resolveCompliance(pack, profile.compliance_profile);
+  const navigationIA = resolveNavigationIA(pack, profile);
+  const footerArchetype = resolveFooterArchetype(pack, profile);
+  const pageCompositions = resolvePageCompositions(pack, profile);
+
+  return {
+    industry,
+    pack,
+    affinities: { personality, voice, visualStyle },
+    voice: blendVoices(voice),
+    vocabulary: vocabulary.value,
+    ctaLanguage: ctaLanguage.value,
+    compliance,
+    navigationIA: navigationIA.value,
+    footerArchetype: footerArchetype.value,
+    pageCompositions: pageCompositions.value,
+    provenance: {
+      industry: hasPack ? 'client' : 'fallback',
+      affinities: { personality: personalitySource, voice: voiceSource, visualStyle: visualStyleSource },
+      voice: voiceSource,
+      vocabulary: vocabulary.source,
+      ctaLanguage: ctaLanguage.source,
+      compliance: compliance && compliance.droppedRegimes.length > 0 ? 'merged' : 'industry',
+      navigationIA: navigationIA.source,
+      footerArchetype: footerArchetype.source,
+      pageCompositions: pageCompositions.source,
+    },
+  };
+}
@@ -0,0 +1,163 @@
+/**
+ * Client-content resolver types for the Brik Content System.
+ *
+ * `resolveClientContent` applies the whole content cascade — industry
+ * pack defaults, then `company_profiles` overrides — and reports where
+ * every resolved field came from. The input shape uses the portal's
+ * column names so a `company_profiles` row satisfies it structurally;
+ * BDS doesn't import portal types.
+ */
+
+import type {
+  ComplianceRegime,
+  IndustryCompliance,
+  IndustryPack,
+  NavigationIA,
+  PageComposition,
+  RequiredLegalPage,
+  VocabularyAvoid,
+} from '../schema';
+import type {
+  FooterArchetype,
+  IndustrySlug,
+  NavArchetype,
+  Personality,
+  VisualStyle,
+  Voice,
+} from '../vocabularies';
+import type { VoiceBlend } from '../voices';
+
+/** `company_profiles.cta_language` — the Approved / Rejected split the Brand Identity sheet edits. */
+export interface ClientCtaLanguage {
+  readonly approved?: readonly string[] | null;
+  readonly rejected?: readonly string[] | null;
+}
+
+/**
+ * `company_profiles.compliance_profile` — per-client refinement of the
+ * pack's compliance regimes. The pack lists the most a vertical can be
+ * subject to; the client's facts drop what doesn't apply.
+ */
+export interface ClientComplianceProfile {
+  /**
+   * `false` drops `section_1557` and `section_504` — both are triggered
+   * by federal financial assistance (Medicare, Medicaid, HHS grants).
+   * Omit or `null` when unknown; the pack's regimes stand.
+   */
+  readonly receives_federal_funds?: boolean | null;
+  /** Regimes to drop outright. `ada_title_iii` can't be dropped. */
+  readonly dropped_regimes?: readonly ComplianceRegime[] | null;
+}
+
+/**
+ * One entry of `company_profiles.page_compositions` — the shape the
+ * portal's PATCH zod accepts. `sections` replaces the pack's sequence
+ * wholesale; the archetype overrides are optional.
+ */
+export interface ClientPageComposition {
+  readonly sections: readonly string[];
+  readonly navArchetype?: NavArchetype;
+  readonly footerArchetype?: FooterArchetype;
+}
+
+/**
+ * The `company_profiles` columns the cascade reads. Every field is
+ * optional — an early-onboarding profile with only a name still
+ * resolves, entirely from pack defaults.
+ */
+export interface ClientContentProfile {
+  readonly industry_slug?: IndustrySlug | null;
+  readonly brand_personality?: readonly Personality[] | null;
+  readonly voice_tone?: readonly Voice[] | null;
+  readonly style_preferences?: readonly VisualStyle[] | null;
+  readonly cta_language?: ClientCtaLanguage | null;
+  /** Messages the client never wants said — added to `vocabulary.avoid`. */
+  readonly anti_messages?: readonly string[] | null;
+  /** The client's own terms for things ("guests", not "customers") — lead `vocabulary.preferred`. */
+  readonly naming_conventions?: readonly string[] | null;
+  readonly compliance_profile?: ClientComplianceProfile | null;
+  readonly nav_archetype?: NavArchetype | null;
+  readonly footer_archetype?: FooterArchetype | null;
+  readonly page_compositions?: Readonly<Record<string, ClientPageComposition>> | null;
+}
+
+/**
+ * Where a resolved value came from.
+ *
+ *   - `client`   — a `company_profiles` override, used as-is.
+ *   - `industry` — the client's industry pack default.
+ *   - `merged`   — client values layered over the pack's (lists).
+ *   - `fallback` — neither set it; a BCS-wide default filled in
+ *                  (`small-business` pack, `DEFAULT_FOOTER_ARCHETYPE`).
+ */
+export type ContentSource = 'client' | 'industry' | 'merged' | 'fallback';
+
+/** A regime the client's compliance profile removed, and why. */
+export interface DroppedComplianceRegime {
+  readonly regime: ComplianceRegime;
+  readonly reason: 'no-federal-funds' | 'client-dropped';
+}
+
+/** The pack's compliance profile, narrowed to the client's regimes. */
+export interface ResolvedCompliance extends IndustryCompliance {
+  readonly regimes: readonly ComplianceRegime[];
+  /** Only pages whose regime survived. */
+  readonly requiredLegalPages: readonly RequiredLegalPage[];
+  /** Only links that don't point at a dropped page. */
+  readonly requiredFooterLinks: readonly string[];
+  /** Pack regimes the client's profile removed. Empty when nothing was dropped. */
+  readonly droppedRegimes: readonly DroppedComplianceRegime[];
+}
+
+export interface ResolvedClientContent {
+  /** The pack the cascade started from. */
+  readonly industry: IndustrySlug;
+  readonly pack: IndustryPack;
+  readonly affinities: {
+    readonly personality: readonly Personality[];
+    readonly voice: readonly Voice[];
+    readonly visualStyle: readonly VisualStyle[];
+  };
+  /** `blendVoices(affinities.voice)`. */
+  readonly voice: VoiceBlend | null;
+  readonly vocabulary: {
+    readonly preferred: readonly string[];
+    readonly avoid: readonly VocabularyAvoid[];
+  };
+  readonly ctaLanguage: {
+    readonly approved: readonly string[];
+    readonly rejected: readonly string[];
+  };
+  /** `null` when the pack declares no compliance profile. */
+  readonly compliance: ResolvedCompliance | null;
+  readonly navigationIA: NavigationIA;
+  readonly footerArchetype: FooterArchetype;
+  /** Every page type the pack or the client composes, keyed by page type. */
+  readonly pageCompositions: Readonly<Record<string, PageComposition>>;
+  /** Where each field above came from. */
+  readonly provenance: ClientContentProvenance;
+}
+
+export interface ClientContentProvenance {
+  readonly industry: ContentSource;
+  readonly affinities: {
+    readonly personality: ContentSource;
+    readonly voice: ContentSource;
+    readonly visualStyle: ContentSource;
+  };
+  /** Same as `affinities.voice` — the blend is built from those picks. */
+  readonly voice: ContentSource;
+  readonly vocabulary: {
+    readonly preferred: ContentSource;
+    readonly avoid: ContentSource;
+  };
+  readonly ctaLanguage: {
+    readonly approved: ContentSource;
+    readonly rejected: ContentSource;
+  };
+  readonly compliance: ContentSource;
+  readonly navigationIA: ContentSource;
+  readonly footerArchetype: ContentSource;
+  /** Per page type, matching the keys of `pageCompositions`. */
+  readonly pageCompositions: Readonly<Record<string, ContentSource>>;
+}
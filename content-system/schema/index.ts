@@ -1,6 +1,7 @@
 export type {
   IndustryPack,
   PageArchetype,
+  PageComposition,
   ServiceEntry,
   VocabularyAvoid,
   SeasonalWindow,
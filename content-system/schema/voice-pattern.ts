@@ -4,8 +4,9 @@ import type { Voice } from '../vocabularies';
  * VoicePattern — the writing rules + examples for one canonical voice trait.
  *
  * Each voice in `VOICE_VALUES` has a matching `voices/{slug}.ts` file and an
- * `{slug}.mdx` narrative. The resolver's voice blender reads `rules` and
- * merges up to 3 voice patterns with first-pick weighted highest.
+ * `{slug}.mdx` narrative. The resolver's voice blender (`blendVoices` in
+ * `voices/blend.ts`) reads `rules` and merges up to 3 voice patterns with
+ * first-pick weighted highest.
  *
  * Rules are *directional*, not strict — sentence-length ranges are targets
  * that compose, not hard limits. The blender reconciles conflicts (e.g.
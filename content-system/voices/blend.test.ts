@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+
+import { blendVoices, direct, expert, voicePatterns } from './index';
+
+describe('blendVoices', () => {
+  it('returns null when there are no picks', () => {
+    expect(blendVoices([])).toBeNull();
+  });
+
+  it('returns a single pick unchanged', () => {
+    const blend = blendVoices(['Direct']);
+    expect(blend?.voices).toEqual([{ voice: 'Direct', weight: 1 }]);
+    expect(blend?.rules).toEqual(direct.rules);
+    expect(blend?.signaturePatterns).toEqual(direct.signaturePatterns);
+    expect(blend?.conflicts).toEqual([]);
+  });
+
+  it('weights picks 60 / 30 / 10 and ignores repeats and a fourth pick', () => {
+    const blend = blendVoices(['Poetic', 'Direct', 'Poetic', 'Expert', 'Witty']);
+    expect(blend?.voices.map((v) => v.voice)).toEqual(['Poetic', 'Direct', 'Expert']);
+    const [first, second, third] = blend!.voices.map((v) => v.weight);
+    expect(first).toBeCloseTo(0.6);
+    expect(second).toBeCloseTo(0.3);
+    expect(third).toBeCloseTo(0.1);
+  });
+
+  it('renormalizes the weights over two picks', () => {
+    const weights = blendVoices(['Direct', 'Expert'])!.voices.map((v) => v.weight);
+    expect(weights[0]).toBeCloseTo(2 / 3);
+    expect(weights[1]).toBeCloseTo(1 / 3);
+  });
+
+  it('averages sentence length by weight', () => {
+    // The Voices docs' example: Direct(10) + Empathetic(14) + Poetic(18) resolves to ~12.
+    expect(blendVoices(['Direct', 'Empathetic', 'Poetic'])?.rules.sentenceLength.avg).toBe(12);
+    // Direct 10 [4, 16] × 2/3 + Expert 16 [10, 24] × 1/3
+    expect(blendVoices(['Direct', 'Expert'])?.rules.sentenceLength).toEqual({ avg: 12, range: [6, 19] });
+  });
+
+  it('resolves categorical rules by weighted vote', () => {
+    // Direct "avoid" outweighs Empathetic + Poetic "neutral".
+    expect(direct.rules.hedging).toBe('avoid');
+    expect(voicePatterns.Empathetic.rules.hedging).toBe('neutral');
+    expect(voicePatterns.Poetic.rules.hedging).toBe('neutral');
+    expect(blendVoices(['Direct', 'Empathetic', 'Poetic'])?.rules.hedging).toBe('avoid');
+  });
+
+  it("keeps the first pick's perspective unless the other picks all agree on another", () => {
+    expect(expert.rules.perspective).toBe('flexible');
+    expect(blendVoices(['Direct', 'Approachable'])?.rules.perspective).toBe('second-person');
+    expect(blendVoices(['Expert', 'Direct', 'Conversational'])?.rules.perspective).toBe('second-person');
+    expect(blendVoices(['Expert', 'Direct', 'Approachable'])?.rules.perspective).toBe('flexible');
+  });
+
+  it('lets agreeing picks override a first pick that is not flexible', () => {
+    expect(voicePatterns.Approachable.rules.perspective).toBe('first-person-plural');
+    expect(blendVoices(['Approachable', 'Direct', 'Conversational'])?.rules.perspective).toBe('second-person');
+    expect(blendVoices(['Approachable', 'Direct', 'Expert'])?.rules.perspective).toBe('first-person-plural');
+  });
+
+  it('notes every pair in tension, leaning toward the earlier pick', () => {
+    const blend = blendVoices(['Direct', 'Expert', 'Poetic']);
+    expect(blend?.conflicts.map((c) => c.voices)).toEqual([
+      ['Direct', 'Poetic'],
+      ['Expert', 'Poetic'],
+    ]);
+    const [first] = blend!.conflicts;
+    expect(first.leaning).toBe('Direct');
+    expect(first.rules).toContain('figurativeLanguage');
+    expect(first.note).toContain('Lean Direct');
+  });
+
+  it('renders a brief covering the mix, rules, lists and tensions', () => {
+    const blend = blendVoices(['Direct', 'Poetic'])!;
+    expect(blend.brief).toContain('Voice: Direct 67%, Poetic 33%.');
+    expect(blend.brief).toContain(`Sentences average ${blend.rules.sentenceLength.avg} words`);
+    expect(blend.brief).toContain(direct.avoid[0]);
+    expect(blend.brief).toContain('Tensions:');
+  });
+});
@@ -0,0 +1,268 @@
+import type { VoicePattern, VoiceRules } from '../schema';
+import type { Voice } from '../vocabularies';
+import { voicePatterns } from './registry';
+
+/**
+ * Voice blender — merges a client's voice picks into one resolved style
+ * guide.
+ *
+ * Clients pick up to 3 voices in the portal; the first pick is the
+ * brand's primary register and the later picks soften it. The portal's
+ * brief preview and the copy workers both call this so they write to
+ * the same merged rules instead of each re-deriving them.
+ */
+
+/**
+ * Share of the 1st, 2nd and 3rd pick — the 60 / 30 / 10 split the
+ * Voices docs specify. Exported so the portal can show the same split.
+ * Fewer picks renormalize: two picks blend 67 / 33.
+ */
+export const VOICE_BLEND_WEIGHTS = [0.6, 0.3, 0.1] as const;
+
+/** Most picks the blender reads. Later picks are ignored. */
+export const MAX_BLENDED_VOICES = VOICE_BLEND_WEIGHTS.length;
+
+export interface BlendedVoice {
+  readonly voice: Voice;
+  /** Share of the blend, 0–1. Weights sum to 1. */
+  readonly weight: number;
+}
+
+/**
+ * Two picks that list each other in `pairings.tensions`. Notable, not
+ * forbidden — the note tells the writer which way the blend leans.
+ */
+export interface VoiceConflict {
+  /** The pair, in pick order. */
+  readonly voices: readonly [Voice, Voice];
+  /** The heavier of the two — the one the merged rules favor. */
+  readonly leaning: Voice;
+  /** Rules the two set differently. */
+  readonly rules: readonly (keyof VoiceRules)[];
+  /** Prompt-ready sentence describing the tension and how it resolves. */
+  readonly note: string;
+}
+
+export interface VoiceBlend {
+  /** Distinct picks in order, with their share of the blend. */
+  readonly voices: readonly BlendedVoice[];
+  /** Merged rules — weighted toward the first pick. */
+  readonly rules: VoiceRules;
+  /** Every pick's signature patterns, first pick first, de-duplicated. */
+  readonly signaturePatterns: readonly string[];
+  /** Every pick's avoid list, first pick first, de-duplicated. */
+  readonly avoid: readonly string[];
+  /** One entry per pair of picks in tension. */
+  readonly conflicts: readonly VoiceConflict[];
+  /** The whole guide as plain text, ready to drop into a copy prompt. */
+  readonly brief: string;
+}
+
+/** Rules resolved by weighted vote. */
+const VOTED_RULES = ['contractions', 'hedging', 'imperatives', 'rhetoricalQuestions', 'figurativeLanguage'] as const;
+
+type VotedRule = (typeof VOTED_RULES)[number];
+
+const RULE_LABELS: Record<keyof VoiceRules, string> = {
+  sentenceLength: 'sentence length',
+  contractions: 'contractions',
+  perspective: 'perspective',
+  hedging: 'hedging',
+  imperatives: 'imperatives',
+  rhetoricalQuestions: 'rhetorical questions',
+  figurativeLanguage: 'figurative language',
+};
+
+/**
+ * The value with the most weight behind it. Ties go to the earlier
+ * pick — the first pick always reaches its value first.
+ */
+function vote<R extends VotedRule>(rule: R, patterns: readonly VoicePattern[], weights: readonly number[]): VoiceRules[R] {
+  const totals = new Map<VoiceRules[R], number>();
+  patterns.forEach((p, i) => totals.set(p.rules[rule], (totals.get(p.rules[rule]) ?? 0) + weights[i]));
+  let best = patterns[0].rules[rule];
+  for (const [value, total] of totals) {
+    if (total > (totals.get(best) ?? 0)) best = value;
+  }
+  return best;
+}
+
+/**
+ * First-pick-wins, unless the other picks all agree on another perspective.
+ * Agreement takes at least two other picks — one voice can't outvote the
+ * first on its own.
+ */
+function blendPerspective(patterns: readonly VoicePattern[]): VoiceRules['perspective'] {
+  const [first, ...rest] = patterns.map((p) => p.rules.perspective);
+  if (rest.length < 2) return first;
+  return rest.every((perspective) => perspective === rest[0]) ? rest[0] : first;
+}
+
+const weightedAverage = (values: readonly number[], weights: readonly number[]) =>
+  Math.round(values.reduce((sum, v, i) => sum + v * weights[i], 0));
+
+/**
+ * Merge rules by weight, per the Voices docs' blender rules. `weights`
+ * line up with `patterns` and sum to 1.
+ *
+ *   - Sentence length — weighted average of each avg and range bound.
+ *   - Contractions, hedging, imperatives, rhetorical questions and
+ *     figurative language — weighted vote, ties to the earlier pick.
+ *   - Perspective — the first pick's, unless the other picks all agree
+ *     on another.
+ */
+export function blendVoiceRules(patterns: readonly VoicePattern[], weights: readonly number[]): VoiceRules {
+  const lengths = patterns.map((p) => p.rules.sentenceLength);
+  return {
+    sentenceLength: {
+      avg: weightedAverage(lengths.map((l) => l.avg), weights),
+      range: [
+        weightedAverage(lengths.map((l) => l.range[0]), weights),
+        weightedAverage(lengths.map((l) => l.range[1]), weights),
+      ],
+    },
+    contractions: vote('contractions', patterns, weights),
+    perspective: blendPerspective(patterns),
+    hedging: vote('hedging', patterns, weights),
+    imperatives: vote('imperatives', patterns, weights),
+    rhetoricalQuestions: vote('rhetoricalQuestions', patterns, weights),
+    figurativeLanguage: vote('figurativeLanguage', patterns, weights),
+  };
+}
+
+function differingRules(a: VoiceRules, b: VoiceRules): (keyof VoiceRules)[] {
+  const differ: (keyof VoiceRules)[] = [];
+  if (a.sentenceLength.avg !== b.sentenceLength.avg) differ.push('sentenceLength');
+  const flexible = a.perspective === 'flexible' || b.perspective === 'flexible';
+  if (!flexible && a.perspective !== b.perspective) differ.push('perspective');
+  for (const rule of VOTED_RULES) {
+    if (a[rule] !== b[rule]) differ.push(rule);
+  }
+  return differ;
+}
+
+function describeRule(rule: keyof VoiceRules, value: VoiceRules): string {
+  return rule === 'sentenceLength' ? `${value.sentenceLength.avg}-word sentences` : value[rule];
+}
+
+function conflictsBetween(patterns: readonly VoicePattern[]): VoiceConflict[] {
+  const conflicts: VoiceConflict[] = [];
+  patterns.forEach((first, i) => {
+    patterns.slice(i + 1).forEach((second) => {
+      const inTension =
+        first.pairings.tensions.includes(second.slug) || second.pairings.tensions.includes(first.slug);
+      if (!inTension) return;
+      const rules = differingRules(first.rules, second.rules);
+      const contrasts = rules
+        .map((rule) => `${RULE_LABELS[rule]} (${describeRule(rule, first.rules)} vs ${describeRule(rule, second.rules)})`)
+        .join(', ');
+      conflicts.push({
+        voices: [first.slug, second.slug],
+        leaning: first.slug,
+        rules,
+        note:
+          `${first.displayName} and ${second.displayName} pull in different directions` +
+          (contrasts ? ` on ${contrasts}` : '') +
+          `. Lean ${first.displayName}; let ${second.displayName} color it rather than override it.`,
+      });
+    });
+  });
+  return conflicts;
+}
+
+function unique(lists: readonly (readonly string[])[]): string[] {
+  return [...new Set(lists.flat())];
+}
+
+// ─── Brief ──────────────────────────────────────────────────────────
+
+const PERSPECTIVE_COPY: Record<VoiceRules['perspective'], string> = {
+  'first-person-plural': 'Write as "we" — the business speaking for itself.',
+  'second-person': 'Address the reader as "you".',
+  'third-person': 'Write in the third person.',
+  flexible: 'Any perspective — match the surface.',
+};
+
+const RULE_COPY: { [R in VotedRule]: Record<VoiceRules[R], string> } = {
+  contractions: {
+    encouraged: "Use contractions freely (we're, you'll).",
+    neutral: 'Contractions where they read naturally.',
+    avoid: 'Avoid contractions.',
+  },
+  hedging: {
+    avoid: 'State claims plainly — no hedges.',
+    neutral: 'Hedge only where a claim genuinely needs it.',
+    encouraged: 'Soften claims with measured qualifiers.',
+  },
+  imperatives: {
+    direct: 'Use direct imperatives ("Book a visit").',
+    neutral: 'Imperatives where they fit.',
+    soften: 'Soften imperatives into invitations ("When you\'re ready, book a visit").',
+  },
+  rhetoricalQuestions: {
+    avoid: 'No rhetorical questions.',
+    neutral: 'Rhetorical questions sparingly.',
+    encouraged: 'Rhetorical questions welcome.',
+  },
+  figurativeLanguage: {
+    avoid: 'Literal language — no metaphors.',
+    neutral: 'Figurative language sparingly.',
+    encouraged: 'Figurative language and imagery welcome.',
+  },
+};
+
+const bullets = (items: readonly string[]) => items.map((item) => `- ${item}`).join('\n');
+
+function renderBrief(blend: Omit<VoiceBlend, 'brief'>): string {
+  const { voices, rules, signaturePatterns, avoid, conflicts } = blend;
+  const mix = voices.map(({ voice, weight }) => `${voicePatterns[voice].displayName} ${Math.round(weight * 100)}%`);
+  const { avg, range } = rules.sentenceLength;
+
+  const sections = [
+    `Voice: ${mix.join(', ')}.`,
+    [
+      'Rules:',
+      bullets([
+        `Sentences average ${avg} words, between ${range[0]} and ${range[1]}.`,
+        PERSPECTIVE_COPY[rules.perspective],
+        ...VOTED_RULES.map((rule) => (RULE_COPY[rule] as Record<string, string>)[rules[rule]]),
+      ]),
+    ].join('\n'),
+    ['Signature patterns:', bullets(signaturePatterns)].join('\n'),
+    ['Avoid:', bullets(avoid)].join('\n'),
+  ];
+  if (conflicts.length > 0) sections.push(['Tensions:', bullets(conflicts.map((c) => c.note))].join('\n'));
+  return sections.join('\n\n');
+}
+
+// ─── blendVoices ────────────────────────────────────────────────────
+
+/**
+ * Blend a client's voice picks into one resolved style guide.
+ *
+ * Reads up to `MAX_BLENDED_VOICES` distinct picks in order; repeats and
+ * later picks are ignored. Weights follow `VOICE_BLEND_WEIGHTS`,
+ * normalized over the picks given, so a single pick is returned as-is.
+ * Rules merge per `blendVoiceRules`; signature patterns and avoids are
+ * unioned; every pair of picks in tension gets a conflict note.
+ *
+ * Returns `null` when there are no picks — there is nothing to blend.
+ */
+export function blendVoices(picks: readonly Voice[]): VoiceBlend | null {
+  const distinct = [...new Set(picks)].slice(0, MAX_BLENDED_VOICES);
+  if (distinct.length === 0) return null;
+
+  const patterns = distinct.map((voice) => voicePatterns[voice]);
+  const raw = VOICE_BLEND_WEIGHTS.slice(0, patterns.length);
+  const total = raw.reduce((sum, w) => sum + w, 0);
+  const weights = raw.map((w) => w / total);
+
+  const blend = {
+    voices: distinct.map((voice, i) => ({ voice, weight: weights[i] })),
+    rules: blendVoiceRules(patterns, weights),
+    signaturePatterns: unique(patterns.map((p) => p.signaturePatterns)),
+    avoid: unique(patterns.map((p) => p.avoid)),
+    conflicts: conflictsBetween(patterns),
+  };
+  return { ...blend, brief: renderBrief(blend) };
+}
@@ -9,3 +9,7 @@ export * from './tokens';
 // import via `import { BlueprintDispatcher, Services3ColCardGrid } from
 // '@brikdesigns/bds'` (no separate sub-path required).
 export * from './content-system/blueprints/react';
+
+// BDS legal-template renderer — `<LegalDocument>` fills a BCS legal
+// template and surfaces its review status + missing facts.
+export * from './content-system/legal-templates/react';
@@ -0,0 +1,168 @@
+import { describe, it, expect } from 'vitest';
+
+import { renderOverrideBlock, suggestRepairs } from '../lib/contrast-repair.mjs';
+import { evaluatePairings, resolveAll } from '../lib/contrast-pairings.mjs';
+import { apcaContrast, apcaMinimumLc, contrastRatio } from '../lib/wcag.mjs';
+
+// Themes are hand-built in the validate-themes shape (`vars` + the `decls`
+// behind them) so each case controls exactly which ramp a token sits on.
+
+const dataset = {
+  thresholds: { AAA: 7, AA: 4.5, 'AA-large': 3 },
+  pairings: [
+    { group: 'text', label: 'Muted text on page', fg: '--text-muted', bg: '--page-primary', thresholdType: 'AA' },
+    { group: 'text', label: 'Label on fill', fg: '--text-on-fill', bg: '--background-fill', thresholdType: 'AA-large' },
+  ],
+};
+
+const gray = {
+  '--gray-100': '#eeeeee',
+  '--gray-300': '#bdbdbd',
+  '--gray-500': '#8a8a8a',
+  '--gray-700': '#5c5c5c',
+  '--gray-900': '#222222',
+};
+
+const theme = (decls, key = 'light') => ({ key, label: key, decls, vars: resolveAll(decls), selector: ':root' });
+
+describe('apcaContrast', () => {
+  it('matches the APCA-W3 reference values', () => {
+    expect(apcaContrast('#000000', '#ffffff')).toBeCloseTo(106.04, 2);
+    expect(apcaContrast('#ffffff', '#000000')).toBeCloseTo(-107.88, 2);
+    expect(apcaContrast('#888888', '#ffffff')).toBeCloseTo(63.06, 2);
+    expect(apcaContrast('#777777', '#777777')).toBe(0);
+    expect(apcaContrast('nope', '#ffffff')).toBe(0);
+  });
+});
+
+describe('apcaMinimumLc', () => {
+  it('steps the target down as text gets larger or bolder', () => {
+    expect(apcaMinimumLc({ size: 16, weight: 400 })).toBe(90);
+    expect(apcaMinimumLc({ size: 18, weight: 400 })).toBe(75);
+    expect(apcaMinimumLc({ size: 14, weight: 700 })).toBe(75);
+    expect(apcaMinimumLc({ size: 16, weight: 600 })).toBe(90);
+    expect(apcaMinimumLc({ size: 24, weight: 700 })).toBe(45);
+    expect(apcaMinimumLc(undefined)).toBe(15);
+  });
+});
+
+describe('evaluatePairings', () => {
+  it('reports APCA beside the ratio without grading on it', () => {
+    const fonts = {
+      ...dataset,
+      pairings: dataset.pairings.map((p, i) => (i === 0 ? { ...p, font: { size: 16, weight: 400 } } : p)),
+    };
+    const vars = resolveAll({
+      ...gray,
+      '--text-muted': 'var(--gray-700)',
+      '--page-primary': 'var(--gray-100)',
+      '--text-on-fill': '#ffffff',
+      '--background-fill': 'var(--gray-900)',
+    });
+    const { results, hardFailures, apcaBelowTarget } = evaluatePairings(fonts, [{ key: 'light', label: 'Light', vars }]);
+    const [muted, label] = results;
+    expect(muted).toMatchObject({ status: 'pass', apcaTarget: 90 });
+    expect(muted.apca).toBeCloseTo(apcaContrast('#5c5c5c', '#eeeeee'), 1);
+    expect(Math.abs(muted.apca)).toBeLessThan(90);
+    expect(label.apcaTarget).toBe(15);
+    expect(label.apca).toBeLessThan(0);
+    expect(hardFailures).toBe(0);
+    expect(apcaBelowTarget).toBe(1);
+  });
+});
+
+describe('suggestRepairs', () => {
+  it('moves a token to the nearest ramp step that clears the threshold', () => {
+    const decls = {
+      ...gray,
+      '--text-muted': 'var(--gray-500)',
+      '--page-primary': '#ffffff',
+      '--text-on-fill': '#ffffff',
+      '--background-fill': 'var(--gray-700)',
+    };
+    const { repairs, unrepaired } = suggestRepairs(dataset, [theme(decls)]);
+    expect(unrepaired).toEqual([]);
+    expect(repairs).toEqual([
+      expect.objectContaining({
+        label: 'Muted text on page',
+        token: '--text-muted',
+        kind: 'ramp',
+        from: 'var(--gray-500)',
+        value: 'var(--gray-700)',
+        before: expect.objectContaining({ ratio: 3.45 }),
+        after: expect.objectContaining({ ratio: 6.69 }),
+      }),
+    ]);
+    expect(repairs[0].after.apca).toBeGreaterThan(repairs[0].before.apca);
+  });
+
+  it('falls back to a lightness-adjusted hex that keeps the hue', () => {
+    const decls = { '--text-muted': '#e35335', '--page-primary': '#ffffff', '--text-on-fill': '#000', '--background-fill': '#fff' };
+    const [repair] = suggestRepairs(dataset, [theme(decls)]).repairs;
+    expect(repair.kind).toBe('adjusted');
+    expect(contrastRatio(repair.hex, '#ffffff')).toBeGreaterThanOrEqual(4.5);
+    expect(contrastRatio(repair.hex, '#ffffff')).toBeLessThan(4.7);
+  });
+
+  it('skips a fix that would break another pairing sharing the token', () => {
+    // Every ramp step for the page would fix the label but break the muted
+    // text on the same page, so the solver has to fall back to an adjusted hex.
+    const decls = {
+      ...gray,
+      '--text-muted': 'var(--gray-900)',
+      '--page-primary': 'var(--gray-300)',
+      '--text-on-fill': '#eeeeee',
+    };
+    const dataset2 = {
+      ...dataset,
+      pairings: [dataset.pairings[0], { ...dataset.pairings[1], bg: '--page-primary' }],
+    };
+    const { repairs } = suggestRepairs(dataset2, [theme(decls)]);
+    expect(repairs.map((r) => r.kind)).toEqual(['adjusted']);
+    const vars = resolveAll({ ...decls, [repairs[0].token]: repairs[0].value });
+    expect(contrastRatio(vars['--text-muted'], vars['--page-primary'])).toBeGreaterThanOrEqual(4.5);
+  });
+
+  it('leaves faded pairings to their opaque source and honours the theme filter', () => {
+    const faded = { ...dataset, pairings: [{ ...dataset.pairings[0], alpha: 0.5 }] };
+    const decls = { '--text-muted': '#dddddd', '--page-primary': '#ffffff', '--background-primary': '#ffffff' };
+    const { unrepaired } = suggestRepairs(faded, [theme(decls), theme(decls, 'dark')], { theme: 'dark' });
+    expect(unrepaired).toEqual([expect.objectContaining({ theme: 'dark', reason: expect.stringContaining('faded pairing') })]);
+  });
+});
+
+describe('renderOverrideBlock', () => {
+  it('groups overrides under each theme selector with both scores', () => {
+    const repair = {
+      label: 'Muted text on page',
+      theme: 'dark',
+      token: '--text-muted',
+      value: 'var(--gray-300)',
+      thresholdType: 'AA',
+      threshold: 4.5,
+      before: { ratio: 3.1, apca: -40.2 },
+      after: { ratio: 5.2, apca: -61 },
+    };
+    const themes = [{ key: 'light' }, { key: 'dark', selector: ':root[data-theme="dark"]' }];
+    expect(renderOverrideBlock([repair], themes)).toBe(
+      ':root[data-theme="dark"] {\n' +
+        '  --text-muted: var(--gray-300); /* Muted text on page: 3.1:1 → 5.2:1 (AA ≥4.5), Lc -40.2 → -61 */\n' +
+        '}',
+    );
+    expect(renderOverrideBlock([], themes)).toBe('');
+  });
+
+  it('declares a token once with its final value and lists every pairing it fixes', () => {
+    const base = { theme: 'light', token: '--text-muted', thresholdType: 'AA', threshold: 4.5 };
+    const repairs = [
+      { ...base, label: 'Muted text on page', value: 'var(--gray-500)', before: { ratio: 3.1, apca: 40.2 }, after: { ratio: 4.6, apca: 55 } },
+      { ...base, label: 'Muted text on surface', value: 'var(--gray-700)', before: { ratio: 4.1, apca: 50.3 }, after: { ratio: 6.2, apca: 70.1 } },
+    ];
+    expect(renderOverrideBlock(repairs, [{ key: 'light' }])).toBe(
+      ':root {\n' +
+        '  --text-muted: var(--gray-700); /* Muted text on page: 3.1:1 → clears AA ≥4.5; ' +
+        'Muted text on surface: 4.1:1 → 6.2:1 (AA ≥4.5), Lc 50.3 → 70.1 */\n' +
+        '}',
+    );
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+import {
+  COLOR_PRIMITIVE_TIERS,
+  LIGHTNESS_LADDER,
+  buildAnchorRamp,
+  generateClientTheme,
+  renderMarkdown,
+  resolveTierRamps,
+} from '../generate-client-theme.mjs';
+import { STOPS } from '../generate-color-ramps.mjs';
+import { extractBlock, resolveAll } from '../lib/contrast-pairings.mjs';
+import { hexToOklch } from '../lib/oklch.mjs';
+import { COLOR_PRIMITIVE_TIERS as VOCABULARY } from '../../content-system/vocabularies/color-primitive-tier';
+
+// The contrast gate reads the real tokens/ cascade, so these tests score
+// against the same base a consumer gets.
+
+const REPO_ROOT = resolve(import.meta.dirname, '..', '..');
+const brik = JSON.parse(readFileSync(resolve(REPO_ROOT, 'design-tokens', 'brand-kits', 'brik.json'), 'utf8'));
+const BRIK_TIERS = { primary: 'poppy', secondary: 'tan', neutral: 'grayscale' };
+
+describe('COLOR_PRIMITIVE_TIERS', () => {
+  it('matches the content-system vocabulary', () => {
+    expect(COLOR_PRIMITIVE_TIERS).toEqual([...VOCABULARY]);
+  });
+});
+
+describe('buildAnchorRamp', () => {
+  it('pins the anchor at the stop nearest its lightness', () => {
+    const ramp = buildAnchorRamp('#E35335');
+    expect(ramp.base).toBe('500');
+    expect(ramp.stops['500']).toBe('#e35335');
+    expect(buildAnchorRamp('#3d4c23').base).toBe('800');
+  });
+
+  it('steps darker from 50 to 950, landing on the ladder', () => {
+    const { base, stops } = buildAnchorRamp('#2563eb');
+    const lightness = STOPS.map((stop) => hexToOklch(stops[stop])[0]);
+    for (let i = 1; i < lightness.length; i++) expect(lightness[i]).toBeLessThan(lightness[i - 1]);
+    for (const stop of STOPS.filter((s) => s !== base)) {
+      expect(hexToOklch(stops[stop])[0]).toBeCloseTo(LIGHTNESS_LADDER[stop], 1);
+    }
+  });
+
+  it('rejects anything but a hex colour', () => {
+    expect(() => buildAnchorRamp('blue')).toThrow('not a #rgb / #rrggbb hex colour');
+  });
+});
+
+describe('resolveTierRamps', () => {
+  it('reads families from a brand kit and hexes from an anchor map', () => {
+    expect(resolveTierRamps(brik, { primary: 'poppy' }).primary).toMatchObject({ source: 'poppy', base: '500' });
+    expect(resolveTierRamps({ primary: '#2563eb' }).primary.source).toBe('#2563eb');
+    expect(resolveTierRamps(brik, { primary: 'poppy', accent: '#0f766e' }).accent.source).toBe('#0f766e');
+  });
+
+  it('throws on an unknown tier, an unknown family, or no primary', () => {
+    expect(() => resolveTierRamps({ primary: '#2563eb', paper: '#fafafa' })).toThrow('unknown tier "paper"');
+    expect(() => resolveTierRamps(brik, { primary: 'teal' })).toThrow('no family "teal"');
+    expect(() => resolveTierRamps({ secondary: '#2563eb' })).toThrow('a primary tier is required');
+  });
+});
+
+describe('generateClientTheme', () => {
+  it('regenerates the Brik theme from the Brik brand kit', () => {
+    const result = generateClientTheme(brik, { client: 'brik', tiers: BRIK_TIERS });
+    expect(result.ok).toBe(true);
+
+    const css = readFileSync(resolve(REPO_ROOT, 'tokens', 'theme-brand-brik.css'), 'utf8');
+    const figma = extractBlock(readFileSync(resolve(REPO_ROOT, 'tokens', 'figma-tokens.css'), 'utf8'), /:root/);
+    const expected = {
+      light: resolveAll({ ...figma, ...extractBlock(css, /(?:^|\})\s*\.theme-brand-brik/m) }),
+      dark: resolveAll({ ...figma, ...extractBlock(css, /:root\[data-theme="dark"\]\s*\.theme-brand-brik/) }),
+    };
+    for (const mode of ['light', 'dark']) {
+      const generated = resolveAll({ ...result.primitives, ...result[mode] });
+      for (const slot of Object.keys(result[mode]).filter((s) => s in expected[mode])) {
+        expect([mode, slot, generated[slot]]).toEqual([mode, slot, expected[mode][slot].toLowerCase()]);
+      }
+    }
+  });
+
+  it('emits primitives and both modes inside the client-theme layer', () => {
+    const { css } = generateClientTheme({ primary: '#2563eb' }, { client: 'acme' });
+    expect(css).toContain('@layer client-theme {\n  :root {\n    /* Primitives */\n    --acme-primary-50:');
+    expect(css).toContain('  :root[data-theme="dark"] {\n    /* Semantic — dark */');
+    expect(css).toContain('--text-primary: var(--color-grayscale-950);');
+    const bare = generateClientTheme({ primary: '#2563eb' }, { client: 'acme', layer: null }).css;
+    expect(bare).not.toContain('@layer');
+    expect(bare).toContain('\n:root {\n  /* Primitives */');
+  });
+
+  it('keeps tertiary and accent as primitives only', () => {
+    const result = generateClientTheme({ primary: '#2563eb', accent: '#0f766e' }, { client: 'acme' });
+    expect(result.primitives['--acme-accent-500']).toBeDefined();
+    expect(Object.values(result.light).join(' ')).not.toContain('accent');
+  });
+
+  it('refuses a primary that fails the pairings, and accepts a brand-fill that fixes them', () => {
+    const refused = generateClientTheme({ primary: '#facc15' }, { client: 'acme' });
+    expect(refused.ok).toBe(false);
+    expect(refused.contrast.hardFailures).toBeGreaterThan(0);
+    expect(refused.repairs.map((r) => `${r.theme}:${r.token}`)).toContain('light:--background-brand-primary');
+    expect(refused.overrides).toMatch(/^:root \{\n  --text-brand-primary: var\(--acme-primary-\d+\);/);
+
+    const fixed = generateClientTheme({ primary: '#facc15', 'brand-fill': '#854d0e' }, { client: 'acme' });
+    expect(fixed.ok).toBe(true);
+    expect(fixed.light['--background-brand-primary']).toBe('var(--acme-brand-fill-700)');
+    expect(fixed.light['--background-brand-primary-pressed']).toBe('var(--acme-brand-fill-950)');
+    expect(fixed.dark['--text-brand-primary']).toBe('var(--acme-primary-200)');
+  });
+
+  it('requires a lowercase client slug', () => {
+    expect(() => generateClientTheme({ primary: '#2563eb' }, { client: 'Acme Co' })).toThrow('lowercase slug');
+  });
+});
+
+describe('renderMarkdown', () => {
+  it('lists the pairings that block the write', () => {
+    const out = renderMarkdown(generateClientTheme({ primary: '#facc15' }, { client: 'acme' }));
+    expect(out.split('\n')[0]).toMatch(/^generate-client-theme: acme — \d+ below the AA floor, 0 unresolved/);
+    expect(out).toContain('Brand text on page (--text-brand-primary on --page-primary, target AA-large)');
+    expect(out).toContain('Suggested overrides');
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import {
+  extractMdxCopy,
+  extractJsonCopy,
+  stripInlineMarkdown,
+  surfaceForKey,
+  lintCopyFiles,
+  hasFailures,
+} from '../lint-copy.mjs';
+
+// The real `lintCopy` ships in dist/content-system — these tests inject a
+// stand-in that flags the word "painless", so they run without a build.
+const fakeLintCopy = (text, options) => {
+  const start = text.toLowerCase().indexOf('painless');
+  const findings =
+    start === -1
+      ? []
+      : [{ rule: 'vocabulary-avoid', severity: 'error', span: { start, end: start + 8 }, excerpt: text.slice(start, start + 8), message: 'Avoid', suggestions: [], options }];
+  return { score: findings.length ? 75 : 100, findings };
+};
+
+describe('extractMdxCopy', () => {
+  it('reads headings as hero and paragraphs, list items as paragraph', () => {
+    const source = [
+      '---',
+      'title: Home',
+      '---',
+      "import { Hero } from './Hero';",
+      '',
+      '# Gentle **care**',
+      '',
+      'We see families.',
+      'Every [weekday](/hours).',
+      '',
+      '<Hero />',
+      '',
+      '- Ask about `code` plans',
+      '',
+      '```tsx',
+      'Painless code sample',
+      '```',
+      '| Table | Row |',
+    ].join('\n');
+    expect(extractMdxCopy(source)).toEqual([
+      { text: 'Gentle care', surface: 'hero', line: 6 },
+      { text: 'We see families. Every weekday.', surface: 'paragraph', line: 8 },
+      { text: 'Ask about plans', surface: 'paragraph', line: 13 },
+    ]);
+  });
+
+  it('strips inline markdown', () => {
+    expect(stripInlineMarkdown('See **our** _team_ ![x](a.png) [here](/x)')).toBe('See our team here');
+  });
+});
+
+describe('extractJsonCopy', () => {
+  it('lints copy strings and picks the surface from the nearest key', () => {
+    const data = {
+      slug: 'home',
+      hero: { headline: 'Gentle care', cta: 'Book a visit', image: '/img/hero.jpg' },
+      body: ['We see families.', 'https://example.com'],
+      form: { emailLabel: 'Email address' },
+    };
+    expect(extractJsonCopy(data)).toEqual([
+      { text: 'Gentle care', surface: 'hero', path: 'hero.headline' },
+      { text: 'Book a visit', surface: 'cta', path: 'hero.cta' },
+      { text: 'We see families.', surface: 'paragraph', path: 'body.0' },
+      { text: 'Email address', surface: 'microcopy', path: 'form.emailLabel' },
+    ]);
+  });
+
+  it('maps keys to surfaces', () => {
+    expect(surfaceForKey('primaryButton')).toBe('cta');
+    expect(surfaceForKey('pageTitle')).toBe('hero');
+    expect(surfaceForKey('placeholder')).toBe('microcopy');
+    expect(surfaceForKey('intro')).toBe('paragraph');
+  });
+});
+
+describe('lintCopyFiles', () => {
+  it('lints MDX and JSON files and lists only blocks with findings', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'lint-copy-'));
+    try {
+      writeFileSync(join(dir, 'home.mdx'), '# Painless visits\n\nWe see families.\n');
+      writeFileSync(join(dir, 'page.json'), JSON.stringify({ hero: { cta: 'Book a painless visit' } }));
+      writeFileSync(join(dir, 'notes.txt'), 'Painless');
+
+      const result = lintCopyFiles({ paths: [dir], lintCopy: fakeLintCopy, voices: ['Direct'], industry: 'dental' });
+      expect(result.findingCount).toBe(2);
+      expect(result.files.map((f) => f.file.split('/').pop()).sort()).toEqual(['home.mdx', 'page.json']);
+      const json = result.files.find((f) => f.file.endsWith('.json'));
+      expect(json.blocks[0]).toMatchObject({ surface: 'cta', path: 'hero.cta', score: 75 });
+      expect(json.blocks[0].findings[0].options).toEqual({ voices: ['Direct'], industry: 'dental', surface: 'cta' });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('fails at or above the --fail-on severity', () => {
+    const result = { files: [{ file: 'a.mdx', blocks: [{ findings: [{ severity: 'warning' }] }] }], findingCount: 1 };
+    expect(hasFailures(result, 'error')).toBe(false);
+    expect(hasFailures(result, 'warning')).toBe(true);
+    expect(hasFailures(result, 'info')).toBe(true);
+  });
+});
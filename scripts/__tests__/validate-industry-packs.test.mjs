@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+
+import { hasFailures, renderMarkdown } from '../validate-industry-packs.mjs';
+
+// Results are hand-built in the `validateIndustryPacks` shape so these
+// tests run without a content-system build.
+const review = (overrides = {}) => ({
+  reviewCadence: 'quarterly',
+  lastReviewed: '2026-04-20',
+  dueOn: '2026-07-20',
+  overdue: false,
+  daysOverdue: 0,
+  ...overrides,
+});
+
+const results = [
+  { slug: 'dental', ok: true, issues: [], review: review() },
+  {
+    slug: 'small-business',
+    ok: false,
+    issues: [
+      { slug: 'small-business', rule: 'blueprint-key', severity: 'error', field: 'pageCompositions.home.sections[0]', message: 'Unknown blueprint key "x".' },
+      { slug: 'small-business', rule: 'review-overdue', severity: 'warning', field: 'lastReviewed', message: 'Review overdue by 3 day(s).' },
+    ],
+    review: review({ overdue: true, daysOverdue: 3 }),
+  },
+];
+
+describe('hasFailures', () => {
+  it('fails on errors by default and on warnings when asked', () => {
+    expect(hasFailures(results)).toBe(true);
+    const warningsOnly = [{ ...results[1], issues: [results[1].issues[1]] }];
+    expect(hasFailures(warningsOnly)).toBe(false);
+    expect(hasFailures(warningsOnly, 'warning')).toBe(true);
+  });
+});
+
+describe('renderMarkdown', () => {
+  it('leads with counts and the review-status table', () => {
+    const lines = renderMarkdown(results, '2026-07-23').split('\n');
+    expect(lines[0]).toBe('validate-industry-packs: 2 pack(s) — 1 error(s), 1 warning(s) · today 2026-07-23');
+    expect(lines.find((l) => l.includes('dental'))).toMatch(/quarterly\s+2026-04-20\s+2026-07-20\s+current$/);
+    expect(lines.find((l) => l.includes('small-business'))).toMatch(/OVERDUE 3d$/);
+  });
+
+  it('lists issues by pack, leaving overdue reviews to the table', () => {
+    const out = renderMarkdown(results, '2026-07-23');
+    expect(out).toContain('pageCompositions.home.sections[0] — Unknown blueprint key "x".');
+    expect(out).not.toContain('Review overdue by');
+    expect(renderMarkdown([results[0]], '2026-07-23')).not.toContain('Issues');
+  });
+});
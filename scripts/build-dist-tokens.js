@@ -4,7 +4,7 @@
  * Called by: npm run build:lib (as the final step)
  *
  * Produces:
- *   dist/tokens.css  — figma-tokens.css + figma-tokens-dark.css + theme-brand-brik.css + modes-*.css + gap-fills.css + ratios.css + fluid-type.css + animations.css concatenated
+ *   dist/tokens.css  — figma-tokens.css + figma-tokens-dark.css + theme-brand-brik.css + gap-fills.css + modes-*.css + ratios.css + fluid-type.css + animations.css concatenated
  *   dist/bridge.css  — clean name ↔ Webflow internal name aliases
  */
 const fs = require('fs');
@@ -57,8 +57,18 @@ if (fs.existsSync(themeBrandBrikPath)) {
 
 // Non-color mode overrides — one block per wired collection (BDS #340).
 // Each block targets a distinct `[data-mode-{collection}]` attribute, so
-// concat order is cosmetic. Listed deterministically to keep dist diffs clean.
-const MODE_FILES = ['modes-borderwidth.css', 'modes-spacing.css', 'modes-typography.css'];
+// order among them is cosmetic. Listed deterministically to keep dist diffs
+// clean. They concat AFTER gap-fills.css: a mode set on <html> and a gap-fill
+// both declare on :root at equal specificity, so the later file wins — and
+// gap-fills defines --box-shadow-* and --icon-* (modes-elevation / modes-icon).
+const MODE_FILES = [
+  'modes-borderwidth.css',
+  'modes-spacing.css',
+  'modes-typography.css',
+  'modes-radius.css',
+  'modes-elevation.css',
+  'modes-icon.css',
+];
 let modeOverrides = '';
 for (const file of MODE_FILES) {
   const p = path.join(TOKENS_DIR, file);
@@ -80,7 +90,7 @@ const animations = fs.readFileSync(path.join(TOKENS_DIR, 'animations.css'), 'utf
 
 fs.writeFileSync(
   path.join(DIST_DIR, 'tokens.css'),
-  header + figmaTokens + darkTokens + themeBrandBrik + modeOverrides + '\n\n' + gapFills + '\n\n' + ratios + '\n\n' + fluidType + '\n\n' + animations,
+  header + figmaTokens + darkTokens + themeBrandBrik + '\n\n' + gapFills + modeOverrides + '\n\n' + ratios + '\n\n' + fluidType + '\n\n' + animations,
 );
 console.log('  ✓ dist/tokens.css');
 
@@ -0,0 +1,236 @@
+#!/usr/bin/env node
+/**
+ * generate-blueprint-types.mjs — Typegen for the blueprint key surface.
+ *
+ * Reads `blueprints/blueprint-library.json` plus the two dispatcher
+ * registries and emits:
+ *
+ *   - `content-system/blueprints/astro/blueprint-keys.generated.ts`
+ *       KNOWN_BLUEPRINT_KEYS / KnownBlueprintKey  — every active library key
+ *       INACTIVE_BLUEPRINT_KEYS                   — library keys with `is_active: false`
+ *       WIRED_BLUEPRINT_KEYS                      — keys in the Astro registry
+ *       REACT_WIRED_BLUEPRINT_KEYS                — keys in the React registry
+ *       BLUEPRINT_REQUIRED_FACTS                  — key → `required_facts`
+ *       REQUIRED_FACT_FIELDS                      — fact id → `ClientFacts` field
+ *   - `manifest/blueprint-wiring.json` — per-key wiring status (library
+ *     metadata + which renderers ship), the review surface for keeping the
+ *     Astro and React registries in lockstep.
+ *
+ * The registries stay hand-written (a registry entry is an import + a
+ * component); everything derived from them and from the library JSON is
+ * generated, so adding a blueprint is: library entry → component →
+ * registry entry → `npm run typegen:blueprints`.
+ *
+ * `required_facts` are snake_case library ids (`hero_image_url`). Each maps
+ * to its camelCase `ClientFacts` field when one exists (`heroImageUrl`),
+ * read from the `ClientFacts` interface in `astro/types.ts`; otherwise it
+ * stays snake_case and resolves through the `ClientFacts` index signature.
+ *
+ * Modes:
+ *   node scripts/generate-blueprint-types.mjs           # write both files
+ *   node scripts/generate-blueprint-types.mjs --check   # fail if either is stale
+ */
+
+import { createRequire } from 'node:module';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const require = createRequire(import.meta.url);
+const ts = require('typescript');
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const REPO_ROOT = path.resolve(__dirname, '..');
+const LIBRARY_PATH = path.join(REPO_ROOT, 'blueprints', 'blueprint-library.json');
+const BLUEPRINTS_DIR = path.join(REPO_ROOT, 'content-system', 'blueprints');
+const TYPES_PATH = path.join(BLUEPRINTS_DIR, 'astro', 'types.ts');
+const ASTRO_DISPATCHER_PATH = path.join(BLUEPRINTS_DIR, 'astro', 'BlueprintDispatcher.astro');
+const REACT_DISPATCHER_PATH = path.join(BLUEPRINTS_DIR, 'react', 'BlueprintDispatcher.tsx');
+const TS_OUTPUT_PATH = path.join(BLUEPRINTS_DIR, 'astro', 'blueprint-keys.generated.ts');
+const MANIFEST_OUTPUT_PATH = path.join(REPO_ROOT, 'manifest', 'blueprint-wiring.json');
+
+const checkMode = process.argv.includes('--check');
+
+// ── Sources ───────────────────────────────────────────────────────────────
+
+/**
+ * Read the keys of a `BLUEPRINT_REGISTRY = { key: Component, ... }` object
+ * literal. Same shape in both dispatchers (the React one carries a type
+ * annotation and no `as const`).
+ */
+function extractRegistryKeys(filePath) {
+  const source = fs.readFileSync(filePath, 'utf8');
+  const block = source.match(/const BLUEPRINT_REGISTRY\b[^=]*=\s*\{([\s\S]*?)\}/);
+  if (!block) {
+    throw new Error(`Could not parse BLUEPRINT_REGISTRY in ${path.relative(REPO_ROOT, filePath)}.`);
+  }
+  return block[1]
+    .split('\n')
+    .map((line) => line.match(/^\s*([a-z][a-z0-9_]*)\s*:/))
+    .filter(Boolean)
+    .map((m) => m[1]);
+}
+
+/** Property names declared on the `ClientFacts` interface. */
+function extractClientFactFields() {
+  const sourceFile = ts.createSourceFile(
+    TYPES_PATH,
+    fs.readFileSync(TYPES_PATH, 'utf8'),
+    ts.ScriptTarget.Latest,
+    true,
+    ts.ScriptKind.TS,
+  );
+  const fields = new Set();
+  ts.forEachChild(sourceFile, (node) => {
+    if (!ts.isInterfaceDeclaration(node) || node.name.text !== 'ClientFacts') return;
+    for (const member of node.members) {
+      if (ts.isPropertySignature(member) && ts.isIdentifier(member.name)) fields.add(member.name.text);
+    }
+  });
+  if (fields.size === 0) throw new Error('Could not find the ClientFacts interface in astro/types.ts.');
+  return fields;
+}
+
+const toCamel = (id) => id.replace(/_([a-z0-9])/g, (_, c) => c.toUpperCase());
+
+// ── Build ─────────────────────────────────────────────────────────────────
+
+function build() {
+  const library = JSON.parse(fs.readFileSync(LIBRARY_PATH, 'utf8'));
+  const active = library.blueprints.filter((b) => b.is_active === true);
+  const inactive = library.blueprints.filter((b) => b.is_active !== true);
+  const activeKeys = new Set(active.map((b) => b.key));
+  const astroKeys = extractRegistryKeys(ASTRO_DISPATCHER_PATH);
+  const reactKeys = extractRegistryKeys(REACT_DISPATCHER_PATH);
+
+  // A registry entry for an inactive or unknown key is a real error — the
+  // generated `satisfies` clauses would fail tsc anyway; say why here.
+  for (const [label, keys] of [['Astro', astroKeys], ['React', reactKeys]]) {
+    for (const key of keys) {
+      if (!activeKeys.has(key)) {
+        throw new Error(`${label} BLUEPRINT_REGISTRY key "${key}" is not an active blueprint in blueprint-library.json.`);
+      }
+    }
+  }
+
+  const clientFactFields = extractClientFactFields();
+  const factFields = {};
+  for (const bp of active) {
+    for (const fact of bp.required_facts ?? []) {
+      factFields[fact] = clientFactFields.has(toCamel(fact)) ? toCamel(fact) : fact;
+    }
+  }
+
+  // Wired lists follow library order so regeneration is stable regardless
+  // of how the registries are arranged.
+  const libraryOrder = (keys) => active.map((b) => b.key).filter((k) => keys.includes(k));
+
+  return {
+    active,
+    inactive,
+    astroWired: libraryOrder(astroKeys),
+    reactWired: libraryOrder(reactKeys),
+    factFields,
+  };
+}
+
+function renderTs({ active, inactive, astroWired, reactWired, factFields }) {
+  const list = (keys) => keys.map((k) => `  '${k}',`).join('\n');
+  const facts = active
+    .map((b) => `  ${b.key}: [${(b.required_facts ?? []).map((f) => `'${f}'`).join(', ')}],`)
+    .join('\n');
+  const fields = Object.keys(factFields)
+    .sort()
+    .map((f) => `  ${f}: '${factFields[f]}',`)
+    .join('\n');
+
+  return `// AUTO-GENERATED by scripts/generate-blueprint-types.mjs — DO NOT EDIT BY HAND.
+// Source: blueprints/blueprint-library.json + the BLUEPRINT_REGISTRY objects in
+// astro/BlueprintDispatcher.astro and react/BlueprintDispatcher.tsx.
+// Regenerate: \`npm run typegen:blueprints\`. Consumers import these through
+// \`./types\`, which layers the per-blueprint facts refinement on top.
+
+/** Every active blueprint key in \`blueprint-library.json\`, in library order. */
+export const KNOWN_BLUEPRINT_KEYS = [
+${list(active.map((b) => b.key))}
+] as const;
+
+/** An active blueprint key in \`blueprint-library.json\`. */
+export type KnownBlueprintKey = (typeof KNOWN_BLUEPRINT_KEYS)[number];
+
+/**
+ * Library keys with \`is_active: false\` — still valid references, but
+ * not renderable. Validators warn on these instead of calling them unknown.
+ */
+export const INACTIVE_BLUEPRINT_KEYS = [
+${list(inactive.map((b) => b.key))}
+] as const;
+
+/** Keys with a component in the Astro \`BLUEPRINT_REGISTRY\`. */
+export const WIRED_BLUEPRINT_KEYS = [
+${list(astroWired)}
+] as const satisfies readonly KnownBlueprintKey[];
+
+/** Keys with a renderer in the React \`BLUEPRINT_REGISTRY\`. */
+export const REACT_WIRED_BLUEPRINT_KEYS = [
+${list(reactWired)}
+] as const satisfies readonly KnownBlueprintKey[];
+
+/** Each blueprint's \`required_facts\` — snake_case library fact ids. */
+export const BLUEPRINT_REQUIRED_FACTS = {
+${facts}
+} as const satisfies Record<KnownBlueprintKey, readonly string[]>;
+
+/** Library fact id → the \`ClientFacts\` field that carries it. */
+export const REQUIRED_FACT_FIELDS = {
+${fields}
+} as const;
+`;
+}
+
+function renderManifest({ active, astroWired, reactWired }) {
+  const manifest = {};
+  for (const bp of active) {
+    manifest[bp.key] = {
+      name: bp.name,
+      section_type: bp.section_type,
+      required_facts: bp.required_facts ?? [],
+      astro: astroWired.includes(bp.key),
+      react: reactWired.includes(bp.key),
+    };
+  }
+  return JSON.stringify(manifest, null, 2) + '\n';
+}
+
+// ── Check / write ─────────────────────────────────────────────────────────
+
+const built = build();
+const outputs = [
+  [TS_OUTPUT_PATH, renderTs(built)],
+  [MANIFEST_OUTPUT_PATH, renderManifest(built)],
+];
+
+if (checkMode) {
+  const stale = outputs.filter(
+    ([file, output]) => !fs.existsSync(file) || fs.readFileSync(file, 'utf8') !== output,
+  );
+  if (stale.length > 0) {
+    for (const [file] of stale) console.error(`ERROR: ${path.relative(REPO_ROOT, file)} is out of sync.`);
+    console.error('Run: npm run typegen:blueprints');
+    process.exit(1);
+  }
+  console.log(
+    `✓ blueprint types in sync (${built.active.length} keys, ${built.astroWired.length} Astro-wired, ${built.reactWired.length} React-wired).`,
+  );
+  process.exit(0);
+}
+
+for (const [file, output] of outputs) {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, output, 'utf8');
+  console.log(`✓ Wrote ${path.relative(REPO_ROOT, file)}`);
+}
+const unwiredInReact = built.astroWired.filter((k) => !built.reactWired.includes(k));
+const unwiredInAstro = built.reactWired.filter((k) => !built.astroWired.includes(k));
+if (unwiredInReact.length) console.log(`  Astro-only: ${unwiredInReact.join(', ')}`);
+if (unwiredInAstro.length) console.log(`  React-only: ${unwiredInAstro.join(', ')}`);
@@ -0,0 +1,521 @@
+#!/usr/bin/env node
+/**
+ * generate-client-theme — Brand Kit (or a few anchor hexes) in,
+ * `theme-{client}.css` out.
+ *
+ * Builds an 11-step ramp per brand tier with the same OKLCh math as
+ * `generate-color-ramps.mjs`, binds the ramps to the canonical semantic slots
+ * through the `ColorPrimitiveTier` vocabulary
+ * (`content-system/vocabularies/color-primitive-tier.ts`), and emits light +
+ * dark blocks inside `@layer client-theme`. Every pairing in
+ * `tokens/contrast-pairings.json` is scored against the result before
+ * anything is written; a theme with a pairing below the AA floor is refused,
+ * with the overrides `scripts/lib/contrast-repair.mjs` suggests to fix it.
+ *
+ * ── Input ────────────────────────────────────────────────────────────────
+ * Either a Brand Kit shaped like `design-tokens/brand-kits/brik.json` plus a
+ * tier → family map (`{ primary: 'poppy', secondary: 'tan', neutral:
+ * 'grayscale' }`), or an anchor map (`{ primary: '#2563eb' }`). A tier may
+ * also name a hex directly when a kit is given. Kit families reuse
+ * `buildRamp` (anchor-preserving); a lone anchor is pinned at the stop
+ * nearest its OKLCh lightness and the other stops are mixed toward white or
+ * black until they reach the lightness ladder below.
+ *
+ * ── Tier → slot mapping ──────────────────────────────────────────────────
+ * The slot table mirrors `tokens/theme-brand-brik.css`, with poppy → primary,
+ * tan → secondary and grayscale → neutral, so the Brik kit regenerates the
+ * Brik theme. `brand-fill`, when given, takes the filled brand surfaces and
+ * light-mode brand text; `tertiary` / `accent` are emitted as primitives only
+ * (tag-only by contract, ADR-012). Without a `neutral` tier the neutral slots
+ * bind to the BDS `--color-grayscale-*` primitives.
+ *
+ * Brand stops are relative to the ramp's base: a kit family's base is 500,
+ * an anchor's base is the stop it was pinned at, and hover / pressed sit two
+ * and three steps darker.
+ *
+ * ── CLI ──────────────────────────────────────────────────────────────────
+ *   generate-client-theme <brand-kit.json> --client <slug> --tier <tier>=<family|#hex> ...
+ *   generate-client-theme --client <slug> --anchor <tier>=<#hex> ...
+ *   generate-client-theme ... --out <path>     Output file (default: theme-{client}.css)
+ *   generate-client-theme ... --format md|json Report format (default: md for TTY,
+ *                                              json otherwise)
+ *   generate-client-theme ... --dry-run        Score and report only; write nothing
+ *   generate-client-theme --help               Show this message
+ *
+ * ── Exit codes ───────────────────────────────────────────────────────────
+ *   0  Theme written (or, with --dry-run, would be) — every pairing clears the AA floor
+ *   1  Refused — a pairing is below the floor or unresolved; nothing written
+ *   2  Bad invocation (missing kit, unknown tier or family, bad hex)
+ */
+
+import { existsSync, readFileSync, realpathSync, writeFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+import { STOPS, buildRamp } from './generate-color-ramps.mjs';
+import { extractBlock, evaluatePairings, resolveAll } from './lib/contrast-pairings.mjs';
+import { renderOverrideBlock, suggestRepairs } from './lib/contrast-repair.mjs';
+import { hexToOklch, mixOklch, oklchToHex } from './lib/oklch.mjs';
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const BDS_ROOT = resolve(__dirname, '..');
+
+/** Mirror of `COLOR_PRIMITIVE_TIERS` — kept in step by a parity test. */
+export const COLOR_PRIMITIVE_TIERS = ['primary', 'secondary', 'tertiary', 'accent', 'neutral', 'brand-fill'];
+
+/**
+ * OKLCh lightness per stop for ramps grown from a single anchor. Calibrated
+ * so Brik's poppy base (#e35335, L 0.64) pins at 500.
+ */
+export const LIGHTNESS_LADDER = {
+  50: 0.97,
+  100: 0.93,
+  200: 0.88,
+  300: 0.82,
+  400: 0.74,
+  500: 0.65,
+  600: 0.57,
+  700: 0.49,
+  800: 0.41,
+  900: 0.33,
+  950: 0.26,
+};
+
+const HEX_RE = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+const CLIENT_RE = /^[a-z][a-z0-9-]*$/;
+
+function normalizeHex(hex) {
+  const h = hex.toLowerCase();
+  return h.length === 4 ? '#' + [...h.slice(1)].map((c) => c + c).join('') : h;
+}
+
+// ─── Ramps ──────────────────────────────────────────────────────────
+
+/** 11-step ramp from one anchor hex. The anchor keeps its exact value. */
+export function buildAnchorRamp(hex) {
+  if (!HEX_RE.test(hex)) throw new Error(`"${hex}" is not a #rgb / #rrggbb hex colour`);
+  const anchor = normalizeHex(hex);
+  const lch = hexToOklch(anchor);
+  const [La, , h] = lch;
+
+  const base = STOPS.reduce((best, stop) =>
+    Math.abs(LIGHTNESS_LADDER[stop] - La) < Math.abs(LIGHTNESS_LADDER[best] - La) ? stop : best,
+  );
+
+  const stops = {};
+  for (const stop of STOPS) {
+    const Lt = LIGHTNESS_LADDER[stop];
+    if (stop === base) stops[stop] = anchor;
+    else if (Lt >= La) stops[stop] = oklchToHex(mixOklch(lch, [1, 0, h], La >= 1 ? 0 : (Lt - La) / (1 - La)));
+    else stops[stop] = oklchToHex(mixOklch(lch, [0, 0, h], (La - Lt) / La));
+  }
+  return { base, stops, white: null, black: null };
+}
+
+/** 11-step ramp for one Brand Kit family: its applied stops, else `buildRamp`. */
+function buildFamilyRamp(familyName, entries) {
+  const literal = (key) => {
+    const value = entries[key]?.$value;
+    return typeof value === 'string' && HEX_RE.test(value) ? normalizeHex(value) : null;
+  };
+  let stops;
+  if (STOPS.every((stop) => literal(stop))) {
+    stops = Object.fromEntries(STOPS.map((stop) => [stop, literal(stop)]));
+  } else {
+    const built = buildRamp(familyName, entries).stops;
+    stops = Object.fromEntries(STOPS.map((stop) => [stop, built[stop].hex]));
+  }
+  return { base: '500', stops, white: literal('white'), black: literal('black') };
+}
+
+/**
+ * Resolve `{ tier: family | #hex }` into ramps. `brandKit` is a Brand Kit
+ * (families under `primitives/value.color`) or itself an anchor map.
+ */
+export function resolveTierRamps(brandKit, tiers = {}) {
+  const families = brandKit?.['primitives/value']?.color;
+  const sources = families ? { ...tiers } : { ...brandKit, ...tiers };
+
+  const ramps = {};
+  for (const [tier, source] of Object.entries(sources)) {
+    if (!COLOR_PRIMITIVE_TIERS.includes(tier)) {
+      throw new Error(`unknown tier "${tier}" — expected one of ${COLOR_PRIMITIVE_TIERS.join(', ')}`);
+    }
+    if (typeof source === 'string' && source.startsWith('#')) {
+      ramps[tier] = { source: normalizeHex(source), ...buildAnchorRamp(source) };
+    } else if (families && families[source]) {
+      ramps[tier] = { source, ...buildFamilyRamp(source, families[source]) };
+    } else {
+      throw new Error(
+        families
+          ? `tier "${tier}": no family "${source}" in the brand kit (has ${Object.keys(families).join(', ')})`
+          : `tier "${tier}": "${source}" is not a hex colour`,
+      );
+    }
+  }
+  if (!ramps.primary) throw new Error('a primary tier is required');
+  return ramps;
+}
+
+// ─── Slots ──────────────────────────────────────────────────────────
+// [slot, tier, stop]. `fill` is brand-fill when given, else primary. Brand
+// stops (primary / fill) are written for a base of 500 and shift with the
+// ramp's actual base; secondary and neutral stops are absolute.
+
+const LIGHT_SLOTS = [
+  ['--page-primary', 'neutral', 'white'],
+  ['--page-secondary', 'neutral', '100'],
+  ['--page-brand-primary', 'primary', '500'],
+  ['--text-primary', 'neutral', '950'],
+  ['--text-secondary', 'neutral', '800'],
+  ['--text-muted', 'neutral', '700'],
+  ['--text-inverse', 'neutral', 'white'],
+  ['--text-brand-primary', 'fill', '500'],
+  ['--text-link', 'fill', '500'],
+  ['--surface-primary', 'neutral', 'white'],
+  ['--surface-secondary', 'neutral', '100'],
+  ['--surface-brand-primary', 'fill', '500'],
+  ['--surface-brand-primary-hover', 'fill', '700'],
+  ['--surface-brand-primary-pressed', 'fill', '800'],
+  ['--surface-brand-secondary', 'secondary', '100'],
+  ['--surface-navigation', 'neutral', 'white'],
+  ['--background-brand-primary', 'fill', '500'],
+  ['--background-brand-primary-hover', 'fill', '700'],
+  ['--background-brand-primary-pressed', 'fill', '800'],
+  ['--background-brand-secondary', 'secondary', '100'],
+  ['--background-primary', 'neutral', 'white'],
+  ['--background-secondary', 'neutral', '100'],
+  ['--background-secondary-hover', 'neutral', '300'],
+  ['--background-secondary-pressed', 'neutral', '800'],
+  ['--background-inverse', 'neutral', '950'],
+  ['--background-input', 'neutral', 'white'],
+  ['--background-image-brand', 'primary', '500'],
+  ['--border-primary', 'neutral', '950'],
+  ['--border-secondary', 'neutral', '300'],
+  ['--border-muted', 'neutral', '300'],
+  ['--border-brand-primary', 'primary', '500'],
+  ['--border-input', 'neutral', '500'],
+  ['--border-inverse', 'neutral', 'white'],
+];
+
+// Dark brand text stays on primary: a brand-fill is the DEEP variant, which
+// is what fails on a black page.
+const DARK_SLOTS = [
+  ['--page-primary', 'neutral', 'black'],
+  ['--page-secondary', 'neutral', '800'],
+  ['--page-brand-primary', 'primary', '500'],
+  ['--text-primary', 'neutral', '100'],
+  ['--text-secondary', 'neutral', '300'],
+  ['--text-muted', 'neutral', '700'],
+  ['--text-inverse', 'neutral', 'black'],
+  ['--text-brand-primary', 'primary', '500'],
+  ['--text-link', 'primary', '500'],
+  ['--text-on-color-dark', 'neutral', 'white'],
+  ['--text-on-color-light', 'neutral', 'black'],
+  ['--text-disabled', 'neutral', '500'],
+  ['--surface-primary', 'neutral', 'black'],
+  ['--surface-secondary', 'neutral', '950'],
+  ['--surface-brand-primary', 'fill', '500'],
+  ['--surface-brand-primary-hover', 'fill', '700'],
+  ['--surface-brand-primary-pressed', 'fill', '800'],
+  ['--surface-brand-secondary', 'neutral', '950'],
+  ['--surface-navigation', 'neutral', 'black'],
+  ['--surface-muted', 'neutral', '950'],
+  ['--surface-overlay', 'neutral', 'black'],
+  ['--background-brand-primary', 'fill', '500'],
+  ['--background-brand-primary-hover', 'fill', '700'],
+  ['--background-brand-primary-pressed', 'fill', '800'],
+  ['--background-brand-secondary', 'neutral', '950'],
+  ['--background-primary', 'neutral', 'black'],
+  ['--background-primary-hover', 'neutral', '950'],
+  ['--background-primary-pressed', 'neutral', '800'],
+  ['--background-secondary', 'neutral', '500'],
+  ['--background-secondary-hover', 'neutral', '800'],
+  ['--background-secondary-pressed', 'neutral', '950'],
+  ['--background-inverse', 'neutral', '100'],
+  ['--background-input', 'neutral', 'black'],
+  ['--background-muted', 'neutral', '800'],
+  ['--background-disabled', 'neutral', '800'],
+  ['--background-image-brand', 'primary', '500'],
+  ['--border-primary', 'neutral', '800'],
+  ['--border-secondary', 'neutral', '700'],
+  ['--border-muted', 'neutral', '700'],
+  ['--border-brand-primary', 'primary', '500'],
+  ['--border-input', 'neutral', '700'],
+  ['--border-inverse', 'neutral', 'black'],
+  ['--border-on-color-dark', 'neutral', 'white'],
+  ['--border-disabled', 'neutral', '800'],
+];
+
+function shiftStop(stop, base) {
+  const i = STOPS.indexOf(stop) + STOPS.indexOf(base) - STOPS.indexOf('500');
+  return STOPS[Math.min(STOPS.length - 1, Math.max(0, i))];
+}
+
+/** Custom-property name for a tier stop (`--acme-primary-500`). */
+const primitiveName = (client, tier, stop) => `--${client}-${tier}-${stop}`;
+
+function bindSlots(slots, client, ramps) {
+  const bound = {};
+  for (const [slot, tier, stop] of slots) {
+    const rampTier = tier === 'fill' ? (ramps['brand-fill'] ? 'brand-fill' : 'primary') : tier;
+    const ramp = ramps[rampTier];
+    if (rampTier === 'neutral' && !ramp) {
+      bound[slot] = `var(--color-grayscale-${stop})`;
+    } else if (ramp) {
+      const resolved = rampTier === 'primary' || rampTier === 'brand-fill' ? shiftStop(stop, ramp.base) : stop;
+      bound[slot] = `var(${primitiveName(client, rampTier, resolved)})`;
+    }
+  }
+  return bound;
+}
+
+function buildPrimitives(client, ramps) {
+  const primitives = {};
+  for (const tier of COLOR_PRIMITIVE_TIERS) {
+    const ramp = ramps[tier];
+    if (!ramp) continue;
+    for (const stop of STOPS) primitives[primitiveName(client, tier, stop)] = ramp.stops[stop];
+    if (tier === 'neutral') {
+      primitives[primitiveName(client, tier, 'white')] = ramp.white ?? '#ffffff';
+      primitives[primitiveName(client, tier, 'black')] = ramp.black ?? '#000000';
+    }
+  }
+  return primitives;
+}
+
+// ─── Contrast gate ──────────────────────────────────────────────────
+// A client theme replaces `.theme-brand-brik` rather than stacking on it, so
+// the base is the un-branded cascade: figma + gap-fills, with the dark blocks
+// on top in dark mode. The client-theme layer outranks bds-tokens, so its
+// light `:root` block applies in dark mode too unless the dark block
+// re-binds the slot.
+
+function loadBase(root) {
+  const read = (file) => {
+    const p = resolve(root, 'tokens', file);
+    return existsSync(p) ? readFileSync(p, 'utf8') : '';
+  };
+  const gapFills = read('gap-fills.css');
+  return {
+    light: { ...extractBlock(read('figma-tokens.css'), /:root/), ...extractBlock(gapFills, /:root/) },
+    dark: {
+      ...extractBlock(read('figma-tokens-dark.css'), /:root\[data-theme="dark"\]/),
+      ...extractBlock(gapFills, /:root\[data-theme="dark"\]/),
+    },
+    pairings: JSON.parse(read('contrast-pairings.json')),
+  };
+}
+
+// ─── CSS ────────────────────────────────────────────────────────────
+
+function renderCss({ client, ramps, primitives, light, dark, contrast, layer }) {
+  const decls = (map) => Object.entries(map).map(([name, value]) => `    ${name}: ${value};`);
+  const tierLine = Object.entries(ramps)
+    .map(([tier, ramp]) => `${tier} ← ${ramp.source}${tier === 'primary' || tier === 'brand-fill' ? ` (base ${ramp.base})` : ''}`)
+    .join(' · ');
+  const checks = contrast.results.filter((r) => r.status !== 'na').length;
+
+  const body = [
+    '  :root {',
+    '    /* Primitives */',
+    ...decls(primitives),
+    '',
+    '    /* Semantic — light */',
+    ...decls(light),
+    '  }',
+    '',
+    '  :root[data-theme="dark"] {',
+    '    /* Semantic — dark */',
+    ...decls(dark),
+    '  }',
+  ];
+  return [
+    '/**',
+    ` * theme-${client}.css — generated by \`generate-client-theme\`; do not hand-edit.`,
+    ` * Tiers: ${tierLine}`,
+    ` * Contrast: ${checks} pairing check(s), ${contrast.hardFailures} below the AA floor.`,
+    ' */',
+    ...(layer ? [`@layer ${layer} {`, ...body, '}'] : body.map((line) => line.replace(/^ {2}/, ''))),
+    '',
+  ].join('\n');
+}
+
+/**
+ * Generate a client theme. `options.client` names the primitives;
+ * `options.tiers` maps tiers to kit families or hexes; `options.layer`
+ * (default `client-theme`, `null` for none) wraps the output; `options.root`
+ * points at the BDS checkout whose tokens form the contrast base.
+ */
+export function generateClientTheme(brandKit, options = {}) {
+  const { client, tiers, layer = 'client-theme', root = BDS_ROOT } = options;
+  if (!CLIENT_RE.test(client ?? '')) throw new Error(`client "${client}" must be a lowercase slug`);
+
+  const ramps = resolveTierRamps(brandKit, tiers);
+  const primitives = buildPrimitives(client, ramps);
+  const light = bindSlots(LIGHT_SLOTS, client, ramps);
+  const dark = bindSlots(DARK_SLOTS, client, ramps);
+
+  const base = loadBase(root);
+  const lightDecls = { ...base.light, ...primitives, ...light };
+  const darkDecls = { ...base.light, ...base.dark, ...primitives, ...light, ...dark };
+  const themes = [
+    { key: 'light', label: `${client} · Light`, vars: resolveAll(lightDecls), decls: lightDecls, selector: ':root' },
+    {
+      key: 'dark',
+      label: `${client} · Dark`,
+      vars: resolveAll(darkDecls),
+      decls: darkDecls,
+      selector: ':root[data-theme="dark"]',
+    },
+  ];
+  const evaluated = evaluatePairings(base.pairings, themes);
+  const unresolved = evaluated.results.filter((r) => r.status === 'unresolved').length;
+  const contrast = { ...evaluated, unresolved };
+  const ok = contrast.hardFailures === 0 && unresolved === 0;
+
+  // Only a refused theme gets repair suggestions; tracked dark exceptions on
+  // a passing theme are the base cascade's, not the client's.
+  const repairs = ok ? { repairs: [], unrepaired: [] } : suggestRepairs(base.pairings, themes);
+
+  return {
+    client,
+    ok,
+    ramps,
+    primitives,
+    light,
+    dark,
+    contrast,
+    ...repairs,
+    overrides: renderOverrideBlock(repairs.repairs, themes),
+    css: renderCss({ client, ramps, primitives, light, dark, contrast, layer }),
+  };
+}
+
+/** One-line verdict, every pairing that blocks the write, then the suggested fix. */
+export function renderMarkdown(result) {
+  const { client, contrast } = result;
+  const blocking = contrast.results.filter((r) => r.status === 'fail' || r.status === 'unresolved');
+  const lines = [
+    `generate-client-theme: ${client} — ${contrast.hardFailures} below the AA floor, ` +
+      `${contrast.unresolved} unresolved, ${contrast.exceptions} exception(s), ${contrast.aaaWarnings} below target`,
+  ];
+  if (blocking.length > 0) {
+    lines.push('', '  Blocking pairings');
+    for (const r of blocking) {
+      const score = r.status === 'unresolved' ? 'unresolved' : `${r.ratio}:1`;
+      lines.push(`    ${r.theme.padEnd(5)}  ${score.padEnd(10)}  ${r.label} (${r.fg} on ${r.bg}, target ${r.thresholdType})`);
+    }
+  }
+  if (result.overrides) {
+    lines.push('', '  Suggested overrides — append to the generated theme, or feed the hexes back as anchors', '');
+    lines.push(...result.overrides.split('\n').map((line) => (line ? `    ${line}` : '')));
+  }
+  for (const u of result.unrepaired ?? []) lines.push(`    ?  ${u.theme} · ${u.label} — ${u.reason}`);
+  return lines.join('\n') + '\n';
+}
+
+// ─── CLI ────────────────────────────────────────────────────────────
+
+const USAGE = `generate-client-theme — Brand Kit (or anchor hexes) in, theme-{client}.css out
+
+Usage:
+  generate-client-theme <brand-kit.json> --client <slug> --tier <tier>=<family|#hex> ...
+  generate-client-theme --client <slug> --anchor <tier>=<#hex> ...
+  generate-client-theme ... --out <path>       Output file (default: theme-{client}.css)
+  generate-client-theme ... --format md|json   Report format (md default for TTY, json otherwise)
+  generate-client-theme ... --dry-run          Score and report only; write nothing
+  generate-client-theme --help                 Show this message
+
+Tiers: ${COLOR_PRIMITIVE_TIERS.join(', ')}
+
+Exit codes:
+  0  Theme written (or, with --dry-run, would be) — every pairing clears the AA floor
+  1  Refused — a pairing is below the floor or unresolved; nothing written
+  2  Bad invocation (missing kit, unknown tier or family, bad hex)
+`;
+
+function fail(message) {
+  process.stderr.write(`generate-client-theme: ${message}\n`);
+  process.exit(2);
+}
+
+function parseCliArgs(argv) {
+  const opts = { kit: null, client: null, tiers: {}, out: null, format: null, dryRun: false, help: false };
+  const addTier = (spec) => {
+    const eq = spec?.indexOf('=') ?? -1;
+    if (eq <= 0) fail(`expected <tier>=<value>, got "${spec}"`);
+    opts.tiers[spec.slice(0, eq)] = spec.slice(eq + 1);
+  };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === '--help' || a === '-h') opts.help = true;
+    else if (a === '--client') opts.client = argv[++i];
+    else if (a.startsWith('--client=')) opts.client = a.slice('--client='.length);
+    else if (a === '--tier' || a === '--anchor') addTier(argv[++i]);
+    else if (a.startsWith('--tier=')) addTier(a.slice('--tier='.length));
+    else if (a.startsWith('--anchor=')) addTier(a.slice('--anchor='.length));
+    else if (a === '--out') opts.out = argv[++i];
+    else if (a.startsWith('--out=')) opts.out = a.slice('--out='.length);
+    else if (a === '--dry-run') opts.dryRun = true;
+    else if (a === '--format') opts.format = argv[++i];
+    else if (a.startsWith('--format=')) opts.format = a.slice('--format='.length);
+    else if (a.startsWith('-')) fail(`unknown flag ${a}`);
+    else if (opts.kit) fail(`unexpected argument ${a}`);
+    else opts.kit = a;
+  }
+  if (!opts.format) opts.format = process.stdout.isTTY ? 'md' : 'json';
+  return opts;
+}
+
+function main() {
+  const opts = parseCliArgs(process.argv.slice(2));
+
+  if (opts.help) {
+    process.stdout.write(USAGE);
+    process.exit(0);
+  }
+  if (!['md', 'json'].includes(opts.format)) fail('--format must be md or json');
+
+  let brandKit = {};
+  if (opts.kit) {
+    try {
+      brandKit = JSON.parse(readFileSync(resolve(opts.kit), 'utf8'));
+    } catch (err) {
+      fail(`could not read brand kit ${opts.kit} — ${err.message}`);
+    }
+  }
+
+  let result;
+  try {
+    result = generateClientTheme(brandKit, { client: opts.client, tiers: opts.tiers });
+  } catch (err) {
+    fail(err.message);
+  }
+
+  const out = resolve(opts.out ?? `theme-${result.client}.css`);
+  const written = result.ok && !opts.dryRun;
+  if (written) writeFileSync(out, result.css);
+
+  if (opts.format === 'json') {
+    const { css, ...report } = result;
+    process.stdout.write(JSON.stringify({ ...report, out: written ? out : null }, null, 2) + '\n');
+  } else {
+    process.stdout.write(renderMarkdown(result));
+    if (opts.dryRun) process.stdout.write(`  – dry run, nothing written (${result.ok ? 'would write' : 'would refuse'} ${out})\n`);
+    else process.stdout.write(result.ok ? `  ✓ wrote ${out}\n` : `  ✗ refused to write ${out}\n`);
+  }
+  process.exit(result.ok ? 0 : 1);
+}
+
+// Entry-point detection through realpath, as in lint-copy.
+const isCliEntry = (() => {
+  try {
+    return realpathSync(fileURLToPath(import.meta.url)) === realpathSync(resolve(process.argv[1] ?? ''));
+  } catch (err) {
+    process.stderr.write(`generate-client-theme: could not determine CLI entry — ${err.message}\n`);
+    return false;
+  }
+})();
+
+if (isCliEntry) main();
@@ -10,9 +10,15 @@
  * Currently wires:
  *   - spacing     → padding-* and gap-* tokens
  *   - typography  → display-* and heading-* type scales
+ *   - radius      → border-radius-{none,sm,md,lg} (the `border-radius/*` slices)
+ *   - elevation   → blur-radius-* and box-shadow-*
+ *   - icon        → icon-* sizes (the `icon` group of the `typography/*` slices)
  *
- * Easy to extend to:
- *   - border-radius / border-width / elevation / breakpoint / icon
+ * Not wired:
+ *   - border-width — hand-authored in modes-borderwidth.css (its values follow
+ *     MODE-ARCHITECTURE.md, not Figma's thin/thick slices)
+ *   - breakpoint   — a custom property can't be read inside `@media`, so a
+ *     breakpoint mode has nothing to override in CSS
  *
  * Run:
  *   node scripts/generate-modes-css.mjs              # all wired collections
@@ -46,6 +52,13 @@ const TOKENS_DIR = path.join(ROOT, 'tokens');
 // `unitSuffix`: 'px' for spacing, '' for unitless tokens (border-radius), etc.
 // `tokenPrefix`: how to format the CSS variable name. '<group>-<name>' yields
 //   --padding-xl / --gap-md.
+// `source`: the slice prefix in tokens-studio.json, when it differs from the
+//   attribute key (`border-radius/soft` feeds data-mode-radius)
+// `flat`: the slice holds tokens directly instead of groups; its one group
+//   name only feeds `tokenName`
+// `skipTokens`: token names (within a group) no mode may override
+// `assertOverride`: optional guard run on every emitted override — throws
+//   when Figma's value can't be expressed as a valid CSS value
 
 const COLLECTIONS = {
   spacing: {
@@ -78,6 +91,57 @@ const COLLECTIONS = {
       'default scale), so each variant reuses the shared font-size primitives. ' +
       'display-* is mode-invariant in Figma today so only heading-* emits overrides.',
   },
+  radius: {
+    source: 'border-radius',
+    flat: true,
+    groups: ['border-radius'],
+    // `none` is the square-corner reset; Figma's pill slice points it at
+    // --border-radius-pill, which would round what asks not to be rounded.
+    skipTokens: ['none'],
+    defaultMode: 'soft',
+    nonDefaultModes: ['sharp', 'round', 'pill'],
+    unitSuffix: '',
+    tokenName: (group, name) => `--${group}-${name}`,
+    resolve: resolveRadiusRef,
+    description:
+      'Corner-radius mode — re-points the semantic --border-radius-{none,sm,md,lg} ' +
+      'steps at different primitives. sharp tightens, round loosens, pill sends ' +
+      'sm/md/lg to --border-radius-pill; --border-radius-none stays square in ' +
+      'every mode. Emitted as ' +
+      'var(--border-radius-NNN) references, matching figma-tokens.css. Driven by ' +
+      'BDSThemeConfig.border through ThemeProvider.',
+  },
+  elevation: {
+    groups: ['blur-radius', 'box-shadow'],
+    defaultMode: 'subtle',
+    nonDefaultModes: ['flat', 'lifted', 'dramatic'],
+    unitSuffix: '',
+    tokenName: (group, name) => `--${group}-${name}`,
+    resolve: resolveElevationValue,
+    assertOverride: assertBoxShadowOverride,
+    description:
+      'Elevation mode — modulates blur-radius-* and box-shadow-*. Figma exports ' +
+      'box-shadow-* as a bare offset, which gap-fills.css replaces with full ' +
+      'shorthand; a zero offset maps to `none`, and any other non-default offset ' +
+      'fails generation until gap-fills.css composes it. lifted and dramatic ' +
+      'match subtle in Figma today, so only flat emits overrides. The composed ' +
+      '--shadow-* tokens are not Figma variables and stay mode-invariant.',
+  },
+  icon: {
+    source: 'typography',
+    groups: ['icon'],
+    defaultMode: 'default',
+    nonDefaultModes: ['compact', 'comfortable', 'spacious', 'expressive'],
+    unitSuffix: '',
+    tokenName: (group, name) => `--${group}-${name}`,
+    resolve: resolveFontSizeRef,
+    description:
+      'Icon-size mode — Figma keeps the icon-* sizes in the typography collection, ' +
+      'so the mode names mirror data-mode-typography. Emitted as ' +
+      'var(--font-size-NNN) references. icon-* is mode-invariant in Figma today, ' +
+      'so no mode emits overrides yet; the file is the wired target for when it ' +
+      'varies.',
+  },
 };
 
 // ─── Helpers ────────────────────────────────────────────────────────
@@ -102,6 +166,29 @@ function resolveFontSizeRef(value) {
   return `var(--font-size-${m[1]})`;
 }
 
+function resolveRadiusRef(value) {
+  // {border-radius.NNN} → var(--border-radius-NNN) reference, as figma-tokens.css emits it.
+  const m = String(value).match(/^\{border-radius\.(\w+)\}$/);
+  if (!m) return value;
+  return `var(--border-radius-${m[1]})`;
+}
+
+function resolveElevationValue(value, _primitives, groupName) {
+  // `box-shadow: 0px` is invalid and dropped (see --box-shadow-none in
+  // gap-fills.css), so a zero offset means no shadow at all.
+  if (groupName === 'box-shadow' && Number(value) === 0) return 'none';
+  return `${value}px`;
+}
+
+function assertBoxShadowOverride(tokenName, value, modeName) {
+  if (tokenName.startsWith('--box-shadow-') && value !== 'none') {
+    throw new Error(
+      `elevation/${modeName} sets ${tokenName} to a bare offset (${value}), which is not a box-shadow. ` +
+        'Compose the shadow in tokens/gap-fills.css before wiring this mode.',
+    );
+  }
+}
+
 function readModeTokens(data, collectionKey, modeName) {
   const sliceKey = `${collectionKey}/${modeName}`;
   const slice = data[sliceKey];
@@ -116,7 +203,9 @@ function readModeTokens(data, collectionKey, modeName) {
 function emitCollection(data, collectionKey) {
   const cfg = COLLECTIONS[collectionKey];
   const primitives = data['primitives/value'] ?? {};
-  const defaultSlice = readModeTokens(data, collectionKey, cfg.defaultMode);
+  const source = cfg.source ?? collectionKey;
+  const groupOf = (slice, groupName) => (cfg.flat ? slice : slice[groupName]);
+  const defaultSlice = readModeTokens(data, source, cfg.defaultMode);
 
   const lines = [];
   lines.push('/**');
@@ -138,24 +227,27 @@ function emitCollection(data, collectionKey) {
 
   // Emit one selector block per non-default mode
   for (const modeName of cfg.nonDefaultModes) {
-    const slice = readModeTokens(data, collectionKey, modeName);
+    const slice = readModeTokens(data, source, modeName);
 
     // Buffer the override lines so empty groups/modes emit nothing — e.g.
     // typography's display-* group is mode-invariant in Figma today, so it
     // produces no overrides and shouldn't leave a dangling group comment.
     const body = [];
     for (const groupName of cfg.groups) {
-      const entries = Object.entries(slice[groupName] ?? {}).sort(([a], [b]) => a.localeCompare(b));
+      const entries = Object.entries(groupOf(slice, groupName) ?? {}).sort(([a], [b]) => a.localeCompare(b));
       if (entries.length === 0) continue;
 
       const groupLines = [];
       for (const [tokenName, def] of entries) {
-        const resolved = cfg.resolve(def.$value, primitives);
+        if (cfg.skipTokens?.includes(tokenName)) continue;
+        const resolved = cfg.resolve(def.$value, primitives, groupName);
         // Skip emitting overrides equal to the default value — leaner CSS
-        const defaultDef = defaultSlice[groupName]?.[tokenName];
-        const defaultResolved = defaultDef ? cfg.resolve(defaultDef.$value, primitives) : null;
+        const defaultDef = groupOf(defaultSlice, groupName)?.[tokenName];
+        const defaultResolved = defaultDef ? cfg.resolve(defaultDef.$value, primitives, groupName) : null;
         if (resolved === defaultResolved) continue;
-        groupLines.push(`  ${cfg.tokenName(groupName, tokenName)}: ${resolved}${cfg.unitSuffix};`);
+        const name = cfg.tokenName(groupName, tokenName);
+        cfg.assertOverride?.(name, resolved, modeName);
+        groupLines.push(`  ${name}: ${resolved}${cfg.unitSuffix};`);
       }
 
       if (groupLines.length === 0) continue;
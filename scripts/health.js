@@ -59,7 +59,6 @@ const WEBSITE_ONLY = new Set([
 // Documentation-only or placeholder directories — no exported component,
 // so a CSS file is not expected. Excluded from CSS completeness check.
 const DOCS_ONLY = new Set([
-  'Calendar',  // placeholder — calendar is a sub-component of DatePicker
   'Icons',     // reference page — icon grid stories only, no styled component
 ]);
 
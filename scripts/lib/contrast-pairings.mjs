@@ -0,0 +1,188 @@
+/**
+ * Contrast-pairing evaluation over resolved CSS custom properties.
+ *
+ * Single source of truth for scoring tokens/contrast-pairings.json against a
+ * theme. Consumed by:
+ *   - scripts/validate-themes.js      (the CI contrast gate, Brik light + dark)
+ *   - scripts/generate-client-theme.mjs (refuses to write a failing client theme)
+ *
+ * A "theme" here is `{ key, label, vars }`, where `vars` maps every custom
+ * property to its fully resolved value (see `resolveAll`). Assembling the
+ * cascade — which files, which selectors, in which order — stays with the
+ * caller, because the Brik default theme and a client theme stack different
+ * blocks.
+ */
+
+import { apcaContrast, apcaMinimumLc, contrastRatio, hexToRgb, isHex } from './wcag.mjs';
+
+// ─── CSS parsing ────────────────────────────────────────────────────
+
+/** Every `--name: value;` declaration in a flat block body, comments stripped. */
+export function parseDecls(blockBody) {
+  const vars = {};
+  const re = /(--[\w-]+)\s*:\s*([^;]+);/g;
+  let m;
+  while ((m = re.exec(blockBody)) !== null) {
+    vars[m[1]] = m[2].replace(/\/\*[\s\S]*?\*\//g, '').trim();
+  }
+  return vars;
+}
+
+/** Extract the flat declaration body of the first rule whose selector matches
+ *  `selectorRe` (a RegExp matching the selector text immediately before `{`). */
+export function extractBlock(css, selectorRe) {
+  const src = new RegExp(selectorRe.source + '\\s*\\{', selectorRe.flags);
+  const m = src.exec(css);
+  if (!m) return {};
+  const start = m.index + m[0].length;
+  const end = css.indexOf('}', start);
+  if (end === -1) return {};
+  return parseDecls(css.slice(start, end));
+}
+
+function resolveVar(value, vars, depth = 0) {
+  if (depth > 12 || typeof value !== 'string') return value;
+  const m = value.match(/^var\(\s*(--[\w-]+)\s*(?:,\s*([\s\S]+))?\)$/);
+  if (!m) return value;
+  const resolved = vars[m[1]];
+  if (resolved === undefined) return m[2] ? resolveVar(m[2].trim(), vars, depth + 1) : value;
+  return resolveVar(resolved, vars, depth + 1);
+}
+
+/** Resolve every `var()` reference in a merged declaration map. */
+export function resolveAll(merged) {
+  const out = {};
+  for (const [k, v] of Object.entries(merged)) out[k] = resolveVar(v, merged);
+  return out;
+}
+
+// ─── Alpha compositing (faded / disabled states) ────────────────────
+// Mirrors scripts/measure-disabled-contrast.mjs exactly, so a pairing's gate
+// ratio and that script's reported ratio are the same number.
+
+const DEFAULT_BACKDROP = '--background-primary';
+
+/**
+ * A pairing's `alpha` is either a literal or a token name. Prefer the token:
+ * `alpha: "--state-disabled-opacity"` means retuning that token re-scores every
+ * faded pairing automatically, so the value and its gate cannot drift.
+ */
+function resolveAlpha(spec, theme) {
+  const raw = typeof spec === 'string' && spec.startsWith('--') ? theme.vars[spec] : spec;
+  const n = typeof raw === 'string' ? Number.parseFloat(raw) : raw;
+  if (!Number.isFinite(n) || n <= 0 || n > 1) {
+    throw new Error(
+      `alpha "${spec}" resolved to "${raw}" in the ${theme.key} theme — ` +
+        `expected a number in (0, 1].`,
+    );
+  }
+  return n;
+}
+
+/** `over` painted at `alpha` on top of opaque `under`. */
+function composite(over, under, alpha) {
+  const u = hexToRgb(under);
+  return (
+    '#' +
+    hexToRgb(over)
+      .map((v, i) => Math.round(alpha * v + (1 - alpha) * u[i]))
+      .map((v) => v.toString(16).padStart(2, '0'))
+      .join('')
+  );
+}
+
+// ─── Evaluation ─────────────────────────────────────────────────────
+
+/**
+ * Score every pairing in `dataset` (the contrast-pairings.json shape) in every
+ * theme. Statuses: pass · warn (clears the AA floor, misses the target) ·
+ * fail · exception (dark-mode miss on a `darkException` pairing) · na
+ * (outside `appliesTo`) · unresolved (a token that is not a hex colour).
+ *
+ * Every scored result also carries the APCA Lc of the same two colours and
+ * the Lc its `font` calls for. APCA is reported, not graded: `status` comes
+ * from the WCAG 2.1 ratio alone.
+ */
+export function evaluatePairings(dataset, themes) {
+  const { thresholds } = dataset;
+
+  const round = (n) => Math.round(n * 100) / 100;
+
+  const results = []; // { pairing, theme, ratio, threshold, thresholdType, status }
+  let hardFailures = 0;
+  let exceptions = 0;
+
+  let aaaWarnings = 0;
+
+  for (const pairing of dataset.pairings) {
+    const target = thresholds[pairing.thresholdType];
+    // Hard floor = WCAG AA conformance: 3:1 for large/muted, 4.5:1 otherwise.
+    // AAA (7:1) is an aspiration for body text, not a blocking gate.
+    const floor = pairing.thresholdType === 'AA-large' ? thresholds['AA-large'] : thresholds['AA'];
+    for (const theme of themes) {
+      let fgVal = theme.vars[pairing.fg];
+      let bgVal = theme.vars[pairing.bg];
+      let status, ratio = null, apca = null;
+
+      // A faded pairing scores the composited result, not the raw token pair.
+      if (pairing.alpha !== undefined && isHex(fgVal) && isHex(bgVal)) {
+        const alpha = resolveAlpha(pairing.alpha, theme);
+        const backdrop = theme.vars[pairing.over ?? DEFAULT_BACKDROP];
+        if (!isHex(backdrop)) {
+          throw new Error(
+            `Pairing "${pairing.label}": backdrop ${pairing.over ?? DEFAULT_BACKDROP} ` +
+              `does not resolve to a hex colour in the ${theme.key} theme.`,
+          );
+        }
+        fgVal = composite(fgVal, backdrop, alpha);
+        bgVal = composite(bgVal, backdrop, alpha);
+      }
+
+      if (pairing.appliesTo && !pairing.appliesTo.includes(theme.key)) {
+        // Pairing is mode-scoped: it only renders in the listed theme(s). The
+        // CSS swaps fg (or bg) by theme, so evaluating it in the off-theme
+        // would score a combination that never paints. Skip — not a failure.
+        status = 'na';
+      } else if (!fgVal || !bgVal || !isHex(fgVal) || !isHex(bgVal)) {
+        status = 'unresolved';
+      } else {
+        ratio = round(contrastRatio(fgVal, bgVal));
+        apca = Math.round(apcaContrast(fgVal, bgVal) * 10) / 10;
+        if (ratio >= target) {
+          status = 'pass';
+        } else if (ratio >= floor) {
+          // Clears the AA floor but misses the AAA aspiration → warn, don't block.
+          status = 'warn';
+          aaaWarnings++;
+        } else if (theme.key === 'dark' && pairing.darkException) {
+          // Genuine sub-threshold in dark on a pairing whose cause is tracked
+          // elsewhere (the service-tier gap #823; the faded Chip --secondary
+          // fill #1689). The row prints its own issue number.
+          status = 'exception';
+          exceptions++;
+        } else {
+          status = 'fail';
+          hardFailures++;
+        }
+      }
+      results.push({
+        label: pairing.label,
+        group: pairing.group,
+        fg: pairing.fg,
+        bg: pairing.bg,
+        theme: theme.key,
+        themeLabel: theme.label,
+        thresholdType: pairing.thresholdType,
+        threshold: target,
+        ratio,
+        apca,
+        apcaTarget: apcaMinimumLc(pairing.font),
+        status,
+        exception: pairing.darkException || null,
+      });
+    }
+  }
+
+  const apcaBelowTarget = results.filter((r) => r.apca !== null && Math.abs(r.apca) < r.apcaTarget).length;
+  return { results, hardFailures, exceptions, aaaWarnings, apcaBelowTarget };
+}
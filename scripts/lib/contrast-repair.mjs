@@ -0,0 +1,198 @@
+/**
+ * Contrast repair — turns a failing pairing into a token override.
+ *
+ * For each pairing that fails (or sits on a tracked dark exception) in a
+ * theme, searches for the smallest change to ONE of its two tokens that
+ * brings the pair up to its threshold:
+ *
+ *   1. a sibling step on the same ramp (`--color-poppy-500` → `-700`), when
+ *      the token resolves through a numeric-stop primitive — a patch that
+ *      stays on the system's own scale;
+ *   2. otherwise an adjusted hex: the token's colour walked along the OKLCh
+ *      lightness axis, chroma and hue held (gamut-mapped by `oklchToHex`).
+ *
+ * Candidates are ordered by |ΔL| and each one is re-scored against EVERY
+ * pairing in the theme before it is accepted, so a fix that breaks another
+ * pairing sharing the token is skipped. Accepted fixes accumulate: a later
+ * repair is solved against the earlier ones.
+ *
+ * A theme here is the `{ key, label, vars }` of contrast-pairings.mjs plus
+ * `decls` — the unresolved declarations behind `vars`, which the ramp lookup
+ * walks — and an optional `selector` for the override block.
+ */
+
+import { STOPS } from '../generate-color-ramps.mjs';
+import { evaluatePairings, resolveAll } from './contrast-pairings.mjs';
+import { hexToOklch, oklchToHex } from './oklch.mjs';
+import { apcaContrast, contrastRatio, isHex } from './wcag.mjs';
+
+const FAILING = new Set(['fail', 'exception']);
+const RAMP_STOP_RE = new RegExp(`^(--[\\w-]+?)-(${STOPS.join('|')})$`);
+const VAR_RE = /^var\(\s*(--[\w-]+)\s*(?:,[\s\S]+)?\)$/;
+
+/** Lightness step for the adjusted-hex walk. 0.0025 L ≈ one 8-bit grey level. */
+const L_STEP = 0.0025;
+
+const round = (n, places = 2) => Math.round(n * 10 ** places) / 10 ** places;
+
+/** The numeric-stop primitive `token` resolves through, e.g. `--color-poppy-500`. */
+function rampPrimitiveOf(token, decls) {
+  let name = token;
+  for (let depth = 0; depth < 12; depth++) {
+    const m = typeof decls[name] === 'string' ? decls[name].match(VAR_RE) : null;
+    if (!m) return null;
+    name = m[1];
+    if (RAMP_STOP_RE.test(name)) return name;
+  }
+  return null;
+}
+
+/** Every value `token` could move to that clears `threshold` against `other`. */
+function candidatesFor(token, side, other, threshold, theme) {
+  const current = theme.vars[token];
+  if (!isHex(current)) return [];
+  const [L0, C, h] = hexToOklch(current);
+  const meets = (hex) =>
+    round(side === 'fg' ? contrastRatio(hex, other) : contrastRatio(other, hex)) >= threshold;
+
+  const candidates = [];
+  const primitive = rampPrimitiveOf(token, theme.decls);
+  if (primitive) {
+    const [, prefix] = primitive.match(RAMP_STOP_RE);
+    for (const stop of STOPS) {
+      const name = `${prefix}-${stop}`;
+      const hex = theme.vars[name];
+      if (name === primitive || !isHex(hex) || !meets(hex)) continue;
+      candidates.push({ token, kind: 'ramp', value: `var(${name})`, hex, deltaL: Math.abs(hexToOklch(hex)[0] - L0) });
+    }
+  }
+
+  for (const direction of [1, -1]) {
+    for (let L = L0 + direction * L_STEP; L >= 0 && L <= 1; L += direction * L_STEP) {
+      const hex = oklchToHex([L, C, h]);
+      if (meets(hex)) {
+        candidates.push({ token, kind: 'adjusted', value: hex, hex, deltaL: Math.abs(L - L0) });
+        break;
+      }
+    }
+  }
+  return candidates;
+}
+
+function scoreTheme(dataset, theme, decls) {
+  const vars = resolveAll(decls);
+  const { results } = evaluatePairings(dataset, [{ ...theme, vars }]);
+  return { vars, results, failing: results.filter((r) => FAILING.has(r.status) || r.status === 'unresolved').length };
+}
+
+/**
+ * Solve every failing pairing in `themes` (optionally only `options.theme`).
+ * Returns the accepted `repairs` and the pairings left `unrepaired`, each with
+ * the reason.
+ */
+export function suggestRepairs(dataset, themes, options = {}) {
+  const repairs = [];
+  const unrepaired = [];
+  const byLabel = new Map(dataset.pairings.map((p) => [p.label, p]));
+
+  for (const theme of themes) {
+    if (options.theme && theme.key !== options.theme) continue;
+    let decls = { ...theme.decls };
+    let state = scoreTheme(dataset, theme, decls);
+    const attempted = new Set();
+
+    for (;;) {
+      const target = state.results.find((r) => FAILING.has(r.status) && !attempted.has(r.label));
+      if (!target) break;
+      attempted.add(target.label);
+
+      const pairing = byLabel.get(target.label);
+      if (pairing.alpha !== undefined) {
+        unrepaired.push({ ...pick(target), reason: 'faded pairing — repair the opaque pairing it composites' });
+        continue;
+      }
+
+      const current = { ...theme, decls, vars: state.vars };
+      const fgHex = state.vars[target.fg];
+      const bgHex = state.vars[target.bg];
+      const candidates = [
+        ...candidatesFor(target.fg, 'fg', bgHex, target.threshold, current),
+        ...candidatesFor(target.bg, 'bg', fgHex, target.threshold, current),
+      ].sort((a, b) => (a.kind === b.kind ? a.deltaL - b.deltaL : a.kind === 'ramp' ? -1 : 1));
+
+      let accepted = null;
+      for (const candidate of candidates) {
+        const nextDecls = { ...decls, [candidate.token]: candidate.value };
+        const next = scoreTheme(dataset, theme, nextDecls);
+        const fixed = next.results.find((r) => r.label === target.label);
+        if (!FAILING.has(fixed.status) && next.failing < state.failing) {
+          accepted = { candidate, nextDecls, next, fixed };
+          break;
+        }
+      }
+      if (!accepted) {
+        unrepaired.push({
+          ...pick(target),
+          reason: candidates.length === 0 ? 'no lightness reaches the threshold' : 'every candidate breaks another pairing',
+        });
+        continue;
+      }
+
+      const { candidate, nextDecls, next, fixed } = accepted;
+      const after = { fg: next.vars[target.fg], bg: next.vars[target.bg] };
+      repairs.push({
+        ...pick(target),
+        token: candidate.token,
+        kind: candidate.kind,
+        from: decls[candidate.token] ?? theme.vars[candidate.token],
+        value: candidate.value,
+        hex: candidate.hex,
+        deltaL: round(candidate.deltaL, 3),
+        before: { ratio: target.ratio, apca: round(apcaContrast(fgHex, bgHex), 1) },
+        after: { ratio: fixed.ratio, apca: round(apcaContrast(after.fg, after.bg), 1) },
+      });
+      decls = nextDecls;
+      state = next;
+    }
+  }
+
+  return { repairs, unrepaired };
+}
+
+function pick(result) {
+  const { label, theme, fg, bg, thresholdType, threshold } = result;
+  return { label, theme, fg, bg, thresholdType, threshold };
+}
+
+/**
+ * Patch-ready CSS: one block per theme, using each theme's `selector`
+ * (default `:root`). Repairs to the same token collapse into one declaration
+ * with the final value; its comment lists every pairing the token fixes.
+ * Superseded repairs report only that they still clear their threshold —
+ * their after-scores were measured against a value that was replaced.
+ * Empty string when there is nothing to patch.
+ */
+export function renderOverrideBlock(repairs, themes) {
+  const blocks = [];
+  for (const theme of themes) {
+    const byToken = new Map();
+    for (const r of repairs) {
+      if (r.theme !== theme.key) continue;
+      if (!byToken.has(r.token)) byToken.set(r.token, []);
+      byToken.get(r.token).push(r);
+    }
+    if (byToken.size === 0) continue;
+    const lines = [...byToken].map(([token, own]) => {
+      const final = own[own.length - 1];
+      const fixes = own.map((r) =>
+        r === final
+          ? `${r.label}: ${r.before.ratio}:1 → ${r.after.ratio}:1 (${r.thresholdType} ≥${r.threshold}), ` +
+            `Lc ${r.before.apca} → ${r.after.apca}`
+          : `${r.label}: ${r.before.ratio}:1 → clears ${r.thresholdType} ≥${r.threshold}`,
+      );
+      return `  ${token}: ${final.value}; /* ${fixes.join('; ')} */`;
+    });
+    blocks.push(`${theme.selector ?? ':root'} {\n${lines.join('\n')}\n}`);
+  }
+  return blocks.join('\n\n');
+}
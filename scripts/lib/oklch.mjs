@@ -3,6 +3,7 @@
  *
  * Single source of truth for perceptual color math in BDS. Consumed by:
  *   - scripts/generate-color-ramps.mjs (the 11-step ramp generator, #1737)
+ *   - scripts/generate-client-theme.mjs (single-anchor client ramps)
  *
  * Why OKLCh and not HSL/Lab: ramp stops have to be perceptually even, and a
  * generated stop must not shift hue away from the brand anchors it sits
@@ -4,4 +4,6 @@ export function luminance(rgb: [number, number, number]): number;
 export function parseRgb(value: string): [number, number, number] | null;
 export function toRgb(value: string): [number, number, number] | null;
 export function contrastRatio(a: string, b: string): number;
+export function apcaContrast(text: string, background: string): number;
+export function apcaMinimumLc(font?: { size: number; weight: number } | null): number;
 export function isHex(value: string): boolean;
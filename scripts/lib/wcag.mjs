@@ -2,10 +2,13 @@
  * WCAG 2.1 relative-luminance + contrast-ratio math.
  *
  * Single source of truth for contrast computation across BDS. Consumed by:
- *   - scripts/validate-themes.js  (the CI contrast gate)
+ *   - scripts/lib/contrast-pairings.mjs (pairing scoring for validate-themes.js
+ *     and generate-client-theme.mjs)
  *   - stories/_components/wcag-contrast.ts (the Storybook ContrastCompliance dashboard)
  *
  * Formula: WCAG 2.1 §1.4.3 (https://www.w3.org/TR/WCAG21/#dfn-contrast-ratio).
+ * `apcaContrast` adds the APCA Lc score (WCAG 3 draft), reported alongside the
+ * ratio — the gate still grades on the WCAG 2.1 ratio.
  */
 
 /** Parse a #rgb / #rrggbb hex string to an [r, g, b] tuple (0–255). */
@@ -54,6 +57,65 @@ export function contrastRatio(a, b) {
   return (lighter + 0.05) / (darker + 0.05);
 }
 
+// ─── APCA (WCAG 3 draft) ─────────────────────────────────────────────
+// APCA-W3 0.0.98G-4g constants (https://github.com/Myndex/apca-w3). Unlike the
+// ratio, Lc is polarity-aware: positive for dark text on a light background,
+// negative for light text on a dark one.
+
+const APCA = {
+  mainTRC: 2.4,
+  coefficients: [0.2126729, 0.7151522, 0.072175],
+  normBG: 0.56,
+  normTXT: 0.57,
+  revTXT: 0.62,
+  revBG: 0.65,
+  blkThrs: 0.022,
+  blkClmp: 1.414,
+  scale: 1.14,
+  loOffset: 0.027,
+  loClip: 0.1,
+  deltaYmin: 0.0005,
+};
+
+/** APCA screen luminance of an [r, g, b] tuple, soft-clamped near black. */
+function apcaY(rgb) {
+  const y = rgb.reduce((sum, c, i) => sum + APCA.coefficients[i] * Math.pow(c / 255, APCA.mainTRC), 0);
+  return y < APCA.blkThrs ? y + Math.pow(APCA.blkThrs - y, APCA.blkClmp) : y;
+}
+
+/** APCA lightness contrast (Lc) of `text` on `background` (hex or rgb()).
+ *  Roughly [-108, 106]; 0 if either value can't be parsed. */
+export function apcaContrast(text, background) {
+  const rgbText = toRgb(text);
+  const rgbBg = toRgb(background);
+  if (!rgbText || !rgbBg) return 0;
+  const yText = apcaY(rgbText);
+  const yBg = apcaY(rgbBg);
+  if (Math.abs(yBg - yText) < APCA.deltaYmin) return 0;
+
+  if (yBg > yText) {
+    const sapc = (Math.pow(yBg, APCA.normBG) - Math.pow(yText, APCA.normTXT)) * APCA.scale;
+    return sapc < APCA.loClip ? 0 : (sapc - APCA.loOffset) * 100;
+  }
+  const sapc = (Math.pow(yBg, APCA.revBG) - Math.pow(yText, APCA.revTXT)) * APCA.scale;
+  return sapc > -APCA.loClip ? 0 : (sapc + APCA.loOffset) * 100;
+}
+
+/**
+ * Minimum |Lc| for text at `font` ({ size in px, weight }), per APCA's Bronze
+ * Simple Mode: 90 for body text below 18px, 75 from 18px (14px bold), 60 from
+ * 24px (16px bold), 45 from 36px (24px bold). Bold is weight 700 and up.
+ * Without a font the pairing is non-text (a fill against a surface): 15.
+ */
+export function apcaMinimumLc(font) {
+  if (!font) return 15;
+  const bold = font.weight >= 700;
+  if (font.size >= (bold ? 24 : 36)) return 45;
+  if (font.size >= (bold ? 16 : 24)) return 60;
+  if (font.size >= (bold ? 14 : 18)) return 75;
+  return 90;
+}
+
 /** True if `value` is a literal hex color (#rgb / #rrggbb). */
 export function isHex(value) {
   return /^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/.test(String(value).trim());
@@ -71,12 +71,15 @@ const BANNED_SUFFIXES = {
 const HEADING_EXCEPTIONS = [/\bbds-sheet-section__heading\b/];
 
 // Files that legitimately reinvent markup or have no BDS-primitive use
-// case (registry / fallback / fixtures).
+// case (registry / fallback / static export / fixtures).
 const SKIP_FILES = new Set([
   'BlueprintFallback.tsx',
   'BlueprintFallback.css',
   'BlueprintDispatcher.tsx',
   'BlueprintDispatcher.astro',
+  'PageComposer.tsx',
+  'PageComposer.astro',
+  'render-page-to-html.tsx',
   '_fixtures.ts',
 ]);
 
@@ -306,6 +309,14 @@ const SHELL_FAMILIES = [
   'bds-cta',
   'bds-card-grid',
   'bds-support-plan',
+  'bds-bento',
+  'bds-testimonials',
+  'bds-team',
+  'bds-gallery',
+  'bds-faq',
+  'bds-contact-form',
+  'bds-legal',
+  'bds-stats',
 ];
 
 // `.bds-hero {` — bare block, no modifier, no descendant, no compound.
@@ -0,0 +1,370 @@
+#!/usr/bin/env node
+/**
+ * lint-copy — Copy-drift gate for client content.
+ *
+ * Runs the content-system `lintCopy` check over MDX and JSON content files
+ * so copy that breaks the client's voice blend or industry pack (avoided
+ * terms, rejected CTAs, regulatory call-outs) is caught before a client
+ * sees a mockup.
+ *
+ * The checks themselves live in `content-system/copy-lint/` and ship in
+ * `dist/content-system/index.mjs`; this script only finds the copy and
+ * reports. Run `npm run build:content-system` first when working in BDS.
+ *
+ * ── Extraction ───────────────────────────────────────────────────────────
+ *
+ *   MDX  — headings lint as `hero`, paragraphs and list items as
+ *          `paragraph`. Frontmatter, imports/exports, code fences, tables
+ *          and JSX lines are skipped; inline markdown is stripped.
+ *   JSON — every string leaf with a letter in it, except identifier-like
+ *          keys (`id`, `slug`, `href`, …) and values that look like URLs,
+ *          paths or slugs. The nearest key picks the surface: `cta` /
+ *          `button` → cta, `hero` / `headline` / `title` → hero, `label` /
+ *          `hint` / `placeholder` → microcopy, anything else → paragraph.
+ *
+ * ── CLI ──────────────────────────────────────────────────────────────────
+ *   lint-copy <path...>                  Files or directories (.mdx, .md, .json)
+ *   lint-copy --voices Direct,Empathetic Client voice picks, in pick order
+ *   lint-copy --industry dental          Industry slug
+ *   lint-copy --surface cta              Lint every block as this surface
+ *   lint-copy --fail-on error|warning|info
+ *                                        Lowest severity that fails (default: error)
+ *   lint-copy --format md|json           Output format (default: md for TTY,
+ *                                        json otherwise)
+ *   lint-copy --help                     Show this message
+ *
+ * ── Exit codes ───────────────────────────────────────────────────────────
+ *   0  Clean — nothing at or above --fail-on
+ *   1  Findings at or above --fail-on
+ *   2  Bad invocation (unknown voice/industry, missing build, unreadable file)
+ */
+
+import { existsSync, readFileSync, readdirSync, realpathSync, statSync } from 'node:fs';
+import { dirname, extname, join, relative, resolve } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+export const SEVERITY_ORDER = ['info', 'warning', 'error'];
+
+const COPY_EXTENSIONS = ['.mdx', '.md', '.json'];
+
+const SKIP_DIRS = new Set(['node_modules', 'dist', '.git']);
+
+// ── MDX ──────────────────────────────────────────────────────────────────
+
+/** Markdown inline syntax → plain text. Links keep their label; code spans drop. */
+export function stripInlineMarkdown(line) {
+  return line
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/`[^`]*`/g, '')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(\*|_)(.+?)\1/g, '$2')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Copy blocks in an MDX / Markdown source.
+ * Returns `{ text, surface, line }[]`; `line` is 1-based.
+ */
+export function extractMdxCopy(source) {
+  const lines = source.split(/\r?\n/);
+  const blocks = [];
+  let i = 0;
+
+  if (lines[0]?.trim() === '---') {
+    const close = lines.findIndex((l, n) => n > 0 && l.trim() === '---');
+    if (close > 0) i = close + 1;
+  }
+
+  let paragraph = null;
+  const flush = () => {
+    if (paragraph && paragraph.text) blocks.push(paragraph);
+    paragraph = null;
+  };
+
+  let inFence = false;
+  for (; i < lines.length; i++) {
+    const raw = lines[i];
+    const trimmed = raw.trim();
+    const line = i + 1;
+
+    if (/^(```|~~~)/.test(trimmed)) {
+      flush();
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence) continue;
+
+    if (
+      trimmed === '' ||
+      /^(import|export)\s/.test(trimmed) ||
+      /^[<{|]/.test(trimmed) ||
+      /^(---|\*\*\*)$/.test(trimmed)
+    ) {
+      flush();
+      continue;
+    }
+
+    const heading = trimmed.match(/^#{1,6}\s+(.*)$/);
+    if (heading) {
+      flush();
+      const text = stripInlineMarkdown(heading[1]);
+      if (text) blocks.push({ text, surface: 'hero', line });
+      continue;
+    }
+
+    const item = trimmed.match(/^(?:[-*+]|\d+\.)\s+(.*)$/);
+    if (item) {
+      flush();
+      paragraph = { text: stripInlineMarkdown(item[1]), surface: 'paragraph', line };
+      continue;
+    }
+
+    const text = stripInlineMarkdown(trimmed.replace(/^>\s?/, ''));
+    if (paragraph) paragraph.text = `${paragraph.text} ${text}`.trim();
+    else paragraph = { text, surface: 'paragraph', line };
+  }
+  flush();
+  return blocks;
+}
+
+// ── JSON ─────────────────────────────────────────────────────────────────
+
+const NON_COPY_KEYS = /^(id|key|slug|url|href|src|image|icon|type|variant|classname|path|email|phone|color|locale|date)$/i;
+
+const looksLikeIdentifier = (value) =>
+  /:\/\//.test(value) || /^[/#.]/.test(value) || /^[a-z0-9]+(?:[-_./:][a-z0-9]+)+$/.test(value);
+
+/** The surface a JSON key implies. */
+export function surfaceForKey(key) {
+  if (/cta|button|action/i.test(key)) return 'cta';
+  if (/hero|headline|heading|title/i.test(key)) return 'hero';
+  if (/micro|label|hint|placeholder|helper|tooltip|error/i.test(key)) return 'microcopy';
+  return 'paragraph';
+}
+
+/**
+ * Copy strings in parsed JSON content.
+ * Returns `{ text, surface, path }[]`; `path` is a dotted key path.
+ */
+export function extractJsonCopy(data) {
+  const blocks = [];
+  const walk = (value, path, key) => {
+    if (typeof value === 'string') {
+      const text = value.trim();
+      if (!/[A-Za-z]/.test(text) || looksLikeIdentifier(text) || NON_COPY_KEYS.test(key)) return;
+      blocks.push({ text, surface: surfaceForKey(key), path: path.join('.') });
+    } else if (Array.isArray(value)) {
+      value.forEach((item, n) => walk(item, [...path, String(n)], key));
+    } else if (value && typeof value === 'object') {
+      for (const [k, v] of Object.entries(value)) walk(v, [...path, k], k);
+    }
+  };
+  walk(data, [], '');
+  return blocks;
+}
+
+// ── Scan ─────────────────────────────────────────────────────────────────
+
+function collectFiles(root, acc = []) {
+  let stat;
+  try {
+    stat = statSync(root);
+  } catch {
+    throw new Error(`lint-copy: path not found: ${root}`);
+  }
+  if (stat.isFile()) {
+    if (COPY_EXTENSIONS.includes(extname(root))) acc.push(root);
+    return acc;
+  }
+  for (const entry of readdirSync(root)) {
+    if (SKIP_DIRS.has(entry)) continue;
+    const child = join(root, entry);
+    if (statSync(child).isDirectory() || COPY_EXTENSIONS.includes(extname(child))) collectFiles(child, acc);
+  }
+  return acc;
+}
+
+/**
+ * Lint every copy block in `paths`. `lintCopy` is the content-system
+ * function — injected so tests don't need a build.
+ *
+ * Returns `{ files: [{ file, blocks: [{ text, surface, line?, path?, score, findings }] }], findingCount }`.
+ * Only blocks with findings are listed.
+ */
+export function lintCopyFiles({ paths, lintCopy, voices, industry, surface }) {
+  const files = [];
+  let findingCount = 0;
+  for (const file of paths.flatMap((p) => collectFiles(p))) {
+    const source = readFileSync(file, 'utf8');
+    let blocks;
+    if (extname(file) === '.json') {
+      try {
+        blocks = extractJsonCopy(JSON.parse(source));
+      } catch (err) {
+        throw new Error(`lint-copy: could not parse ${file} — ${err.message}`);
+      }
+    } else {
+      blocks = extractMdxCopy(source);
+    }
+
+    const linted = blocks
+      .map((block) => {
+        const result = lintCopy(block.text, { voices, industry, surface: surface ?? block.surface });
+        return { ...block, surface: surface ?? block.surface, ...result };
+      })
+      .filter((block) => block.findings.length > 0);
+    findingCount += linted.reduce((sum, block) => sum + block.findings.length, 0);
+    if (linted.length > 0) files.push({ file, blocks: linted });
+  }
+  return { files, findingCount };
+}
+
+/** Whether any finding is at or above `failOn`. */
+export function hasFailures(result, failOn = 'error') {
+  const floor = SEVERITY_ORDER.indexOf(failOn);
+  return result.files.some((f) =>
+    f.blocks.some((b) => b.findings.some((finding) => SEVERITY_ORDER.indexOf(finding.severity) >= floor)),
+  );
+}
+
+// ── CLI ──────────────────────────────────────────────────────────────────
+
+const USAGE = `lint-copy — Copy-drift gate for @brikdesigns/bds content
+
+Usage:
+  lint-copy <path...>                    Files or directories (.mdx, .md, .json)
+  lint-copy --voices <list>              Client voice picks in pick order (e.g. Direct,Empathetic)
+  lint-copy --industry <slug>            Industry pack slug (e.g. dental)
+  lint-copy --surface <surface>          Lint every block as hero|cta|paragraph|microcopy
+  lint-copy --fail-on error|warning|info Lowest severity that fails (default: error)
+  lint-copy --format md|json             Output format (md default for TTY, json otherwise)
+  lint-copy --help                       Show this message
+
+Exit codes:
+  0  Clean — nothing at or above --fail-on
+  1  Findings at or above --fail-on
+  2  Bad invocation (unknown voice/industry, missing build, unreadable file)
+`;
+
+function parseCliArgs(argv) {
+  const opts = { paths: [], voices: [], industry: undefined, surface: undefined, failOn: 'error', format: null, help: false };
+  const list = (value) => (value ?? '').split(',').map((s) => s.trim()).filter(Boolean);
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === '--help' || a === '-h') opts.help = true;
+    else if (a === '--voices' || a === '--voice') opts.voices = list(argv[++i]);
+    else if (a.startsWith('--voices=')) opts.voices = list(a.slice('--voices='.length));
+    else if (a === '--industry') opts.industry = argv[++i];
+    else if (a.startsWith('--industry=')) opts.industry = a.slice('--industry='.length);
+    else if (a === '--surface') opts.surface = argv[++i];
+    else if (a.startsWith('--surface=')) opts.surface = a.slice('--surface='.length);
+    else if (a === '--fail-on') opts.failOn = argv[++i];
+    else if (a.startsWith('--fail-on=')) opts.failOn = a.slice('--fail-on='.length);
+    else if (a === '--format') opts.format = argv[++i];
+    else if (a.startsWith('--format=')) opts.format = a.slice('--format='.length);
+    else if (a.startsWith('-')) {
+      process.stderr.write(`lint-copy: unknown flag ${a}\n`);
+      process.exit(2);
+    }
+    else opts.paths.push(a);
+  }
+  if (!opts.format) opts.format = process.stdout.isTTY ? 'md' : 'json';
+  return opts;
+}
+
+/**
+ * Locate the built content system. Resolution order:
+ *   1. node_modules/@brikdesigns/bds/dist/content-system/index.mjs (consumers)
+ *   2. dist/content-system/index.mjs next to this script (BDS itself)
+ */
+function resolveContentSystemPath(cwd = process.cwd()) {
+  const consumerPath = resolve(cwd, 'node_modules/@brikdesigns/bds/dist/content-system/index.mjs');
+  if (existsSync(consumerPath)) return consumerPath;
+  const __dirname = dirname(fileURLToPath(import.meta.url));
+  return resolve(__dirname, '..', 'dist', 'content-system', 'index.mjs');
+}
+
+function renderMarkdown(result, opts) {
+  const context = [
+    opts.voices.length > 0 ? `voices ${opts.voices.join(', ')}` : 'no voices',
+    opts.industry ? `industry ${opts.industry}` : 'no industry',
+  ].join(' · ');
+  if (result.findingCount === 0) return `lint-copy: clean — ${context}\n`;
+
+  const lines = [`lint-copy: ${result.findingCount} finding(s) in ${result.files.length} file(s) — ${context}`, ''];
+  for (const { file, blocks } of result.files) {
+    const name = relative(process.cwd(), file);
+    for (const block of blocks) {
+      const where = block.line ? `${name}:${block.line}` : `${name} → ${block.path}`;
+      lines.push(`  ${where}  [${block.surface}, score ${block.score}]`);
+      for (const f of block.findings) {
+        const fix = f.suggestions.length > 0 ? `  → ${f.suggestions.join(' | ')}` : '';
+        lines.push(`    ${f.severity.padEnd(7)} ${f.rule.padEnd(20)} "${f.excerpt}" — ${f.message}${fix}`);
+      }
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+async function main() {
+  const opts = parseCliArgs(process.argv.slice(2));
+
+  if (opts.help) {
+    process.stdout.write(USAGE);
+    process.exit(0);
+  }
+  if (opts.paths.length === 0) {
+    process.stderr.write(USAGE);
+    process.exit(2);
+  }
+  if (!SEVERITY_ORDER.includes(opts.failOn)) {
+    process.stderr.write(`lint-copy: --fail-on must be one of ${SEVERITY_ORDER.join(', ')}\n`);
+    process.exit(2);
+  }
+
+  const contentSystemPath = resolveContentSystemPath();
+  if (!existsSync(contentSystemPath)) {
+    process.stderr.write(
+      `lint-copy: content system not found at ${contentSystemPath}\n` +
+        `  Run \`npm install\` (consumers) or \`npm run build:content-system\` (BDS itself) to populate.\n`,
+    );
+    process.exit(2);
+  }
+  const { lintCopy, isVoice, isIndustrySlug } = await import(pathToFileURL(contentSystemPath).href);
+
+  const badVoice = opts.voices.find((v) => !isVoice(v));
+  if (badVoice) {
+    process.stderr.write(`lint-copy: unknown voice "${badVoice}"\n`);
+    process.exit(2);
+  }
+  if (opts.industry && !isIndustrySlug(opts.industry)) {
+    process.stderr.write(`lint-copy: unknown industry "${opts.industry}"\n`);
+    process.exit(2);
+  }
+
+  let result;
+  try {
+    result = lintCopyFiles({ ...opts, lintCopy });
+  } catch (err) {
+    process.stderr.write(`${err.message}\n`);
+    process.exit(2);
+  }
+
+  process.stdout.write(opts.format === 'json' ? JSON.stringify(result, null, 2) + '\n' : renderMarkdown(result, opts));
+  process.exit(hasFailures(result, opts.failOn) ? 1 : 0);
+}
+
+// Entry-point detection — as in canonical-check, but through realpath so
+// the npm bin symlink (node_modules/.bin/lint-copy) counts as the entry.
+const isCliEntry = (() => {
+  try {
+    return realpathSync(fileURLToPath(import.meta.url)) === realpathSync(resolve(process.argv[1] ?? ''));
+  } catch (err) {
+    process.stderr.write(`lint-copy: could not determine CLI entry — ${err.message}\n`);
+    return false;
+  }
+})();
+
+if (isCliEntry) main();
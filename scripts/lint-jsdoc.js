@@ -19,7 +19,7 @@
  *
  * Two categories of non-conforming components are handled explicitly:
  *   - `EXEMPT_COMPONENTS` — Storybook reference pages with no real React
- *     export (Calendar, Icons). Skipped without error.
+ *     export (Icons). Skipped without error.
  *   - `MULTI_EXPORT` — directories whose `index.ts` re-exports several
  *     named sub-components instead of a single `<Name>.tsx` (SheetTypography).
  *     Each sub-component file is checked individually for rules 1 + 2.
@@ -76,7 +76,6 @@ const componentDirs = fs
 
 // Storybook reference pages — no exported React component, nothing to check.
 const EXEMPT_COMPONENTS = new Set([
-  'Calendar', // index.ts: "Calendar — placeholder, component not yet implemented"
   'Icons', // index.ts: "Icons — reference page only, no exported component"
 ]);
 
@@ -11,7 +11,7 @@
  * payload consumer-repo agents rely on.
  *
  * Exemptions (not gaps):
- *  - `wip` / `!manifest` meta tag — placeholder or deliberately hidden (Calendar)
+ *  - `wip` / `!manifest` meta tag — placeholder or deliberately hidden
  *  - `Tools/*` bucket — dev-only utilities (BrikDevBar, DevFeedbackWidget)
  *  - EXEMPT set — Foundation galleries whose story IS the documentation (Icons)
  *
@@ -25,7 +25,10 @@ const __dirname = dirname(fileURLToPath(import.meta.url));
 const libraryPath = resolve(__dirname, '..', 'blueprints', 'blueprint-library.json');
 const astroDir = resolve(__dirname, '..', 'content-system', 'blueprints', 'astro');
 const dispatcherPath = resolve(astroDir, 'BlueprintDispatcher.astro');
-const typesPath = resolve(astroDir, 'types.ts');
+// WIRED_BLUEPRINT_KEYS is generated from the registry by
+// scripts/generate-blueprint-types.mjs — this catches a registry edit
+// committed without regenerating.
+const typesPath = resolve(astroDir, 'blueprint-keys.generated.ts');
 
 const MOOD_VALUES = new Set([
   'bold', 'minimal', 'warm', 'corporate', 'playful', 'luxury',
@@ -176,7 +179,7 @@ function extractRegistryKeys(source) {
 }
 
 /**
- * Extract the WIRED_BLUEPRINT_KEYS array literal from types.ts.
+ * Extract the WIRED_BLUEPRINT_KEYS array literal from blueprint-keys.generated.ts.
  */
 function extractWiredKeys(source) {
   const block = source.match(/export const WIRED_BLUEPRINT_KEYS\s*=\s*\[([\s\S]*?)\]\s*as const/);
@@ -201,7 +204,7 @@ function validateRegistrySync(library, dispatcherSrc, typesSrc) {
     return issues;
   }
   if (!wiredKeys) {
-    push('WIRED_BLUEPRINT_KEYS', 'Could not parse WIRED_BLUEPRINT_KEYS in astro/types.ts.');
+    push('WIRED_BLUEPRINT_KEYS', 'Could not parse WIRED_BLUEPRINT_KEYS in astro/blueprint-keys.generated.ts.');
     return issues;
   }
 
@@ -212,7 +215,7 @@ function validateRegistrySync(library, dispatcherSrc, typesSrc) {
   );
 
   for (const k of registrySet) {
-    if (!wiredSet.has(k)) push('WIRED_BLUEPRINT_KEYS', `Registry key "${k}" is missing from WIRED_BLUEPRINT_KEYS.`);
+    if (!wiredSet.has(k)) push('WIRED_BLUEPRINT_KEYS', `Registry key "${k}" is missing from WIRED_BLUEPRINT_KEYS — run npm run typegen:blueprints.`);
   }
   for (const k of wiredSet) {
     if (!registrySet.has(k)) push('BLUEPRINT_REGISTRY', `WIRED_BLUEPRINT_KEYS key "${k}" has no registry entry.`);
@@ -0,0 +1,186 @@
+#!/usr/bin/env node
+/**
+ * validate-industry-packs — Industry pack authoring gate + staleness report.
+ *
+ * Runs the content-system `validateIndustryPack` check over every
+ * registered industry pack (or the slugs named on the command line) and
+ * reports which packs are overdue against their `reviewCadence`.
+ *
+ * The checks themselves live in `content-system/industries/validate-pack.ts`
+ * and ship in `dist/content-system/index.mjs`; this script only loads the
+ * packs plus `blueprints/blueprint-library.json` and reports. Run
+ * `npm run build:content-system` first.
+ *
+ * ── Checks ───────────────────────────────────────────────────────────────
+ *
+ *   vocabulary               slug, parentIndustry, affinities, nav / footer
+ *                            archetypes against the locked vocabularies;
+ *                            semver `version`; ISO `lastReviewed`
+ *   catalog-duplicate        two entries in one catalog share a slug
+ *   catalog-alias-collision  a slug / displayName / alias resolving to two
+ *                            entries (error in one category, warning across)
+ *   page-composition         `pageCompositions` keys without a matching
+ *                            `pageArchetypes` slug, or a mismatched
+ *                            `pageArchetype` field
+ *   blueprint-key            keys missing from the library (error) or
+ *                            inactive (warning)
+ *   review-overdue           `lastReviewed` + cadence is in the past (warning)
+ *
+ * ── CLI ──────────────────────────────────────────────────────────────────
+ *   validate-industry-packs [slug...]        Packs to check (default: all)
+ *   validate-industry-packs --today YYYY-MM-DD
+ *                                            Date to measure cadence against
+ *   validate-industry-packs --fail-on error|warning
+ *                                            Lowest severity that fails (default: error)
+ *   validate-industry-packs --format md|json Output format (default: md for TTY,
+ *                                            json otherwise)
+ *   validate-industry-packs --help           Show this message
+ *
+ * ── Exit codes ───────────────────────────────────────────────────────────
+ *   0  Clean — nothing at or above --fail-on
+ *   1  Issues at or above --fail-on
+ *   2  Bad invocation (unknown slug, bad date, missing build)
+ */
+
+import { existsSync, readFileSync, realpathSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+
+export const SEVERITY_ORDER = ['warning', 'error'];
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const BDS_ROOT = resolve(__dirname, '..');
+
+/** Whether any issue is at or above `failOn`. */
+export function hasFailures(results, failOn = 'error') {
+  const floor = SEVERITY_ORDER.indexOf(failOn);
+  return results.some((r) => r.issues.some((issue) => SEVERITY_ORDER.indexOf(issue.severity) >= floor));
+}
+
+function reviewLabel(review) {
+  if (!review.dueOn) return 'unknown';
+  return review.overdue ? `OVERDUE ${review.daysOverdue}d` : 'current';
+}
+
+/** Staleness table, then every issue grouped by pack. */
+export function renderMarkdown(results, today) {
+  const count = (severity) =>
+    results.reduce((sum, r) => sum + r.issues.filter((i) => i.severity === severity).length, 0);
+  const lines = [
+    `validate-industry-packs: ${results.length} pack(s) — ${count('error')} error(s), ${count('warning')} warning(s) · today ${today}`,
+    '',
+    '  Review status',
+  ];
+  const slugWidth = Math.max(4, ...results.map((r) => r.slug.length));
+  lines.push(`    ${'pack'.padEnd(slugWidth)}  cadence    reviewed    due         status`);
+  for (const { slug, review } of results) {
+    lines.push(
+      `    ${slug.padEnd(slugWidth)}  ${review.reviewCadence.padEnd(9)}  ${review.lastReviewed.padEnd(10)}  ${(review.dueOn ?? '—').padEnd(10)}  ${reviewLabel(review)}`,
+    );
+  }
+
+  const withIssues = results.filter((r) => r.issues.some((i) => i.rule !== 'review-overdue'));
+  if (withIssues.length > 0) {
+    lines.push('', '  Issues');
+    for (const { slug, issues } of withIssues) {
+      lines.push(`    ${slug}`);
+      for (const issue of issues) {
+        if (issue.rule === 'review-overdue') continue;
+        lines.push(`      ${issue.severity.padEnd(7)} ${issue.rule.padEnd(23)} ${issue.field} — ${issue.message}`);
+      }
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+// ── CLI ──────────────────────────────────────────────────────────────────
+
+const USAGE = `validate-industry-packs — Industry pack authoring gate + staleness report
+
+Usage:
+  validate-industry-packs [slug...]               Packs to check (default: all registered)
+  validate-industry-packs --today YYYY-MM-DD      Date to measure review cadence against
+  validate-industry-packs --fail-on error|warning Lowest severity that fails (default: error)
+  validate-industry-packs --format md|json        Output format (md default for TTY, json otherwise)
+  validate-industry-packs --help                  Show this message
+
+Exit codes:
+  0  Clean — nothing at or above --fail-on
+  1  Issues at or above --fail-on
+  2  Bad invocation (unknown slug, bad date, missing build)
+`;
+
+function parseCliArgs(argv) {
+  const opts = { slugs: [], today: new Date().toISOString().slice(0, 10), failOn: 'error', format: null, help: false };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === '--help' || a === '-h') opts.help = true;
+    else if (a === '--today') opts.today = argv[++i];
+    else if (a.startsWith('--today=')) opts.today = a.slice('--today='.length);
+    else if (a === '--fail-on') opts.failOn = argv[++i];
+    else if (a.startsWith('--fail-on=')) opts.failOn = a.slice('--fail-on='.length);
+    else if (a === '--format') opts.format = argv[++i];
+    else if (a.startsWith('--format=')) opts.format = a.slice('--format='.length);
+    else if (a.startsWith('-')) {
+      process.stderr.write(`validate-industry-packs: unknown flag ${a}\n`);
+      process.exit(2);
+    }
+    else opts.slugs.push(a);
+  }
+  if (!opts.format) opts.format = process.stdout.isTTY ? 'md' : 'json';
+  return opts;
+}
+
+async function main() {
+  const opts = parseCliArgs(process.argv.slice(2));
+
+  if (opts.help) {
+    process.stdout.write(USAGE);
+    process.exit(0);
+  }
+  if (!SEVERITY_ORDER.includes(opts.failOn)) {
+    process.stderr.write(`validate-industry-packs: --fail-on must be one of ${SEVERITY_ORDER.join(', ')}\n`);
+    process.exit(2);
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(opts.today ?? '')) {
+    process.stderr.write(`validate-industry-packs: --today must be YYYY-MM-DD\n`);
+    process.exit(2);
+  }
+
+  const contentSystemPath = resolve(BDS_ROOT, 'dist', 'content-system', 'index.mjs');
+  if (!existsSync(contentSystemPath)) {
+    process.stderr.write(
+      `validate-industry-packs: content system not found at ${contentSystemPath}\n` +
+        `  Run \`npm run build:content-system\` to populate.\n`,
+    );
+    process.exit(2);
+  }
+  const { industryPacks, isIndustrySlug, validateIndustryPacks } = await import(pathToFileURL(contentSystemPath).href);
+
+  const badSlug = opts.slugs.find((slug) => !isIndustrySlug(slug));
+  if (badSlug) {
+    process.stderr.write(`validate-industry-packs: unknown industry "${badSlug}"\n`);
+    process.exit(2);
+  }
+
+  const library = JSON.parse(readFileSync(resolve(BDS_ROOT, 'blueprints', 'blueprint-library.json'), 'utf8'));
+  const packs = opts.slugs.length > 0 ? opts.slugs.map((slug) => industryPacks[slug]) : Object.values(industryPacks);
+  const results = validateIndustryPacks(packs, { blueprints: library.blueprints, today: opts.today });
+
+  process.stdout.write(
+    opts.format === 'json' ? JSON.stringify(results, null, 2) + '\n' : renderMarkdown(results, opts.today),
+  );
+  process.exit(hasFailures(results, opts.failOn) ? 1 : 0);
+}
+
+// Entry-point detection through realpath, as in lint-copy.
+const isCliEntry = (() => {
+  try {
+    return realpathSync(fileURLToPath(import.meta.url)) === realpathSync(resolve(process.argv[1] ?? ''));
+  } catch (err) {
+    process.stderr.write(`validate-industry-packs: could not determine CLI entry — ${err.message}\n`);
+    return false;
+  }
+})();
+
+if (isCliEntry) main();
@@ -24,14 +24,27 @@
  *     gate scores token names that never paint and reports a fade as safe —
  *     the blind spot ADR-028 § Consequences pt-2 documents (brik-bds#1687).
  *
+ *   - Every scored pairing also reports its APCA Lc (WCAG 3 draft) and the Lc
+ *     its `font` context calls for. Reported in the row and in --json; the
+ *     verdict stays on the WCAG 2.1 ratio.
+ *
  * Source of truth: tokens/contrast-pairings.json (also feeds the Storybook
- * ContrastCompliance dashboard and the primitives/color-pairings.mdx matrix).
+ * ContrastCompliance dashboard, the primitives/color-pairings.mdx matrix and
+ * the generate-client-theme.mjs write gate).
  *
  * Usage:
  *   node scripts/validate-themes.js               # human-readable report, exit 1 on failure
  *   node scripts/validate-themes.js --json        # machine-readable JSON
  *   node scripts/validate-themes.js --emit-matrix # Markdown matrix for the foundation doc
  *   node scripts/validate-themes.js --check-matrix # fail if color-pairings.mdx matrix drifted from the generator
+ *   node scripts/validate-themes.js --suggest     # also print a patch-ready override block for each failure
+ *   node scripts/validate-themes.js --suggest --theme dark # only solve the dark theme
+ *
+ * --suggest runs scripts/lib/contrast-repair.mjs: for every failing (or
+ * tracked-exception) pairing it finds the nearest ramp step, else an OKLCh
+ * lightness-adjusted hex, that clears the threshold without breaking another
+ * pairing, and reports the APCA Lc beside the WCAG ratio. It never changes
+ * the exit code — the gate still grades the committed tokens.
  */
 
 const fs = require('fs');
@@ -48,91 +61,24 @@ const DATASET = require(path.join(ROOT, 'tokens', 'contrast-pairings.json'));
 const jsonMode = process.argv.includes('--json');
 const matrixMode = process.argv.includes('--emit-matrix');
 const checkMatrixMode = process.argv.includes('--check-matrix');
+const suggestMode = process.argv.includes('--suggest');
+const themeArg = (() => {
+  const i = process.argv.findIndex((a) => a === '--theme' || a.startsWith('--theme='));
+  if (i === -1) return null;
+  return process.argv[i].includes('=') ? process.argv[i].split('=')[1] : process.argv[i + 1];
+})();
 
 const PAIRINGS_MDX = path.join(ROOT, 'docs-site', 'content', 'docs', 'primitives', 'color-pairings.mdx');
 const MATRIX_START = '{/* matrix:start';
 const MATRIX_END = '{/* matrix:end */}';
 
 // ─── CSS parsing ────────────────────────────────────────────────────
+// The parsing, var() resolution and pairing evaluation live in
+// scripts/lib/contrast-pairings.mjs (shared with generate-client-theme.mjs).
+// It is ESM, so main() imports it; this file only assembles the Brik cascade.
 
-function parseDecls(blockBody) {
-  const vars = {};
-  const re = /(--[\w-]+)\s*:\s*([^;]+);/g;
-  let m;
-  while ((m = re.exec(blockBody)) !== null) {
-    vars[m[1]] = m[2].replace(/\/\*[\s\S]*?\*\//g, '').trim();
-  }
-  return vars;
-}
-
-/** Extract the flat declaration body of the first rule whose selector matches
- *  `selectorRe` (a RegExp matching the selector text immediately before `{`). */
-function extractBlock(cssPath, selectorRe) {
-  if (!fs.existsSync(cssPath)) return {};
-  const css = fs.readFileSync(cssPath, 'utf8');
-  const src = new RegExp(selectorRe.source + '\\s*\\{', selectorRe.flags);
-  const m = src.exec(css);
-  if (!m) return {};
-  const start = m.index + m[0].length;
-  const end = css.indexOf('}', start);
-  if (end === -1) return {};
-  return parseDecls(css.slice(start, end));
-}
-
-function resolveVar(value, vars, depth = 0) {
-  if (depth > 12 || typeof value !== 'string') return value;
-  const m = value.match(/^var\(\s*(--[\w-]+)\s*(?:,\s*([\s\S]+))?\)$/);
-  if (!m) return value;
-  const resolved = vars[m[1]];
-  if (resolved === undefined) return m[2] ? resolveVar(m[2].trim(), vars, depth + 1) : value;
-  return resolveVar(resolved, vars, depth + 1);
-}
-
-function resolveAll(merged) {
-  const out = {};
-  for (const [k, v] of Object.entries(merged)) out[k] = resolveVar(v, merged);
-  return out;
-}
-
-// ─── Alpha compositing (faded / disabled states) ────────────────────
-// Mirrors scripts/measure-disabled-contrast.mjs exactly, so a pairing's gate
-// ratio and that script's reported ratio are the same number.
-
-const DEFAULT_BACKDROP = '--background-primary';
-
-function hexToRgb(hex) {
-  const h = hex.replace('#', '');
-  const full = h.length === 3 ? h.split('').map((c) => c + c).join('') : h;
-  return [0, 2, 4].map((i) => parseInt(full.slice(i, i + 2), 16));
-}
-
-/**
- * A pairing's `alpha` is either a literal or a token name. Prefer the token:
- * `alpha: "--state-disabled-opacity"` means retuning that token re-scores every
- * faded pairing automatically, so the value and its gate cannot drift.
- */
-function resolveAlpha(spec, theme) {
-  const raw = typeof spec === 'string' && spec.startsWith('--') ? theme.vars[spec] : spec;
-  const n = typeof raw === 'string' ? Number.parseFloat(raw) : raw;
-  if (!Number.isFinite(n) || n <= 0 || n > 1) {
-    throw new Error(
-      `alpha "${spec}" resolved to "${raw}" in the ${theme.key} theme — ` +
-        `expected a number in (0, 1].`,
-    );
-  }
-  return n;
-}
-
-/** `over` painted at `alpha` on top of opaque `under`. */
-function composite(over, under, alpha) {
-  const u = hexToRgb(under);
-  return (
-    '#' +
-    hexToRgb(over)
-      .map((v, i) => Math.round(alpha * v + (1 - alpha) * u[i]))
-      .map((v) => v.toString(16).padStart(2, '0'))
-      .join('')
-  );
+function readCss(cssPath) {
+  return fs.existsSync(cssPath) ? fs.readFileSync(cssPath, 'utf8') : '';
 }
 
 // ─── Theme assembly (the real Brik default cascade) ─────────────────
@@ -141,109 +87,74 @@ function composite(over, under, alpha) {
 //   gap-fills dark sits after figma dark (equal specificity, loaded later in the
 //   import cascade) and before brandBrikDark (which pins at higher specificity).
 
-const figmaLight = extractBlock(FIGMA_LIGHT, /:root/);
-const gapFills = extractBlock(GAP_FILLS, /:root/);
-const gapFillsDark = extractBlock(GAP_FILLS, /:root\[data-theme="dark"\]/);
-const brandBrikLight = extractBlock(BRAND_BRIK, /(?:^|\})\s*\.theme-brand-brik/m);
-const figmaDark = extractBlock(FIGMA_DARK, /:root\[data-theme="dark"\]/);
-const brandBrikDark = extractBlock(BRAND_BRIK, /:root\[data-theme="dark"\]\s*\.theme-brand-brik/);
-
-const lightVars = resolveAll({ ...figmaLight, ...gapFills, ...brandBrikLight });
-const darkVars = resolveAll({ ...figmaLight, ...gapFills, ...brandBrikLight, ...figmaDark, ...gapFillsDark, ...brandBrikDark });
-
-const THEMES = [
-  { key: 'light', label: 'Brik · Light', vars: lightVars },
-  { key: 'dark', label: 'Brik · Dark', vars: darkVars },
-];
+function buildThemes({ extractBlock, resolveAll }) {
+  const figmaLight = extractBlock(readCss(FIGMA_LIGHT), /:root/);
+  const gapFills = extractBlock(readCss(GAP_FILLS), /:root/);
+  const gapFillsDark = extractBlock(readCss(GAP_FILLS), /:root\[data-theme="dark"\]/);
+  const brandBrikLight = extractBlock(readCss(BRAND_BRIK), /(?:^|\})\s*\.theme-brand-brik/m);
+  const figmaDark = extractBlock(readCss(FIGMA_DARK), /:root\[data-theme="dark"\]/);
+  const brandBrikDark = extractBlock(readCss(BRAND_BRIK), /:root\[data-theme="dark"\]\s*\.theme-brand-brik/);
+
+  const lightDecls = { ...figmaLight, ...gapFills, ...brandBrikLight };
+  const darkDecls = { ...figmaLight, ...gapFills, ...brandBrikLight, ...figmaDark, ...gapFillsDark, ...brandBrikDark };
+
+  // `decls` + `selector` are what --suggest needs to walk a token back to its
+  // ramp and to address the override block at the right theme rule.
+  return [
+    { key: 'light', label: 'Brik · Light', vars: resolveAll(lightDecls), decls: lightDecls, selector: '.theme-brand-brik' },
+    {
+      key: 'dark',
+      label: 'Brik · Dark',
+      vars: resolveAll(darkDecls),
+      decls: darkDecls,
+      selector: ':root[data-theme="dark"] .theme-brand-brik',
+    },
+  ];
+}
 
 // ─── Evaluation ─────────────────────────────────────────────────────
 
 async function main() {
-  const { contrastRatio, isHex } = await import('./lib/wcag.mjs');
-  const { thresholds } = DATASET;
-
-  const round = (n) => Math.round(n * 100) / 100;
-
-  const results = []; // { pairing, theme, ratio, threshold, thresholdType, status }
-  let hardFailures = 0;
-  let exceptions = 0;
-
-  let aaaWarnings = 0;
-
-  for (const pairing of DATASET.pairings) {
-    const target = thresholds[pairing.thresholdType];
-    // Hard floor = WCAG AA conformance: 3:1 for large/muted, 4.5:1 otherwise.
-    // AAA (7:1) is an aspiration for body text, not a blocking gate.
-    const floor = pairing.thresholdType === 'AA-large' ? thresholds['AA-large'] : thresholds['AA'];
-    for (const theme of THEMES) {
-      let fgVal = theme.vars[pairing.fg];
-      let bgVal = theme.vars[pairing.bg];
-      let status, ratio = null;
+  const lib = await import('./lib/contrast-pairings.mjs');
+  const themes = buildThemes(lib);
+  const { results, hardFailures, exceptions, aaaWarnings, apcaBelowTarget } = lib.evaluatePairings(DATASET, themes);
 
-      // A faded pairing scores the composited result, not the raw token pair.
-      if (pairing.alpha !== undefined && isHex(fgVal) && isHex(bgVal)) {
-        const alpha = resolveAlpha(pairing.alpha, theme);
-        const backdrop = theme.vars[pairing.over ?? DEFAULT_BACKDROP];
-        if (!isHex(backdrop)) {
-          throw new Error(
-            `Pairing "${pairing.label}": backdrop ${pairing.over ?? DEFAULT_BACKDROP} ` +
-              `does not resolve to a hex colour in the ${theme.key} theme.`,
-          );
-        }
-        fgVal = composite(fgVal, backdrop, alpha);
-        bgVal = composite(bgVal, backdrop, alpha);
-      }
-
-      if (pairing.appliesTo && !pairing.appliesTo.includes(theme.key)) {
-        // Pairing is mode-scoped: it only renders in the listed theme(s). The
-        // CSS swaps fg (or bg) by theme, so evaluating it in the off-theme
-        // would score a combination that never paints. Skip — not a failure.
-        status = 'na';
-      } else if (!fgVal || !bgVal || !isHex(fgVal) || !isHex(bgVal)) {
-        status = 'unresolved';
-      } else {
-        ratio = round(contrastRatio(fgVal, bgVal));
-        if (ratio >= target) {
-          status = 'pass';
-        } else if (ratio >= floor) {
-          // Clears the AA floor but misses the AAA aspiration → warn, don't block.
-          status = 'warn';
-          aaaWarnings++;
-        } else if (theme.key === 'dark' && pairing.darkException) {
-          // Genuine sub-threshold in dark on a pairing whose cause is tracked
-          // elsewhere (the service-tier gap #823; the faded Chip --secondary
-          // fill #1689). The row prints its own issue number.
-          status = 'exception';
-          exceptions++;
-        } else {
-          status = 'fail';
-          hardFailures++;
-        }
-      }
-      results.push({
-        label: pairing.label,
-        group: pairing.group,
-        fg: pairing.fg,
-        bg: pairing.bg,
-        theme: theme.key,
-        themeLabel: theme.label,
-        thresholdType: pairing.thresholdType,
-        threshold: target,
-        ratio,
-        status,
-        exception: pairing.darkException || null,
-      });
-    }
+  if (themeArg && !themes.some((t) => t.key === themeArg)) {
+    console.error(`✗ --theme must be one of ${themes.map((t) => t.key).join(', ')}`);
+    process.exit(1);
+  }
+  let suggestions = null;
+  if (suggestMode) {
+    const { suggestRepairs } = await import('./lib/contrast-repair.mjs');
+    suggestions = suggestRepairs(DATASET, themes, { theme: themeArg });
   }
 
   if (jsonMode) {
-    console.log(JSON.stringify({ themes: THEMES.map((t) => t.key), results, hardFailures, exceptions, aaaWarnings }, null, 2));
+    console.log(
+      JSON.stringify(
+        {
+          themes: themes.map((t) => t.key),
+          results,
+          hardFailures,
+          exceptions,
+          aaaWarnings,
+          apcaBelowTarget,
+          ...(suggestions ?? {}),
+        },
+        null,
+        2,
+      ),
+    );
   } else if (matrixMode) {
     emitMatrix(results);
   } else if (checkMatrixMode) {
     checkMatrix(results); // exits 0 (in sync) / 1 (drift or markers missing)
   } else {
-    report(results, hardFailures, exceptions, aaaWarnings);
+    report(results, hardFailures, exceptions, aaaWarnings, apcaBelowTarget);
+    if (suggestions) {
+      const { renderOverrideBlock } = await import('./lib/contrast-repair.mjs');
+      reportSuggestions(suggestions, renderOverrideBlock(suggestions.repairs, themes));
+    }
   }
 
   // Unresolved canonical tokens are a real problem (drift / typo) → fail.
@@ -255,7 +166,7 @@ async function main() {
 
 const ICON = { pass: '✓', warn: '·', fail: '✗', exception: '⚠', unresolved: '?' };
 
-function report(results, hardFailures, exceptions, aaaWarnings) {
+function report(results, hardFailures, exceptions, aaaWarnings, apcaBelowTarget) {
   console.log('\n🎨 BDS Contrast Pairing Gate\n');
   let lastGroup = null;
   for (const r of results) {
@@ -268,8 +179,12 @@ function report(results, hardFailures, exceptions, aaaWarnings) {
     const note = (x) =>
       x.status === 'warn' ? ' (below AAA aim)' : x.status === 'exception' ? ` (exception #${x.exception.issue})` : '';
     const fmt = (x) =>
-      x.status === 'unresolved' ? 'n/a' : x.status === 'na' ? 'n/a (mode-scoped)' : `${ICON[x.status]} ${x.ratio}:1${note(x)}`;
-    console.log(`  ${r.label}  [target ${r.thresholdType} ≥${r.threshold}]`);
+      x.status === 'unresolved'
+        ? 'n/a'
+        : x.status === 'na'
+          ? 'n/a (mode-scoped)'
+          : `${ICON[x.status]} ${x.ratio}:1 · Lc ${Math.abs(x.apca)}${note(x)}`;
+    console.log(`  ${r.label}  [target ${r.thresholdType} ≥${r.threshold} · APCA Lc ${r.apcaTarget}]`);
     console.log(`      light ${fmt(r)}    dark ${fmt(dark)}`);
   }
   console.log('\n  ─────────────────────────────');
@@ -281,9 +196,22 @@ function report(results, hardFailures, exceptions, aaaWarnings) {
     // non-service exception added since (#1687).
     console.log(`  ⚠  ${exceptions} dark-mode pairing(s) below threshold — tracked exception(s), see the rows above`);
   }
+  // APCA (WCAG 3 draft) is reported for review, never gated.
+  if (apcaBelowTarget > 0) console.log(`  ·  ${apcaBelowTarget} result(s) below their APCA Lc target (informational)`);
   console.log('');
 }
 
+function reportSuggestions({ repairs, unrepaired }, block) {
+  console.log('  ── SUGGESTED REPAIRS ──');
+  if (repairs.length === 0 && unrepaired.length === 0) {
+    console.log('  Nothing to repair.\n');
+    return;
+  }
+  if (block) console.log('\n' + block.replace(/^/gm, '  ') + '\n');
+  for (const u of unrepaired) console.log(`  ?  ${u.theme} · ${u.label} — ${u.reason}`);
+  if (unrepaired.length > 0) console.log('');
+}
+
 // Build the matrix as an array of Markdown table lines (header + separator + one
 // row per pairing). Shared by --emit-matrix (prints) and --check-matrix (compares).
 function buildMatrixLines(results) {
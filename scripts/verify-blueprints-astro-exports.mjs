@@ -734,6 +734,11 @@ const expectedFiles = [
   // this co-located source file, NOT the dist copy. Omitting it from `files`
   // breaks consumer `astro build` at "Could not resolve './types'" (#1428).
   'content-system/blueprints/astro/types.ts',
+  // Generated key surface (source) — `./types` re-exports it.
+  'content-system/blueprints/astro/blueprint-keys.generated.ts',
+  // Composition resolver (source) — imported by PageComposer.astro and
+  // re-exported from the barrel, so it must ship beside `./types`.
+  'content-system/blueprints/astro/compose-page.ts',
   // Shared section shell (source, global CSS) — every family blueprint
   // side-effect-imports `../section-shell.css` from its frontmatter. Omitting
   // it from `files` breaks consumer `astro build` at "Failed to resolve
@@ -752,9 +757,18 @@ const expectedFiles = [
   'content-system/blueprints/astro/TestimonialsFeaturedLarge.astro',
   'content-system/blueprints/astro/CtaSplitContact.astro',
   'content-system/blueprints/astro/CtaDarkCentered.astro',
+  'content-system/blueprints/astro/NavStickyBlur.astro',
+  'content-system/blueprints/astro/FeaturesBentoAsymmetric.astro',
+  'content-system/blueprints/astro/Testimonials3ColCards.astro',
+  'content-system/blueprints/astro/TeamBioGrid.astro',
+  'content-system/blueprints/astro/GalleryMasonry3Col.astro',
+  'content-system/blueprints/astro/FaqAccordionGrouped.astro',
+  'content-system/blueprints/astro/ContactFormSplit.astro',
+  'content-system/blueprints/astro/ContentLegalCentered.astro',
   // Dispatch surface (PR #7)
   'content-system/blueprints/astro/BlueprintDispatcher.astro',
   'content-system/blueprints/astro/BlueprintFallback.astro',
+  'content-system/blueprints/astro/PageComposer.astro',
   'content-system/blueprints/astro/SiteHeader.astro',
 ];
 
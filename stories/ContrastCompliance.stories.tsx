@@ -1,7 +1,7 @@
 import { useLayoutEffect, useState, type CSSProperties } from 'react';
 import type { Meta, StoryObj } from '@storybook/react-vite';
 import { DashboardFrame, DashboardSection } from './_components/DashboardFrame';
-import { contrastRatio } from './_components/wcag-contrast';
+import { apcaContrast, apcaMinimumLc, contrastRatio } from './_components/wcag-contrast';
 import { getAllThemes } from '../tokens/theme-registry';
 import pairingData from '../tokens/contrast-pairings.json';
 
@@ -14,6 +14,8 @@ import pairingData from '../tokens/contrast-pairings.json';
 // SAME set the CI gate (scripts/validate-themes.js) and the foundation doc
 // use. The visual pass/fail bar is the WCAG AA floor (3:1 for large/muted,
 // 4.5:1 otherwise); AAA is the documented body-text aim shown in the note.
+// APCA Lc is shown beside each ratio against the target its `font` context
+// calls for — informational only, like the gate.
 
 const AA_FLOOR = pairingData.thresholds['AA'];
 const AA_LARGE = pairingData.thresholds['AA-large'];
@@ -23,12 +25,14 @@ const CONTRAST_PAIRS: {
   text: string;
   bg: string;
   threshold: number;
+  apcaTarget: number;
   note?: string;
 }[] = pairingData.pairings.map((p) => ({
   label: p.label,
   text: p.fg,
   bg: p.bg,
   threshold: p.thresholdType === 'AA-large' ? AA_LARGE : AA_FLOOR,
+  apcaTarget: apcaMinimumLc('font' in p ? p.font : null),
   note:
     p.thresholdType === 'AAA'
       ? 'AAA body aim (7:1); AA floor enforced'
@@ -52,6 +56,10 @@ interface PairResult {
   ratio: number;
   threshold: number;
   pass: boolean;
+  /** APCA Lc, signed: positive is dark text on light, negative light on dark. */
+  apca: number;
+  apcaTarget: number;
+  apcaPass: boolean;
   note?: string;
 }
 
@@ -86,6 +94,7 @@ function probeThemes(): ThemeResult[] {
       const textValue = read(pair.text);
       const bgValue = read(pair.bg);
       const ratio = Math.round(contrastRatio(textValue, bgValue) * 100) / 100;
+      const apca = Math.round(apcaContrast(textValue, bgValue) * 10) / 10;
       return {
         label: pair.label,
         textToken: pair.text,
@@ -95,6 +104,9 @@ function probeThemes(): ThemeResult[] {
         ratio,
         threshold: pair.threshold,
         pass: ratio >= pair.threshold,
+        apca,
+        apcaTarget: pair.apcaTarget,
+        apcaPass: Math.abs(apca) >= pair.apcaTarget,
         note: pair.note,
       };
     });
@@ -210,6 +222,14 @@ function ThemeCard({ theme }: { theme: ThemeResult }) {
                 <div style={{ fontSize: 'var(--body-xs)', color: 'var(--text-muted)', marginTop: 2 }}>
                   target {pair.threshold}:1
                 </div>
+                {pair.ratio > 0 ? (
+                  <div
+                    style={{ fontSize: 'var(--body-xs)', color: 'var(--text-muted)', marginTop: 2 }}
+                    title="APCA (WCAG 3 draft) — informational, not gated"
+                  >
+                    {pair.apcaPass ? '' : '△ '}Lc {Math.abs(pair.apca).toFixed(1)} · APCA {pair.apcaTarget}
+                  </div>
+                ) : null}
               </td>
             </tr>
           ))}
@@ -264,7 +284,8 @@ function ContrastComplianceDashboard() {
       subtitle={
         <>
           WCAG contrast validation across the 3 built-in themes. Threshold is 4.5:1 for body text
-          (AA) and 3:1 for muted text and UI components (AA large).{' '}
+          (AA) and 3:1 for muted text and UI components (AA large). APCA Lc (WCAG 3 draft) is
+          shown beside each ratio for review and does not affect the verdict.{' '}
           <strong>
             {passing} of {results.length}
           </strong>{' '}
@@ -274,7 +295,7 @@ function ContrastComplianceDashboard() {
     >
       <DashboardSection
         title="Contrast matrix"
-        description="Each card probes the theme by applying its body classes and data-theme attribute, reading semantic token values via getComputedStyle, and computing the pair-wise contrast ratio. Swatches show background then text color."
+        description="Each card probes the theme by applying its body classes and data-theme attribute, reading semantic token values via getComputedStyle, and computing the pair-wise contrast ratio and APCA Lc. The Lc target comes from each pairing's font size and weight in tokens/contrast-pairings.json; △ marks a pair below it. Swatches show background then text color."
       >
         <div
           style={{
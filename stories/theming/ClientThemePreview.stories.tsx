@@ -0,0 +1,109 @@
+import type { Meta, StoryObj } from '@storybook/react-vite';
+import { useGlobals } from 'storybook/preview-api';
+import { Button } from '../../components/ui/Button/Button';
+import { ThemeProvider, useTheme, type GeneratedClientTheme } from '../../components/providers';
+import type { ThemeNumber } from '../../tokens';
+
+/* ─── Fixtures ────────────────────────────────────────────────── */
+
+// Trimmed from `npm run gen:client-theme -- --client acme --anchor primary=#2563eb
+// --dry-run --format json` — the primitives, light and dark maps are passed as-is.
+const ACME: GeneratedClientTheme = {
+  client: 'acme',
+  primitives: {
+    '--acme-primary-600': '#2563eb',
+    '--acme-primary-800': '#1641a0',
+  },
+  light: {
+    '--page-brand-primary': 'var(--acme-primary-600)',
+    '--text-brand-primary': 'var(--acme-primary-600)',
+    '--background-brand-primary': 'var(--acme-primary-600)',
+    '--background-brand-primary-hover': 'var(--acme-primary-800)',
+  },
+  dark: {
+    '--text-brand-primary': 'var(--acme-primary-600)',
+    '--background-brand-primary': 'var(--acme-primary-600)',
+  },
+};
+
+const TEAL = { '--background-brand-primary': '#0f766e', '--text-brand-primary': '#0f766e' };
+
+/* ─── Helpers ─────────────────────────────────────────────────── */
+
+function PreviewCard({ title }: { title: string }) {
+  const { tokens } = useTheme();
+  return (
+    <div
+      style={{
+        padding: 'var(--padding-lg)',
+        background: 'var(--page-primary)',
+        border: '1px solid var(--border-muted)', // bds-lint-ignore — card border
+        borderRadius: 'var(--border-radius-md)',
+        fontFamily: 'var(--font-family-body)',
+      }}
+    >
+      <h3 style={{ fontFamily: 'var(--font-family-heading)', color: 'var(--text-brand-primary)', marginTop: 0 }}>
+        {title}
+      </h3>
+      <Button>Book a visit</Button>
+      <dl style={{ fontSize: 'var(--body-xs)', color: 'var(--text-muted)', marginBottom: 0 }}>
+        {Object.entries(tokens).map(([name, value]) => (
+          <div key={name}>
+            <code>{name}</code>: {value}
+          </div>
+        ))}
+      </dl>
+    </div>
+  );
+}
+
+/* ─── Meta ────────────────────────────────────────────────────── */
+
+/**
+ * Runtime client-theme previews — nested `ThemeProvider`s each inject their
+ * own scoped layer, so two brands render side by side with no CSS file.
+ * @summary Live client-theme preview through ThemeProvider
+ */
+const meta: Meta = {
+  title: 'Overview/Client Theme Preview',
+  tags: ['surface-shared'],
+  parameters: {
+    layout: 'padded',
+    docs: {
+      description: {
+        component:
+          'Pass `clientTheme` (the JSON `generate-client-theme` prints) or a `tokens` override map to `ThemeProvider` to preview a brand before its `theme-{client}.css` exists. Storybook loads the BDS tokens unlayered, so these previews pass `layer={null}`; an app that declares the `@layer` order keeps the `client-theme` default.',
+      },
+    },
+  },
+  render: () => {
+    const [globals] = useGlobals();
+    const themeNumber = (globals.themeNumber || 'brik') as ThemeNumber;
+    return (
+      <ThemeProvider initialTheme={{ themeNumber }} persist={false} applyToBody={false}>
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fit, minmax(260px, 1fr))', gap: 'var(--gap-md)' }}>
+          <ThemeProvider>
+            <PreviewCard title="Brik (no overrides)" />
+          </ThemeProvider>
+          <ThemeProvider clientTheme={ACME} layer={null}>
+            <PreviewCard title="Acme (generated theme)" />
+          </ThemeProvider>
+          <ThemeProvider tokens={TEAL} layer={null}>
+            <PreviewCard title="Token overrides" />
+          </ThemeProvider>
+        </div>
+      </ThemeProvider>
+    );
+  },
+};
+
+export default meta;
+type Story = StoryObj;
+
+/**
+ * Three nested providers over one toolbar theme — switch light/dark with the
+ * toolbar and each scope follows.
+ *
+ * @summary Side-by-side client-theme previews
+ */
+export const Default: Story = {};
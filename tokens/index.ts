@@ -34,18 +34,44 @@ export type ColorMode = 'light' | 'dark' | 'brand' | 'accent';
 
 /**
  * Typography stack type
+ *
+ * @deprecated Never had CSS behind it. `BDSThemeConfig.typography` is now a
+ * `TypographyMode`, which still accepts these values and treats them as
+ * `default`.
  */
 export type TypographyStack = 'default' | 'serif' | 'modern' | 'classic';
 
 /**
- * Spacing density type
+ * Typography heading-scale mode → `data-mode-typography` (tokens/modes-typography.css).
+ * `serif` / `modern` / `classic` are the former `TypographyStack` values, kept so
+ * stored configs still type-check; they apply as `default`.
+ */
+export type TypographyMode =
+  | 'default'
+  | 'compact'
+  | 'comfortable'
+  | 'spacious'
+  | 'expressive'
+  | Exclude<TypographyStack, 'default'>;
+
+/** Former `TypographyStack` values — no scale of their own. */
+const LEGACY_TYPOGRAPHY_STACKS: ReadonlySet<string> = new Set(['serif', 'modern', 'classic']);
+
+/**
+ * Spacing density mode → `data-mode-spacing` (tokens/modes-spacing.css)
+ */
+export type SpacingMode = 'default' | 'compact' | 'comfortable' | 'spacious';
+
+/**
+ * Corner-radius mode → `data-mode-radius` (tokens/modes-radius.css).
+ * `rounded` is the pre-wiring name for `soft`, kept so stored configs still type-check.
  */
-export type SpacingMode = 'compact' | 'comfortable' | 'spacious';
+export type BorderMode = 'sharp' | 'soft' | 'round' | 'pill' | 'rounded';
 
 /**
- * Border style type
+ * Elevation mode → `data-mode-elevation` (tokens/modes-elevation.css)
  */
-export type BorderMode = 'sharp' | 'rounded' | 'pill';
+export type ElevationMode = 'flat' | 'subtle' | 'lifted' | 'dramatic';
 
 /**
  * Full theme configuration
@@ -54,20 +80,25 @@ export interface BDSThemeConfig {
   themeNumber: ThemeNumber;
   // Legacy support for friendly names
   colorMode?: ColorMode;
-  typography?: TypographyStack;
+  // Non-color modes — applied as `data-mode-*` on <html> (see getModeAttributes)
+  typography?: TypographyMode;
   spacing?: SpacingMode;
   border?: BorderMode;
+  elevation?: ElevationMode;
 }
 
 /**
  * Default theme configuration
+ *
+ * Every mode is its collection's Figma default, which sets no attribute.
  */
 export const defaultTheme: BDSThemeConfig = {
   themeNumber: 'brik',
   colorMode: 'light',
   typography: 'default',
-  spacing: 'comfortable',
-  border: 'rounded',
+  spacing: 'default',
+  border: 'soft',
+  elevation: 'subtle',
 };
 
 /**
@@ -104,6 +135,29 @@ export function getThemeClasses(config: Partial<BDSThemeConfig>): string {
   return classes.join(' ');
 }
 
+/**
+ * `data-mode-*` attributes for a config's non-color modes, for <html> (or
+ * any subtree). A collection's default mode maps to `null` — remove the
+ * attribute and the figma-tokens.css base applies.
+ *
+ * - spacing    → `data-mode-spacing`    (default: `default`)
+ * - typography → `data-mode-typography` (default: `default`; the legacy stacks are aliases)
+ * - border     → `data-mode-radius`     (default: `soft`; `rounded` is an alias)
+ * - elevation  → `data-mode-elevation`  (default: `subtle`)
+ */
+export function getModeAttributes(config: Partial<BDSThemeConfig>): Record<string, string | null> {
+  const mode = (value: string | undefined, base: string) => (!value || value === base ? null : value);
+  return {
+    'data-mode-spacing': mode(config.spacing, 'default'),
+    'data-mode-typography': mode(
+      config.typography && LEGACY_TYPOGRAPHY_STACKS.has(config.typography) ? 'default' : config.typography,
+      'default',
+    ),
+    'data-mode-radius': mode(config.border === 'rounded' ? 'soft' : config.border, 'soft'),
+    'data-mode-elevation': mode(config.elevation, 'subtle'),
+  };
+}
+
 /**
  * Grayscale color primitives
  */